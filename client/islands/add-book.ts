@@ -0,0 +1,120 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+/**
+ * AddBookIsland - Form that adds an ISBN to a Calil or local list
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <form class="add-book-form" data-island="add-book">
+ *   <input type="text" name="isbn" />
+ *   <select name="list">
+ *     <option value="wish" data-source="calil">📖 読みたい本</option>
+ *     <option value="owned" data-source="local">🏠 持っている本</option>
+ *   </select>
+ *   <button type="submit">➕ 追加</button>
+ *   <span class="add-book-status"></span>
+ * </form>
+ * ```
+ */
+export class AddBookIsland extends Island {
+    /** The form element */
+    private form: HTMLFormElement;
+
+    /** Select choosing the list the book will be added to */
+    private listSelect: HTMLSelectElement | null;
+
+    /** Element showing the result of the last submission */
+    private status: HTMLElement | null;
+
+    /**
+     * Create a new AddBookIsland
+     *
+     * @param root - Must be a <form> element containing a list <select>
+     * @throws {Error} If root is not a <form> element
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        if (!(root instanceof HTMLFormElement)) {
+            throw new Error('AddBookIsland root must be a <form> element');
+        }
+
+        this.form = root;
+        this.listSelect = root.querySelector('select[name="list"]');
+        this.status = root.querySelector('.add-book-status');
+    }
+
+    /**
+     * Hydrate the island by attaching the submit listener
+     */
+    hydrate(): void {
+        if (this.checkHydrated()) return;
+
+        this.form.addEventListener('submit', this.handleSubmit);
+
+        this.markHydrated();
+    }
+
+    /**
+     * Submit the ISBN to the API and reload the page on success
+     *
+     * @private
+     */
+    private handleSubmit = async (e: SubmitEvent): Promise<void> => {
+        e.preventDefault();
+
+        const isbn = String(new FormData(this.form).get('isbn') || '').trim();
+        const option = this.listSelect?.selectedOptions[0];
+        const listType = option?.value || '';
+        if (!isbn || !listType) return;
+
+        const endpoint = option?.dataset.source === 'local'
+            ? `/api/local-lists/${listType}/items`
+            : `/api/lists/${listType}/items`;
+
+        this.setStatus('追加中...');
+
+        try {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ isbn }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            logger.info('➕ Book added:', { listType, isbn });
+            this.setStatus('追加しました');
+            location.href = `/?tab=${listType}`;
+        } catch (error) {
+            logger.error('Failed to add book', error, { isbn });
+            this.setStatus(`追加に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    /**
+     * Show a status message next to the form
+     *
+     * @private
+     */
+    private setStatus(message: string): void {
+        if (this.status) {
+            this.status.textContent = message;
+        }
+    }
+
+    /**
+     * Cleanup event listeners when island is destroyed
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.form.removeEventListener('submit', this.handleSubmit);
+        super.destroy();
+    }
+}
@@ -0,0 +1,312 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+type LoginState =
+    | 'launching_browser'
+    | 'waiting_for_user'
+    | 'capturing_cookies'
+    | 'validated'
+    | 'failed'
+    | 'cancelled';
+
+type LoginJob = {
+    id: string;
+    state: LoginState;
+    error?: string;
+};
+
+type CookieImportReport = {
+    format: 'netscape' | 'json' | 'header';
+    accepted: string[];
+    rejected: { name: string; reason: string }[];
+};
+
+const SESSION_LABELS: Record<string, string> = {
+    VALID: '✅ ログイン済み',
+    EXPIRED: '⚠️ セッション切れ',
+    NO_COOKIE: '未ログイン',
+    LOCKED: '🔒 保管庫がロックされています。パスフレーズを入力してください',
+    UNKNOWN: '❔ Calil に接続できないため確認できません',
+};
+
+const LOGIN_LABELS: Record<LoginState, string> = {
+    launching_browser: 'ブラウザを起動しています...',
+    waiting_for_user: 'ブラウザでログインしてください',
+    capturing_cookies: 'Cookie を取得しています...',
+    validated: 'ログインしました',
+    failed: 'ログインに失敗しました',
+    cancelled: 'ログインをキャンセルしました',
+};
+
+const RUNNING_STATES: LoginState[] = ['launching_browser', 'waiting_for_user', 'capturing_cookies'];
+
+/**
+ * AuthPanelIsland - Calil login status and controls
+ *
+ * Features:
+ * - Session: Shows /auth/status and an unlock form while the vault is locked
+ * - Login: Starts/cancels the login job and follows it through /auth/events (SSE)
+ * - Cookies: Registers pasted cookies (cookies.txt, extension JSON or a Cookie
+ *   header) via POST /auth/cookie and lists accepted/rejected ones
+ * - Logout: Clears the stored session
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <main data-island="auth-panel">
+ *   <p class="auth-session-state"></p>
+ *   <form class="auth-unlock-form" hidden>...</form>
+ *   <p class="auth-login-state"></p>
+ *   <button data-action="start">...</button>
+ *   <button data-action="cancel" hidden>...</button>
+ *   <button data-action="logout">...</button>
+ *   <form class="auth-cookie-form">...</form>
+ *   <p class="auth-message"></p>
+ * </main>
+ * ```
+ */
+export class AuthPanelIsland extends Island {
+    /** Element showing the session state */
+    private sessionState: HTMLElement | null;
+
+    /** Element showing the login job state */
+    private loginState: HTMLElement | null;
+
+    /** Passphrase form, shown while the vault is locked */
+    private unlockForm: HTMLFormElement | null;
+
+    /** Manual cookie registration form */
+    private cookieForm: HTMLFormElement | null;
+
+    /** Element showing results of the forms and buttons */
+    private message: HTMLElement | null;
+
+    /** Login progress stream */
+    private events: EventSource | null = null;
+
+    /**
+     * Create a new AuthPanelIsland
+     *
+     * @param root - Container holding the status, buttons and forms
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        this.sessionState = root.querySelector('.auth-session-state');
+        this.loginState = root.querySelector('.auth-login-state');
+        this.unlockForm = root.querySelector('.auth-unlock-form');
+        this.cookieForm = root.querySelector('.auth-cookie-form');
+        this.message = root.querySelector('.auth-message');
+    }
+
+    /**
+     * Hydrate the island: attach listeners, subscribe to login events
+     * and load the session state
+     */
+    async hydrate(): Promise<void> {
+        if (this.checkHydrated()) return;
+
+        this.root.addEventListener('click', this.handleClick);
+        this.unlockForm?.addEventListener('submit', this.handleUnlock);
+        this.cookieForm?.addEventListener('submit', this.handleCookie);
+
+        this.events = new EventSource('/auth/events');
+        this.events.addEventListener('login', this.handleLoginEvent);
+
+        this.markHydrated();
+        await this.refreshStatus();
+    }
+
+    /**
+     * Handle start/cancel/logout buttons
+     *
+     * @private
+     */
+    private handleClick = async (e: MouseEvent): Promise<void> => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        if (!button) return;
+
+        const action = button.dataset.action;
+        try {
+            if (action === 'start') {
+                await this.post('/auth/start');
+            } else if (action === 'cancel') {
+                await this.post('/auth/cancel');
+            } else if (action === 'logout') {
+                await this.post('/auth/logout');
+                this.setMessage('ログアウトしました');
+                await this.refreshStatus();
+            }
+        } catch (error) {
+            logger.error('Auth action failed', error, { action });
+            this.setMessage(`操作に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    /**
+     * Render login job updates and refresh the session when it finishes
+     *
+     * @private
+     */
+    private handleLoginEvent = async (event: MessageEvent<string>): Promise<void> => {
+        const job: LoginJob | null = JSON.parse(event.data);
+        this.renderLogin(job);
+
+        if (job?.state === 'validated') {
+            await this.refreshStatus();
+        }
+    };
+
+    /**
+     * Unlock the vault with the entered passphrase
+     *
+     * @private
+     */
+    private handleUnlock = async (e: SubmitEvent): Promise<void> => {
+        e.preventDefault();
+        if (!this.unlockForm) return;
+
+        const passphrase = String(new FormData(this.unlockForm).get('passphrase') || '');
+        try {
+            await this.post('/auth/unlock', { passphrase });
+            this.unlockForm.reset();
+            this.setMessage('保管庫を解錠しました');
+            await this.refreshStatus();
+        } catch (error) {
+            logger.error('Failed to unlock vault', error);
+            this.setMessage('パスフレーズが違います');
+        }
+    };
+
+    /**
+     * Register pasted cookies and report which ones were accepted
+     *
+     * @private
+     */
+    private handleCookie = async (e: SubmitEvent): Promise<void> => {
+        e.preventDefault();
+        if (!this.cookieForm) return;
+
+        const cookie = String(new FormData(this.cookieForm).get('cookie') || '').trim();
+        try {
+            const response = await fetch('/auth/cookie', { method: 'POST', body: cookie });
+            const data: CookieImportReport & { error?: string } = await response.json().catch(() => ({}));
+            const report = this.describeImport(data);
+            if (!response.ok) {
+                throw new Error([data.error || `HTTP error! status: ${response.status}`, report].filter(Boolean).join(' / '));
+            }
+            this.cookieForm.reset();
+            this.setMessage(`Cookie を登録しました（${report}）`);
+            await this.refreshStatus();
+        } catch (error) {
+            logger.error('Failed to register cookies', error);
+            this.setMessage(`Cookie の登録に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    /**
+     * Summarize accepted/rejected cookies of an import
+     *
+     * @private
+     */
+    private describeImport(report: Partial<CookieImportReport>): string {
+        const parts: string[] = [];
+        if (report.accepted?.length) {
+            parts.push(`登録: ${report.accepted.join(', ')}`);
+        }
+        if (report.rejected?.length) {
+            parts.push(`除外: ${report.rejected.map((r) => `${r.name || '(名前なし)'} - ${r.reason}`).join(', ')}`);
+        }
+        return parts.join(' / ');
+    }
+
+    /**
+     * POST JSON to an auth endpoint
+     *
+     * @private
+     * @throws When the response is not ok
+     */
+    private async post(url: string, body?: unknown): Promise<void> {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+    }
+
+    /**
+     * Load /auth/status and show it
+     *
+     * @private
+     */
+    private async refreshStatus(): Promise<void> {
+        if (!this.sessionState) return;
+
+        try {
+            const response = await fetch('/auth/status');
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            const { state, demo }: { state: string; demo?: boolean } = await response.json();
+            this.sessionState.dataset.state = state;
+            this.sessionState.textContent = (SESSION_LABELS[state] ?? state) + (demo ? '（デモモード）' : '');
+            if (this.unlockForm) {
+                this.unlockForm.hidden = state !== 'LOCKED';
+            }
+        } catch (error) {
+            logger.error('Failed to load auth status', error);
+            this.sessionState.textContent = '状態を取得できませんでした';
+        }
+    }
+
+    /**
+     * Show the login job state and toggle the start/cancel buttons
+     *
+     * @private
+     */
+    private renderLogin(job: LoginJob | null): void {
+        const running = !!job && RUNNING_STATES.includes(job.state);
+
+        if (this.loginState) {
+            this.loginState.dataset.state = job?.state ?? '';
+            this.loginState.textContent = job
+                ? LOGIN_LABELS[job.state] + (job.error ? `: ${job.error}` : '')
+                : '';
+        }
+
+        const start = this.root.querySelector<HTMLButtonElement>('button[data-action="start"]');
+        const cancel = this.root.querySelector<HTMLButtonElement>('button[data-action="cancel"]');
+        if (start) start.disabled = running;
+        if (cancel) cancel.hidden = !running;
+    }
+
+    /**
+     * Show a message below the cookie form
+     *
+     * @private
+     */
+    private setMessage(message: string): void {
+        if (this.message) {
+            this.message.textContent = message;
+        }
+    }
+
+    /**
+     * Close the event stream and remove listeners
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.events?.close();
+        this.events = null;
+        this.root.removeEventListener('click', this.handleClick);
+        this.unlockForm?.removeEventListener('submit', this.handleUnlock);
+        this.cookieForm?.removeEventListener('submit', this.handleCookie);
+        super.destroy();
+    }
+}
@@ -0,0 +1,138 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+type AvailabilityResponse = {
+    isbn: string;
+    status: 'available' | 'checked_out' | 'not_owned' | 'unknown';
+    label: string;
+    libraries: {
+        systemId: string;
+        status: string;
+        reserveUrl: string | null;
+        branches: Record<string, string>;
+    }[];
+};
+
+/**
+ * AvailabilityBadgeIsland - Library availability badge on a book card
+ *
+ * Features:
+ * - Lazy loading: Asks the server only once the card scrolls into view
+ * - Badge: Shows 貸出可 / 貸出中 / 蔵書なし for the configured libraries
+ * - Reserve link: Links to the library's page when Calil provides one
+ *
+ * @remarks
+ * The server merges concurrent lookups into one Calil check, so requests
+ * are not throttled here.
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <span class="availability-badge" data-island="availability-badge" data-isbn="9784123456789">
+ *   図書館: 確認中...
+ * </span>
+ * ```
+ */
+export class AvailabilityBadgeIsland extends Island {
+    /** ISBN-13 of the book */
+    private isbn: string;
+
+    /** Observer waiting for the badge to become visible */
+    private observer: IntersectionObserver | null = null;
+
+    /**
+     * Create a new AvailabilityBadgeIsland
+     *
+     * @param root - The root DOM element with data-isbn attribute
+     * @throws {Error} If data-isbn attribute is missing
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        this.isbn = root.dataset.isbn || '';
+
+        if (!this.isbn) {
+            throw new Error('AvailabilityBadgeIsland requires data-isbn attribute');
+        }
+    }
+
+    /**
+     * Hydrate the island by waiting for the badge to become visible
+     */
+    hydrate(): void {
+        if (this.checkHydrated()) return;
+
+        this.observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                this.observer?.disconnect();
+                this.observer = null;
+                this.load();
+            }
+        }, { rootMargin: '100px' });
+        this.observer.observe(this.root);
+
+        this.markHydrated();
+    }
+
+    /**
+     * Fetch availability and render the badge
+     *
+     * @private
+     */
+    private async load(): Promise<void> {
+        try {
+            const response = await fetch(`/api/availability/${this.isbn}`);
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            const data: AvailabilityResponse = await response.json();
+            this.render(data);
+        } catch (error) {
+            logger.warn('📚 Failed to load availability', error, { isbn: this.isbn });
+            this.root.textContent = '図書館: 確認できません';
+            this.root.classList.add('unknown');
+        }
+    }
+
+    /**
+     * Render the badge from the API response
+     *
+     * @private
+     */
+    private render(data: AvailabilityResponse): void {
+        this.root.classList.add(data.status);
+
+        const reserveUrl = data.libraries.find((lib) => lib.status !== 'not_owned' && lib.reserveUrl)?.reserveUrl;
+        const branches = data.libraries
+            .flatMap((lib) => Object.entries(lib.branches))
+            .map(([branch, status]) => `${branch}: ${status}`)
+            .join('\n');
+
+        if (branches) {
+            this.root.title = branches;
+        }
+
+        if (reserveUrl) {
+            const link = document.createElement('a');
+            link.href = reserveUrl;
+            link.target = '_blank';
+            link.rel = 'noopener';
+            link.textContent = `図書館: ${data.label}`;
+            this.root.replaceChildren(link);
+        } else {
+            this.root.textContent = `図書館: ${data.label}`;
+        }
+    }
+
+    /**
+     * Stop observing when island is destroyed
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.observer?.disconnect();
+        this.observer = null;
+        super.destroy();
+    }
+}
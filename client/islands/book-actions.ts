@@ -0,0 +1,187 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+/**
+ * BookActionsIsland - Buttons that modify lists from a book card
+ *
+ * Features:
+ * - Move: Moves the book to another Calil list (e.g. wish → read); the card
+ *   stays if the book was added there but could not be removed here
+ * - Copy: Copies the book from a Calil list into a local list
+ * - Remove: Deletes the book from the current list (Calil or local)
+ * - Optimistic removal: The card is removed once the server confirms
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <div class="book-actions" data-island="book-actions" data-list-type="wish" data-list-source="calil" data-book-id="123">
+ *   <button type="button" data-action="move" data-to="read">✅ 読んだ本へ</button>
+ *   <button type="button" data-action="copy" data-to="owned">🏠 持っている本にコピー</button>
+ *   <button type="button" data-action="remove">🗑️ 削除</button>
+ * </div>
+ * ```
+ */
+export class BookActionsIsland extends Island {
+    /** List the book currently belongs to */
+    private listType: string;
+
+    /** Where the list lives: "calil" or "local" */
+    private listSource: string;
+
+    /** Calil list entry id or local list item id */
+    private bookId: string;
+
+    /** Whether a request is in progress */
+    private busy = false;
+
+    /**
+     * Create a new BookActionsIsland
+     *
+     * @param root - Element with data-list-type and data-book-id attributes
+     * @throws {Error} If data-list-type or data-book-id is missing
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        this.listType = root.dataset.listType || '';
+        this.listSource = root.dataset.listSource || 'calil';
+        this.bookId = root.dataset.bookId || '';
+
+        if (!this.listType || !this.bookId) {
+            throw new Error('BookActionsIsland requires data-list-type and data-book-id attributes');
+        }
+    }
+
+    /**
+     * Hydrate the island by attaching a delegated click listener
+     */
+    hydrate(): void {
+        if (this.checkHydrated()) return;
+
+        this.root.addEventListener('click', this.handleClick);
+
+        this.markHydrated();
+    }
+
+    /**
+     * Handle clicks on action buttons
+     *
+     * @private
+     */
+    private handleClick = async (e: MouseEvent): Promise<void> => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        if (!button || this.busy) return;
+
+        const action = button.dataset.action;
+        if (action === 'remove' && !confirm('この本をリストから削除しますか？')) {
+            return;
+        }
+
+        this.setBusy(true);
+
+        try {
+            const response = await this.request(action, button.dataset.to);
+
+            if (action === 'copy' && response.status === 409) {
+                button.textContent = 'コピー済み';
+                this.setBusy(false);
+                button.disabled = true;
+                return;
+            }
+
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            // Added to the target list but still in this one; moving again would add it twice
+            if (action === 'move' && response.status === 207) {
+                logger.warn('Book added but not removed from the list', { listType: this.listType, bookId: this.bookId });
+                alert('移動先には追加しましたが、このリストから削除できませんでした。削除ボタンで削除してください。');
+                this.setBusy(false);
+                return;
+            }
+
+            logger.info('📝 List updated:', { action, listType: this.listType, bookId: this.bookId });
+
+            if (action === 'copy') {
+                button.textContent = 'コピーしました';
+                this.setBusy(false);
+                button.disabled = true;
+                return;
+            }
+
+            this.removeCard();
+        } catch (error) {
+            logger.error('Failed to update list', error, { action, bookId: this.bookId });
+            alert('リストの更新に失敗しました。');
+            this.setBusy(false);
+        }
+    };
+
+    /**
+     * Send the API request for an action
+     *
+     * @private
+     */
+    private request(action: string | undefined, to: string | undefined): Promise<Response> {
+        const bookId = encodeURIComponent(this.bookId);
+
+        if (action === 'copy') {
+            return fetch(`/api/local-lists/${to}/items`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fromList: this.listType, bookId: this.bookId }),
+            });
+        }
+
+        if (this.listSource === 'local') {
+            return fetch(`/api/local-lists/${this.listType}/items/${bookId}`, { method: 'DELETE' });
+        }
+
+        const base = `/api/lists/${this.listType}/items/${bookId}`;
+        return action === 'move'
+            ? fetch(`${base}/move`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ to }),
+            })
+            : fetch(base, { method: 'DELETE' });
+    }
+
+    /**
+     * Enable/disable all action buttons
+     *
+     * @private
+     */
+    private setBusy(busy: boolean): void {
+        this.busy = busy;
+        this.root.querySelectorAll<HTMLButtonElement>('button').forEach((button) => {
+            button.disabled = busy;
+        });
+    }
+
+    /**
+     * Remove the book card and decrement the tab count of the current list
+     *
+     * @private
+     */
+    private removeCard(): void {
+        this.root.closest('.book-card')?.remove();
+
+        const tab = document.querySelector(`.tab-button[href="/?tab=${this.listType}"] .tab-count`);
+        const count = tab ? parseInt(tab.textContent || '', 10) : NaN;
+        if (tab && !isNaN(count)) {
+            tab.textContent = String(Math.max(0, count - 1));
+        }
+    }
+
+    /**
+     * Cleanup event listeners when island is destroyed
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.root.removeEventListener('click', this.handleClick);
+        super.destroy();
+    }
+}
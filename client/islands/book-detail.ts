@@ -8,6 +8,7 @@ import { logger } from '../shared/logger';
  * - Lazy loading: Fetches book details only when accordion is opened
  * - Caching: Loads data only once per ISBN
  * - Progressive enhancement: Works with native <details> element
+ * - Record selection: "この書誌を使う" switches to another NDL record of the ISBN
  *
  * @example
  * HTML structure:
@@ -72,6 +73,8 @@ export class BookDetailIsland extends Island {
 
         // Add toggle listener
         this.details.addEventListener('toggle', this.handleToggle);
+        // Candidate buttons are re-rendered with the content, so delegate
+        this.contentDiv?.addEventListener('click', this.handleSelectRecord);
 
         this.markHydrated();
         logger.info('📖 BookDetailIsland hydrated:', this.isbn);
@@ -123,6 +126,37 @@ export class BookDetailIsland extends Island {
         }
     }
 
+    /**
+     * Handle clicks on "この書誌を使う" buttons of the alternative records
+     * The server swaps the records and returns the re-rendered details.
+     *
+     * @private
+     */
+    private handleSelectRecord = async (event: Event): Promise<void> => {
+        const button = (event.target as HTMLElement).closest<HTMLButtonElement>('.select-record');
+        if (!button || !this.contentDiv) return;
+
+        const position = Number(button.dataset.position);
+        button.disabled = true;
+
+        try {
+            const response = await fetch(`/api/books/${this.isbn}/record`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ position }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            this.contentDiv.innerHTML = await response.text();
+        } catch (error) {
+            button.disabled = false;
+            logger.error('Failed to select record', error, { isbn: this.isbn, position });
+        }
+    };
+
     /**
      * Cleanup event listeners when island is destroyed
      *
@@ -130,6 +164,7 @@ export class BookDetailIsland extends Island {
      */
     override destroy(): void {
         this.details.removeEventListener('toggle', this.handleToggle);
+        this.contentDiv?.removeEventListener('click', this.handleSelectRecord);
         super.destroy();
     }
 }
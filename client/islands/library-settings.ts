@@ -0,0 +1,301 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+type Library = {
+    libid: string;
+    systemid: string;
+    systemname: string;
+    formal: string;
+    pref: string;
+    city: string;
+};
+
+/**
+ * LibrarySettingsIsland - Search libraries and manage favorite systemids
+ *
+ * Features:
+ * - Search: Filters imported libraries by prefecture, city and name
+ * - Import: Pulls the selected prefecture from Calil's library master
+ * - Favorites: Adds/removes systemids and saves them via PUT /api/settings/libraries
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <main data-island="library-settings">
+ *   <ul class="favorite-libraries"><li data-systemid="Tokyo_Setagaya">...</li></ul>
+ *   <form class="library-search-form">...</form>
+ *   <p class="library-search-status"></p>
+ *   <ul class="library-results"></ul>
+ * </main>
+ * ```
+ */
+export class LibrarySettingsIsland extends Island {
+    /** Search form (pref/city/q) */
+    private form: HTMLFormElement | null;
+
+    /** Prefecture select inside the search form */
+    private prefSelect: HTMLSelectElement | null;
+
+    /** List of favorite systems */
+    private favorites: HTMLElement | null;
+
+    /** List of search results */
+    private results: HTMLElement | null;
+
+    /** Element showing search/import status */
+    private status: HTMLElement | null;
+
+    /**
+     * Create a new LibrarySettingsIsland
+     *
+     * @param root - Container holding the favorites list and search form
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        this.form = root.querySelector('.library-search-form');
+        this.prefSelect = root.querySelector('.library-search-form select[name="pref"]');
+        this.favorites = root.querySelector('.favorite-libraries');
+        this.results = root.querySelector('.library-results');
+        this.status = root.querySelector('.library-search-status');
+    }
+
+    /**
+     * Hydrate the island by attaching form and click listeners
+     */
+    hydrate(): void {
+        if (this.checkHydrated()) return;
+
+        this.form?.addEventListener('submit', this.handleSubmit);
+        this.prefSelect?.addEventListener('change', this.handlePrefChange);
+        this.root.addEventListener('click', this.handleClick);
+
+        this.markHydrated();
+    }
+
+    /**
+     * Search libraries with the current form values
+     *
+     * @private
+     */
+    private handleSubmit = async (e: SubmitEvent): Promise<void> => {
+        e.preventDefault();
+        await this.search();
+    };
+
+    /**
+     * Refresh the city list and results when the prefecture changes
+     *
+     * @private
+     */
+    private handlePrefChange = async (): Promise<void> => {
+        const city = this.form?.elements.namedItem('city');
+        if (city instanceof HTMLSelectElement) {
+            city.value = '';
+        }
+        await this.search();
+    };
+
+    /**
+     * Handle add/remove/import buttons
+     *
+     * @private
+     */
+    private handleClick = async (e: MouseEvent): Promise<void> => {
+        const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+        if (!button) return;
+
+        const action = button.dataset.action;
+        if (action === 'import') {
+            await this.importPref();
+        } else if (action === 'add') {
+            const systemId = button.dataset.systemid;
+            if (systemId && !this.getFavoriteIds().includes(systemId)) {
+                await this.saveFavorites([...this.getFavoriteIds(), systemId]);
+            }
+        } else if (action === 'remove') {
+            const systemId = button.closest<HTMLElement>('[data-systemid]')?.dataset.systemid;
+            await this.saveFavorites(this.getFavoriteIds().filter((id) => id !== systemId));
+        }
+    };
+
+    /**
+     * Query the library registry and render the results
+     *
+     * @private
+     */
+    private async search(): Promise<void> {
+        if (!this.form) return;
+
+        const data = new FormData(this.form);
+        const params = new URLSearchParams();
+        for (const key of ['pref', 'city', 'q']) {
+            const value = String(data.get(key) || '').trim();
+            if (value) params.set(key, value);
+        }
+
+        try {
+            const response = await fetch(`/api/libraries?${params}`);
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            const result: { cities: string[]; libraries: Library[] } = await response.json();
+            this.renderCities(result.cities);
+            this.renderResults(result.libraries);
+            this.setStatus(
+                result.libraries.length > 0
+                    ? `${result.libraries.length}件`
+                    : '見つかりませんでした。都道府県を選んで取り込んでください。',
+            );
+        } catch (error) {
+            logger.error('Failed to search libraries', error);
+            this.setStatus('検索に失敗しました');
+        }
+    }
+
+    /**
+     * Import the selected prefecture from Calil, then search again
+     *
+     * @private
+     */
+    private async importPref(): Promise<void> {
+        const pref = this.form ? String(new FormData(this.form).get('pref') || '') : '';
+        if (!pref) {
+            this.setStatus('都道府県を選択してください');
+            return;
+        }
+
+        this.setStatus(`${pref}の図書館を取り込み中...`);
+
+        try {
+            const response = await fetch('/api/libraries/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ pref }),
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || `HTTP error! status: ${response.status}`);
+            }
+
+            logger.info('🏛️ Libraries imported:', { pref });
+            await this.search();
+        } catch (error) {
+            logger.error('Failed to import libraries', error, { pref });
+            this.setStatus(`取り込みに失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Save favorite systemids and reload the page to show them
+     *
+     * @private
+     */
+    private async saveFavorites(systemIds: string[]): Promise<void> {
+        try {
+            const response = await fetch('/api/settings/libraries', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ systemIds }),
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            logger.info('🏛️ Favorite libraries saved:', { systemIds });
+            location.reload();
+        } catch (error) {
+            logger.error('Failed to save favorite libraries', error);
+            alert('お気に入り図書館の保存に失敗しました。');
+        }
+    }
+
+    /**
+     * Current favorite systemids in display order
+     *
+     * @private
+     */
+    private getFavoriteIds(): string[] {
+        return Array.from(this.favorites?.querySelectorAll<HTMLElement>('[data-systemid]') ?? [])
+            .map((item) => item.dataset.systemid || '')
+            .filter(Boolean);
+    }
+
+    /**
+     * Fill the city select, keeping the current selection
+     *
+     * @private
+     */
+    private renderCities(cities: string[]): void {
+        const select = this.form?.elements.namedItem('city');
+        if (!(select instanceof HTMLSelectElement)) return;
+
+        const current = select.value;
+        const options = [new Option('市区町村', ''), ...cities.map((city) => new Option(city, city))];
+        select.replaceChildren(...options);
+        select.value = cities.includes(current) ? current : '';
+    }
+
+    /**
+     * Render search results grouped by systemid
+     *
+     * @private
+     */
+    private renderResults(libraries: Library[]): void {
+        if (!this.results) return;
+
+        const favorites = new Set(this.getFavoriteIds());
+        const systems = new Map<string, Library[]>();
+        for (const lib of libraries) {
+            systems.set(lib.systemid, [...(systems.get(lib.systemid) ?? []), lib]);
+        }
+
+        const items = Array.from(systems.entries()).map(([systemId, branches]) => {
+            const item = document.createElement('li');
+
+            const name = document.createElement('span');
+            name.className = 'library-name';
+            name.textContent = branches[0]?.systemname || systemId;
+
+            const meta = document.createElement('span');
+            meta.className = 'library-meta';
+            meta.textContent = branches.map((lib) => lib.formal).join('、');
+
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.dataset.action = 'add';
+            button.dataset.systemid = systemId;
+            button.textContent = favorites.has(systemId) ? '登録済み' : '追加';
+            button.disabled = favorites.has(systemId);
+
+            item.append(name, meta, button);
+            return item;
+        });
+
+        this.results.replaceChildren(...items);
+    }
+
+    /**
+     * Show a status message below the search form
+     *
+     * @private
+     */
+    private setStatus(message: string): void {
+        if (this.status) {
+            this.status.textContent = message;
+        }
+    }
+
+    /**
+     * Cleanup event listeners when island is destroyed
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.form?.removeEventListener('submit', this.handleSubmit);
+        this.prefSelect?.removeEventListener('change', this.handlePrefChange);
+        this.root.removeEventListener('click', this.handleClick);
+        super.destroy();
+    }
+}
@@ -1,13 +1,28 @@
 import { Island } from './base';
+import { AddBookIsland } from './add-book';
+import { AuthPanelIsland } from './auth-panel';
+import { AvailabilityBadgeIsland } from './availability-badge';
+import { BookActionsIsland } from './book-actions';
 import { BookDetailIsland } from './book-detail';
 import { CoverImageIsland } from './cover-image';
+import { LibrarySettingsIsland } from './library-settings';
+import { SessionBannerIsland } from './session-banner';
 import { TabNavigationIsland } from './tab-navigation';
 import { logger } from '../shared/logger';
 
 /**
  * Valid island type identifiers that can be used in data-island attribute
  */
-type IslandType = 'book-detail' | 'cover-image' | 'tab-navigation';
+type IslandType =
+    | 'add-book'
+    | 'auth-panel'
+    | 'availability-badge'
+    | 'book-actions'
+    | 'book-detail'
+    | 'cover-image'
+    | 'library-settings'
+    | 'session-banner'
+    | 'tab-navigation';
 
 /**
  * Constructor signature for Island classes
@@ -32,8 +47,14 @@ type IslandConstructor = new (root: HTMLElement) => Island;
  * ```
  */
 const ISLAND_REGISTRY: Record<IslandType, IslandConstructor> = {
+    'add-book': AddBookIsland,
+    'auth-panel': AuthPanelIsland,
+    'availability-badge': AvailabilityBadgeIsland,
+    'book-actions': BookActionsIsland,
     'book-detail': BookDetailIsland,
     'cover-image': CoverImageIsland,
+    'library-settings': LibrarySettingsIsland,
+    'session-banner': SessionBannerIsland,
     'tab-navigation': TabNavigationIsland,
 };
 
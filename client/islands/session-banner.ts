@@ -0,0 +1,86 @@
+import { Island } from './base';
+import { logger } from '../shared/logger';
+
+type SessionStatus = {
+    state: 'unknown' | 'valid' | 'refreshing' | 'needs_login' | 'locked';
+    error?: string;
+};
+
+const MESSAGES: Partial<Record<SessionStatus['state'], string>> = {
+    needs_login: 'Calil へのログインが必要です。',
+    locked: 'Cookie 保管庫がロックされています。',
+};
+
+/**
+ * SessionBannerIsland - Tells the user when the Calil session needs attention
+ *
+ * Features:
+ * - Follows the session keeper through /auth/events (event: session)
+ * - Shows a link to the auth page while a login (or unlock) is needed
+ *
+ * @example
+ * HTML structure:
+ * ```html
+ * <div class="session-banner" data-island="session-banner" hidden>
+ *   <span class="session-banner-message"></span>
+ *   <a href="/auth">ログインする</a>
+ * </div>
+ * ```
+ */
+export class SessionBannerIsland extends Island {
+    /** Element holding the message */
+    private message: HTMLElement | null;
+
+    /** Session state stream */
+    private events: EventSource | null = null;
+
+    /**
+     * Create a new SessionBannerIsland
+     *
+     * @param root - The banner element
+     */
+    constructor(root: HTMLElement) {
+        super(root);
+
+        this.message = root.querySelector('.session-banner-message');
+    }
+
+    /**
+     * Hydrate the island by subscribing to session events
+     */
+    hydrate(): void {
+        if (this.checkHydrated()) return;
+
+        this.events = new EventSource('/auth/events');
+        this.events.addEventListener('session', this.handleSession);
+
+        this.markHydrated();
+    }
+
+    /**
+     * Show or hide the banner for a session state
+     *
+     * @private
+     */
+    private handleSession = (event: MessageEvent<string>): void => {
+        const status: SessionStatus = JSON.parse(event.data);
+        const message = MESSAGES[status.state];
+
+        logger.debug('🔑 Session state:', status);
+        this.root.hidden = !message;
+        if (this.message && message) {
+            this.message.textContent = message;
+        }
+    };
+
+    /**
+     * Close the event stream
+     *
+     * @override
+     */
+    override destroy(): void {
+        this.events?.close();
+        this.events = null;
+        super.destroy();
+    }
+}
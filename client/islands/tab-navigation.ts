@@ -17,9 +17,11 @@ import { logger } from '../shared/logger';
  *   <a href="/?tab=wish" class="tab-button active">📖 読みたい本</a>
  *   <a href="/?tab=read" class="tab-button">✅ 読んだ本</a>
  * </nav>
- * <div class="tab-content active">...</div>
- * <div class="tab-content">...</div>
+ * <div class="tab-content active" data-list-type="wish">...</div>
+ * <div class="tab-content" data-list-type="read">...</div>
  * ```
+ *
+ * Tabs come from the server-side list registry; the first tab is the default.
  */
 /**
  * Metadata for paginated list
@@ -51,6 +53,9 @@ export class TabNavigationIsland extends Island {
     /** Maximum pages to fetch on initial load */
     private readonly INITIAL_MAX_PAGES = 2;
 
+    /** Tab shown when the URL has no tab parameter */
+    private defaultTab: string;
+
     /**
      * Create a new TabNavigationIsland
      *
@@ -68,6 +73,8 @@ export class TabNavigationIsland extends Island {
             throw new Error('TabNavigationIsland requires .tab-button elements');
         }
 
+        this.defaultTab = new URL(this.tabs[0]!.href).searchParams.get('tab') || '';
+
         // Initialize scroll observer
         this.initScrollObserver();
     }
@@ -118,13 +125,13 @@ export class TabNavigationIsland extends Island {
 
         const tab = e.currentTarget as HTMLAnchorElement;
         const url = new URL(tab.href);
-        const targetTab = url.searchParams.get('tab') || 'wish';
+        const targetTab = url.searchParams.get('tab') || this.defaultTab;
 
         // Update URL without reload
         history.pushState({ tab: targetTab }, '', url.toString());
 
         // Switch tabs
-        this.switchToTab(targetTab as 'wish' | 'read');
+        this.switchToTab(targetTab);
     };
 
     /**
@@ -135,7 +142,7 @@ export class TabNavigationIsland extends Island {
      * @private
      */
     private handlePopState = (e: PopStateEvent): void => {
-        const targetTab = e.state?.tab || 'wish';
+        const targetTab = e.state?.tab || this.defaultTab;
         this.switchToTab(targetTab);
     };
 
@@ -144,19 +151,19 @@ export class TabNavigationIsland extends Island {
      * Updates CSS classes and ARIA attributes for both tabs and content
      * Loads tab content dynamically if not yet loaded
      *
-     * @param targetTab - The tab to switch to ('wish' or 'read')
+     * @param targetTab - The list id of the tab to switch to
      * @private
      * @remarks
      * Uses data-list-type attribute to match content with tabs,
      * avoiding index-based assumptions
      */
-    private async switchToTab(targetTab: 'wish' | 'read'): Promise<void> {
+    private async switchToTab(targetTab: string): Promise<void> {
         logger.info('🔖 Switching to tab:', targetTab);
 
         // Update tab buttons
         this.tabs.forEach((tab) => {
             const tabUrl = new URL(tab.href);
-            const tabName = tabUrl.searchParams.get('tab') || 'wish';
+            const tabName = tabUrl.searchParams.get('tab') || this.defaultTab;
 
             if (tabName === targetTab) {
                 tab.classList.add('active');
@@ -244,7 +251,7 @@ export class TabNavigationIsland extends Island {
                         const listType = sentinel.dataset.listType;
                         if (listType) {
                             logger.debug('📜 Scroll sentinel visible, loading more:', listType);
-                            this.loadMorePages(listType as 'wish' | 'read');
+                            this.loadMorePages(listType);
                         }
                     }
                 });
@@ -295,7 +302,7 @@ export class TabNavigationIsland extends Island {
 
         logger.debug('📥 loadTabContent called for:', listType);
 
-        if (!listType || (listType !== 'wish' && listType !== 'read')) {
+        if (!listType) {
             logger.error('Invalid list type:', listType);
             return;
         }
@@ -429,7 +436,7 @@ export class TabNavigationIsland extends Island {
                     <div style="color: #24292f; font-weight: 600; margin-bottom: 0.5rem;">読み込みに失敗しました</div>
                     <div style="font-size: 0.875rem; color: #57606a; margin-bottom: 1rem;">${errorMessage}</div>
                     <button
-                        onclick="location.reload()"
+                        data-action="reload"
                         style="
                             padding: 0.5rem 1rem;
                             background: #0969da;
@@ -445,6 +452,10 @@ export class TabNavigationIsland extends Island {
                     </button>
                 </div>
             `;
+            // Inline handlers are blocked by the CSP
+            contentElement
+                .querySelector('[data-action="reload"]')
+                ?.addEventListener('click', () => location.reload());
         }
     }
 
@@ -452,7 +463,7 @@ export class TabNavigationIsland extends Island {
      * Load more pages when scrolling (infinite scroll)
      * @private
      */
-    private async loadMorePages(listType: 'wish' | 'read'): Promise<void> {
+    private async loadMorePages(listType: string): Promise<void> {
         const meta = this.metadata.get(listType);
         if (!meta) {
             logger.warn('No metadata found for:', listType);
@@ -547,7 +558,7 @@ export class TabNavigationIsland extends Island {
                     <div style="font-size: 1.5rem; margin-bottom: 0.5rem;">⚠️</div>
                     <div>読み込みに失敗しました</div>
                     <button
-                        onclick="location.reload()"
+                        data-action="reload"
                         style="
                             margin-top: 1rem;
                             padding: 0.5rem 1rem;
@@ -562,6 +573,9 @@ export class TabNavigationIsland extends Island {
                     </button>
                 </div>
             `;
+            loadingIndicator
+                .querySelector('[data-action="reload"]')
+                ?.addEventListener('click', () => location.reload());
         } finally {
             meta.isLoading = false;
         }
@@ -1 +1,8 @@
-import './src/app/server';
+// --demo: serve fixture data from an in-process fake Calil/NDL server.
+// It has to be set up before the app is imported (app paths are resolved at import time).
+if (process.argv.includes('--demo')) {
+    const { startDemoMode } = await import('./src/features/demo/demo-mode');
+    startDemoMode();
+}
+
+await import('./src/app/server');
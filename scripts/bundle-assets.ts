@@ -27,6 +27,10 @@ console.log('    This will include all statically imported dependencies:');
 console.log('    - base.ts');
 console.log('    - tab-navigation.ts');
 console.log('    - book-detail.ts');
+console.log('    - book-actions.ts');
+console.log('    - add-book.ts');
+console.log('    - availability-badge.ts');
+console.log('    - library-settings.ts');
 console.log('    - cover-image.ts');
 console.log('    - shared/logger.ts');
 const loaderResult = await Bun.build({
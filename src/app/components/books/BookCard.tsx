@@ -1,8 +1,30 @@
 import type { FC } from "hono/jsx";
 import type { Book } from "../../../features/calil/types/book";
 import { convertISBN10to13 } from "../../../features/ndl/utility";
+import { isAvailabilityEnabled } from "../../../features/calil/availability/availability";
+import type {
+    ListDefinition,
+    ListSourceKind,
+} from "../../../features/lists/db/list-registry";
 
-export const BookCard: FC<{ book: Book }> = ({ book }) => {
+export const BookCard: FC<{
+    book: Book;
+    listType?: string;
+    listSource?: ListSourceKind;
+    /** Lists the book can be moved to from this card */
+    moveTargets?: ListDefinition[];
+    /** Local lists the book can be copied to from this card */
+    copyTargets?: ListDefinition[];
+    /** Lists the book is already on (shown on search results) */
+    onLists?: ListDefinition[];
+}> = ({
+    book,
+    listType,
+    listSource = "calil",
+    moveTargets = [],
+    copyTargets = [],
+    onLists = [],
+}) => {
     const isbn13 = convertISBN10to13(book.isbn);
     return (
         <li class="book-card">
@@ -15,6 +37,24 @@ export const BookCard: FC<{ book: Book }> = ({ book }) => {
                         <span>刊行日: {book.pubdate || "不明"}</span>
                         <span class="isbn">ISBN: {isbn13 || "―"}</span>
                     </div>
+                    {onLists.length > 0 && (
+                        <div class="on-list-badges">
+                            {onLists.map((list) => (
+                                <span class="on-list-badge">
+                                    {list.icon} {list.name}に登録済み
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {isbn13 && isAvailabilityEnabled() && (
+                        <span
+                            class="availability-badge"
+                            data-island="availability-badge"
+                            data-isbn={isbn13}
+                        >
+                            図書館: 確認中...
+                        </span>
+                    )}
                     {isbn13 && (
                         <details
                             class="ndl"
@@ -25,6 +65,37 @@ export const BookCard: FC<{ book: Book }> = ({ book }) => {
                             <div class="ndl-content"></div>
                         </details>
                     )}
+                    {listType && (
+                        <div
+                            class="book-actions"
+                            data-island="book-actions"
+                            data-list-type={listType}
+                            data-list-source={listSource}
+                            data-book-id={book.id}
+                        >
+                            {moveTargets.map((target) => (
+                                <button
+                                    type="button"
+                                    data-action="move"
+                                    data-to={target.id}
+                                >
+                                    {target.icon} {target.name}へ
+                                </button>
+                            ))}
+                            {copyTargets.map((target) => (
+                                <button
+                                    type="button"
+                                    data-action="copy"
+                                    data-to={target.id}
+                                >
+                                    {target.icon} {target.name}にコピー
+                                </button>
+                            ))}
+                            <button type="button" data-action="remove">
+                                🗑️ 削除
+                            </button>
+                        </div>
+                    )}
                 </div>
                 {isbn13 && (
                     <div class="book-cover">
@@ -1,7 +1,26 @@
 import type { FC } from "hono/jsx";
 import type { NdlItem } from "../../../features/ndl/utility";
+import type { LibrarySystem } from "../../../features/calil/db/libraries";
+import { calilLibrarySearchUrl } from "../../../features/calil/libraries/library-master";
+import {
+    METADATA_SOURCE_LABELS,
+    type MetadataSource,
+} from "../../../features/metadata/provider";
 
-export const BookDetail: FC<{ item: NdlItem }> = ({ item }) => {
+// "ndl,openbd" -> "国立国会図書館・openBD"
+function sourceLabel(source: string): string {
+    return source
+        .split(",")
+        .map((id) => METADATA_SOURCE_LABELS[id as MetadataSource] ?? id)
+        .join("・");
+}
+
+export const BookDetail: FC<{
+    item: NdlItem;
+    libraries?: LibrarySystem[];
+    /** Other records of the same ISBN, in rank order */
+    alternatives?: NdlItem[];
+}> = ({ item, libraries = [], alternatives = [] }) => {
     return (
         <div class="book-detail">
             {/* 主要情報 */}
@@ -20,6 +39,26 @@ export const BookDetail: FC<{ item: NdlItem }> = ({ item }) => {
                         </span>
                     </div>
                 )}
+                {item.alternativeTitles.length > 0 && (
+                    <div class="detail-row detail-secondary">
+                        <span class="detail-label">別タイトル</span>
+                        <span class="detail-value">
+                            {item.alternativeTitles.join(" / ")}
+                        </span>
+                    </div>
+                )}
+                {item.seriesTitle && (
+                    <div class="detail-row">
+                        <span class="detail-label">シリーズ</span>
+                        <span class="detail-value">{item.seriesTitle}</span>
+                    </div>
+                )}
+                {item.volume && (
+                    <div class="detail-row">
+                        <span class="detail-label">巻次</span>
+                        <span class="detail-value">{item.volume}</span>
+                    </div>
+                )}
                 {item.creators.length > 0 && (
                     <div class="detail-row">
                         <span class="detail-label">著者</span>
@@ -47,6 +86,12 @@ export const BookDetail: FC<{ item: NdlItem }> = ({ item }) => {
                         <span class="detail-value">{item.publisher}</span>
                     </div>
                 )}
+                {item.edition && (
+                    <div class="detail-row">
+                        <span class="detail-label">版</span>
+                        <span class="detail-value">{item.edition}</span>
+                    </div>
+                )}
                 {item.pubYear && (
                     <div class="detail-row">
                         <span class="detail-label">刊行年</span>
@@ -75,6 +120,18 @@ export const BookDetail: FC<{ item: NdlItem }> = ({ item }) => {
                 )}
             </section>
 
+            {/* 目次（SRUで取れた場合のみ） */}
+            {item.tableOfContents.length > 0 && (
+                <section class="detail-section">
+                    <h4 class="section-title">目次</h4>
+                    <ol class="detail-toc">
+                        {item.tableOfContents.map((entry) => (
+                            <li>{entry}</li>
+                        ))}
+                    </ol>
+                </section>
+            )}
+
             {/* 分類・識別情報 */}
             <section class="detail-section">
                 <h4 class="section-title">分類・識別情報</h4>
@@ -122,8 +179,90 @@ export const BookDetail: FC<{ item: NdlItem }> = ({ item }) => {
                         </span>
                     </div>
                 )}
+                {item.source && (
+                    <div class="detail-row detail-secondary">
+                        <span class="detail-label">出典</span>
+                        <span class="detail-value">{sourceLabel(item.source)}</span>
+                    </div>
+                )}
             </section>
 
+            {/* 著者・件名の典拠 */}
+            {item.authorityLinks.length > 0 && (
+                <section class="detail-section">
+                    <h4 class="section-title">典拠</h4>
+                    <div class="library-links">
+                        {item.authorityLinks.map((authority) => (
+                            <a
+                                href={authority.uri}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                class="library-link"
+                            >
+                                {authority.type === "creator" ? "👤" : "🏷️"}{" "}
+                                {authority.label}
+                            </a>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {/* お気に入り図書館での検索 */}
+            {item.isbn13 && libraries.length > 0 && (
+                <section class="detail-section">
+                    <h4 class="section-title">図書館で探す</h4>
+                    <div class="library-links">
+                        {libraries.map((lib) => (
+                            <a
+                                href={calilLibrarySearchUrl(
+                                    item.isbn13 ?? "",
+                                    lib.systemid,
+                                )}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                class="library-link"
+                            >
+                                🏛️ {lib.systemname}
+                            </a>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {/* 同じISBNのほかの書誌（版違い・セットと分冊など） */}
+            {alternatives.length > 0 && (
+                <section class="detail-section">
+                    <h4 class="section-title">
+                        ほかの書誌（{alternatives.length}件）
+                    </h4>
+                    <ul class="record-alternatives">
+                        {alternatives.map((alt, position) => (
+                            <li class="record-alternative">
+                                <span class="record-alternative-summary">
+                                    {[
+                                        alt.title,
+                                        alt.volume,
+                                        alt.edition,
+                                        alt.publisher,
+                                        alt.issued ?? alt.pubYear,
+                                        alt.isbn13 && `ISBN ${alt.isbn13}`,
+                                    ]
+                                        .filter(Boolean)
+                                        .join(" / ")}
+                                </span>
+                                <button
+                                    type="button"
+                                    class="select-record"
+                                    data-position={String(position)}
+                                >
+                                    この書誌を使う
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
             {/* リンク */}
             {item.link && (
                 <section class="detail-section">
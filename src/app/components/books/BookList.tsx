@@ -1,11 +1,28 @@
 import type { FC } from "hono/jsx";
 import type { Book } from "../../../features/calil/types/book";
+import type {
+    ListDefinition,
+    ListSourceKind,
+} from "../../../features/lists/db/list-registry";
 import { BookCard } from "./BookCard";
 
-export const BookList: FC<{ books: Book[] }> = ({ books }) => (
+export const BookList: FC<{
+    books: Book[];
+    listType?: string;
+    listSource?: ListSourceKind;
+    moveTargets?: ListDefinition[];
+    copyTargets?: ListDefinition[];
+}> = ({ books, listType, listSource, moveTargets, copyTargets }) => (
     <ul>
         {books.map((book) => (
-            <BookCard key={book.isbn} book={book} />
+            <BookCard
+                key={book.isbn}
+                book={book}
+                listType={listType}
+                listSource={listSource}
+                moveTargets={moveTargets}
+                copyTargets={copyTargets}
+            />
         ))}
     </ul>
 );
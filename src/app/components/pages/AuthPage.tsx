@@ -0,0 +1,114 @@
+import type { FC } from "hono/jsx";
+import type { LoginJob } from "../../../features/auth/login/login-job";
+import { NODE_ENV } from "../../utils/environment";
+
+/** Labels for login job states (the auth-panel island has the same ones) */
+const LOGIN_STATE_LABELS: Record<LoginJob["state"], string> = {
+    launching_browser: "ブラウザを起動しています...",
+    waiting_for_user: "ブラウザでログインしてください",
+    capturing_cookies: "Cookie を取得しています...",
+    validated: "ログインしました",
+    failed: "ログインに失敗しました",
+    cancelled: "ログインをキャンセルしました",
+};
+
+/**
+ * Calil へのログイン状態の確認・ログイン・Cookie の手動登録・ログアウトのページ
+ * 状態の取得と操作は auth-panel アイランドが /auth/* 経由で行う
+ * 操作の対象は選択中のプロファイル（Calilアカウント）
+ */
+export const AuthPage: FC<{
+    job: LoginJob | null;
+    appAuth?: boolean;
+    profileName?: string;
+}> = ({ job, appAuth, profileName }) => (
+    <html lang="ja">
+        <head>
+            <meta charSet="utf-8" />
+            <title>Calil へのログイン</title>
+            <meta
+                name="viewport"
+                content="width=device-width, initial-scale=1"
+            />
+            <meta name="app-environment" content={NODE_ENV} />
+            <link rel="stylesheet" href="/public/styles/main.css" />
+        </head>
+        <body>
+            <main class="auth-panel" data-island="auth-panel">
+                <h1>🔑 Calil へのログイン</h1>
+                {profileName && <p>プロファイル: {profileName}</p>}
+                <p>
+                    <a href="/">← リストに戻る</a>
+                </p>
+
+                <section class="settings-section">
+                    <h2>セッション</h2>
+                    <p class="auth-session-state" data-state="">
+                        確認中...
+                    </p>
+                    <form class="auth-unlock-form" hidden>
+                        <input
+                            type="password"
+                            name="passphrase"
+                            placeholder="パスフレーズ"
+                            autocomplete="current-password"
+                            required
+                        />
+                        <button type="submit">🔓 解錠</button>
+                    </form>
+                </section>
+
+                <section class="settings-section">
+                    <h2>ログイン</h2>
+                    <p
+                        class="auth-login-state"
+                        data-state={job?.state ?? ""}
+                        aria-live="polite"
+                    >
+                        {job ? LOGIN_STATE_LABELS[job.state] : ""}
+                        {job?.error ? `: ${job.error}` : ""}
+                    </p>
+                    <div class="auth-actions">
+                        <button type="button" data-action="start">
+                            ▶️ ログイン
+                        </button>
+                        <button type="button" data-action="cancel" hidden>
+                            ⏹️ キャンセル
+                        </button>
+                        <button type="button" data-action="logout">
+                            🚪 ログアウト
+                        </button>
+                    </div>
+                </section>
+
+                <section class="settings-section">
+                    <h2>Cookie の手動登録</h2>
+                    <p class="auth-hint">
+                        cookies.txt（Netscape 形式）、Cookie
+                        エディター拡張機能の JSON、Cookie ヘッダーを貼り付けてください
+                    </p>
+                    <form class="auth-cookie-form">
+                        <textarea
+                            name="cookie"
+                            rows={5}
+                            placeholder="Cookie: name=value; name2=value2"
+                            required
+                        ></textarea>
+                        <button type="submit">📋 登録</button>
+                    </form>
+                    <p class="auth-message" aria-live="polite"></p>
+                </section>
+
+                {appAuth && (
+                    <section class="settings-section">
+                        <h2>このアプリ</h2>
+                        <form method="post" action="/login/logout">
+                            <button type="submit">🔒 アプリからログアウト</button>
+                        </form>
+                    </section>
+                )}
+            </main>
+            <script type="module" src="/public/islands/loader.js"></script>
+        </body>
+    </html>
+);
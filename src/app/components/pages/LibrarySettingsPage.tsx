@@ -0,0 +1,80 @@
+import type { FC } from "hono/jsx";
+import type { LibrarySystem } from "../../../features/calil/db/libraries";
+import { PREFECTURES } from "../../../features/calil/libraries/library-master";
+import { NODE_ENV } from "../../utils/environment";
+
+/**
+ * お気に入り図書館の設定ページ
+ * 検索・追加・削除は library-settings アイランドが API 経由で行う
+ */
+export const LibrarySettingsPage: FC<{ favorites: LibrarySystem[] }> = ({
+    favorites,
+}) => (
+    <html lang="ja">
+        <head>
+            <meta charSet="utf-8" />
+            <title>図書館の設定</title>
+            <meta
+                name="viewport"
+                content="width=device-width, initial-scale=1"
+            />
+            <meta name="app-environment" content={NODE_ENV} />
+            <link rel="stylesheet" href="/public/styles/main.css" />
+        </head>
+        <body>
+            <main class="library-settings" data-island="library-settings">
+                <h1>🏛️ 図書館の設定</h1>
+                <p>
+                    <a href="/">← リストに戻る</a>
+                </p>
+
+                <section class="settings-section">
+                    <h2>お気に入り図書館</h2>
+                    <ul class="favorite-libraries">
+                        {favorites.map((lib) => (
+                            <li data-systemid={lib.systemid}>
+                                <span class="library-name">
+                                    {lib.systemname}
+                                </span>
+                                <span class="library-meta">
+                                    {lib.pref} {lib.systemid}
+                                </span>
+                                <button type="button" data-action="remove">
+                                    削除
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    {favorites.length === 0 && (
+                        <p class="settings-empty">
+                            まだ図書館が登録されていません。下の検索から追加してください。
+                        </p>
+                    )}
+                </section>
+
+                <section class="settings-section">
+                    <h2>図書館を探す</h2>
+                    <form class="library-search-form">
+                        <select name="pref">
+                            <option value="">都道府県</option>
+                            {PREFECTURES.map((pref) => (
+                                <option value={pref}>{pref}</option>
+                            ))}
+                        </select>
+                        <select name="city">
+                            <option value="">市区町村</option>
+                        </select>
+                        <input type="text" name="q" placeholder="図書館名" />
+                        <button type="submit">🔍 検索</button>
+                        <button type="button" data-action="import">
+                            ⬇️ カーリルから取り込む
+                        </button>
+                    </form>
+                    <p class="library-search-status" aria-live="polite"></p>
+                    <ul class="library-results"></ul>
+                </section>
+            </main>
+            <script type="module" src="/public/islands/loader.js"></script>
+        </body>
+    </html>
+);
@@ -16,9 +16,9 @@ export const LogViewerPage: FC<{ logs: LogEntry[] }> = ({ logs }) => (
                     <a href="/log">🔄 Refresh</a>
                     <a href="/log?limit=50">Last 50</a>
                     <a href="/log?limit=100">Last 100</a>
-                    <button onclick="fetch('/log/clear', {method: 'POST'}).then(() => location.reload())">
-                        🗑️ Clear Logs
-                    </button>
+                    <form method="post" action="/log/clear">
+                        <button type="submit">🗑️ Clear Logs</button>
+                    </form>
                     <a href="/">← Back to List</a>
                 </div>
             </header>
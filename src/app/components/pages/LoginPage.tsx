@@ -0,0 +1,53 @@
+import type { FC } from "hono/jsx";
+import { NODE_ENV } from "../../utils/environment";
+
+/**
+ * アプリへのログインページ（アクセストークンの入力）
+ * JavaScript なしで動くよう、通常のフォーム送信で /login に POST する
+ */
+export const LoginPage: FC<{ next: string; error?: string }> = ({
+    next,
+    error,
+}) => (
+    <html lang="ja">
+        <head>
+            <meta charSet="utf-8" />
+            <title>ログイン</title>
+            <meta
+                name="viewport"
+                content="width=device-width, initial-scale=1"
+            />
+            <meta name="app-environment" content={NODE_ENV} />
+            <link rel="stylesheet" href="/public/styles/main.css" />
+        </head>
+        <body>
+            <main class="auth-panel">
+                <h1>🔒 ログイン</h1>
+                <section class="settings-section">
+                    <p class="auth-hint">
+                        アクセストークンを入力してください（環境変数
+                        CALIL_ACCESS_TOKEN、または初回起動時に生成された
+                        vault/access.token の内容）
+                    </p>
+                    <form class="app-login-form" method="post" action="/login">
+                        <input type="hidden" name="next" value={next} />
+                        <input
+                            type="password"
+                            name="token"
+                            placeholder="アクセストークン"
+                            autocomplete="current-password"
+                            required
+                            autofocus
+                        />
+                        <button type="submit">ログイン</button>
+                    </form>
+                    {error && (
+                        <p class="auth-message" role="alert">
+                            {error}
+                        </p>
+                    )}
+                </section>
+            </main>
+        </body>
+    </html>
+);
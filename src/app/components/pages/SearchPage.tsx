@@ -0,0 +1,157 @@
+import type { FC } from "hono/jsx";
+import type { Book } from "../../../features/calil/types/book";
+import type { ListDefinition } from "../../../features/lists/db/list-registry";
+import type {
+    NdlFeed,
+    NdlItem,
+    NdlSearchQuery,
+} from "../../../features/ndl/utility";
+import { BookCard } from "../books/BookCard";
+import { NODE_ENV } from "../../utils/environment";
+
+// NDLの検索結果をリストの書籍と同じカードで表示するための変換
+function toBook(item: NdlItem, index: number): Book {
+    return {
+        id: item.ndlBibId ?? item.isbn13 ?? String(index),
+        title: item.title ?? "（タイトル不明）",
+        author: item.creators.join(", "),
+        publisher: item.publisher ?? "",
+        pubdate: item.issued ?? item.pubYear ?? "",
+        isbn: item.isbn13 ?? "",
+        source: "ndl",
+        volume: "",
+        updated: "",
+    };
+}
+
+// 検索条件を保ったまま開始位置だけ変えたURL
+function pageHref(query: NdlSearchQuery, idx: number): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (key !== "idx" && value !== undefined && value !== "") {
+            params.set(key, String(value));
+        }
+    }
+    params.set("idx", String(idx));
+    return `/search?${params}`;
+}
+
+/**
+ * NDLのキーワード検索ページ（まだリストにない本を探す）
+ * 検索はサーバー側で行い、結果はカードとして表示する
+ * Calilのリストに登録済みのISBNには印を付ける
+ */
+export const SearchPage: FC<{
+    query: NdlSearchQuery;
+    feed: NdlFeed | null;
+    error: string | null;
+    listsByIsbn: Map<string, ListDefinition[]>;
+}> = ({ query, feed, error, listsByIsbn }) => {
+    const startIndex = feed?.startIndex ?? 1;
+    const shown = feed?.items.length ?? 0;
+    const pageSize = query.cnt ?? (shown || 20);
+
+    return (
+        <html lang="ja">
+            <head>
+                <meta charSet="utf-8" />
+                <title>本を探す</title>
+                <meta
+                    name="viewport"
+                    content="width=device-width, initial-scale=1"
+                />
+                <meta name="app-environment" content={NODE_ENV} />
+                <meta name="cover-max-concurrent" content="2" />
+                <link rel="stylesheet" href="/public/styles/main.css" />
+            </head>
+            <body>
+                <main class="ndl-search">
+                    <h1>🔍 本を探す</h1>
+                    <p>
+                        <a href="/">← リストに戻る</a>
+                    </p>
+
+                    <form class="ndl-search-form" method="get" action="/search">
+                        <input
+                            type="text"
+                            name="title"
+                            placeholder="タイトル"
+                            value={query.title ?? ""}
+                        />
+                        <input
+                            type="text"
+                            name="creator"
+                            placeholder="著者"
+                            value={query.creator ?? ""}
+                        />
+                        <input
+                            type="text"
+                            name="publisher"
+                            placeholder="出版社"
+                            value={query.publisher ?? ""}
+                        />
+                        <input
+                            type="text"
+                            name="from"
+                            placeholder="出版年から (2020)"
+                            pattern="\d{4}(-\d{2})?"
+                            value={query.from ?? ""}
+                        />
+                        <input
+                            type="text"
+                            name="until"
+                            placeholder="出版年まで"
+                            pattern="\d{4}(-\d{2})?"
+                            value={query.until ?? ""}
+                        />
+                        <input
+                            type="text"
+                            name="ndc"
+                            placeholder="NDC (007)"
+                            value={query.ndc ?? ""}
+                        />
+                        <button type="submit">🔍 検索</button>
+                    </form>
+
+                    {error && <p class="ndl-search-error">{error}</p>}
+
+                    {feed && (
+                        <>
+                            <p class="ndl-search-summary">
+                                {feed.totalResults}件中{" "}
+                                {shown > 0
+                                    ? `${startIndex}〜${startIndex + shown - 1}件目`
+                                    : "該当なし"}
+                            </p>
+                            <ul>
+                                {feed.items.map((item, index) => (
+                                    <BookCard
+                                        book={toBook(item, index)}
+                                        onLists={
+                                            item.isbn13
+                                                ? listsByIsbn.get(item.isbn13)
+                                                : undefined
+                                        }
+                                    />
+                                ))}
+                            </ul>
+                            <nav class="ndl-search-pager">
+                                {startIndex > 1 && (
+                                    <a href={pageHref(query, Math.max(1, startIndex - pageSize))}>
+                                        ← 前へ
+                                    </a>
+                                )}
+                                {startIndex + shown - 1 < feed.totalResults && shown > 0 && (
+                                    <a href={pageHref(query, startIndex + shown)}>
+                                        次へ →
+                                    </a>
+                                )}
+                            </nav>
+                        </>
+                    )}
+                </main>
+                <script type="module" src="/public/islands/loader.js"></script>
+            </body>
+        </html>
+    );
+};
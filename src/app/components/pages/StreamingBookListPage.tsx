@@ -1,131 +1,196 @@
 import type { FC } from "hono/jsx";
 import { Suspense } from "hono/jsx/streaming";
-import {
-    fetchBookList,
-    fetchBookListMetadata,
-} from "../../../features/calil/api/fetch-list";
-import type { Book } from "../../../features/calil/types/book";
 import { BookList } from "../books/BookList";
 import { BookListSkeleton } from "../books/BookListSkeleton";
 import { NODE_ENV } from "../../utils/environment";
+import type { ListDefinition } from "../../../features/lists/db/list-registry";
+import type { Profile } from "../../../features/profiles/db/profiles";
+import {
+    countListItems,
+    getCardTargets,
+    readListItems,
+} from "../../../features/lists/list-reader";
 
 // 非同期書籍リストコンポーネント（Suspense対応）
-const AsyncBookList = async ({ listType }: { listType: "wish" | "read" }) => {
-    const bookData = await fetchBookList(listType);
-    const books = (
-        typeof bookData === "string" ? JSON.parse(bookData) : bookData
-    ) as Book[];
+// Calilのリストはローカルミラーから描画し、Calilとの同期はバックグラウンドで行う
+const AsyncBookList = async ({
+    list,
+    profile,
+}: {
+    list: ListDefinition;
+    profile: string;
+}) => {
+    const books = await readListItems(list, profile);
+    const { moveTargets, copyTargets } = getCardTargets(list, profile);
 
-    return <BookList books={books} />;
+    return (
+        <BookList
+            books={books}
+            listType={list.id}
+            listSource={list.source}
+            moveTargets={moveTargets}
+            copyTargets={copyTargets}
+        />
+    );
 };
 
 // タブカウントを取得する軽量な非同期コンポーネント
-const AsyncTabCount = async ({ listType }: { listType: "wish" | "read" }) => {
-    const metadata = await fetchBookListMetadata(listType);
-    return <>{metadata.totalCount}</>;
+const AsyncTabCount = async ({
+    list,
+    profile,
+}: {
+    list: ListDefinition;
+    profile: string;
+}) => {
+    return <>{await countListItems(list, profile)}</>;
 };
 
 /**
  * Suspense対応のストリーミングページコンポーネント（アクティブなタブのみ読み込み）
+ * タブはリストレジストリの内容から生成する
+ * 複数のプロファイル（Calilアカウント）があればヘッダーで切り替えられる
  */
-export const StreamingBookListPage: FC<{ activeTab?: "wish" | "read" }> = ({
-    activeTab = "wish",
-}) => (
-    <html lang="ja">
-        <head>
-            <meta charSet="utf-8" />
-            <title>Book Lists</title>
-            <meta
-                name="viewport"
-                content="width=device-width, initial-scale=1"
-            />
-            <meta name="app-environment" content={NODE_ENV} />
-            <meta name="cover-max-concurrent" content="2" />
-            <link rel="stylesheet" href="/public/styles/main.css" />
-        </head>
-        <body>
-            <main>
-                <h1>📚 マイブックリスト</h1>
+export const StreamingBookListPage: FC<{
+    lists: ListDefinition[];
+    activeTab: string;
+    profiles: Profile[];
+    activeProfile: string;
+}> = ({ lists, activeTab, profiles, activeProfile }) => {
+    return (
+        <html lang="ja">
+            <head>
+                <meta charSet="utf-8" />
+                <title>Book Lists</title>
+                <meta
+                    name="viewport"
+                    content="width=device-width, initial-scale=1"
+                />
+                <meta name="app-environment" content={NODE_ENV} />
+                <meta name="cover-max-concurrent" content="2" />
+                <link rel="stylesheet" href="/public/styles/main.css" />
+            </head>
+            <body>
+                <main>
+                    <h1>📚 マイブックリスト</h1>
 
-                <div class="download-section">
-                    <a
-                        href={`/api/download/bibliographic/${activeTab}`}
-                        class="download-button"
-                        download
-                    >
-                        📥 書誌情報をダウンロード
-                    </a>
-                </div>
+                    {profiles.length > 1 && (
+                        <nav class="profile-switcher" aria-label="プロファイル">
+                            {profiles.map((profile) => (
+                                <a
+                                    href={`/?profile=${profile.id}`}
+                                    class={`profile-link ${activeProfile === profile.id ? "active" : ""}`}
+                                    aria-current={activeProfile === profile.id ? "true" : undefined}
+                                >
+                                    👤 {profile.name}
+                                </a>
+                            ))}
+                        </nav>
+                    )}
 
-                <nav class="tab-nav" data-island="tab-navigation">
-                    <a
-                        href="/?tab=wish"
-                        class={`tab-button ${activeTab === "wish" ? "active" : ""}`}
-                        aria-selected={activeTab === "wish" ? "true" : "false"}
-                    >
-                        📖 読みたい本
-                        <span class="tab-count">
-                            <Suspense fallback={<>...</>}>
-                                <AsyncTabCount listType="wish" />
-                            </Suspense>
-                        </span>
-                    </a>
-                    <a
-                        href="/?tab=read"
-                        class={`tab-button ${activeTab === "read" ? "active" : ""}`}
-                        aria-selected={activeTab === "read" ? "true" : "false"}
+                    <div
+                        class="session-banner"
+                        data-island="session-banner"
+                        role="status"
+                        hidden
                     >
-                        ✅ 読んだ本
-                        <span class="tab-count">
-                            <Suspense fallback={<>...</>}>
-                                <AsyncTabCount listType="read" />
-                            </Suspense>
-                        </span>
-                    </a>
-                </nav>
+                        <span class="session-banner-message"></span>
+                        <a href="/auth">ログインページへ</a>
+                    </div>
 
-                {/* アクティブなタブのみSuspenseでレンダリング、非アクティブなタブは遅延ロード */}
-                <div
-                    class={`tab-content ${activeTab === "wish" ? "active" : ""}`}
-                    aria-hidden={activeTab !== "wish" ? "true" : "false"}
-                    data-list-type="wish"
-                    data-loaded={activeTab === "wish" ? "true" : "false"}
-                >
-                    {activeTab === "wish" ? (
-                        <Suspense fallback={<BookListSkeleton count={5} />}>
-                            <AsyncBookList listType="wish" />
-                        </Suspense>
-                    ) : (
-                        <div style="padding: 2rem; text-align: center; color: #999;">
-                            <div style="font-size: 2rem; margin-bottom: 1rem;">
-                                📚
-                            </div>
-                            <div>タブを切り替えて読み込みます...</div>
-                        </div>
-                    )}
-                </div>
+                    <div class="download-section">
+                        <a
+                            href={`/api/download/bibliographic/${activeTab}`}
+                            class="download-button"
+                            download
+                        >
+                            📥 書誌情報をダウンロード
+                        </a>
+                        <a href="/search" class="settings-link">
+                            🔍 本を探す
+                        </a>
+                        <a href="/settings/libraries" class="settings-link">
+                            🏛️ 図書館の設定
+                        </a>
+                        <a href="/auth" class="settings-link">
+                            🔑 ログイン
+                        </a>
+                        {lists.length > 0 && (
+                            <form class="add-book-form" data-island="add-book">
+                                <input
+                                    type="text"
+                                    name="isbn"
+                                    inputMode="numeric"
+                                    placeholder="ISBNを入力"
+                                    required
+                                />
+                                <select name="list" aria-label="追加先のリスト">
+                                    {lists.map((list) => (
+                                        <option
+                                            value={list.id}
+                                            data-source={list.source}
+                                            selected={list.id === activeTab}
+                                        >
+                                            {list.icon} {list.name}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button type="submit">➕ 追加</button>
+                                <span
+                                    class="add-book-status"
+                                    aria-live="polite"
+                                ></span>
+                            </form>
+                        )}
+                    </div>
+
+                    <nav class="tab-nav" data-island="tab-navigation">
+                        {lists.map((list) => (
+                            <a
+                                href={`/?tab=${list.id}`}
+                                class={`tab-button ${activeTab === list.id ? "active" : ""}`}
+                                aria-selected={activeTab === list.id ? "true" : "false"}
+                            >
+                                {list.icon} {list.name}
+                                <span class="tab-count">
+                                    <Suspense fallback={<>...</>}>
+                                        <AsyncTabCount
+                                            list={list}
+                                            profile={activeProfile}
+                                        />
+                                    </Suspense>
+                                </span>
+                            </a>
+                        ))}
+                    </nav>
 
-                <div
-                    class={`tab-content ${activeTab === "read" ? "active" : ""}`}
-                    aria-hidden={activeTab !== "read" ? "true" : "false"}
-                    data-list-type="read"
-                    data-loaded={activeTab === "read" ? "true" : "false"}
-                >
-                    {activeTab === "read" ? (
-                        <Suspense fallback={<BookListSkeleton count={5} />}>
-                            <AsyncBookList listType="read" />
-                        </Suspense>
-                    ) : (
-                        <div style="padding: 2rem; text-align: center; color: #999;">
-                            <div style="font-size: 2rem; margin-bottom: 1rem;">
-                                ✅
-                            </div>
-                            <div>タブを切り替えて読み込みます...</div>
+                    {/* アクティブなタブのみSuspenseでレンダリング、非アクティブなタブは遅延ロード */}
+                    {lists.map((list) => (
+                        <div
+                            class={`tab-content ${activeTab === list.id ? "active" : ""}`}
+                            aria-hidden={activeTab !== list.id ? "true" : "false"}
+                            data-list-type={list.id}
+                            data-loaded={activeTab === list.id ? "true" : "false"}
+                        >
+                            {activeTab === list.id ? (
+                                <Suspense fallback={<BookListSkeleton count={5} />}>
+                                    <AsyncBookList
+                                        list={list}
+                                        profile={activeProfile}
+                                    />
+                                </Suspense>
+                            ) : (
+                                <div style="padding: 2rem; text-align: center; color: #999;">
+                                    <div style="font-size: 2rem; margin-bottom: 1rem;">
+                                        {list.icon}
+                                    </div>
+                                    <div>タブを切り替えて読み込みます...</div>
+                                </div>
+                            )}
                         </div>
-                    )}
-                </div>
-            </main>
-            <script type="module" src="/public/islands/loader.js"></script>
-        </body>
-    </html>
-);
+                    ))}
+                </main>
+                <script type="module" src="/public/islands/loader.js"></script>
+            </body>
+        </html>
+    );
+};
@@ -0,0 +1,179 @@
+import { test, expect, describe, afterEach, afterAll } from "bun:test";
+import { Hono } from "hono";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+    appAuth,
+    configureAppAuth,
+    isLoopbackHost,
+    resolveAppAuth,
+    safeNextPath,
+} from "./app-auth";
+import { loginRoutes } from "../routes/login.routes";
+
+const TOKEN = "test-access-token";
+const tempDir = mkdtempSync(path.join(tmpdir(), "calil-app-auth-"));
+
+function createApp() {
+    const app = new Hono();
+    app.use("*", appAuth());
+    app.route("/login", loginRoutes);
+    app.get("/", (c) => c.html("<p>top</p>"));
+    app.get("/api/lists", (c) => c.json({ lists: [] }));
+    app.get("/public/styles/main.css", (c) => c.text("body {}"));
+    return app;
+}
+
+afterEach(() => {
+    configureAppAuth({ enabled: false });
+});
+
+afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("resolveAppAuth", () => {
+    test("ループバックでトークン未設定なら無効", async () => {
+        const config = await resolveAppAuth({
+            host: "127.0.0.1",
+            env: {},
+            tokenFile: path.join(tempDir, "unused.token"),
+        });
+        expect(config).toEqual({ enabled: false });
+    });
+
+    test("CALIL_ACCESS_TOKEN があれば有効", async () => {
+        const config = await resolveAppAuth({
+            host: "127.0.0.1",
+            env: { CALIL_ACCESS_TOKEN: TOKEN },
+        });
+        expect(config).toEqual({ enabled: true, token: TOKEN, source: "env" });
+    });
+
+    test("LANに公開するときは初回にトークンを生成して保存する", async () => {
+        const tokenFile = path.join(tempDir, "vault", "access.token");
+
+        const first = await resolveAppAuth({ host: "0.0.0.0", env: {}, tokenFile });
+        expect(first).toMatchObject({ enabled: true, source: "generated" });
+        expect(statSync(tokenFile).mode & 0o777).toBe(0o600);
+
+        const second = await resolveAppAuth({ host: "0.0.0.0", env: {}, tokenFile });
+        expect(second).toEqual({
+            enabled: true,
+            source: "file",
+            token: (first as { token: string }).token,
+        });
+    });
+
+    test("CALIL_APP_AUTH=off で明示的に無効にできる", async () => {
+        const config = await resolveAppAuth({
+            host: "0.0.0.0",
+            env: { CALIL_APP_AUTH: "off", CALIL_ACCESS_TOKEN: TOKEN },
+        });
+        expect(config).toEqual({ enabled: false });
+    });
+});
+
+describe("helpers", () => {
+    test("isLoopbackHost", () => {
+        expect(isLoopbackHost("127.0.0.1")).toBe(true);
+        expect(isLoopbackHost("localhost")).toBe(true);
+        expect(isLoopbackHost("::1")).toBe(true);
+        expect(isLoopbackHost("0.0.0.0")).toBe(false);
+        expect(isLoopbackHost("192.168.1.10")).toBe(false);
+    });
+
+    test("safeNextPath は同一オリジンのパスだけを許可する", () => {
+        expect(safeNextPath("/settings/libraries?x=1")).toBe("/settings/libraries?x=1");
+        expect(safeNextPath("https://evil.example")).toBe("/");
+        expect(safeNextPath("//evil.example")).toBe("/");
+        expect(safeNextPath("/\\evil.example")).toBe("/");
+        expect(safeNextPath(undefined)).toBe("/");
+    });
+});
+
+describe("appAuth middleware", () => {
+    test("無効なときはそのまま通す", async () => {
+        const res = await createApp().request("/api/lists");
+        expect(res.status).toBe(200);
+    });
+
+    test("APIは401のJSONを返す", async () => {
+        configureAppAuth({ enabled: true, token: TOKEN, source: "env" });
+
+        const res = await createApp().request("/api/lists");
+        expect(res.status).toBe(401);
+        expect(res.headers.get("WWW-Authenticate")).toContain("Bearer");
+        expect(await res.json()).toMatchObject({ code: "app_auth_required" });
+    });
+
+    test("ページはログインページへリダイレクトする", async () => {
+        configureAppAuth({ enabled: true, token: TOKEN, source: "env" });
+
+        const res = await createApp().request("/?tab=wish", {
+            headers: { Accept: "text/html" },
+        });
+        expect(res.status).toBe(302);
+        expect(res.headers.get("Location")).toBe(
+            `/login?next=${encodeURIComponent("/?tab=wish")}`,
+        );
+    });
+
+    test("Bearer トークンで API を呼べる", async () => {
+        configureAppAuth({ enabled: true, token: TOKEN, source: "env" });
+        const app = createApp();
+
+        const ok = await app.request("/api/lists", {
+            headers: { Authorization: `Bearer ${TOKEN}` },
+        });
+        expect(ok.status).toBe(200);
+
+        const wrong = await app.request("/api/lists", {
+            headers: { Authorization: "Bearer wrong" },
+        });
+        expect(wrong.status).toBe(401);
+    });
+
+    test("ログインページとCSSはログインなしで取得できる", async () => {
+        configureAppAuth({ enabled: true, token: TOKEN, source: "env" });
+        const app = createApp();
+
+        const login = await app.request("/login");
+        expect(login.status).toBe(200);
+        expect(await login.text()).toContain('name="token"');
+
+        const css = await app.request("/public/styles/main.css");
+        expect(css.status).toBe(200);
+    });
+
+    test("ログインするとセッションCookieでアクセスできる", async () => {
+        configureAppAuth({ enabled: true, token: TOKEN, source: "env" });
+        const app = createApp();
+
+        const wrong = await app.request("/login", {
+            method: "POST",
+            body: new URLSearchParams({ token: "wrong", next: "/api/lists" }),
+        });
+        expect(wrong.status).toBe(401);
+        expect(wrong.headers.get("Set-Cookie")).toBeNull();
+
+        const login = await app.request("/login", {
+            method: "POST",
+            body: new URLSearchParams({ token: TOKEN, next: "/api/lists" }),
+        });
+        expect(login.status).toBe(302);
+        expect(login.headers.get("Location")).toBe("/api/lists");
+        const setCookie = login.headers.get("Set-Cookie")!;
+        expect(setCookie).toContain("HttpOnly");
+
+        const cookie = setCookie.split(";")[0]!;
+        const res = await app.request("/api/lists", { headers: { Cookie: cookie } });
+        expect(res.status).toBe(200);
+
+        // トークンを変えると既存のセッションは無効になる
+        configureAppAuth({ enabled: true, token: "rotated", source: "env" });
+        const rotated = await app.request("/api/lists", { headers: { Cookie: cookie } });
+        expect(rotated.status).toBe(401);
+    });
+});
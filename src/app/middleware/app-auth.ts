@@ -0,0 +1,198 @@
+/**
+ * Optional access control for the web UI and API
+ *
+ * - Enabled when CALIL_ACCESS_TOKEN is set, when CALIL_APP_AUTH=on, or when
+ *   the server binds to a non-loopback address (CALIL_HOST); CALIL_APP_AUTH=off
+ *   disables it explicitly
+ * - Without CALIL_ACCESS_TOKEN a token is generated on first run and kept in
+ *   vault/access.token
+ * - Browsers log in on /login and get a signed session cookie; API clients
+ *   send `Authorization: Bearer <token>`
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { deleteCookie, getSignedCookie, setSignedCookie } from "hono/cookie";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { chmod, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { appPaths, ensureDir } from "../../shared/config/app-paths";
+import { logger } from "../../shared/logging/logger";
+
+export type AppAuthConfig =
+    | { enabled: false }
+    | {
+          enabled: true;
+          token: string;
+          /** Where the token came from (generated = created on this run) */
+          source: "env" | "file" | "generated";
+      };
+
+export const SESSION_COOKIE = "calil_app_session";
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+let current: AppAuthConfig = { enabled: false };
+
+/**
+ * Set the configuration used by appAuth() and the login routes
+ */
+export function configureAppAuth(config: AppAuthConfig): void {
+    current = config;
+}
+
+export function getAppAuthConfig(): AppAuthConfig {
+    return current;
+}
+
+/** Paths reachable without logging in (the login page and its stylesheet) */
+const PUBLIC_PATHS = [/^\/login(\/|$)/, /^\/public\/styles\//, /^\/favicon\.ico$/];
+
+export function isLoopbackHost(host: string): boolean {
+    return (
+        host === "localhost" ||
+        host === "::1" ||
+        host === "[::1]" ||
+        /^127\.\d+\.\d+\.\d+$/.test(host)
+    );
+}
+
+async function readTokenFile(file: string): Promise<string | null> {
+    try {
+        return (await readFile(file, "utf8")).trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Decide whether access control is on and which token it uses
+ *
+ * @param options.host - Bind address of the server
+ * @param options.env - Environment variables (process.env by default)
+ * @param options.tokenFile - Where a generated token is kept
+ */
+export async function resolveAppAuth(options: {
+    host: string;
+    env?: Record<string, string | undefined>;
+    tokenFile?: string;
+}): Promise<AppAuthConfig> {
+    const env = options.env ?? process.env;
+    const tokenFile = options.tokenFile ?? appPaths.accessTokenFile;
+    const mode = env.CALIL_APP_AUTH?.toLowerCase();
+
+    if (mode === "off") {
+        if (!isLoopbackHost(options.host)) {
+            logger.warn("App auth is disabled on a non-loopback address", {
+                host: options.host,
+            });
+        }
+        return { enabled: false };
+    }
+
+    if (env.CALIL_ACCESS_TOKEN) {
+        return { enabled: true, token: env.CALIL_ACCESS_TOKEN, source: "env" };
+    }
+
+    if (mode !== "on" && isLoopbackHost(options.host)) {
+        return { enabled: false };
+    }
+
+    const saved = await readTokenFile(tokenFile);
+    if (saved) {
+        return { enabled: true, token: saved, source: "file" };
+    }
+
+    const token = randomBytes(24).toString("base64url");
+    await ensureDir(path.dirname(tokenFile));
+    await writeFile(tokenFile, token, { encoding: "utf8", mode: 0o600 });
+    await chmod(tokenFile, 0o600);
+    logger.info("Generated app access token", { tokenFile });
+    return { enabled: true, token, source: "generated" };
+}
+
+/**
+ * Compare a presented token with the configured one in constant time
+ */
+export function tokenMatches(token: string, candidate: string | undefined): boolean {
+    if (!candidate) return false;
+    // Hash first so both sides have the same length
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(token), digest(candidate));
+}
+
+/**
+ * Only same-origin paths are allowed as a redirect target after login
+ */
+export function safeNextPath(next: string | undefined): string {
+    if (!next || !next.startsWith("/") || next.startsWith("//") || next.includes("\\")) {
+        return "/";
+    }
+    return next;
+}
+
+/**
+ * Issue the session cookie after a successful login
+ * The cookie is signed with the access token, so changing the token logs
+ * everyone out.
+ */
+export async function startAppSession(c: Context, token: string): Promise<void> {
+    const expiresAt = Date.now() + SESSION_MAX_AGE_SECONDS * 1000;
+    await setSignedCookie(c, SESSION_COOKIE, String(expiresAt), token, {
+        path: "/",
+        httpOnly: true,
+        sameSite: "Lax",
+        maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+}
+
+export function endAppSession(c: Context): void {
+    deleteCookie(c, SESSION_COOKIE, { path: "/" });
+}
+
+export async function hasValidSession(c: Context, token: string): Promise<boolean> {
+    const value = await getSignedCookie(c, token, SESSION_COOKIE);
+    return typeof value === "string" && Number(value) > Date.now();
+}
+
+function bearerToken(c: Context): string | undefined {
+    const match = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i);
+    return match?.[1]?.trim();
+}
+
+/**
+ * Require the session cookie or a bearer token on every route except the
+ * login page; pages redirect to /login, everything else gets 401 JSON
+ */
+export function appAuth(): MiddlewareHandler {
+    return async (c, next) => {
+        const config = current;
+        if (!config.enabled || PUBLIC_PATHS.some((p) => p.test(c.req.path))) {
+            return next();
+        }
+
+        if (
+            tokenMatches(config.token, bearerToken(c)) ||
+            (await hasValidSession(c, config.token))
+        ) {
+            return next();
+        }
+
+        const wantsPage =
+            c.req.method === "GET" &&
+            (c.req.header("Accept") ?? "").includes("text/html");
+        if (wantsPage) {
+            const url = new URL(c.req.url);
+            const target = encodeURIComponent(url.pathname + url.search);
+            return c.redirect(`/login?next=${target}`);
+        }
+
+        c.header("WWW-Authenticate", 'Bearer realm="calil"');
+        return c.json(
+            {
+                error: "Authentication required",
+                code: "app_auth_required",
+                retryable: false,
+            },
+            401,
+        );
+    };
+}
@@ -0,0 +1,62 @@
+/**
+ * Selects the Calil account (profile) a request works on
+ *
+ * The profile comes from the `profile` query parameter, or else from the
+ * calil_profile cookie written when one was chosen in the header switcher;
+ * without either the default profile is used. Routes read it with
+ * currentProfile(c) and pass it down to the auth, fetch and list modules.
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { getCookie, setCookie } from "hono/cookie";
+import { DEFAULT_PROFILE_ID } from "../../shared/config/app-paths";
+import { getProfile } from "../../features/profiles/db/profiles";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+
+declare module "hono" {
+    interface ContextVariableMap {
+        profile: string;
+    }
+}
+
+export const PROFILE_COOKIE = "calil_profile";
+
+export function profileSelector(): MiddlewareHandler {
+    return async (c, next) => {
+        const requested = c.req.query("profile");
+        const id = requested || getCookie(c, PROFILE_COOKIE) || DEFAULT_PROFILE_ID;
+
+        if (!getProfile(getSettingsDatabase(), id)) {
+            if (requested) {
+                return c.json(
+                    {
+                        error: `Unknown profile: ${requested}`,
+                        code: "unknown_profile",
+                        retryable: false,
+                    },
+                    404,
+                );
+            }
+            // A cookie left over from a deleted profile
+            c.set("profile", DEFAULT_PROFILE_ID);
+            return next();
+        }
+
+        if (requested && requested !== getCookie(c, PROFILE_COOKIE)) {
+            setCookie(c, PROFILE_COOKIE, id, {
+                path: "/",
+                httpOnly: true,
+                sameSite: "Lax",
+            });
+        }
+        c.set("profile", id);
+        return next();
+    };
+}
+
+/**
+ * Profile of the request (the default profile outside profileSelector())
+ */
+export function currentProfile(c: Context): string {
+    return c.get("profile") ?? DEFAULT_PROFILE_ID;
+}
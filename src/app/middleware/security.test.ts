@@ -0,0 +1,86 @@
+import { test, expect, describe } from "bun:test";
+import { Hono } from "hono";
+import { csrfGuard, loopbackHostGuard, securityHeaders } from "./security";
+
+function createApp(bindHost = "127.0.0.1") {
+    const app = new Hono();
+    app.use("*", loopbackHostGuard(bindHost));
+    app.use("*", securityHeaders());
+    app.use("*", csrfGuard());
+    app.get("/", (c) => c.html("<p>top</p>"));
+    app.post("/log/clear", (c) => c.json({ success: true }));
+    return app;
+}
+
+describe("securityHeaders", () => {
+    test("CSP とフレーム・MIME 関連のヘッダーを付ける", async () => {
+        const res = await createApp().request("/");
+        const csp = res.headers.get("Content-Security-Policy")!;
+
+        expect(csp).toContain("default-src 'self'");
+        expect(csp).toMatch(/script-src 'self' 'nonce-[^']+'/);
+        expect(csp).toContain("frame-ancestors 'none'");
+        expect(res.headers.get("X-Content-Type-Options")).toBe("nosniff");
+        expect(res.headers.get("X-Frame-Options")).toBe("DENY");
+        expect(res.headers.get("Referrer-Policy")).toBe("same-origin");
+        expect(res.headers.get("Strict-Transport-Security")).toBeNull();
+    });
+});
+
+describe("csrfGuard", () => {
+    test("同一オリジンからのPOSTは通す", async () => {
+        const res = await createApp().request("http://localhost:8787/log/clear", {
+            method: "POST",
+            headers: { Origin: "http://localhost:8787" },
+        });
+        expect(res.status).toBe(200);
+    });
+
+    test("別オリジンからのPOSTは403", async () => {
+        const res = await createApp().request("http://localhost:8787/log/clear", {
+            method: "POST",
+            headers: { Origin: "https://evil.example" },
+        });
+        expect(res.status).toBe(403);
+        expect(await res.json()).toMatchObject({ code: "csrf_rejected" });
+    });
+
+    test("Origin: null と別サイトの Referer / Sec-Fetch-Site も拒否する", async () => {
+        const app = createApp();
+        const cases: Record<string, string>[] = [
+            { Origin: "null" },
+            { Referer: "https://evil.example/page" },
+            { "Sec-Fetch-Site": "cross-site" },
+        ];
+
+        for (const headers of cases) {
+            const res = await app.request("http://localhost:8787/log/clear", {
+                method: "POST",
+                headers,
+            });
+            expect(res.status).toBe(403);
+        }
+    });
+
+    test("Origin を送らないクライアント（curl など）は通す", async () => {
+        const res = await createApp().request("http://localhost:8787/log/clear", {
+            method: "POST",
+        });
+        expect(res.status).toBe(200);
+    });
+});
+
+describe("loopbackHostGuard", () => {
+    test("ループバックで待ち受けているときは他のHostを拒否する", async () => {
+        const app = createApp();
+
+        expect((await app.request("http://127.0.0.1:8787/")).status).toBe(200);
+        expect((await app.request("http://localhost:8787/")).status).toBe(200);
+        expect((await app.request("http://rebind.evil.example:8787/")).status).toBe(421);
+    });
+
+    test("LANに公開しているときはHostを制限しない", async () => {
+        const res = await createApp("0.0.0.0").request("http://mypc.local:8787/");
+        expect(res.status).toBe(200);
+    });
+});
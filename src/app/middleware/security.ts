@@ -0,0 +1,118 @@
+/**
+ * Browser-facing protections for the local server
+ *
+ * - securityHeaders(): CSP and related headers; island scripts come from
+ *   /public and the inline scripts of streamed Suspense boundaries carry the
+ *   per-request nonce
+ * - csrfGuard(): mutating requests from another origin are rejected
+ *   (Origin, then Sec-Fetch-Site / Referer); clients that send none of
+ *   them (curl, scripts) are let through
+ * - loopbackHostGuard(): while bound to loopback only loopback Host headers
+ *   are accepted, so a DNS-rebound site can't talk to the server as itself
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { NONCE, secureHeaders } from "hono/secure-headers";
+import { logger } from "../../shared/logging/logger";
+import { isLoopbackHost } from "./app-auth";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+export function securityHeaders(): MiddlewareHandler {
+    return secureHeaders({
+        contentSecurityPolicy: {
+            defaultSrc: ["'self'"],
+            scriptSrc: ["'self'", NONCE],
+            // Components and islands use inline style attributes
+            styleSrc: ["'self'", "'unsafe-inline'"],
+            // Covers are shown from blob: URLs of /api/cover responses
+            imgSrc: ["'self'", "data:", "blob:"],
+            connectSrc: ["'self'"],
+            objectSrc: ["'none'"],
+            baseUri: ["'self'"],
+            formAction: ["'self'"],
+            frameAncestors: ["'none'"],
+        },
+        xFrameOptions: "DENY",
+        xContentTypeOptions: "nosniff",
+        // Browsers send Origin: null on POSTs under no-referrer, which would
+        // make csrfGuard() reject our own requests
+        referrerPolicy: "same-origin",
+        // Served over plain HTTP on localhost
+        strictTransportSecurity: false,
+    });
+}
+
+function reject(c: Context, reason: string) {
+    logger.warn("Blocked cross-site request", {
+        method: c.req.method,
+        path: c.req.path,
+        reason,
+    });
+    return c.json(
+        {
+            error: "Cross-site request blocked",
+            code: "csrf_rejected",
+            retryable: false,
+        },
+        403,
+    );
+}
+
+function originOf(url: string): string | null {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return null;
+    }
+}
+
+export function csrfGuard(): MiddlewareHandler {
+    return async (c, next) => {
+        if (SAFE_METHODS.has(c.req.method)) {
+            return next();
+        }
+
+        const expected = new URL(c.req.url).origin;
+        const origin = c.req.header("Origin");
+        if (origin) {
+            return origin === expected
+                ? next()
+                : reject(c, `origin ${origin}`);
+        }
+
+        const site = c.req.header("Sec-Fetch-Site");
+        if (site && site !== "same-origin" && site !== "none") {
+            return reject(c, `sec-fetch-site ${site}`);
+        }
+
+        const referer = c.req.header("Referer");
+        if (referer && originOf(referer) !== expected) {
+            return reject(c, `referer ${originOf(referer) ?? "invalid"}`);
+        }
+
+        return next();
+    };
+}
+
+/**
+ * @param bindHost - Address the server listens on; the guard is a no-op
+ *   when it isn't loopback
+ */
+export function loopbackHostGuard(bindHost: string): MiddlewareHandler {
+    const active = isLoopbackHost(bindHost);
+
+    return async (c, next) => {
+        if (!active) return next();
+
+        const hostname = new URL(c.req.url).hostname;
+        if (isLoopbackHost(hostname)) {
+            return next();
+        }
+
+        logger.warn("Rejected request with unexpected Host header", {
+            host: c.req.header("Host"),
+        });
+        return c.text("Misdirected Request", 421);
+    };
+}
@@ -0,0 +1,178 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import {
+  loadCookies,
+  clearCookies,
+  isValidSession,
+  saveCookies,
+  unlockVault,
+  VaultLockedError,
+} from '../../features/auth/session/vault.store';
+import {
+  cancelLoginJob,
+  getLoginJob,
+  startLoginJob,
+  subscribeLoginJob,
+  type LoginJob,
+} from '../../features/auth/login/login-job';
+import {
+  CALIL_SESSION_COOKIE,
+  hasCalilSessionCookie,
+  parseCookieImport,
+} from '../../features/auth/session/cookie-import';
+import { getSessionKeeper, type SessionStatus } from '../../features/auth/session/session-keeper';
+import { isDemoMode } from '../../features/demo/demo-mode';
+import { logger } from '../../shared/logging/logger';
+import { describeError, errorResponse } from '../utils/error-response';
+import { AuthPage } from '../components/pages/AuthPage';
+import { getAppAuthConfig } from '../middleware/app-auth';
+import { currentProfile } from '../middleware/profile';
+import { getProfile } from '../../features/profiles/db/profiles';
+import { getSettingsDatabase } from '../../features/settings/db/settings-db';
+
+export const authRoutes = new Hono();
+
+// SSE のキープアライブ間隔
+const HEARTBEAT_MS = 15_000;
+
+// ログインが済んだらそのプロファイルのセッションキーパーの状態を更新する
+subscribeLoginJob((job) => {
+  if (job.state === 'validated') void getSessionKeeper(job.profile).check();
+});
+
+// 認証ページ（選択中のプロファイルが対象）
+authRoutes.get('/', (c) => {
+  const profile = currentProfile(c);
+  logger.info('Auth page request', { profile });
+  return c.html(
+    <AuthPage
+      job={getLoginJob(profile)}
+      appAuth={getAppAuthConfig().enabled}
+      profileName={getProfile(getSettingsDatabase(), profile)?.name}
+    />,
+  );
+});
+
+// 状態確認
+authRoutes.get('/status', async (c) => {
+  if (isDemoMode()) return c.json({ state: 'VALID', demo: true });
+  const profile = currentProfile(c);
+  let v;
+  try {
+    v = await loadCookies(profile);
+  } catch (error) {
+    // パスフレーズ未入力、または鍵が合わない
+    if (error instanceof VaultLockedError) return c.json({ state: 'LOCKED' });
+    throw error;
+  }
+  if (!v) return c.json({ state: 'NO_COOKIE' });
+  let ok;
+  try {
+    ok = await isValidSession(v);
+  } catch (error) {
+    // Calil に接続できない（タイムアウト等）ときはセッションが有効か判断できない
+    logger.warn('Session check failed', { profile, error: String(error) });
+    const { code, retryable } = describeError(error, 'Session check failed');
+    return c.json({ state: 'UNKNOWN', code, retryable, session: getSessionKeeper(profile).getStatus() });
+  }
+  return c.json({ state: ok ? 'VALID' : 'EXPIRED', session: getSessionKeeper(profile).getStatus() });
+});
+
+// 保管庫の解錠 { passphrase }（未設定なら以後このパスフレーズで暗号化する）
+authRoutes.post('/unlock', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const passphrase = typeof body?.passphrase === 'string' ? body.passphrase : '';
+  if (!passphrase) {
+    return c.json({ error: 'passphrase is required', code: 'invalid_request', retryable: false }, 400);
+  }
+  const profile = currentProfile(c);
+  if (!(await unlockVault(passphrase, profile))) {
+    return c.json({ error: 'Wrong passphrase', code: 'vault_unlock_failed', retryable: false }, 401);
+  }
+  void getSessionKeeper(profile).check();
+  return c.json({ ok: true });
+});
+
+// ログイン開始（UIから押す）— 初回はheadfulで。進捗は /auth/events で通知
+authRoutes.post('/start', (c) => {
+  const job = startLoginJob(undefined, currentProfile(c));
+  return c.json({ ok: true, job }, 202);
+});
+
+// ログインのキャンセル（ログイン用のページを閉じる）
+authRoutes.post('/cancel', (c) => {
+  return c.json({ ok: cancelLoginJob(currentProfile(c)) });
+});
+
+// ログインジョブの進捗（SSE, event: login）とセッションの状態（event: session）
+authRoutes.get('/events', (c) => {
+  const profile = currentProfile(c);
+  const keeper = getSessionKeeper(profile);
+  return streamSSE(c, async (stream) => {
+    const send = (job: LoginJob | null) =>
+      stream.writeSSE({ event: 'login', data: JSON.stringify(job) });
+    const sendSession = (status: SessionStatus) =>
+      stream.writeSSE({ event: 'session', data: JSON.stringify(status) });
+
+    const unsubscribeJob = subscribeLoginJob((job) => {
+      if (job.profile === profile) send(job).catch(() => undefined);
+    });
+    const unsubscribeSession = keeper.subscribe((status) => {
+      sendSession(status).catch(() => undefined);
+    });
+    const unsubscribe = () => {
+      unsubscribeJob();
+      unsubscribeSession();
+    };
+    stream.onAbort(unsubscribe);
+
+    await send(getLoginJob(profile));
+    if (!isDemoMode()) await sendSession(keeper.getStatus());
+    while (!stream.aborted) {
+      await stream.sleep(HEARTBEAT_MS);
+      if (!stream.aborted) await stream.writeSSE({ event: 'ping', data: '' });
+    }
+    unsubscribe();
+  });
+});
+
+// 手動クッキー登録（バックアップ用）
+// cookies.txt / 拡張機能の JSON / Cookie ヘッダーを受け付け、セッションを確認してから保存する
+authRoutes.post('/cookie', async (c) => {
+  let result;
+  try {
+    result = parseCookieImport(await c.req.text());
+  } catch (error) {
+    return c.json({ error: `Invalid cookie JSON: ${String(error)}`, code: 'invalid_cookies', retryable: false }, 400);
+  }
+
+  const profile = currentProfile(c);
+  const { format, accepted, rejected } = result;
+  const report = { format, accepted: accepted.map((cookie) => cookie.name), rejected };
+  if (accepted.length === 0) {
+    return c.json({ error: 'No calil.jp cookies to import', code: 'invalid_cookies', retryable: false, ...report }, 400);
+  }
+  if (!hasCalilSessionCookie(accepted)) {
+    return c.json({ error: `No Calil session cookie (${CALIL_SESSION_COOKIE}) to import`, code: 'invalid_cookies', retryable: false, ...report }, 400);
+  }
+
+  try {
+    if (!(await isValidSession({ cookies: accepted }))) {
+      return c.json({ error: 'Calil did not accept the cookies', code: 'calil_auth_required', retryable: false, ...report }, 400);
+    }
+    await saveCookies(accepted, profile);
+  } catch (error) {
+    return errorResponse(c, error, 'Failed to save cookies');
+  }
+  logger.info('Cookies imported', { profile, ...report });
+  void getSessionKeeper(profile).check();
+  return c.json({ ok: true, ...report });
+});
+
+// ログアウト
+authRoutes.post('/logout', async (c) => {
+  const profile = currentProfile(c);
+  await clearCookies(profile);
+  void getSessionKeeper(profile).check();
+  return c.json({ ok: true });
+});
@@ -0,0 +1,37 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import {
+    getAvailability,
+    getAvailabilityConfig,
+} from "../../features/calil/availability/availability";
+import { convertISBN10to13 } from "../../features/ndl/utility";
+import { errorResponse } from "../utils/error-response";
+
+export const availabilityRoutes = new Hono();
+
+// APIエンドポイント: 図書館の蔵書・貸出状況（カーリル 図書館API）
+availabilityRoutes.get("/availability/:isbn", async (c) => {
+    const rawIsbn = c.req.param("isbn");
+    const isbn = convertISBN10to13(rawIsbn.replace(/[-\s]/g, ""));
+
+    if (!/^\d{13}$/.test(isbn)) {
+        logger.warn("API: Invalid ISBN", { isbn: rawIsbn });
+        return c.json({ error: "Invalid ISBN" }, 400);
+    }
+
+    const config = getAvailabilityConfig();
+    if (!config) {
+        return c.json({ error: "Availability check is not configured" }, 503);
+    }
+
+    try {
+        const availability = await getAvailability(isbn, config);
+        return c.json(availability);
+    } catch (error) {
+        logger.error("API: Availability check failed", {
+            isbn,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Availability check failed");
+    }
+});
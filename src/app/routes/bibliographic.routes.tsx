@@ -1,12 +1,13 @@
 import { Hono } from "hono";
-import { fetchBookList } from "../../features/calil/api/fetch-list";
-import { convertISBN10to13, NDLsearch } from "../../features/ndl/utility";
+import {
+    convertISBN10to13,
+    ndlItemToBibliographicInfo,
+} from "../../features/ndl/utility";
+import { getNdlEnricher } from "../../features/ndl/enrichment";
 import { logger } from "../../shared/logging/logger";
 import {
     getDatabase,
-    getBibliographicInfo,
     getBibliographicInfoBatch,
-    upsertBibliographicInfo,
     searchBibliographic,
     countSearchResults,
     getAllNDC10Classifications,
@@ -15,14 +16,21 @@ import {
     type BibliographicInfo,
     type SearchOptions,
 } from "../../features/bibliographic/db/schema";
+import { getListDatabases } from "../../features/profiles/list-databases";
+import { getList } from "../../features/lists/db/list-registry";
+import { readListItems } from "../../features/lists/list-reader";
+import { errorResponse } from "../utils/error-response";
+import { currentProfile } from "../middleware/profile";
 
 export const bibliographicRoutes = new Hono();
 
 // APIエンドポイント: 書誌情報のJSONダウンロード
 bibliographicRoutes.get("/download/bibliographic/:listType", async (c) => {
-    const listType = c.req.param("listType") as "wish" | "read";
+    const listType = c.req.param("listType");
+    const profile = currentProfile(c);
 
-    if (listType !== "wish" && listType !== "read") {
+    const list = getList(getListDatabases(profile).registry, listType);
+    if (!list) {
         logger.warn("API: Invalid list type for download", { listType });
         return c.json({ error: "Invalid list type" }, 400);
     }
@@ -30,8 +38,8 @@ bibliographicRoutes.get("/download/bibliographic/:listType", async (c) => {
     logger.info("API: 書誌情報JSONダウンロードリクエスト", { listType });
 
     try {
-        // Fetch all books from the list
-        const books = await fetchBookList(listType);
+        // Read all books from the local mirror or local list
+        const books = await readListItems(list, profile);
         logger.info("API: 蔵書リスト取得完了", {
             listType,
             count: books.length,
@@ -79,48 +87,27 @@ bibliographicRoutes.get("/download/bibliographic/:listType", async (c) => {
                 fetchCount: missingIsbns.length,
             });
 
-            for (const isbn of missingIsbns) {
-                try {
-                    // NDLsearch now handles caching internally
-                    const detail = await NDLsearch(
-                        isbn,
-                        getDatabase(),
-                        getBibliographicInfo,
-                        upsertBibliographicInfo,
-                    );
-                    if (detail && detail[0]) {
-                        const item = detail[0];
-                        if (item.isbn13 && item.title) {
-                            const bibInfo: BibliographicInfo = {
-                                isbn: item.isbn13,
-                                title: item.title,
-                                title_kana: item.titleKana,
-                                authors: item.creators,
-                                authors_kana: item.creatorsKana,
-                                publisher: item.publisher,
-                                pub_year: item.pubYear,
-                                ndc10: item.ndc10,
-                                ndlc: item.ndlc,
-                            };
-                            newlyFetchedInfo.push(bibInfo);
-                            logger.debug("API: NDL書誌情報取得完了", {
-                                isbn,
-                                title: item.title,
-                            });
-                        }
+            // 1割ごとに進捗をログに出す
+            let loggedPercent = 0;
+            const result = await getNdlEnricher().enrich(missingIsbns, {
+                onProgress: (progress) => {
+                    const percent = Math.floor((progress.done / progress.total) * 10) * 10;
+                    if (percent > loggedPercent) {
+                        loggedPercent = percent;
+                        logger.info("API: NDL書誌情報取得中", { listType, ...progress });
                     }
-                } catch (error) {
-                    logger.error("API: NDL書誌情報取得失敗", {
-                        isbn,
-                        error: String(error),
-                    });
-                }
+                },
+            });
+
+            for (const [isbn, item] of result.items) {
+                newlyFetchedInfo.push(ndlItemToBibliographicInfo(isbn, item));
             }
 
             logger.info("API: NDL書誌情報取得処理完了", {
                 listType,
                 fetchedCount: newlyFetchedInfo.length,
-                failedCount: missingIsbns.length - newlyFetchedInfo.length,
+                notFoundCount: result.notFound.length,
+                failedCount: result.failed.length,
             });
         }
 
@@ -144,7 +131,7 @@ bibliographicRoutes.get("/download/bibliographic/:listType", async (c) => {
             books: allBibInfo.map((info) => ({
                 isbn: info.isbn,
                 title: info.title,
-                authors: info.authors,
+                authors: info.creators,
                 publisher: info.publisher || "",
                 pub_year: info.pub_year || "",
                 classification: {
@@ -171,7 +158,7 @@ bibliographicRoutes.get("/download/bibliographic/:listType", async (c) => {
             listType,
             error: String(error),
         });
-        return c.json({ error: "Failed to generate bibliographic data" }, 500);
+        return errorResponse(c, error, "Failed to generate bibliographic data");
     }
 });
 
@@ -242,7 +229,7 @@ bibliographicRoutes.get("/search/bibliographic", async (c) => {
         logger.error("API: Search failed", {
             error: String(error),
         });
-        return c.json({ error: "Search failed" }, 500);
+        return errorResponse(c, error, "Search failed");
     }
 });
 
@@ -264,6 +251,6 @@ bibliographicRoutes.get("/search/filters", async (c) => {
         logger.error("API: Failed to fetch search filters", {
             error: String(error),
         });
-        return c.json({ error: "Failed to fetch filters" }, 500);
+        return errorResponse(c, error, "Failed to fetch filters");
     }
 });
@@ -1,43 +1,52 @@
 import { Hono } from "hono";
 import { raw } from "hono/html";
-import {
-    fetchBookList,
-    fetchBookListMetadata,
-    fetchBookListPage,
-} from "../../features/calil/api/fetch-list";
-import {
-    NDLsearch,
-    convertISBN10to13,
-} from "../../features/ndl/utility";
+import { convertISBN10to13, type NdlItem } from "../../features/ndl/utility";
+import { lookupBibliographic } from "../../features/metadata/lookup";
+import { selectAlternativeRecord } from "../../features/ndl/record-selection";
+import { saveRecordChoice } from "../../features/bibliographic/db/record-choices";
 import { logger } from "../../shared/logging/logger";
 import { getCacheHeaders } from "../utils/cache-headers";
 import { isDevelopment } from "../utils/environment";
 import { BookCard, BookDetail } from "../components/books";
+import { getDatabase } from "../../features/bibliographic/db/schema";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+import { getFavoriteLibraries } from "../../features/calil/db/libraries";
+import { getList } from "../../features/lists/db/list-registry";
 import {
-    getDatabase,
-    getBibliographicInfo,
-    upsertBibliographicInfo,
-} from "../../features/bibliographic/db/schema";
+    getCardTargets,
+    readListMetadata,
+    readListPage,
+} from "../../features/lists/list-reader";
+import { describeError, errorResponse } from "../utils/error-response";
+import { getListDatabases } from "../../features/profiles/list-databases";
+import { currentProfile } from "../middleware/profile";
 
 export const booksRoutes = new Hono();
 
 // APIエンドポイント: 書籍リスト取得（ページネーション対応ストリーミング版）
+// Calilのリストはローカルミラーから配信し、Calilとの同期はバックグラウンドで行う
+// ローカルリストも同じNDJSONプロトコルで配信する
 // Query params: maxPages (optional, default: all pages)
 booksRoutes.get("/book-list-stream/:listType", async (c) => {
-    const listType = c.req.param("listType") as "wish" | "read";
+    const listType = c.req.param("listType");
     const maxPagesParam = c.req.query("maxPages");
     const maxPages = maxPagesParam ? parseInt(maxPagesParam, 10) : undefined;
+    const profile = currentProfile(c);
 
     logger.info("API: book-list-stream request received", {
+        profile,
         listType,
         maxPages,
     });
 
-    if (listType !== "wish" && listType !== "read") {
+    const list = getList(getListDatabases(profile).registry, listType);
+    if (!list) {
         logger.warn("API: Invalid list type", { listType });
         return c.json({ error: "Invalid list type" }, 400);
     }
 
+    const { moveTargets, copyTargets } = getCardTargets(list, profile);
+
     // ストリーミングレスポンスを作成
     const stream = new ReadableStream({
         async start(controller) {
@@ -46,7 +55,7 @@ booksRoutes.get("/book-list-stream/:listType", async (c) => {
             try {
                 // 1. まずメタデータを取得して送信
                 logger.info("API: Fetching metadata", { listType });
-                const metadata = await fetchBookListMetadata(listType);
+                const metadata = await readListMetadata(list, profile);
 
                 const metaMessage =
                     JSON.stringify({
@@ -69,12 +78,20 @@ booksRoutes.get("/book-list-stream/:listType", async (c) => {
                         page,
                         pagesToFetch,
                     });
-                    const books = await fetchBookListPage(listType, page);
+                    const books = await readListPage(list, page, profile);
 
                     // 各ページのHTMLを個別に送信
                     const pageHtml = books
                         .map((book) => {
-                            const htmlElement = <BookCard book={book} />;
+                            const htmlElement = (
+                                <BookCard
+                                    book={book}
+                                    listType={listType}
+                                    listSource={list.source}
+                                    moveTargets={moveTargets}
+                                    copyTargets={copyTargets}
+                                />
+                            );
                             return htmlElement.toString();
                         })
                         .join("");
@@ -107,10 +124,16 @@ booksRoutes.get("/book-list-stream/:listType", async (c) => {
                     listType,
                     error: String(error),
                 });
+                const { code, retryable } = describeError(
+                    error,
+                    "サーバーエラーが発生しました。",
+                );
                 const errorMessage =
                     JSON.stringify({
                         type: "error",
                         value: "サーバーエラーが発生しました。",
+                        code,
+                        retryable,
                     }) + "\n";
                 controller.enqueue(encoder.encode(errorMessage));
                 controller.close();
@@ -119,22 +142,28 @@ booksRoutes.get("/book-list-stream/:listType", async (c) => {
     });
 
     return new Response(stream, {
-        headers: getCacheHeaders(
-            "application/x-ndjson",
-            31536000,
-            isDevelopment,
-        ),
+        headers: {
+            ...getCacheHeaders("application/x-ndjson", 31536000, isDevelopment),
+            // The list depends on the profile selected by cookie
+            Vary: "Cookie",
+        },
     });
 });
 
 // APIエンドポイント: 単一ページ取得（無限スクロール用）
 booksRoutes.get("/book-list-page/:listType/:page", async (c) => {
-    const listType = c.req.param("listType") as "wish" | "read";
+    const listType = c.req.param("listType");
     const page = parseInt(c.req.param("page"), 10);
+    const profile = currentProfile(c);
 
-    logger.info("API: book-list-page request received", { listType, page });
+    logger.info("API: book-list-page request received", {
+        profile,
+        listType,
+        page,
+    });
 
-    if (listType !== "wish" && listType !== "read") {
+    const list = getList(getListDatabases(profile).registry, listType);
+    if (!list) {
         logger.warn("API: Invalid list type", { listType });
         return c.json({ error: "Invalid list type" }, 400);
     }
@@ -146,7 +175,7 @@ booksRoutes.get("/book-list-page/:listType/:page", async (c) => {
 
     try {
         logger.info("API: Fetching single page", { listType, page });
-        const books = await fetchBookListPage(listType, page);
+        const books = await readListPage(list, page, profile);
 
         logger.info("API: Page fetched successfully", {
             listType,
@@ -155,7 +184,16 @@ booksRoutes.get("/book-list-page/:listType/:page", async (c) => {
         });
 
         // BookCardコンポーネントをHTMLとして返す
-        const htmlElements = books.map((book) => <BookCard book={book} />);
+        const { moveTargets, copyTargets } = getCardTargets(list, profile);
+        const htmlElements = books.map((book) => (
+            <BookCard
+                book={book}
+                listType={listType}
+                listSource={list.source}
+                moveTargets={moveTargets}
+                copyTargets={copyTargets}
+            />
+        ));
         const html = htmlElements.map((el) => el.toString()).join("");
 
         return c.html(raw(html));
@@ -165,7 +203,7 @@ booksRoutes.get("/book-list-page/:listType/:page", async (c) => {
             page,
             error: String(error),
         });
-        return c.json({ error: "Failed to fetch page" }, 500);
+        return errorResponse(c, error, "Failed to fetch page");
     }
 });
 
@@ -175,15 +213,19 @@ booksRoutes.get("/books/:isbn", async (c) => {
 
     logger.info("API: 書誌詳細取得リクエスト", { isbn });
 
-    // Search with DB cache support
-    const detail = await NDLsearch(
-        isbn,
-        getDatabase(),
-        getBibliographicInfo,
-        upsertBibliographicInfo,
-    );
+    // DB cache, then NDL / openBD / Google Books
+    let detail: NdlItem[];
+    try {
+        detail = await lookupBibliographic(isbn, getDatabase());
+    } catch (error) {
+        logger.error("API: 書誌情報の取得に失敗", {
+            isbn,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Failed to fetch book details");
+    }
 
-    if (!detail || detail[0] == null) {
+    if (detail[0] == null) {
         logger.warn("API: 書誌情報が見つかりません", { isbn });
         return c.html(<div>詳細情報が見つかりませんでした。</div>);
     }
@@ -201,5 +243,43 @@ booksRoutes.get("/books/:isbn", async (c) => {
     };
     logger.info("API: 書誌詳細取得完了", summary);
 
-    return c.html(<BookDetail item={item} />);
+    return c.html(
+        <BookDetail
+            item={item}
+            libraries={getFavoriteLibraries(getSettingsDatabase())}
+            alternatives={detail.slice(1)}
+        />,
+    );
+});
+
+// APIエンドポイント: 同じISBNのほかの書誌を採用する
+// Body: { position } — index in the alternatives shown by GET /books/:isbn
+booksRoutes.post("/books/:isbn/record", async (c) => {
+    const isbn = c.req.param("isbn");
+    const body = await c.req.json().catch(() => null);
+    const position = body?.position;
+    if (!Number.isInteger(position) || position < 0) {
+        return c.json({ error: "Invalid position" }, 400);
+    }
+
+    const records = selectAlternativeRecord(getDatabase(), isbn, position);
+    if (!records) {
+        return c.json({ error: "Record not found" }, 404);
+    }
+    // bibliographic.db may be reset; the choice is kept with the settings
+    saveRecordChoice(getSettingsDatabase(), isbn, records[0]!.ndlBibId);
+
+    logger.info("API: 書誌を切り替え", {
+        isbn,
+        position,
+        title: records[0]!.title,
+    });
+
+    return c.html(
+        <BookDetail
+            item={records[0]!}
+            libraries={getFavoriteLibraries(getSettingsDatabase())}
+            alternatives={records.slice(1)}
+        />,
+    );
 });
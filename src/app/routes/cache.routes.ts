@@ -0,0 +1,27 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import {
+    clearCacheNamespace,
+    getCacheDatabase,
+    getCacheStats,
+} from "../../shared/cache/kv-cache";
+
+export const cacheRoutes = new Hono();
+
+// APIエンドポイント: 永続キャッシュ（Yomitaiトークン・リストの件数など）の名前空間ごとの件数
+cacheRoutes.get("/cache/stats", (c) => {
+    const namespaces = getCacheStats(getCacheDatabase());
+    return c.json({
+        namespaces,
+        entries: namespaces.reduce((sum, ns) => sum + ns.entries, 0),
+    });
+});
+
+// APIエンドポイント: 名前空間（とその下位）のキャッシュを削除
+// 例: calil:default（アカウント全体）、calil:default:wish（リスト）
+cacheRoutes.delete("/cache/:namespace", (c) => {
+    const namespace = c.req.param("namespace");
+    const removed = clearCacheNamespace(getCacheDatabase(), namespace);
+    logger.info("API: Cache namespace cleared", { namespace, removed });
+    return c.json({ ok: true, removed });
+});
@@ -1,5 +1,7 @@
 import { Hono } from "hono";
 import { getCoverImage } from "../../features/covers/server/cache";
+import { logger } from "../../shared/logging/logger";
+import { errorResponse } from "../utils/error-response";
 
 export const coverRoutes = new Hono();
 
@@ -7,7 +9,16 @@ export const coverRoutes = new Hono();
 coverRoutes.get("/:isbn", async (c) => {
     const isbn = c.req.param("isbn");
 
-    const result = await getCoverImage(isbn);
+    let result: Awaited<ReturnType<typeof getCoverImage>>;
+    try {
+        result = await getCoverImage(isbn);
+    } catch (error) {
+        logger.warn("API: カバー画像の取得に失敗", {
+            isbn,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Failed to fetch cover image");
+    }
 
     if (!result) {
         return c.notFound();
@@ -0,0 +1,10 @@
+import { Hono } from "hono";
+import { getBrowserStates } from "../../features/auth/puppeteer/browser-manager";
+
+export const diagnosticsRoutes = new Hono();
+
+// APIエンドポイント: プロファイルごとのログイン用ブラウザの状態（起動中か・PID・アイドル終了予定時刻など）
+// まだブラウザを使っていないプロファイルは含まれない
+diagnosticsRoutes.get("/diagnostics/browser", (c) => {
+    return c.json({ browsers: getBrowserStates() });
+});
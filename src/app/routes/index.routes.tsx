@@ -1,19 +1,40 @@
 import { Hono } from "hono";
-import { renderToReadableStream } from "hono/jsx/streaming";
+import { renderToReadableStream, StreamingContext } from "hono/jsx/streaming";
+import type { SecureHeadersVariables } from "hono/secure-headers";
 import { logger } from "../../shared/logging/logger";
 import { StreamingBookListPage } from "../components/pages/StreamingBookListPage";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+import { getLists } from "../../features/lists/db/list-registry";
+import { getProfiles } from "../../features/profiles/db/profiles";
+import { getListDatabases } from "../../features/profiles/list-databases";
+import { currentProfile } from "../middleware/profile";
 
-export const indexRoutes = new Hono();
+export const indexRoutes = new Hono<{ Variables: SecureHeadersVariables }>();
 
 // リスト取得（Suspense + Streaming対応）
 indexRoutes.get("/", async (c) => {
-    const tab = (c.req.query("tab") as "wish" | "read") || "wish";
+    const profile = currentProfile(c);
+    const lists = getLists(getListDatabases(profile).registry);
+    const requestedTab = c.req.query("tab");
+    const tab = lists.some((list) => list.id === requestedTab)
+        ? requestedTab!
+        : (lists[0]?.id ?? "");
 
-    logger.info("Streaming page request", { tab });
+    logger.info("Streaming page request", { profile, tab });
 
     // renderToReadableStreamを使用してストリーミングレスポンスを生成
+    // Suspense の差し替えスクリプトには CSP の nonce を付ける
     const stream = renderToReadableStream(
-        <StreamingBookListPage activeTab={tab} />,
+        <StreamingContext.Provider
+            value={{ scriptNonce: c.get("secureHeadersNonce") ?? "" }}
+        >
+            <StreamingBookListPage
+                lists={lists}
+                activeTab={tab}
+                profiles={getProfiles(getSettingsDatabase())}
+                activeProfile={profile}
+            />
+        </StreamingContext.Provider>,
     );
 
     return c.body(stream, {
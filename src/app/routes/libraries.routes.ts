@@ -0,0 +1,108 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+import {
+    getFavoriteLibraries,
+    importLibraries,
+    listCities,
+    listPrefectures,
+    searchLibraries,
+    setFavoriteSystemIds,
+} from "../../features/calil/db/libraries";
+import {
+    fetchLibrariesByPref,
+    loadLibraryMaster,
+    PREFECTURES,
+    type CalilLibrary,
+} from "../../features/calil/libraries/library-master";
+
+export const librariesRoutes = new Hono();
+
+// APIエンドポイント: 図書館の検索（都道府県・市区町村・名前）
+librariesRoutes.get("/libraries", (c) => {
+    const db = getSettingsDatabase();
+    const pref = c.req.query("pref") || undefined;
+    const limitParam = c.req.query("limit");
+
+    return c.json({
+        prefectures: listPrefectures(db),
+        cities: pref ? listCities(db, pref) : [],
+        libraries: searchLibraries(db, {
+            pref,
+            city: c.req.query("city") || undefined,
+            q: c.req.query("q") || undefined,
+            limit: limitParam ? parseInt(limitParam, 10) : undefined,
+        }),
+    });
+});
+
+// APIエンドポイント: カーリルの図書館マスタを取り込み
+// Body: { "pref": "東京都" } または CALIL_LIBRARY_MASTER（ファイル/URL）から一括取り込み
+librariesRoutes.post("/libraries/import", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const pref = typeof body?.pref === "string" ? body.pref : "";
+
+    try {
+        let libraries: CalilLibrary[];
+
+        if (pref) {
+            if (!(PREFECTURES as readonly string[]).includes(pref)) {
+                logger.warn("API: Invalid prefecture", { pref });
+                return c.json({ error: "Invalid prefecture" }, 400);
+            }
+
+            const appKey = process.env.CALIL_APP_KEY;
+            if (!appKey) {
+                return c.json({ error: "CALIL_APP_KEY is not configured" }, 503);
+            }
+
+            libraries = await fetchLibrariesByPref(pref, {
+                appKey,
+                baseUrl: process.env.CALIL_API_BASE_URL,
+            });
+        } else if (process.env.CALIL_LIBRARY_MASTER) {
+            libraries = await loadLibraryMaster(process.env.CALIL_LIBRARY_MASTER);
+        } else {
+            return c.json({ error: "Prefecture is required" }, 400);
+        }
+
+        const imported = importLibraries(getSettingsDatabase(), libraries);
+        logger.info("API: Library master imported", { pref, imported });
+        return c.json({ imported });
+    } catch (error) {
+        logger.error("API: Library master import failed", {
+            pref,
+            error: String(error),
+        });
+        return c.json({ error: "Library import failed" }, 502);
+    }
+});
+
+// APIエンドポイント: お気に入り図書館の取得
+librariesRoutes.get("/settings/libraries", (c) => {
+    return c.json({ favorites: getFavoriteLibraries(getSettingsDatabase()) });
+});
+
+// APIエンドポイント: お気に入り図書館の保存
+// Body: { "systemIds": ["Tokyo_Setagaya", "Univ_Tokyo"] }
+librariesRoutes.put("/settings/libraries", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const systemIds = body?.systemIds;
+
+    if (
+        !Array.isArray(systemIds) ||
+        !systemIds.every((id) => typeof id === "string" && id.trim() !== "")
+    ) {
+        logger.warn("API: Invalid favorite libraries", { systemIds });
+        return c.json({ error: "systemIds must be an array of strings" }, 400);
+    }
+
+    const db = getSettingsDatabase();
+    const saved = setFavoriteSystemIds(
+        db,
+        systemIds.map((id: string) => id.trim()),
+    );
+    logger.info("API: Favorite libraries saved", { systemIds: saved });
+
+    return c.json({ favorites: getFavoriteLibraries(db) });
+});
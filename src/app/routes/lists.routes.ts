@@ -0,0 +1,311 @@
+import { Hono } from "hono";
+import type { Database } from "bun:sqlite";
+import { logger } from "../../shared/logging/logger";
+import {
+    getListChanges,
+    getListSyncState,
+    getMirroredItem,
+} from "../../features/calil/db/list-mirror";
+import {
+    calilListSource,
+    requestListSync,
+    resyncList,
+    type ListSyncResult,
+} from "../../features/calil/sync/list-sync";
+import {
+    addBookToList,
+    removeBookFromList,
+    type ListType,
+} from "../../features/calil/api/fetch-list";
+import { convertISBN10to13 } from "../../features/ndl/utility";
+import { getListDatabases } from "../../features/profiles/list-databases";
+import {
+    getList,
+    getLists,
+    isValidListId,
+    registerList,
+    unregisterList,
+} from "../../features/lists/db/list-registry";
+import { describeError, errorResponse } from "../utils/error-response";
+import { currentProfile } from "../middleware/profile";
+
+// Calilのリストとしてプロファイルのレジストリに登録されているか
+function isListType(registry: Database, value: unknown): value is ListType {
+    return (
+        typeof value === "string" &&
+        getList(registry, value)?.source === "calil"
+    );
+}
+
+type ResyncOutcome = ListSyncResult | { error: string; code: string; retryable: boolean };
+
+// Calilへの変更が済んだ後のミラーの再同期
+// 失敗しても変更自体は成功として返す（エラーにするとクライアントの再試行で二重に追加・移動される）
+async function resyncAfterChange(
+    mirror: Database,
+    listType: ListType,
+    profile: string,
+): Promise<ResyncOutcome> {
+    try {
+        return await resyncList(mirror, listType, calilListSource(profile));
+    } catch (error) {
+        logger.warn("API: List resync after change failed", {
+            profile,
+            listType,
+            error: String(error),
+        });
+        const { error: message, code, retryable } = describeError(error, "List resync failed");
+        return { error: message, code, retryable };
+    }
+}
+
+export const listsRoutes = new Hono();
+
+// APIエンドポイント: 登録されているリストの一覧
+listsRoutes.get("/lists", (c) => {
+    const { registry } = getListDatabases(currentProfile(c));
+    return c.json({ lists: getLists(registry) });
+});
+
+// APIエンドポイント: Calilのリストを登録（タブとして表示される）
+// Body: { "id": "reading", "name": "読んでる本", "icon": "📚" }
+listsRoutes.post("/lists", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const id = typeof body?.id === "string" ? body.id : "";
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    const icon = typeof body?.icon === "string" && body.icon ? body.icon : "📚";
+
+    if (!isValidListId(id) || !name) {
+        logger.warn("API: Invalid list definition", { id, name });
+        return c.json({ error: "Invalid list definition" }, 400);
+    }
+
+    const { registry } = getListDatabases(currentProfile(c));
+    const existing = getList(registry, id);
+    if (existing && existing.source !== "calil") {
+        logger.warn("API: List id already used", { id });
+        return c.json({ error: "List id already used" }, 409);
+    }
+
+    logger.info("API: Registering list", { id, name });
+    const list = registerList(registry, {
+        id,
+        name,
+        icon,
+        source: "calil",
+    });
+    return c.json({ list }, existing ? 200 : 201);
+});
+
+// APIエンドポイント: Calilのリストの登録解除（Calil上のリストは削除しない）
+listsRoutes.delete("/lists/:listType", (c) => {
+    const listType = c.req.param("listType");
+    const { registry } = getListDatabases(currentProfile(c));
+
+    if (!isListType(registry, listType)) {
+        logger.warn("API: Invalid list type", { listType });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    if (getLists(registry).length <= 1) {
+        return c.json({ error: "Cannot remove the last list" }, 409);
+    }
+
+    logger.info("API: Unregistering list", { listType });
+    unregisterList(registry, listType);
+    return c.json({ ok: true });
+});
+
+// APIエンドポイント: ローカルミラーの同期状態と最近の変更履歴
+listsRoutes.get("/lists/:listType/sync", (c) => {
+    const listType = c.req.param("listType");
+    const { registry, mirror } = getListDatabases(currentProfile(c));
+
+    if (!isListType(registry, listType)) {
+        logger.warn("API: Invalid list type", { listType });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    const limitParam = c.req.query("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+    return c.json({
+        state: getListSyncState(mirror, listType),
+        changes: getListChanges(mirror, listType, limit),
+    });
+});
+
+// APIエンドポイント: Calilとの同期を即時実行
+listsRoutes.post("/lists/:listType/sync", async (c) => {
+    const listType = c.req.param("listType");
+    const profile = currentProfile(c);
+    const { registry, mirror } = getListDatabases(profile);
+
+    if (!isListType(registry, listType)) {
+        logger.warn("API: Invalid list type", { listType });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    logger.info("API: List sync requested", { profile, listType });
+
+    try {
+        const result = await requestListSync(
+            mirror,
+            listType,
+            calilListSource(profile),
+        );
+        return c.json(result);
+    } catch (error) {
+        logger.error("API: List sync failed", {
+            listType,
+            error: String(error),
+        });
+        return errorResponse(c, error, "List sync failed");
+    }
+});
+
+// APIエンドポイント: リストに書籍を追加
+// Body: { "isbn": "9784873117522" }
+listsRoutes.post("/lists/:listType/items", async (c) => {
+    const listType = c.req.param("listType");
+    const profile = currentProfile(c);
+    const { registry, mirror } = getListDatabases(profile);
+
+    if (!isListType(registry, listType)) {
+        logger.warn("API: Invalid list type", { listType });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const rawIsbn = typeof body?.isbn === "string" ? body.isbn : "";
+    const isbn = convertISBN10to13(rawIsbn.replace(/[-\s]/g, ""));
+
+    if (!/^\d{13}$/.test(isbn)) {
+        logger.warn("API: Invalid ISBN", { listType, isbn: rawIsbn });
+        return c.json({ error: "Invalid ISBN" }, 400);
+    }
+
+    logger.info("API: Adding book to list", { profile, listType, isbn });
+
+    try {
+        await addBookToList(listType, isbn, profile);
+    } catch (error) {
+        logger.error("API: Failed to add book to list", {
+            listType,
+            isbn,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Failed to add book");
+    }
+
+    const sync = await resyncAfterChange(mirror, listType, profile);
+    return c.json({ ok: true, sync }, 201);
+});
+
+// APIエンドポイント: リストから書籍を削除
+listsRoutes.delete("/lists/:listType/items/:bookId", async (c) => {
+    const listType = c.req.param("listType");
+    const bookId = c.req.param("bookId");
+    const profile = currentProfile(c);
+    const { registry, mirror } = getListDatabases(profile);
+
+    if (!isListType(registry, listType)) {
+        logger.warn("API: Invalid list type", { listType });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    logger.info("API: Removing book from list", { profile, listType, bookId });
+
+    try {
+        await removeBookFromList(listType, bookId, profile);
+    } catch (error) {
+        logger.error("API: Failed to remove book from list", {
+            listType,
+            bookId,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Failed to remove book");
+    }
+
+    const sync = await resyncAfterChange(mirror, listType, profile);
+    return c.json({ ok: true, sync });
+});
+
+// APIエンドポイント: 書籍を別のリストへ移動（例: 読みたい → 読んだ）
+// Body: { "to": "read" }
+listsRoutes.post("/lists/:listType/items/:bookId/move", async (c) => {
+    const listType = c.req.param("listType");
+    const bookId = c.req.param("bookId");
+    const body = await c.req.json().catch(() => null);
+    const to = body?.to;
+    const profile = currentProfile(c);
+    const { registry, mirror } = getListDatabases(profile);
+
+    if (
+        !isListType(registry, listType) ||
+        !isListType(registry, to) ||
+        listType === to
+    ) {
+        logger.warn("API: Invalid list type for move", { listType, to });
+        return c.json({ error: "Invalid list type" }, 400);
+    }
+
+    const book = getMirroredItem(mirror, listType, bookId);
+    if (!book) {
+        logger.warn("API: Book not found in list", { listType, bookId });
+        return c.json({ error: "Book not found" }, 404);
+    }
+
+    logger.info("API: Moving book between lists", {
+        profile,
+        from: listType,
+        to,
+        bookId,
+        isbn: book.isbn,
+    });
+
+    // 先に移動先へ追加するので、途中で失敗しても本がどちらのリストからも消えることはない
+    try {
+        await addBookToList(to, book.isbn, profile);
+    } catch (error) {
+        logger.error("API: Failed to move book", {
+            from: listType,
+            to,
+            bookId,
+            error: String(error),
+        });
+        return errorResponse(c, error, "Failed to move book");
+    }
+
+    let removeError: unknown = null;
+    try {
+        await removeBookFromList(listType, book.id, profile);
+    } catch (error) {
+        logger.error("API: Book added but not removed from the source list", {
+            from: listType,
+            to,
+            bookId,
+            error: String(error),
+        });
+        removeError = error;
+    }
+
+    const [fromSync, toSync] = await Promise.all([
+        resyncAfterChange(mirror, listType, profile),
+        resyncAfterChange(mirror, to, profile),
+    ]);
+    const sync = { [listType]: fromSync, [to]: toSync };
+
+    // 追加だけ済んだ状態。移動をやり直すと二重に追加されるので、残りは元のリストからの削除だと伝える
+    if (removeError) {
+        const { error, code, retryable } = describeError(
+            removeError,
+            "Book added but not removed from the source list",
+        );
+        return c.json(
+            { ok: false, failedStep: "remove", error, code, retryable, sync },
+            207,
+        );
+    }
+    return c.json({ ok: true, sync });
+});
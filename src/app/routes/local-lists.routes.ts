@@ -0,0 +1,241 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import type { Database } from "bun:sqlite";
+import { getListDatabases } from "../../features/profiles/list-databases";
+import { getDatabase } from "../../features/bibliographic/db/schema";
+import { getMirroredItem } from "../../features/calil/db/list-mirror";
+import {
+    getList,
+    getLists,
+    isValidListId,
+    registerList,
+    unregisterList,
+} from "../../features/lists/db/list-registry";
+import {
+    addLocalListItem,
+    clearLocalList,
+    countLocalListItems,
+    getLocalListItems,
+    removeLocalListItem,
+    type NewLocalListItem,
+} from "../../features/lists/db/local-lists";
+import { convertISBN10to13 } from "../../features/ndl/utility";
+import { lookupBibliographic } from "../../features/metadata/lookup";
+import { currentProfile } from "../middleware/profile";
+
+// ローカルリストとしてプロファイルのレジストリに登録されているか
+function findLocalList(registry: Database, listId: string) {
+    const list = getList(registry, listId);
+    return list?.source === "local" ? list : null;
+}
+
+// ISBNから書誌情報を引いてリスト項目を作る（どのプロバイダーにも無ければISBNのみ）
+async function lookupBook(isbn: string): Promise<NewLocalListItem> {
+    const detail = await lookupBibliographic(isbn, getDatabase()).catch((error) => {
+        logger.warn("API: Bibliographic lookup failed for local list item", {
+            isbn,
+            error: String(error),
+        });
+        return null;
+    });
+    const item = detail?.[0];
+
+    if (!item?.title) {
+        return {
+            isbn,
+            title: `ISBN ${isbn}`,
+            author: "",
+            publisher: "",
+            pubdate: "",
+            source: "isbn",
+        };
+    }
+
+    return {
+        isbn,
+        title: item.title,
+        author: item.creators.join(", "),
+        publisher: item.publisher ?? "",
+        pubdate: item.issued ?? item.pubYear ?? "",
+        // The provider of the base record ("ndl", "openbd", "google")
+        source: item.source?.split(",")[0] || "ndl",
+    };
+}
+
+export const localListsRoutes = new Hono();
+
+// APIエンドポイント: ローカルリストの一覧（件数付き）
+localListsRoutes.get("/local-lists", (c) => {
+    const db = getListDatabases(currentProfile(c)).registry;
+    const lists = getLists(db, "local").map((list) => ({
+        ...list,
+        count: countLocalListItems(db, list.id),
+    }));
+    return c.json({ lists });
+});
+
+// APIエンドポイント: ローカルリストを作成
+// Body: { "id": "owned", "name": "持っている本", "icon": "🏠" }
+localListsRoutes.post("/local-lists", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const id = typeof body?.id === "string" ? body.id : "";
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    const icon = typeof body?.icon === "string" && body.icon ? body.icon : "📚";
+
+    if (!isValidListId(id) || !name) {
+        logger.warn("API: Invalid local list definition", { id, name });
+        return c.json({ error: "Invalid list definition" }, 400);
+    }
+
+    const { registry } = getListDatabases(currentProfile(c));
+    if (getList(registry, id)) {
+        logger.warn("API: List id already used", { id });
+        return c.json({ error: "List id already used" }, 409);
+    }
+
+    logger.info("API: Creating local list", { id, name });
+    const list = registerList(registry, {
+        id,
+        name,
+        icon,
+        source: "local",
+    });
+    return c.json({ list }, 201);
+});
+
+// APIエンドポイント: ローカルリストの名前・アイコンを変更
+// Body: { "name": "手元の本", "icon": "📦" }
+localListsRoutes.patch("/local-lists/:listId", async (c) => {
+    const listId = c.req.param("listId");
+    const { registry } = getListDatabases(currentProfile(c));
+    const list = findLocalList(registry, listId);
+
+    if (!list) {
+        logger.warn("API: Local list not found", { listId });
+        return c.json({ error: "List not found" }, 404);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const name = typeof body?.name === "string" ? body.name.trim() : list.name;
+    const icon = typeof body?.icon === "string" && body.icon ? body.icon : list.icon;
+
+    if (!name) {
+        return c.json({ error: "Invalid list definition" }, 400);
+    }
+
+    logger.info("API: Updating local list", { listId, name, icon });
+    const updated = registerList(registry, { ...list, name, icon });
+    return c.json({ list: updated });
+});
+
+// APIエンドポイント: ローカルリストを削除（登録されている書籍も削除）
+localListsRoutes.delete("/local-lists/:listId", (c) => {
+    const listId = c.req.param("listId");
+    const db = getListDatabases(currentProfile(c)).registry;
+
+    if (!findLocalList(db, listId)) {
+        logger.warn("API: Local list not found", { listId });
+        return c.json({ error: "List not found" }, 404);
+    }
+
+    const removedItems = db.transaction(() => {
+        const count = clearLocalList(db, listId);
+        unregisterList(db, listId);
+        return count;
+    })();
+
+    logger.info("API: Local list deleted", { listId, removedItems });
+    return c.json({ ok: true, removedItems });
+});
+
+// APIエンドポイント: ローカルリストの書籍一覧
+localListsRoutes.get("/local-lists/:listId/items", (c) => {
+    const listId = c.req.param("listId");
+    const { registry } = getListDatabases(currentProfile(c));
+
+    if (!findLocalList(registry, listId)) {
+        logger.warn("API: Local list not found", { listId });
+        return c.json({ error: "List not found" }, 404);
+    }
+
+    return c.json({ items: getLocalListItems(registry, listId) });
+});
+
+// APIエンドポイント: ローカルリストに書籍を追加
+// Body: { "isbn": "9784873117522" }（NDLで書誌情報を補完）
+//    or { "fromList": "wish", "bookId": "123" }（Calilのリストからコピー）
+localListsRoutes.post("/local-lists/:listId/items", async (c) => {
+    const listId = c.req.param("listId");
+    const { registry, mirror } = getListDatabases(currentProfile(c));
+
+    if (!findLocalList(registry, listId)) {
+        logger.warn("API: Local list not found", { listId });
+        return c.json({ error: "List not found" }, 404);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    let item: NewLocalListItem;
+
+    if (typeof body?.fromList === "string" && typeof body?.bookId === "string") {
+        const book = getMirroredItem(mirror, body.fromList, body.bookId);
+        if (!book) {
+            logger.warn("API: Book not found in list", {
+                fromList: body.fromList,
+                bookId: body.bookId,
+            });
+            return c.json({ error: "Book not found" }, 404);
+        }
+
+        item = {
+            isbn: convertISBN10to13(book.isbn) || book.isbn,
+            title: book.title,
+            author: book.author,
+            publisher: book.publisher,
+            pubdate: book.pubdate,
+            source: `calil:${body.fromList}`,
+        };
+    } else {
+        const rawIsbn = typeof body?.isbn === "string" ? body.isbn : "";
+        const isbn = convertISBN10to13(rawIsbn.replace(/[-\s]/g, ""));
+
+        if (!/^\d{13}$/.test(isbn)) {
+            logger.warn("API: Invalid ISBN", { listId, isbn: rawIsbn });
+            return c.json({ error: "Invalid ISBN" }, 400);
+        }
+
+        item = await lookupBook(isbn);
+    }
+
+    const added = addLocalListItem(registry, listId, item);
+    if (!added) {
+        logger.info("API: Book already in local list", { listId, isbn: item.isbn });
+        return c.json({ error: "Book already in list" }, 409);
+    }
+
+    logger.info("API: Book added to local list", {
+        listId,
+        isbn: item.isbn,
+        source: item.source,
+    });
+    return c.json({ item: added }, 201);
+});
+
+// APIエンドポイント: ローカルリストから書籍を削除
+localListsRoutes.delete("/local-lists/:listId/items/:itemId", (c) => {
+    const listId = c.req.param("listId");
+    const itemId = c.req.param("itemId");
+    const { registry } = getListDatabases(currentProfile(c));
+
+    if (!findLocalList(registry, listId)) {
+        logger.warn("API: Local list not found", { listId });
+        return c.json({ error: "List not found" }, 404);
+    }
+
+    if (!removeLocalListItem(registry, listId, itemId)) {
+        logger.warn("API: Local list item not found", { listId, itemId });
+        return c.json({ error: "Item not found" }, 404);
+    }
+
+    logger.info("API: Book removed from local list", { listId, itemId });
+    return c.json({ ok: true });
+});
@@ -14,8 +14,11 @@ logRoutes.get("/", (c) => {
     return c.html(<LogViewerPage logs={logs} />);
 });
 
-// ログクリアエンドポイント
+// ログクリアエンドポイント（ログビューアーのフォームからはページに戻る）
 logRoutes.post("/clear", (c) => {
     logger.clear();
+    if (c.req.header("Content-Type")?.includes("form")) {
+        return c.redirect("/log");
+    }
     return c.json({ success: true });
 });
@@ -0,0 +1,56 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import { LoginPage } from "../components/pages/LoginPage";
+import {
+    endAppSession,
+    getAppAuthConfig,
+    hasValidSession,
+    safeNextPath,
+    startAppSession,
+    tokenMatches,
+} from "../middleware/app-auth";
+
+export const loginRoutes = new Hono();
+
+// アプリのログインページ（アクセス制御が無効、またはログイン済みなら元のページへ）
+loginRoutes.get("/", async (c) => {
+    const config = getAppAuthConfig();
+    const next = safeNextPath(c.req.query("next"));
+
+    if (!config.enabled || (await hasValidSession(c, config.token))) {
+        return c.redirect(next);
+    }
+    return c.html(<LoginPage next={next} />);
+});
+
+// アクセストークンを確認してセッションCookieを発行
+loginRoutes.post("/", async (c) => {
+    const config = getAppAuthConfig();
+    const body = await c.req.parseBody();
+    const next = safeNextPath(
+        typeof body.next === "string" ? body.next : undefined,
+    );
+
+    if (!config.enabled) {
+        return c.redirect(next);
+    }
+
+    const token = typeof body.token === "string" ? body.token.trim() : "";
+    if (!tokenMatches(config.token, token)) {
+        logger.warn("App login failed: wrong access token");
+        return c.html(
+            <LoginPage next={next} error="アクセストークンが違います" />,
+            401,
+        );
+    }
+
+    await startAppSession(c, config.token);
+    logger.info("App login succeeded");
+    return c.redirect(next);
+});
+
+// セッションCookieを削除してログインページへ
+loginRoutes.post("/logout", (c) => {
+    endAppSession(c);
+    return c.redirect("/login");
+});
@@ -0,0 +1,64 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import {
+    hasNdlSearchKeyword,
+    searchNdl,
+    type NdlSearchQuery,
+} from "../../features/ndl/utility";
+import { getCalilListsByIsbn } from "../../features/lists/list-reader";
+import { errorResponse } from "../utils/error-response";
+import { currentProfile } from "../middleware/profile";
+
+/**
+ * Read a keyword search from query parameters (shared with the search page)
+ */
+export function parseNdlSearchQuery(
+    params: Record<string, string | undefined>,
+): NdlSearchQuery {
+    const number = (value: string | undefined) =>
+        value ? parseInt(value, 10) : undefined;
+    return {
+        title: params.title,
+        creator: params.creator,
+        publisher: params.publisher,
+        from: params.from,
+        until: params.until,
+        ndc: params.ndc,
+        cnt: number(params.cnt),
+        idx: number(params.idx),
+    };
+}
+
+export const ndlRoutes = new Hono();
+
+// APIエンドポイント: NDLのキーワード検索（タイトル・著者・出版社・出版年・NDC）
+// Query params: title, creator, publisher, from, until, ndc, cnt, idx
+// 各結果の lists に、そのISBNが登録済みのCalilのリストが入る
+ndlRoutes.get("/ndl/search", async (c) => {
+    const query = parseNdlSearchQuery(c.req.query());
+
+    if (!hasNdlSearchKeyword(query)) {
+        logger.warn("API: NDL search without keyword", { query });
+        return c.json({ error: "title, creator, publisher or ndc is required" }, 400);
+    }
+
+    try {
+        const feed = await searchNdl(query);
+        const listsByIsbn = getCalilListsByIsbn(currentProfile(c));
+
+        return c.json({
+            totalResults: feed.totalResults,
+            startIndex: feed.startIndex,
+            itemsPerPage: feed.itemsPerPage,
+            items: feed.items.map((item) => ({
+                ...item,
+                lists: (item.isbn13 ? listsByIsbn.get(item.isbn13) ?? [] : []).map(
+                    (list) => list.id,
+                ),
+            })),
+        });
+    } catch (error) {
+        logger.error("API: NDL search failed", { query, error: String(error) });
+        return errorResponse(c, error, "NDL search failed");
+    }
+});
@@ -0,0 +1,101 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import { DEFAULT_PROFILE_ID } from "../../shared/config/app-paths";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+import {
+    deleteProfile,
+    getProfile,
+    getProfiles,
+    isValidProfileId,
+    saveProfile,
+} from "../../features/profiles/db/profiles";
+import { closeListDatabases } from "../../features/profiles/list-databases";
+import { initVault } from "../../features/auth/session/vault.store";
+import {
+    getSessionKeeper,
+    removeSessionKeeper,
+} from "../../features/auth/session/session-keeper";
+import { cancelLoginJob } from "../../features/auth/login/login-job";
+import { removeBrowserManager } from "../../features/auth/puppeteer/browser-manager";
+import { isDemoMode } from "../../features/demo/demo-mode";
+import { currentProfile } from "../middleware/profile";
+
+export const profilesRoutes = new Hono();
+
+// APIエンドポイント: プロファイル（Calilアカウント）の一覧と選択中のプロファイル
+profilesRoutes.get("/profiles", (c) => {
+    return c.json({
+        profiles: getProfiles(getSettingsDatabase()),
+        active: currentProfile(c),
+    });
+});
+
+// APIエンドポイント: プロファイルを作成（ログインは /auth?profile=<id> から）
+// Body: { "id": "partner", "name": "家族" }
+profilesRoutes.post("/profiles", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    const id = typeof body?.id === "string" ? body.id : "";
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+
+    if (!isValidProfileId(id) || !name) {
+        logger.warn("API: Invalid profile definition", { id, name });
+        return c.json({ error: "Invalid profile definition" }, 400);
+    }
+
+    if (getProfile(getSettingsDatabase(), id)) {
+        logger.warn("API: Profile id already used", { id });
+        return c.json({ error: "Profile id already used" }, 409);
+    }
+
+    logger.info("API: Creating profile", { id, name });
+    const profile = saveProfile(getSettingsDatabase(), { id, name });
+    await initVault(id);
+    if (!isDemoMode()) {
+        getSessionKeeper(id).start();
+    }
+    return c.json({ profile }, 201);
+});
+
+// APIエンドポイント: プロファイル名を変更
+// Body: { "name": "パートナー" }
+profilesRoutes.patch("/profiles/:profileId", async (c) => {
+    const profileId = c.req.param("profileId");
+    const existing = getProfile(getSettingsDatabase(), profileId);
+
+    if (!existing) {
+        logger.warn("API: Profile not found", { profileId });
+        return c.json({ error: "Profile not found" }, 404);
+    }
+
+    const body = await c.req.json().catch(() => null);
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    if (!name) {
+        return c.json({ error: "Invalid profile definition" }, 400);
+    }
+
+    logger.info("API: Renaming profile", { profileId, name });
+    const profile = saveProfile(getSettingsDatabase(), { id: profileId, name });
+    return c.json({ profile });
+});
+
+// APIエンドポイント: プロファイルを削除（保管庫やリストのファイルはディスクに残す）
+profilesRoutes.delete("/profiles/:profileId", async (c) => {
+    const profileId = c.req.param("profileId");
+
+    if (profileId === DEFAULT_PROFILE_ID) {
+        return c.json({ error: "The default profile can't be deleted" }, 409);
+    }
+
+    if (!getProfile(getSettingsDatabase(), profileId)) {
+        logger.warn("API: Profile not found", { profileId });
+        return c.json({ error: "Profile not found" }, 404);
+    }
+
+    logger.info("API: Deleting profile", { profileId });
+    deleteProfile(getSettingsDatabase(), profileId);
+    cancelLoginJob(profileId);
+    removeSessionKeeper(profileId);
+    closeListDatabases(profileId);
+    await removeBrowserManager(profileId);
+    return c.json({ ok: true });
+});
@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import {
+    hasNdlSearchKeyword,
+    searchNdl,
+    type NdlFeed,
+} from "../../features/ndl/utility";
+import { getCalilListsByIsbn } from "../../features/lists/list-reader";
+import { SearchPage } from "../components/pages/SearchPage";
+import { describeError } from "../utils/error-response";
+import { currentProfile } from "../middleware/profile";
+import { parseNdlSearchQuery } from "./ndl.routes";
+
+export const searchRoutes = new Hono();
+
+// NDLのキーワード検索ページ（条件が無ければフォームだけ表示）
+searchRoutes.get("/", async (c) => {
+    const query = parseNdlSearchQuery(c.req.query());
+    let feed: NdlFeed | null = null;
+    let error: string | null = null;
+
+    if (hasNdlSearchKeyword(query)) {
+        logger.info("Search page request", { query });
+        try {
+            feed = await searchNdl(query);
+        } catch (err) {
+            logger.error("NDL search failed", { query, error: String(err) });
+            error = describeError(err, "NDL search failed").retryable
+                ? "国立国会図書館サーチに接続できませんでした。しばらくしてから再度お試しください。"
+                : "検索に失敗しました。";
+        }
+    }
+
+    return c.html(
+        <SearchPage
+            query={query}
+            feed={feed}
+            error={error}
+            listsByIsbn={getCalilListsByIsbn(currentProfile(c))}
+        />,
+    );
+});
@@ -0,0 +1,18 @@
+import { Hono } from "hono";
+import { logger } from "../../shared/logging/logger";
+import { getSettingsDatabase } from "../../features/settings/db/settings-db";
+import { getFavoriteLibraries } from "../../features/calil/db/libraries";
+import { LibrarySettingsPage } from "../components/pages/LibrarySettingsPage";
+
+export const settingsRoutes = new Hono();
+
+// 図書館設定ページ
+settingsRoutes.get("/libraries", (c) => {
+    logger.info("Library settings page request");
+
+    return c.html(
+        <LibrarySettingsPage
+            favorites={getFavoriteLibraries(getSettingsDatabase())}
+        />,
+    );
+});
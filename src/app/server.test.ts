@@ -1,7 +1,25 @@
-import { test, expect, describe, beforeAll, mock } from "bun:test";
+import { test, expect, describe, beforeAll, afterAll, mock } from "bun:test";
 import { app } from "./server";
-import { convertISBN10to13 } from "../features/ndl/utility";
-import type { NdlItem } from "../features/ndl/utility";
+import {
+    convertISBN10to13,
+    hasNdlSearchKeyword,
+} from "../features/ndl/utility";
+import type { NdlFeed, NdlItem } from "../features/ndl/utility";
+import type { BrowserState } from "../features/auth/puppeteer/browser-manager";
+import {
+    getCacheDatabase,
+    getCacheEntry,
+    setCacheEntry,
+} from "../shared/cache/kv-cache";
+import {
+    clearCookies,
+    saveCookies,
+} from "../features/auth/session/vault.store";
+import {
+    configureUpstream,
+    resetUpstreamPolicies,
+} from "../shared/http/http-client";
+import * as fetchList from "../features/calil/api/fetch-list";
 import { tmpdir } from "node:os";
 import path from "node:path";
 
@@ -65,6 +83,11 @@ const mockReadBooks: BookElement[] = [
     },
 ];
 
+// 設定するとリストの取得（同期）がこのエラーで失敗する
+let listFetchError: Error | null = null;
+// 設定するとリストからの削除がこのエラーで失敗する
+let listRemoveError: Error | null = null;
+
 const mockNdlItem: NdlItem = {
     title: "Go言語によるWebアプリケーション開発",
     titleKana: "ゴゲンゴニヨルウェブアプリケーションカイハツ",
@@ -86,8 +109,21 @@ const mockNdlItem: NdlItem = {
     subjects: ["Webアプリケーション", "Go (プログラミング言語)"],
     descriptionHtml: "<div>テスト説明</div>",
     seeAlso: [],
+    seriesTitle: null,
+    volume: null,
+    edition: null,
+    tableOfContents: [],
+    alternativeTitles: [],
+    authorityLinks: [],
 };
 
+// モック前の Calil クライアント。ファイルの最後に戻し、後のテストファイルに差し替えを残さない
+const realFetchList = { ...fetchList };
+
+afterAll(() => {
+    mock.module("../features/calil/api/fetch-list", () => realFetchList);
+});
+
 describe("Server Integration Tests (Idempotent)", () => {
     // モックの設定
     beforeAll(() => {
@@ -108,6 +144,7 @@ describe("Server Integration Tests (Idempotent)", () => {
                     totalPages: number;
                     pageSize: number;
                 }> => {
+                    if (listFetchError) return Promise.reject(listFetchError);
                     const books =
                         listType === "wish" ? mockWishBooks : mockReadBooks;
                     return Promise.resolve({
@@ -127,17 +164,35 @@ describe("Server Integration Tests (Idempotent)", () => {
                     return Promise.resolve(books);
                 },
             ),
+            addBookToList: mock((): Promise<void> => Promise.resolve()),
+            removeBookFromList: mock((): Promise<void> =>
+                listRemoveError ? Promise.reject(listRemoveError) : Promise.resolve(),
+            ),
         }));
 
-        // NDL APIのモック
-        mock.module("../features/ndl/utility", () => ({
-            NDLsearch: mock((isbn: string): Promise<NdlItem[] | null> => {
+        // 書誌情報の取得（NDL / openBD / Google Books）のモック
+        mock.module("../features/metadata/lookup", () => ({
+            lookupBibliographic: mock((isbn: string): Promise<NdlItem[]> => {
                 if (isbn === "9784873117522") {
                     return Promise.resolve([mockNdlItem]);
                 }
-                return Promise.resolve(null);
+                return Promise.resolve([]);
             }),
+        }));
+
+        // NDL APIのモック
+        mock.module("../features/ndl/utility", () => ({
             convertISBN10to13: convertISBN10to13, // 実際の関数を使用
+            hasNdlSearchKeyword: hasNdlSearchKeyword,
+            searchNdl: mock(
+                (): Promise<NdlFeed> =>
+                    Promise.resolve({
+                        totalResults: 1,
+                        startIndex: 1,
+                        itemsPerPage: 1,
+                        items: [mockNdlItem],
+                    }),
+            ),
         }));
 
         // Cover APIのモック
@@ -253,6 +308,30 @@ describe("Server Integration Tests (Idempotent)", () => {
             const html = await res.text();
             expect(html).toContain("詳細情報が見つかりませんでした");
         });
+
+        test("POST /api/books/:isbn/record - 無効な position は400エラー", async () => {
+            const res = await app.request("/api/books/9784873117522/record", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ position: "first" }),
+            });
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.error).toBe("Invalid position");
+        });
+
+        test("POST /api/books/:isbn/record - 候補がなければ404エラー", async () => {
+            const res = await app.request("/api/books/9999999999999/record", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ position: 0 }),
+            });
+
+            expect(res.status).toBe(404);
+            const data = await res.json();
+            expect(data.error).toBe("Record not found");
+        });
     });
 
     describe("Book List API - Streaming", () => {
@@ -373,6 +452,503 @@ describe("Server Integration Tests (Idempotent)", () => {
         });
     });
 
+    describe("List Mutation API", () => {
+        test("POST /api/lists/invalid/items - 無効なリストタイプは400エラー", async () => {
+            const res = await app.request("/api/lists/invalid/items", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ isbn: "9784873117522" }),
+            });
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.error).toBe("Invalid list type");
+        });
+
+        test("POST /api/lists/wish/items - 無効なISBNは400エラー", async () => {
+            const res = await app.request("/api/lists/wish/items", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ isbn: "abc" }),
+            });
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.error).toBe("Invalid ISBN");
+        });
+
+        test("POST /api/lists/wish/items/:bookId/move - 同じリストへの移動は400エラー", async () => {
+            const res = await app.request("/api/lists/wish/items/1/move", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ to: "wish" }),
+            });
+
+            expect(res.status).toBe(400);
+        });
+
+        test("POST /api/lists/wish/items/:bookId/move - ミラーに存在しない書籍は404", async () => {
+            const res = await app.request(
+                "/api/lists/wish/items/does-not-exist/move",
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ to: "read" }),
+                },
+            );
+
+            expect(res.status).toBe(404);
+        });
+
+        test("POST /api/lists/wish/items - 追加後の再同期に失敗しても追加は成功として返す", async () => {
+            listFetchError = new Error("Calil list API down");
+            try {
+                const res = await app.request("/api/lists/wish/items", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ isbn: "9784873117522" }),
+                });
+
+                expect(res.status).toBe(201);
+                const data = await res.json();
+                expect(data.ok).toBe(true);
+                expect(data.sync.error).toBe("List resync failed");
+
+                const removed = await app.request("/api/lists/wish/items/1", {
+                    method: "DELETE",
+                });
+                expect(removed.status).toBe(200);
+                expect((await removed.json()).sync.error).toBe("List resync failed");
+            } finally {
+                listFetchError = null;
+            }
+        });
+
+        test("POST /api/lists/wish/items/:bookId/move - 移動先への追加後に削除が失敗したら207で失敗した段階を返す", async () => {
+            const synced = await app.request("/api/lists/wish/sync", { method: "POST" });
+            expect(synced.status).toBe(200);
+
+            listRemoveError = new Error("Calil delete failed");
+            try {
+                const res = await app.request("/api/lists/wish/items/1/move", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ to: "read" }),
+                });
+
+                expect(res.status).toBe(207);
+                const data = await res.json();
+                expect(data).toMatchObject({
+                    ok: false,
+                    failedStep: "remove",
+                    error: "Book added but not removed from the source list",
+                    code: "internal_error",
+                });
+                expect(data.sync.wish.error).toBeUndefined();
+                expect(data.sync.read.error).toBeUndefined();
+            } finally {
+                listRemoveError = null;
+            }
+        });
+
+        test("書籍カードには操作ボタンが含まれる", async () => {
+            const res = await app.request("/api/book-list-page/wish/1");
+
+            const html = await res.text();
+            expect(html).toContain('data-island="book-actions"');
+            expect(html).toContain('data-to="read"');
+        });
+    });
+
+    describe("List Registry API", () => {
+        test("GET /api/lists - 登録されているリストを返す", async () => {
+            const res = await app.request("/api/lists");
+
+            expect(res.status).toBe(200);
+            const data = await res.json();
+            const ids = data.lists.map((list: { id: string }) => list.id);
+            expect(ids).toContain("wish");
+            expect(ids).toContain("read");
+        });
+
+        test("POST /api/lists - 不正なIDは400エラー", async () => {
+            const res = await app.request("/api/lists", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: "Not Valid", name: "x" }),
+            });
+
+            expect(res.status).toBe(400);
+        });
+
+        test("GET / - 不明なタブは最初のリストを表示する", async () => {
+            const res = await app.request("/?tab=unknown");
+
+            expect(res.status).toBe(200);
+            const html = await res.text();
+            expect(html).toContain('href="/?tab=wish" class="tab-button active"');
+        });
+    });
+
+    describe("Local List API", () => {
+        test("GET /api/local-lists - ローカルリストの一覧を返す", async () => {
+            const res = await app.request("/api/local-lists");
+
+            expect(res.status).toBe(200);
+            const data = await res.json();
+            expect(Array.isArray(data.lists)).toBe(true);
+        });
+
+        test("POST /api/local-lists - 既存のリストIDは409エラー", async () => {
+            const res = await app.request("/api/local-lists", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: "wish", name: "重複" }),
+            });
+
+            expect(res.status).toBe(409);
+        });
+
+        test("POST /api/local-lists/:listId/items - Calilのリストは404", async () => {
+            const res = await app.request("/api/local-lists/wish/items", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ isbn: "9784873117522" }),
+            });
+
+            expect(res.status).toBe(404);
+        });
+
+        test("書籍カードのアクションにはリストの種類が含まれる", async () => {
+            const res = await app.request("/api/book-list-page/wish/1");
+
+            const html = await res.text();
+            expect(html).toContain('data-list-source="calil"');
+        });
+    });
+
+    describe("Auth Page and Login Events", () => {
+        test("GET /auth - 認証ページを返す", async () => {
+            const res = await app.request("/auth");
+
+            expect(res.status).toBe(200);
+            const html = await res.text();
+            expect(html).toContain('data-island="auth-panel"');
+        });
+
+        test("POST /auth/cancel - 実行中のログインがなければ ok: false", async () => {
+            const res = await app.request("/auth/cancel", { method: "POST" });
+
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ ok: false });
+        });
+
+        test("POST /auth/cookie - calil.jp の Cookie がなければ400と除外理由を返す", async () => {
+            const res = await app.request("/auth/cookie", {
+                method: "POST",
+                body: JSON.stringify([
+                    { name: "ga", value: "1", domain: ".google.com" },
+                ]),
+            });
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.code).toBe("invalid_cookies");
+            expect(data.format).toBe("json");
+            expect(data.accepted).toEqual([]);
+            expect(data.rejected).toEqual([
+                { name: "ga", reason: "not a calil.jp cookie (.google.com)" },
+            ]);
+        });
+
+        test("POST /auth/cookie - セッション Cookie がなければ400", async () => {
+            const res = await app.request("/auth/cookie", {
+                method: "POST",
+                body: "Cookie: _ga=1; _gid=2",
+            });
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.code).toBe("invalid_cookies");
+            expect(data.error).toBe("No Calil session cookie (session) to import");
+            expect(data.accepted).toEqual(["_ga", "_gid"]);
+        });
+
+        test("GET /auth/status - Calil に接続できなければ UNKNOWN を返す", async () => {
+            const profileId = "server-status-test";
+            const savedBaseUrl = process.env.CALIL_BASE_URL;
+            await app.request(`/api/profiles/${profileId}`, { method: "DELETE" });
+            await app.request("/api/profiles", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: profileId, name: "状態確認" }),
+            });
+            await saveCookies(
+                [
+                    {
+                        name: "session",
+                        value: "abc",
+                        domain: ".calil.jp",
+                        path: "/",
+                        expires: -1,
+                        size: 10,
+                        httpOnly: true,
+                        secure: true,
+                        session: true,
+                    },
+                ],
+                profileId,
+            );
+            // 接続を受け付けないポート
+            process.env.CALIL_BASE_URL = "http://127.0.0.1:1";
+            configureUpstream("calil", { maxRetries: 0 });
+
+            try {
+                const res = await app.request(`/auth/status?profile=${profileId}`);
+
+                expect(res.status).toBe(200);
+                const data = await res.json();
+                expect(data.state).toBe("UNKNOWN");
+                expect(data.code).toBe("upstream_unavailable");
+                expect(data.retryable).toBe(true);
+            } finally {
+                resetUpstreamPolicies();
+                if (savedBaseUrl === undefined) delete process.env.CALIL_BASE_URL;
+                else process.env.CALIL_BASE_URL = savedBaseUrl;
+                await clearCookies(profileId);
+                await app.request(`/api/profiles/${profileId}`, { method: "DELETE" });
+            }
+        });
+
+        test("GET /auth/events - 現在のログインジョブを SSE で送る", async () => {
+            const res = await app.request("/auth/events");
+
+            expect(res.headers.get("Content-Type")).toContain(
+                "text/event-stream",
+            );
+            const reader = res.body!.getReader();
+            const { value } = await reader.read();
+            await reader.cancel();
+
+            expect(new TextDecoder().decode(value)).toContain("event: login");
+        });
+
+        test("POST /auth/logout - キャッシュしたYomitaiトークンも消す", async () => {
+            const profileId = "server-logout-test";
+            await app.request(`/api/profiles/${profileId}`, { method: "DELETE" });
+            await app.request("/api/profiles", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: profileId, name: "ログアウト" }),
+            });
+            const namespace = `calil:${profileId}`;
+            setCacheEntry(getCacheDatabase(), namespace, "yomitai-token", { token: "old" }, 60_000);
+
+            const res = await app.request(`/auth/logout?profile=${profileId}`, {
+                method: "POST",
+            });
+
+            expect(res.status).toBe(200);
+            expect(getCacheEntry(getCacheDatabase(), namespace, "yomitai-token")).toBeNull();
+            await app.request(`/api/profiles/${profileId}`, { method: "DELETE" });
+        });
+    });
+
+    describe("Diagnostics API", () => {
+        test("ログイン用ブラウザの状態を返す", async () => {
+            const res = await app.request("/api/diagnostics/browser");
+            expect(res.status).toBe(200);
+
+            const { browsers }: { browsers: Record<string, BrowserState> } =
+                await res.json();
+            expect(typeof browsers).toBe("object");
+            for (const state of Object.values(browsers)) {
+                expect(["stopped", "launching", "running"]).toContain(state.status);
+                expect(typeof state.activeLeases).toBe("number");
+                expect(typeof state.idleTimeoutMs).toBe("number");
+            }
+        });
+    });
+
+    describe("NDL Search API", () => {
+        test("GET /api/ndl/search - キーワードが無ければ400", async () => {
+            const res = await app.request("/api/ndl/search?from=2020");
+            expect(res.status).toBe(400);
+        });
+
+        test("GET /api/ndl/search - 検索結果と登録済みのリストを返す", async () => {
+            const res = await app.request("/api/ndl/search?title=Python");
+            expect(res.status).toBe(200);
+
+            const data = await res.json();
+            expect(data.totalResults).toBe(1);
+            expect(data.startIndex).toBe(1);
+            expect(data.items[0].isbn13).toBe("9784873117522");
+            expect(Array.isArray(data.items[0].lists)).toBe(true);
+        });
+
+        test("GET /search - 検索ページに結果のカードを表示する", async () => {
+            const res = await app.request("/search?title=Python");
+            expect(res.status).toBe(200);
+
+            const html = await res.text();
+            expect(html).toContain('class="ndl-search-form"');
+            expect(html).toContain("9784873117522");
+        });
+
+        test("GET /search - 条件が無ければフォームだけ表示する", async () => {
+            const res = await app.request("/search");
+            expect(res.status).toBe(200);
+
+            const html = await res.text();
+            expect(html).toContain('class="ndl-search-form"');
+            expect(html).not.toContain("ndl-search-summary");
+        });
+    });
+
+    describe("Cache API", () => {
+        test("GET /api/cache/stats - 名前空間ごとの件数を返す", async () => {
+            const res = await app.request("/api/cache/stats");
+            expect(res.status).toBe(200);
+
+            const data = await res.json();
+            expect(Array.isArray(data.namespaces)).toBe(true);
+            expect(typeof data.entries).toBe("number");
+        });
+
+        test("DELETE /api/cache/:namespace - 削除した件数を返す", async () => {
+            const res = await app.request("/api/cache/server-test", {
+                method: "DELETE",
+            });
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ ok: true, removed: 0 });
+        });
+    });
+
+    describe("Profiles API", () => {
+        const profileId = "server-test";
+
+        beforeAll(async () => {
+            // 前回の実行で残ったプロファイルを消しておく
+            await app.request(`/api/profiles/${profileId}`, { method: "DELETE" });
+        });
+
+        test("GET /api/profiles - defaultプロファイルが選択されている", async () => {
+            const res = await app.request("/api/profiles");
+            expect(res.status).toBe(200);
+
+            const data = await res.json();
+            expect(data.active).toBe("default");
+            expect(data.profiles.map((p: { id: string }) => p.id)).toContain("default");
+        });
+
+        test("POST /api/profiles - プロファイルを作成し、リストは別に持つ", async () => {
+            const res = await app.request("/api/profiles", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: profileId, name: "テスト" }),
+            });
+            expect(res.status).toBe(201);
+
+            const lists = await app.request(`/api/lists?profile=${profileId}`);
+            expect(lists.status).toBe(200);
+            expect(lists.headers.get("Set-Cookie")).toContain(`calil_profile=${profileId}`);
+            const data = await lists.json();
+            expect(data.lists.map((l: { id: string }) => l.id)).toEqual(["wish", "read"]);
+        });
+
+        test("POST /api/profiles - 不正なIDは400エラー", async () => {
+            const res = await app.request("/api/profiles", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ id: "../x", name: "x" }),
+            });
+            expect(res.status).toBe(400);
+        });
+
+        test("存在しないプロファイルは404エラー", async () => {
+            const res = await app.request("/api/lists?profile=no-such-profile");
+            expect(res.status).toBe(404);
+            expect((await res.json()).code).toBe("unknown_profile");
+        });
+
+        test("DELETE /api/profiles/:id - defaultは削除できない", async () => {
+            const res = await app.request("/api/profiles/default", { method: "DELETE" });
+            expect(res.status).toBe(409);
+
+            const deleted = await app.request(`/api/profiles/${profileId}`, {
+                method: "DELETE",
+            });
+            expect(deleted.status).toBe(200);
+        });
+    });
+
+    describe("Availability API", () => {
+        test("GET /api/availability/:isbn - 無効なISBNは400エラー", async () => {
+            const res = await app.request("/api/availability/abc");
+
+            expect(res.status).toBe(400);
+            const data = await res.json();
+            expect(data.error).toBe("Invalid ISBN");
+        });
+
+        test("GET /api/availability/:isbn - 未設定の場合は503エラー", async () => {
+            const appKey = process.env.CALIL_APP_KEY;
+            delete process.env.CALIL_APP_KEY;
+
+            try {
+                const res = await app.request("/api/availability/9784873117522");
+                expect(res.status).toBe(503);
+
+                const page = await app.request("/api/book-list-page/wish/1");
+                expect(await page.text()).not.toContain(
+                    'data-island="availability-badge"',
+                );
+            } finally {
+                if (appKey !== undefined) process.env.CALIL_APP_KEY = appKey;
+            }
+        });
+    });
+
+    describe("Library Settings API", () => {
+        test("GET /api/settings/libraries - お気に入り図書館を返す", async () => {
+            const res = await app.request("/api/settings/libraries");
+
+            expect(res.status).toBe(200);
+            const data = await res.json();
+            expect(Array.isArray(data.favorites)).toBe(true);
+        });
+
+        test("PUT /api/settings/libraries - 不正なボディは400エラー", async () => {
+            const res = await app.request("/api/settings/libraries", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ systemIds: "Tokyo_Setagaya" }),
+            });
+
+            expect(res.status).toBe(400);
+        });
+
+        test("POST /api/libraries/import - 不正な都道府県は400エラー", async () => {
+            const res = await app.request("/api/libraries/import", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ pref: "架空県" }),
+            });
+
+            expect(res.status).toBe(400);
+        });
+
+        test("GET /settings/libraries - 設定ページがレンダリングされる", async () => {
+            const res = await app.request("/settings/libraries");
+
+            expect(res.status).toBe(200);
+            const html = await res.text();
+            expect(html).toContain('data-island="library-settings"');
+            expect(html).toContain("東京都");
+        });
+    });
+
     describe("Page Rendering", () => {
         test("GET / - トップページ（デフォルトタブ：wish）がレンダリングされる", async () => {
             const res = await app.request("/");
@@ -544,6 +1120,28 @@ describe("Server Integration Tests (Idempotent)", () => {
                 }
             }
         });
+
+        test("ページのインラインスクリプトはCSPのnonceを持つ", async () => {
+            const res = await app.request("/");
+            const csp = res.headers.get("Content-Security-Policy") ?? "";
+            const nonce = csp.match(/'nonce-([^']+)'/)?.[1];
+            expect(nonce).toBeDefined();
+
+            const html = await res.text();
+            for (const tag of html.match(/<script[^>]*>/g) ?? []) {
+                if (tag.includes("src=")) continue;
+                expect(tag).toContain(`nonce="${nonce}"`);
+            }
+        });
+
+        test("別オリジンからの変更リクエストは403", async () => {
+            const res = await app.request("/log/clear", {
+                method: "POST",
+                headers: { Origin: "https://evil.example" },
+            });
+
+            expect(res.status).toBe(403);
+        });
     });
 
     describe("Streaming and Suspense", () => {
@@ -3,6 +3,11 @@ import { serve } from "@hono/node-server";
 import { authRoutes } from "./routes/auth.routes";
 import { logger } from "../shared/logging/logger";
 import { initCoverCache } from "../features/covers/server/cache";
+import { initVault } from "../features/auth/session/vault.store";
+import { getSessionKeeper } from "../features/auth/session/session-keeper";
+import { getProfiles } from "../features/profiles/db/profiles";
+import { getSettingsDatabase } from "../features/settings/db/settings-db";
+import { isDemoMode } from "../features/demo/demo-mode";
 import {
     loadEmbeddedClientJs,
 } from "./embedded-assets";
@@ -10,13 +15,35 @@ import {
     getDatabase,
     type BibliographicInfo,
 } from "../features/bibliographic/db/schema";
-import { NODE_ENV, isDevelopment } from "./utils/environment";
+import { HOST, NODE_ENV, isDevelopment } from "./utils/environment";
 import { getModuleDir, isCompiledBinary } from "./utils/path-resolution";
 import { logRoutes } from "./routes/log.routes";
 import { coverRoutes } from "./routes/cover.routes";
 import { booksRoutes } from "./routes/books.routes";
 import { indexRoutes } from "./routes/index.routes";
 import { bibliographicRoutes } from "./routes/bibliographic.routes";
+import { listsRoutes } from "./routes/lists.routes";
+import { availabilityRoutes } from "./routes/availability.routes";
+import { librariesRoutes } from "./routes/libraries.routes";
+import { localListsRoutes } from "./routes/local-lists.routes";
+import { diagnosticsRoutes } from "./routes/diagnostics.routes";
+import { cacheRoutes } from "./routes/cache.routes";
+import { loginRoutes } from "./routes/login.routes";
+import { profilesRoutes } from "./routes/profiles.routes";
+import { ndlRoutes } from "./routes/ndl.routes";
+import { searchRoutes } from "./routes/search.routes";
+import { profileSelector } from "./middleware/profile";
+import {
+    appAuth,
+    configureAppAuth,
+    resolveAppAuth,
+} from "./middleware/app-auth";
+import {
+    csrfGuard,
+    loopbackHostGuard,
+    securityHeaders,
+} from "./middleware/security";
+import { settingsRoutes } from "./routes/settings.routes";
 import { staticRoutes } from "./routes/static.routes";
 
 export const app = new Hono();
@@ -32,6 +59,16 @@ logger.info("Application starting", {
 // Initialize cover cache on startup
 await initCoverCache();
 
+// Unlock / migrate the cookie vault of every profile (Calil account)
+const profiles = getProfiles(getSettingsDatabase());
+for (const profile of profiles) {
+    const vaultState = await initVault(profile.id);
+    logger.info("Cookie vault initialized", {
+        profile: profile.id,
+        state: vaultState,
+    });
+}
+
 // Load embedded client JavaScript for compiled binaries
 await loadEmbeddedClientJs();
 
@@ -46,13 +83,41 @@ logger.info("Path resolution initialized", {
     importMetaPath: import.meta.path,
 });
 
+// Browser protections: DNS rebinding, security headers (CSP) and CSRF
+app.use("*", loopbackHostGuard(HOST));
+app.use("*", securityHeaders());
+app.use("*", csrfGuard());
+
+// Access control for the UI and API (off on loopback unless configured)
+const appAuthConfig = await resolveAppAuth({ host: HOST });
+configureAppAuth(appAuthConfig);
+logger.info("App auth initialized", {
+    enabled: appAuthConfig.enabled,
+    source: appAuthConfig.enabled ? appAuthConfig.source : undefined,
+});
+app.use("*", appAuth());
+
+// Calil account the request works on (?profile= or the calil_profile cookie)
+app.use("*", profileSelector());
+
 // Mount routes
 app.route("/", staticRoutes);
+app.route("/login", loginRoutes);
 app.route("/auth", authRoutes);
 app.route("/log", logRoutes);
 app.route("/api/cover", coverRoutes);
 app.route("/api", booksRoutes);
 app.route("/api", bibliographicRoutes);
+app.route("/api", listsRoutes);
+app.route("/api", availabilityRoutes);
+app.route("/api", librariesRoutes);
+app.route("/api", localListsRoutes);
+app.route("/api", diagnosticsRoutes);
+app.route("/api", cacheRoutes);
+app.route("/api", profilesRoutes);
+app.route("/api", ndlRoutes);
+app.route("/search", searchRoutes);
+app.route("/settings", settingsRoutes);
 app.route("/", indexRoutes);
 
 // Only start the server if this file is run directly (not imported for testing)
@@ -62,7 +127,19 @@ const isTestEnvironment =
     Bun.main.includes(".test.") || Bun.main.includes("/test/");
 
 if (!isTestEnvironment) {
-    serve({ fetch: app.fetch, port: 8787 });
-    console.log("listening http://localhost:8787");
-    console.log("logs available at http://localhost:8787/log");
+    // Keep the Calil sessions fresh in the background (not needed for the demo)
+    if (!isDemoMode()) {
+        for (const profile of profiles) {
+            getSessionKeeper(profile.id).start();
+        }
+    }
+
+    serve({ fetch: app.fetch, port: 8787, hostname: HOST });
+    const origin = `http://${HOST.includes(":") && !HOST.startsWith("[") ? `[${HOST}]` : HOST}:8787`;
+    console.log(`listening ${origin}`);
+    console.log(`logs available at ${origin}/log`);
+    if (appAuthConfig.enabled && appAuthConfig.source === "generated") {
+        // Shown once; it stays in vault/access.token afterwards
+        console.log(`access token: ${appAuthConfig.token}`);
+    }
 }
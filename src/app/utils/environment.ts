@@ -4,3 +4,9 @@
 
 export const NODE_ENV = process.env.NODE_ENV || "development";
 export const isDevelopment = NODE_ENV === "development";
+
+/**
+ * Address the server binds to (CALIL_HOST)
+ * Loopback only by default; set 0.0.0.0 to allow access from the LAN
+ */
+export const HOST = process.env.CALIL_HOST || "127.0.0.1";
@@ -0,0 +1,65 @@
+import { test, expect, describe } from "bun:test";
+import { Hono } from "hono";
+import { describeError, errorResponse } from "./error-response";
+import {
+    CalilAuthError,
+    CalilRateLimitError,
+    CalilTokenExpiredError,
+    NdlParseError,
+    UpstreamUnavailableError,
+} from "../../shared/errors/upstream-errors";
+import { VaultLockedError } from "../../features/auth/session/vault.store";
+
+describe("describeError", () => {
+    test("エラーの種類ごとにステータスとコードを決める", () => {
+        const cases = [
+            [new CalilAuthError("x"), 401, "calil_auth_required"],
+            [new CalilTokenExpiredError("x"), 401, "calil_token_expired"],
+            [new CalilRateLimitError("x"), 429, "calil_rate_limited"],
+            [new UpstreamUnavailableError("ndl", "x"), 503, "upstream_unavailable"],
+            [new NdlParseError("x"), 502, "ndl_parse_error"],
+            [new VaultLockedError(), 423, "vault_locked"],
+            [new Error("x"), 500, "internal_error"],
+        ] as const;
+
+        for (const [error, status, code] of cases) {
+            const description = describeError(error, "Failed");
+            expect(description.status).toBe(status);
+            expect(description.code).toBe(code);
+            expect(description.error).toBe("Failed");
+        }
+    });
+});
+
+describe("errorResponse", () => {
+    test("JSONボディと Retry-After ヘッダーを返す", async () => {
+        const app = new Hono();
+        app.get("/", (c) =>
+            errorResponse(
+                c,
+                new CalilRateLimitError("slow down", 15),
+                "Failed to fetch page",
+            ),
+        );
+
+        const res = await app.request("/");
+
+        expect(res.status).toBe(429);
+        expect(res.headers.get("Retry-After")).toBe("15");
+        expect(await res.json()).toEqual({
+            error: "Failed to fetch page",
+            code: "calil_rate_limited",
+            retryable: true,
+        });
+    });
+
+    test("Retry-After が無いエラーではヘッダーを付けない", async () => {
+        const app = new Hono();
+        app.get("/", (c) => errorResponse(c, new Error("boom"), "Failed"));
+
+        const res = await app.request("/");
+
+        expect(res.status).toBe(500);
+        expect(res.headers.get("Retry-After")).toBeNull();
+    });
+});
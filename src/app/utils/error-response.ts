@@ -0,0 +1,98 @@
+/**
+ * Map errors from the Calil/NDL clients to API responses
+ *
+ * All API routes answer failures with the same JSON body:
+ * { "error": "<route message>", "code": "<error code>", "retryable": boolean }
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+    CalilAuthError,
+    CalilRateLimitError,
+    CalilTokenExpiredError,
+    UpstreamError,
+    UpstreamUnavailableError,
+} from "../../shared/errors/upstream-errors";
+import { VaultLockedError } from "../../features/auth/session/vault.store";
+
+export type ErrorBody = {
+    error: string;
+    code: string;
+    retryable: boolean;
+};
+
+export type ErrorDescription = ErrorBody & {
+    status: ContentfulStatusCode;
+    retryAfterSeconds: number | null;
+};
+
+function statusFor(error: UpstreamError): ContentfulStatusCode {
+    if (error instanceof CalilAuthError) return 401;
+    // The token was still rejected after a refresh; the user has to log in again
+    if (error instanceof CalilTokenExpiredError) return 401;
+    if (error instanceof CalilRateLimitError) return 429;
+    if (error instanceof UpstreamUnavailableError) return 503;
+    return 502;
+}
+
+/**
+ * Describe an error as HTTP status and JSON body
+ *
+ * @param message - Route-specific message used as the "error" field
+ */
+export function describeError(
+    error: unknown,
+    message: string,
+): ErrorDescription {
+    if (error instanceof VaultLockedError) {
+        // The stored Calil session can't be used until the vault is unlocked
+        return {
+            status: 423,
+            error: message,
+            code: error.code,
+            retryable: false,
+            retryAfterSeconds: null,
+        };
+    }
+
+    if (!(error instanceof UpstreamError)) {
+        return {
+            status: 500,
+            error: message,
+            code: "internal_error",
+            retryable: false,
+            retryAfterSeconds: null,
+        };
+    }
+
+    const retryAfterSeconds =
+        error instanceof CalilRateLimitError ||
+        error instanceof UpstreamUnavailableError
+            ? error.retryAfterSeconds
+            : null;
+
+    return {
+        status: statusFor(error),
+        error: message,
+        code: error.code,
+        retryable: error.retryable,
+        retryAfterSeconds,
+    };
+}
+
+/**
+ * Respond with the JSON error body and status for an error
+ * Sets Retry-After when the upstream told us how long to wait.
+ */
+export function errorResponse(c: Context, error: unknown, message: string) {
+    const { status, retryAfterSeconds, ...body } = describeError(
+        error,
+        message,
+    );
+
+    if (retryAfterSeconds !== null) {
+        c.header("Retry-After", String(retryAfterSeconds));
+    }
+    return c.json(body, status);
+}
@@ -0,0 +1,121 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import type { Cookie } from 'puppeteer';
+import {
+  cancelLoginJob,
+  getLoginJob,
+  isTerminal,
+  startLoginJob,
+  subscribeLoginJob,
+  type LoginJob,
+  type LoginSteps,
+} from './login-job';
+
+const cookie = { name: 'session', value: 'abc' } as Cookie;
+
+/**
+ * ジョブが終了状態になるまでの状態遷移を集める
+ */
+function collectStates(): { states: string[]; done: Promise<LoginJob> } {
+  const states: string[] = [];
+  const done = new Promise<LoginJob>((resolve) => {
+    const unsubscribe = subscribeLoginJob((job) => {
+      states.push(job.state);
+      if (isTerminal(job.state)) {
+        unsubscribe();
+        resolve(job);
+      }
+    });
+  });
+  return { states, done };
+}
+
+function steps(overrides: Partial<LoginSteps> = {}): LoginSteps {
+  return {
+    login: async ({ onProgress }) => {
+      onProgress('launching_browser');
+      onProgress('waiting_for_user');
+      onProgress('capturing_cookies');
+      return [cookie];
+    },
+    save: async () => {},
+    validate: async () => true,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  cancelLoginJob();
+});
+
+describe('login-job', () => {
+  test('ログインの進捗を順に通知して validated で終わる', async () => {
+    const saved: Cookie[][] = [];
+    const { states, done } = collectStates();
+
+    startLoginJob(steps({ save: async (cookies) => { saved.push(cookies); } }));
+    const job = await done;
+
+    expect(states).toEqual(['launching_browser', 'waiting_for_user', 'capturing_cookies', 'validated']);
+    expect(job.error).toBeUndefined();
+    expect(saved).toEqual([[cookie]]);
+    expect(getLoginJob()?.state).toBe('validated');
+  });
+
+  test('タイムアウトは failed とメッセージで通知する', async () => {
+    const { done } = collectStates();
+    const timeout = Object.assign(new Error('Waiting failed: 180000ms exceeded'), { name: 'TimeoutError' });
+
+    startLoginJob(steps({ login: async () => { throw timeout; } }));
+    const job = await done;
+
+    expect(job.state).toBe('failed');
+    expect(job.error).toBe('Timed out waiting for login (180s)');
+  });
+
+  test('セッションが確認できなければ failed', async () => {
+    const { done } = collectStates();
+
+    startLoginJob(steps({ validate: async () => false }));
+
+    expect((await done).state).toBe('failed');
+  });
+
+  test('実行中は同じジョブを返し、キャンセルするとログインを中断する', async () => {
+    let aborted = false;
+    const { states, done } = collectStates();
+    const login: LoginSteps['login'] = ({ signal, onProgress }) =>
+      new Promise((_, reject) => {
+        onProgress('waiting_for_user');
+        signal.addEventListener('abort', () => {
+          aborted = true;
+          reject(new Error('Target closed'));
+        });
+      });
+
+    const first = startLoginJob(steps({ login }));
+    const second = startLoginJob(steps());
+    expect(second.id).toBe(first.id);
+
+    expect(cancelLoginJob()).toBe(true);
+    await done;
+
+    expect(aborted).toBe(true);
+    expect(states).toEqual(['launching_browser', 'waiting_for_user', 'cancelled']);
+    expect(cancelLoginJob()).toBe(false);
+  });
+
+  test('プロファイルごとに別のジョブを持つ', async () => {
+    const login: LoginSteps['login'] = ({ signal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('Target closed')));
+      });
+
+    const main = startLoginJob(steps({ login }));
+    const partner = startLoginJob(steps({ login }), 'partner');
+
+    expect(partner.id).not.toBe(main.id);
+    expect(getLoginJob('partner')?.profile).toBe('partner');
+    expect(cancelLoginJob('partner')).toBe(true);
+    expect(getLoginJob()?.state).not.toBe('cancelled');
+  });
+});
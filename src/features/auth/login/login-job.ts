@@ -0,0 +1,153 @@
+import type { Cookie } from 'puppeteer';
+import { DEFAULT_PROFILE_ID } from '../../../shared/config/app-paths';
+import { logger } from '../../../shared/logging/logger';
+import { LOGIN_TIMEOUT_MS, oauthLoginAndGetCookies, type LoginProgress } from '../puppeteer/oauth-login';
+import { isValidSession, saveCookies } from '../session/vault.store';
+
+/**
+ * Login job: runs the browser login in the background and reports its
+ * progress to subscribers (the /auth/events SSE stream)
+ *
+ * launching_browser → waiting_for_user → capturing_cookies → validated
+ * and failed / cancelled as terminal states. Only one job runs at a time per
+ * profile; listeners receive the jobs of all profiles.
+ */
+
+export type LoginState = LoginProgress | 'validated' | 'failed' | 'cancelled';
+
+export type LoginJob = {
+  id: string;
+  profile: string;
+  state: LoginState;
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+};
+
+export type LoginSteps = {
+  login: (opts: { signal: AbortSignal; onProgress: (state: LoginProgress) => void }) => Promise<Cookie[]>;
+  save: (cookies: Cookie[]) => Promise<void>;
+  validate: (cookies: Cookie[]) => Promise<boolean>;
+};
+
+function defaultSteps(profile: string): LoginSteps {
+  return {
+    login: ({ signal, onProgress }) => oauthLoginAndGetCookies({ profile, headless: false, signal, onProgress }),
+    save: (cookies) => saveCookies(cookies, profile),
+    validate: (cookies) => isValidSession({ cookies }),
+  };
+}
+
+const TERMINAL_STATES: LoginState[] = ['validated', 'failed', 'cancelled'];
+
+// Latest job and its abort controller per profile
+const jobs = new Map<string, LoginJob>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(job: LoginJob) => void>();
+
+export function isTerminal(state: LoginState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+export function getLoginJob(profile: string = DEFAULT_PROFILE_ID): LoginJob | null {
+  const job = jobs.get(profile);
+  return job ? { ...job } : null;
+}
+
+/**
+ * @returns A function that removes the listener
+ */
+export function subscribeLoginJob(listener: (job: LoginJob) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(job: LoginJob) {
+  for (const listener of listeners) {
+    try {
+      listener({ ...job });
+    } catch (listenerError) {
+      logger.warn('Login job listener failed', { error: String(listenerError) });
+    }
+  }
+}
+
+function update(job: LoginJob, state: LoginState, error?: string) {
+  // 完了後に届いた進捗（キャンセル後のブラウザ側の後始末など）は無視する
+  if (job !== jobs.get(job.profile) || isTerminal(job.state) || job.state === state) return;
+
+  job.state = state;
+  job.updatedAt = Date.now();
+  if (error) job.error = error;
+  logger.info('Login job updated', { id: job.id, profile: job.profile, state, error });
+  notify(job);
+}
+
+function describeFailure(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return `Timed out waiting for login (${LOGIN_TIMEOUT_MS / 1000}s)`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function run(job: LoginJob, signal: AbortSignal, steps: LoginSteps) {
+  try {
+    const cookies = await steps.login({ signal, onProgress: (state) => update(job, state) });
+    if (signal.aborted) return;
+
+    update(job, 'capturing_cookies');
+    if (!(await steps.validate(cookies))) {
+      update(job, 'failed', 'Calil did not accept the captured session');
+      return;
+    }
+    await steps.save(cookies);
+    update(job, 'validated');
+  } catch (error) {
+    if (signal.aborted) return;
+    logger.error('Login job failed', { id: job.id, error: String(error) });
+    update(job, 'failed', describeFailure(error));
+  } finally {
+    if (job === jobs.get(job.profile)) controllers.delete(job.profile);
+  }
+}
+
+/**
+ * Start a login job, or return the one already running
+ */
+export function startLoginJob(steps?: LoginSteps, profile: string = DEFAULT_PROFILE_ID): LoginJob {
+  const running = jobs.get(profile);
+  if (running && !isTerminal(running.state)) return { ...running };
+
+  const now = Date.now();
+  const job: LoginJob = {
+    id: crypto.randomUUID(),
+    profile,
+    state: 'launching_browser',
+    startedAt: now,
+    updatedAt: now,
+  };
+  const controller = new AbortController();
+  jobs.set(profile, job);
+  controllers.set(profile, controller);
+  logger.info('Login job started', { id: job.id, profile });
+  notify(job);
+
+  void run(job, controller.signal, steps ?? defaultSteps(profile));
+  return { ...job };
+}
+
+/**
+ * Cancel the running login job (closes the login page)
+ *
+ * @returns false when no job is running
+ */
+export function cancelLoginJob(profile: string = DEFAULT_PROFILE_ID): boolean {
+  const job = jobs.get(profile);
+  const controller = controllers.get(profile);
+  if (!job || isTerminal(job.state) || !controller) return false;
+
+  controller.abort();
+  controllers.delete(profile);
+  update(job, 'cancelled');
+  return true;
+}
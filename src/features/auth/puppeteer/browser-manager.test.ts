@@ -0,0 +1,153 @@
+import { test, expect, describe } from 'bun:test';
+import type { Browser } from 'puppeteer-core';
+import { createBrowserManager, parseEndpointRecord, type BrowserManagerDeps } from './browser-manager';
+
+type FakeBrowser = Browser & { closed: boolean; disconnect: () => void };
+
+function fakeBrowser(pid: number, wsEndpoint = `ws://127.0.0.1:9222/devtools/browser/${pid}`): FakeBrowser {
+  const handlers: (() => void)[] = [];
+  const browser = {
+    closed: false,
+    on: (event: string, handler: () => void) => {
+      if (event === 'disconnected') handlers.push(handler);
+    },
+    close: async () => {
+      browser.closed = true;
+      handlers.forEach((handler) => handler());
+    },
+    disconnect: () => handlers.forEach((handler) => handler()),
+    wsEndpoint: () => wsEndpoint,
+    process: () => ({ pid }),
+  };
+  return browser as unknown as FakeBrowser;
+}
+
+function setup(overrides: Partial<BrowserManagerDeps> = {}, idleTimeoutMs = 0) {
+  const calls: string[] = [];
+  let endpoint: string | null = null;
+  let nextPid = 100;
+  const deps: BrowserManagerDeps = {
+    launch: async (headless) => {
+      calls.push(`launch:${headless ? 'headless' : 'headful'}`);
+      return fakeBrowser(nextPid++);
+    },
+    connect: async () => {
+      throw new Error('ECONNREFUSED');
+    },
+    readEndpoint: async () => endpoint,
+    writeEndpoint: async (text) => {
+      endpoint = text;
+    },
+    removeEndpoint: async () => {
+      calls.push('remove-endpoint');
+      endpoint = null;
+    },
+    isOrphanedChrome: async () => false,
+    killProcess: (pid) => {
+      calls.push(`kill:${pid}`);
+    },
+    ...overrides,
+  };
+  return {
+    manager: createBrowserManager(deps, idleTimeoutMs),
+    calls,
+    getEndpoint: () => endpoint,
+    setEndpoint: (text: string) => {
+      endpoint = text;
+    },
+  };
+}
+
+describe('browser-manager', () => {
+  describe('parseEndpointRecord', () => {
+    test('JSON と旧形式（URLのみ）を読み取る', () => {
+      expect(parseEndpointRecord('{"wsEndpoint":"ws://x","pid":12,"headless":false}')).toEqual({
+        wsEndpoint: 'ws://x',
+        pid: 12,
+        headless: false,
+      });
+      expect(parseEndpointRecord('ws://127.0.0.1:1/devtools\n')).toEqual({
+        wsEndpoint: 'ws://127.0.0.1:1/devtools',
+        pid: null,
+        headless: null,
+      });
+      expect(parseEndpointRecord('')).toBeNull();
+      expect(parseEndpointRecord('{broken')).toBeNull();
+    });
+  });
+
+  test('起動したブラウザを再利用し、エンドポイントを保存する', async () => {
+    const { manager, calls, getEndpoint } = setup();
+
+    await manager.withBrowser({ headless: true }, async () => {});
+    await manager.withBrowser({ headless: true }, async () => {});
+
+    expect(calls.filter((call) => call.startsWith('launch'))).toEqual(['launch:headless']);
+    expect(JSON.parse(getEndpoint()!)).toMatchObject({ pid: 100, headless: true });
+    expect(manager.getState()).toMatchObject({ status: 'running', pid: 100, source: 'launched', activeLeases: 0 });
+  });
+
+  test('モードが変わるとブラウザを起動し直す', async () => {
+    const { manager, calls } = setup();
+
+    await manager.withBrowser({ headless: true }, async () => {});
+    await manager.withBrowser({ headless: false }, async () => {});
+
+    expect(calls.filter((call) => call.startsWith('launch'))).toEqual(['launch:headless', 'launch:headful']);
+    expect(manager.getState()).toMatchObject({ headless: false, pid: 101 });
+  });
+
+  test('保存されたエンドポイントに再接続する', async () => {
+    const running = fakeBrowser(42);
+    const { manager, calls, setEndpoint } = setup({ connect: async () => running });
+    setEndpoint(JSON.stringify({ wsEndpoint: running.wsEndpoint(), pid: 42, headless: true }));
+
+    const used = await manager.withBrowser({ headless: true }, async (browser) => browser);
+
+    expect(used).toBe(running);
+    expect(calls).toEqual([]);
+    expect(manager.getState()).toMatchObject({ source: 'reconnected', pid: 42 });
+  });
+
+  test('古いエンドポイントは削除し、残ったChromeプロセスを終了する', async () => {
+    const { manager, calls, setEndpoint } = setup({ isOrphanedChrome: async (pid) => pid === 42 });
+    setEndpoint(JSON.stringify({ wsEndpoint: 'ws://127.0.0.1:1/devtools/browser/x', pid: 42, headless: true }));
+
+    await manager.withBrowser({ headless: true }, async () => {});
+
+    expect(calls).toEqual(['remove-endpoint', 'kill:42', 'launch:headless']);
+  });
+
+  test('使われなくなってから一定時間でブラウザを閉じる', async () => {
+    let browser: FakeBrowser | null = null;
+    const { manager, getEndpoint } = setup(
+      {
+        launch: async () => (browser = fakeBrowser(7)),
+      },
+      20,
+    );
+
+    await manager.withBrowser({ headless: true }, async () => {
+      await Bun.sleep(40);
+      // 使用中は閉じない
+      expect(browser!.closed).toBe(false);
+    });
+    expect(manager.getState().idleClosesAt).not.toBeNull();
+
+    await Bun.sleep(60);
+
+    expect(browser!.closed).toBe(true);
+    expect(getEndpoint()).toBeNull();
+    expect(manager.getState()).toMatchObject({ status: 'stopped', pid: null });
+  });
+
+  test('切断されたら状態をリセットする', async () => {
+    let browser: FakeBrowser | null = null;
+    const { manager } = setup({ launch: async () => (browser = fakeBrowser(9)) });
+
+    await manager.withBrowser({ headless: true }, async () => {});
+    browser!.disconnect();
+
+    expect(manager.getState().status).toBe('stopped');
+  });
+});
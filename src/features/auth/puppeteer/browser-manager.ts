@@ -0,0 +1,380 @@
+import puppeteer, { Browser } from 'puppeteer-core';
+import fs from 'node:fs/promises';
+import { ensureExecutable } from './browser-path';
+import { DEFAULT_PROFILE_ID, ensureDir, profilePaths } from '../../../shared/config/app-paths';
+import { logger } from '../../../shared/logging/logger';
+import { getBrowserProxySettings } from '../../../shared/http/proxy';
+
+/**
+ * Owns the Chrome instance used for the Calil login
+ *
+ * - One manager per profile (Calil account), each with its own Chrome user
+ *   data dir and endpoint file
+ * - One browser at a time, shared through withBrowser(); headless (session
+ *   refresh) and headful (login) need different instances on the same
+ *   profile, so switching modes relaunches it
+ * - The WebSocket endpoint, pid and mode are saved to chromeEndpointFile so
+ *   a restarted app can reconnect to a browser that is still running
+ * - A stale endpoint file is removed; if its Chrome process is still alive
+ *   on our profile (orphaned, e.g. after a crash) it is terminated
+ * - The browser is closed after CALIL_BROWSER_IDLE_TIMEOUT_MS without use
+ */
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type BrowserState = {
+  status: 'stopped' | 'launching' | 'running';
+  headless: boolean | null;
+  pid: number | null;
+  wsEndpoint: string | null;
+  /** Whether we launched the browser or reconnected to a running one */
+  source: 'launched' | 'reconnected' | null;
+  startedAt: number | null;
+  lastUsedAt: number | null;
+  activeLeases: number;
+  idleTimeoutMs: number;
+  idleClosesAt: number | null;
+};
+
+export type EndpointRecord = {
+  wsEndpoint: string;
+  pid: number | null;
+  headless: boolean | null;
+};
+
+export type BrowserManagerDeps = {
+  launch: (headless: boolean) => Promise<Browser>;
+  connect: (wsEndpoint: string) => Promise<Browser>;
+  readEndpoint: () => Promise<string | null>;
+  writeEndpoint: (text: string) => Promise<void>;
+  removeEndpoint: () => Promise<void>;
+  /** Whether the pid is a Chrome still running on our profile */
+  isOrphanedChrome: (pid: number) => Promise<boolean>;
+  killProcess: (pid: number) => void;
+};
+
+/**
+ * Idle timeout from CALIL_BROWSER_IDLE_TIMEOUT_MS (0 keeps the browser open)
+ */
+export function getIdleTimeoutMs(): number {
+  const configured = Number(process.env.CALIL_BROWSER_IDLE_TIMEOUT_MS);
+  return Number.isFinite(configured) && process.env.CALIL_BROWSER_IDLE_TIMEOUT_MS
+    ? Math.max(0, configured)
+    : DEFAULT_IDLE_TIMEOUT_MS;
+}
+
+/**
+ * Parse the endpoint file; older versions stored only the WebSocket URL
+ */
+export function parseEndpointRecord(text: string | null): EndpointRecord | null {
+  const trimmed = text?.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const record = JSON.parse(trimmed);
+      if (typeof record.wsEndpoint !== 'string') return null;
+      return {
+        wsEndpoint: record.wsEndpoint,
+        pid: typeof record.pid === 'number' ? record.pid : null,
+        headless: typeof record.headless === 'boolean' ? record.headless : null,
+      };
+    } catch {
+      return null;
+    }
+  }
+  return trimmed.startsWith('ws://') ? { wsEndpoint: trimmed, pid: null, headless: null } : null;
+}
+
+async function launchChrome(headless: boolean, userDataDir: string): Promise<Browser> {
+  const executablePath = await ensureExecutable();
+  await ensureDir(userDataDir);
+  const proxy = getBrowserProxySettings();
+  if (proxy.args.length > 0) {
+    logger.info('Launching browser with proxy', { args: proxy.args });
+  }
+  return await puppeteer.launch({
+    executablePath,
+    userDataDir, // セッション持続
+    headless,
+    args: [
+      process.platform === 'linux' ? '--no-sandbox' : '',
+      '--disable-dev-shm-usage',
+      '--disable-blink-features=AutomationControlled',
+      '--disable-infobars',
+      '--remote-debugging-port=0',
+      ...proxy.args,
+    ].filter(Boolean),
+    defaultViewport: null,
+  });
+}
+
+async function readCommandLine(pid: number): Promise<string | null> {
+  if (process.platform === 'linux') {
+    try {
+      return (await fs.readFile(`/proc/${pid}/cmdline`, 'utf8')).replace(/\0/g, ' ');
+    } catch {
+      return null;
+    }
+  }
+  if (process.platform === 'darwin') {
+    const result = Bun.spawnSync(['ps', '-o', 'command=', '-p', String(pid)]);
+    return result.success ? result.stdout.toString() : null;
+  }
+  // Windows: no cheap way to verify the process, never kill blindly
+  return null;
+}
+
+function defaultDeps(profile: string): BrowserManagerDeps {
+  const { vaultDir, chromeEndpointFile, browserProfile } = profilePaths(profile);
+  return {
+    launch: (headless) => launchChrome(headless, browserProfile),
+    connect: (browserWSEndpoint) => puppeteer.connect({ browserWSEndpoint, defaultViewport: null }),
+    readEndpoint: async () => {
+      try { return await fs.readFile(chromeEndpointFile, 'utf8'); } catch { return null; }
+    },
+    writeEndpoint: async (text) => {
+      await ensureDir(vaultDir);
+      await fs.writeFile(chromeEndpointFile, text, 'utf8');
+    },
+    removeEndpoint: async () => {
+      try { await fs.unlink(chromeEndpointFile); } catch {}
+    },
+    isOrphanedChrome: async (pid) => {
+      try {
+        process.kill(pid, 0);
+      } catch {
+        return false;
+      }
+      // Only processes started on our profile; the pid may have been reused
+      return (await readCommandLine(pid))?.includes(browserProfile) ?? false;
+    },
+    killProcess: (pid) => {
+      process.kill(pid, 'SIGTERM');
+    },
+  };
+}
+
+export type BrowserManager = ReturnType<typeof createBrowserManager>;
+
+export function createBrowserManager(
+  deps: BrowserManagerDeps = defaultDeps(DEFAULT_PROFILE_ID),
+  idleTimeoutMs: number = getIdleTimeoutMs(),
+) {
+  let browser: Browser | null = null;
+  let headlessMode: boolean | null = null;
+  // Serializes getInstance() so concurrent callers share one launch
+  let queue: Promise<unknown> = Promise.resolve();
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let state: BrowserState = stoppedState(null);
+
+  function stoppedState(previous: BrowserState | null): BrowserState {
+    return {
+      status: 'stopped',
+      headless: null,
+      pid: null,
+      wsEndpoint: null,
+      source: null,
+      startedAt: null,
+      lastUsedAt: previous?.lastUsedAt ?? null,
+      activeLeases: previous?.activeLeases ?? 0,
+      idleTimeoutMs,
+      idleClosesAt: null,
+    };
+  }
+
+  function clearIdleTimer() {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+    state.idleClosesAt = null;
+  }
+
+  function adopt(b: Browser, headless: boolean | null, source: 'launched' | 'reconnected') {
+    browser = b;
+    headlessMode = headless;
+    state = {
+      ...state,
+      status: 'running',
+      headless,
+      pid: b.process()?.pid ?? state.pid,
+      wsEndpoint: b.wsEndpoint(),
+      source,
+      startedAt: Date.now(),
+    };
+
+    b.on('disconnected', () => {
+      if (browser !== b) return;
+      logger.warn('Browser disconnected');
+      browser = null;
+      headlessMode = null;
+      clearIdleTimer();
+      state = stoppedState(state);
+      void deps.removeEndpoint();
+    });
+  }
+
+  /**
+   * Reconnect to the browser in the endpoint file, or clean up after it
+   */
+  async function reconnect(): Promise<void> {
+    const record = parseEndpointRecord(await deps.readEndpoint());
+    if (!record) {
+      await deps.removeEndpoint();
+      return;
+    }
+
+    try {
+      const b = await deps.connect(record.wsEndpoint);
+      state.pid = record.pid;
+      adopt(b, record.headless, 'reconnected');
+      logger.info('Reconnected to running browser', { wsEndpoint: record.wsEndpoint, pid: record.pid });
+      return;
+    } catch (error) {
+      logger.warn('Saved browser endpoint is stale', { wsEndpoint: record.wsEndpoint, error: String(error) });
+    }
+
+    await deps.removeEndpoint();
+    if (record.pid !== null && (await deps.isOrphanedChrome(record.pid))) {
+      logger.warn('Terminating orphaned browser process', { pid: record.pid });
+      try {
+        deps.killProcess(record.pid);
+      } catch (error) {
+        logger.warn('Failed to terminate orphaned browser', { pid: record.pid, error: String(error) });
+      }
+    }
+  }
+
+  async function close(reason: string): Promise<void> {
+    clearIdleTimer();
+    const b = browser;
+    browser = null;
+    headlessMode = null;
+    state = stoppedState(state);
+    if (!b) return;
+
+    logger.info('Closing browser', { reason });
+    await b.close().catch((error) => {
+      logger.warn('Failed to close browser', { error: String(error) });
+    });
+    await deps.removeEndpoint();
+  }
+
+  async function getInstance(headless: boolean): Promise<Browser> {
+    if (!browser) {
+      await reconnect();
+    }
+
+    // A headless browser (background session refresh) can't be used for a
+    // visible login and vice versa; both share the profile, so close it first
+    if (browser && headlessMode !== headless) {
+      await close(headless ? 'switching to headless' : 'switching to headful');
+    }
+
+    if (browser) {
+      logger.debug('Reusing existing browser instance');
+      return browser;
+    }
+
+    logger.info('Launching new browser instance', { headless });
+    state.status = 'launching';
+    const b = await deps.launch(headless);
+    adopt(b, headless, 'launched');
+    await deps.writeEndpoint(
+      JSON.stringify({ wsEndpoint: b.wsEndpoint(), pid: state.pid, headless, savedAt: Date.now() }),
+    );
+    logger.info('Browser launched successfully', { pid: state.pid });
+    return b;
+  }
+
+  async function acquire(headless: boolean): Promise<Browser> {
+    state.activeLeases++;
+    state.lastUsedAt = Date.now();
+    clearIdleTimer();
+
+    const instance = queue.then(() => getInstance(headless));
+    queue = instance.catch(() => undefined);
+    try {
+      return await instance;
+    } catch (error) {
+      state.status = browser ? 'running' : 'stopped';
+      release();
+      throw error;
+    }
+  }
+
+  function release() {
+    state.activeLeases = Math.max(0, state.activeLeases - 1);
+    state.lastUsedAt = Date.now();
+    if (state.activeLeases > 0 || !browser || idleTimeoutMs <= 0) return;
+
+    clearIdleTimer();
+    state.idleClosesAt = Date.now() + idleTimeoutMs;
+    idleTimer = setTimeout(() => void close('idle'), idleTimeoutMs);
+    idleTimer.unref?.();
+  }
+
+  return {
+    /**
+     * Run fn with the shared browser; the idle timer starts once no
+     * caller is using it anymore
+     */
+    async withBrowser<T>(opts: { headless: boolean }, fn: (browser: Browser) => Promise<T>): Promise<T> {
+      const b = await acquire(opts.headless);
+      try {
+        return await fn(b);
+      } finally {
+        release();
+      }
+    },
+
+    close,
+
+    getState(): BrowserState {
+      return { ...state };
+    },
+  };
+}
+
+const managers = new Map<string, BrowserManager>();
+
+/**
+ * The browser manager of a profile, created on first use
+ */
+export function getBrowserManager(profile: string = DEFAULT_PROFILE_ID): BrowserManager {
+  let manager = managers.get(profile);
+  if (!manager) {
+    manager = createBrowserManager(defaultDeps(profile));
+    managers.set(profile, manager);
+  }
+  return manager;
+}
+
+/**
+ * Close and forget the browser manager of a deleted profile
+ */
+export async function removeBrowserManager(profile: string): Promise<void> {
+  const manager = managers.get(profile);
+  managers.delete(profile);
+  await manager?.close('profile removed');
+}
+
+/**
+ * State of every profile's browser (for diagnostics)
+ */
+export function getBrowserStates(): Record<string, BrowserState> {
+  return Object.fromEntries([...managers].map(([profile, manager]) => [profile, manager.getState()]));
+}
+
+async function closeAll(reason: string): Promise<void> {
+  await Promise.all([...managers.values()].map((manager) => manager.close(reason)));
+}
+
+process.on('SIGINT', async () => {
+  await closeAll('SIGINT');
+  process.exit(0);
+});
+
+process.on('SIGTERM', async () => {
+  await closeAll('SIGTERM');
+  process.exit(0);
+});
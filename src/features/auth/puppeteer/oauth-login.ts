@@ -1,156 +1,98 @@
-import puppeteer, { Browser, Page } from 'puppeteer-core';
-import { ensureExecutable } from './browser-path';
-import fs from 'node:fs/promises';
-import { appPaths, ensureDir } from '../../../shared/config/app-paths';
 import { logger } from '../../../shared/logging/logger';
+import { getBrowserProxySettings } from '../../../shared/http/proxy';
+import { DEFAULT_PROFILE_ID } from '../../../shared/config/app-paths';
+import { getBrowserManager } from './browser-manager';
 
-const ENDPOINT_FILE = appPaths.chromeEndpointFile;
-const PROFILE = appPaths.browserProfile; // セッション持続
+/** Time the user has to finish the Calil/Google login */
+export const LOGIN_TIMEOUT_MS = 180_000;
 
-// Singleton browser instance
-let cachedBrowser: Browser | null = null;
-let browserLaunchPromise: Promise<Browser> | null = null;
+/** Steps of the browser login reported through onProgress */
+export type LoginProgress = 'launching_browser' | 'waiting_for_user' | 'capturing_cookies';
 
-// Singleton login process
-let loginPromise: Promise<any[]> | null = null;
+export type OAuthLoginOptions = {
+    /** Profile whose browser (and Google account) is used */
+    profile?: string;
+    headless?: boolean;
+    /** Defaults to LOGIN_TIMEOUT_MS */
+    timeoutMs?: number;
+    /** Aborting closes the login page and rejects the login */
+    signal?: AbortSignal;
+    onProgress?: (progress: LoginProgress) => void;
+};
 
-async function saveEndpoint(ws: string) {
-    await ensureDir(appPaths.vaultDir);
-    await fs.writeFile(ENDPOINT_FILE, ws, 'utf8');
-}
-
-async function loadEndpoint(): Promise<string | null> {
-    try { return await fs.readFile(ENDPOINT_FILE, 'utf8'); } catch { return null; }
-}
-
-// Clean up browser on process exit
-process.on('exit', () => {
-    if (cachedBrowser) {
-        logger.info('Closing browser on process exit');
-        // Synchronous close is not supported, but we mark it as null
-        cachedBrowser = null;
-    }
-});
-
-process.on('SIGINT', async () => {
-    if (cachedBrowser) {
-        logger.info('Closing browser on SIGINT');
-        await cachedBrowser.close();
-        cachedBrowser = null;
-    }
-    process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-    if (cachedBrowser) {
-        logger.info('Closing browser on SIGTERM');
-        await cachedBrowser.close();
-        cachedBrowser = null;
-    }
-    process.exit(0);
-});
-
-async function getBrowserInstance(opts?: { headless?: boolean }): Promise<Browser> {
-    // If we have a cached browser, verify it's still connected
-    if (cachedBrowser) {
-        try {
-            await cachedBrowser.version(); // Test connection
-            logger.debug('Reusing existing browser instance');
-            return cachedBrowser;
-        } catch (error) {
-            logger.warn('Cached browser is disconnected, will launch new one');
-            cachedBrowser = null;
-        }
-    }
-
-    // If another request is already launching, wait for it
-    if (browserLaunchPromise) {
-        logger.debug('Browser launch already in progress, waiting...');
-        return await browserLaunchPromise;
-    }
+// One login process per profile
+const loginPromises = new Map<string, Promise<any[]>>();
 
-    // Launch new browser
-    const launch_browser = async (): Promise<Browser> => {
-        logger.info('Launching new browser instance');
-        const executablePath = await ensureExecutable();
-        await ensureDir(PROFILE);
-        const b = await puppeteer.launch({
-            executablePath,
-            userDataDir: PROFILE,
-            headless: opts?.headless ?? true,
-            args: [
-                process.platform === 'linux' ? '--no-sandbox' : '',
-                '--disable-dev-shm-usage',
-                '--disable-blink-features=AutomationControlled',
-                '--disable-infobars',
-                '--remote-debugging-port=0',
-            ].filter(Boolean),
-            defaultViewport: null,
-        });
-        const ws = b.wsEndpoint();
-        await saveEndpoint(ws);
-        logger.info('Browser launched successfully');
-        return b;
-    };
-
-    try {
-        browserLaunchPromise = launch_browser();
-        cachedBrowser = await browserLaunchPromise;
-        return cachedBrowser;
-    } finally {
-        browserLaunchPromise = null;
-    }
-}
+export async function oauthLoginAndGetCookies(opts?: OAuthLoginOptions) {
+    const profile = opts?.profile ?? DEFAULT_PROFILE_ID;
 
-export async function oauthLoginAndGetCookies(opts?: { headless?: boolean }) {
     // If a login is already in progress, wait for it
-    if (loginPromise) {
-        logger.debug('Login already in progress, waiting for completion...');
-        return await loginPromise;
+    const inProgress = loginPromises.get(profile);
+    if (inProgress) {
+        logger.debug('Login already in progress, waiting for completion...', { profile });
+        return await inProgress;
     }
 
     // Perform the actual login
-    const performLogin = async () => {
-        const browser = await getBrowserInstance(opts);
-        const page = await browser.newPage();
-
-        try {
-            logger.info('Starting OAuth login process');
-            await page.setUserAgent(
-                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) ' +
-                'Chrome/129.0.0.0 Safari/537.36'
-            );
-            await page.evaluateOnNewDocument(() => {
-                Object.defineProperty(navigator, 'webdriver', { get: () => false });
-            });
-
-            await page.goto('https://login.calil.jp/google_login?redirect=%2F', { waitUntil: 'networkidle2' });
-
-            // 1回目は手動で"Allow"。2回目以降はプロファイルにより自動通過しやすい
-            await page.waitForFunction(
-                () => location.hostname.endsWith('calil.jp') && location.pathname === '/',
-                { timeout: 180_000 }
-            );
-
-            const all_cookies = await browser.cookies();
-            const cookies = [
-                ...(all_cookies.filter(c => c.domain.endsWith('calil.jp'))),
-                ...(all_cookies.filter(c => c.path.startsWith('https://login.calil.jp'))),
-            ];
-
-            logger.info('OAuth login completed successfully');
-            return cookies;
-        } finally {
-            // Close only the page, keep browser running for reuse
-            await page.close();
-        }
+    const performLogin = () => {
+        opts?.onProgress?.('launching_browser');
+        return getBrowserManager(profile).withBrowser({ headless: opts?.headless ?? true }, async (browser) => {
+            const page = await browser.newPage();
+            const closePage = () => {
+                logger.info('OAuth login cancelled');
+                page.close().catch(() => undefined);
+            };
+            opts?.signal?.addEventListener('abort', closePage, { once: true });
+
+            try {
+                opts?.signal?.throwIfAborted();
+                // Chrome can't take proxy credentials on the command line
+                const { credentials } = getBrowserProxySettings();
+                if (credentials) {
+                    await page.authenticate(credentials);
+                }
+                logger.info('Starting OAuth login process', { profile });
+                await page.setUserAgent(
+                    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+                    'Chrome/129.0.0.0 Safari/537.36'
+                );
+                await page.evaluateOnNewDocument(() => {
+                    Object.defineProperty(navigator, 'webdriver', { get: () => false });
+                });
+
+                await page.goto('https://login.calil.jp/google_login?redirect=%2F', { waitUntil: 'networkidle2' });
+                opts?.onProgress?.('waiting_for_user');
+
+                // 1回目は手動で"Allow"。2回目以降はプロファイルにより自動通過しやすい
+                await page.waitForFunction(
+                    () => location.hostname.endsWith('calil.jp') && location.pathname === '/',
+                    { timeout: opts?.timeoutMs ?? LOGIN_TIMEOUT_MS }
+                );
+                opts?.onProgress?.('capturing_cookies');
+
+                const all_cookies = await browser.cookies();
+                const cookies = [
+                    ...(all_cookies.filter(c => c.domain.endsWith('calil.jp'))),
+                    ...(all_cookies.filter(c => c.path.startsWith('https://login.calil.jp'))),
+                ];
+
+                logger.info('OAuth login completed successfully');
+                return cookies;
+            } finally {
+                opts?.signal?.removeEventListener('abort', closePage);
+                // Close only the page; the manager closes the browser when idle
+                if (!page.isClosed()) {
+                    await page.close();
+                }
+            }
+        });
     };
 
     try {
-        loginPromise = performLogin();
-        const result = await loginPromise;
-        return result;
+        const promise = performLogin();
+        loginPromises.set(profile, promise);
+        return await promise;
     } finally {
-        loginPromise = null;
+        loginPromises.delete(profile);
     }
 }
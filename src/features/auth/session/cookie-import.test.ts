@@ -0,0 +1,101 @@
+import { test, expect, describe } from 'bun:test';
+import { detectCookieFormat, hasCalilSessionCookie, parseCookieImport } from './cookie-import';
+
+const NOW = Date.UTC(2026, 0, 1);
+const FUTURE = NOW / 1000 + 86400;
+const PAST = NOW / 1000 - 86400;
+
+describe('cookie-import', () => {
+  describe('detectCookieFormat', () => {
+    test('入力の形式を判定する', () => {
+      expect(detectCookieFormat('[{"name":"a"}]')).toBe('json');
+      expect(detectCookieFormat('# Netscape HTTP Cookie File\n')).toBe('netscape');
+      expect(detectCookieFormat(`.calil.jp\tTRUE\t/\tTRUE\t0\ta\tb`)).toBe('netscape');
+      expect(detectCookieFormat('Cookie: a=b; c=d')).toBe('header');
+    });
+  });
+
+  describe('Cookieヘッダー', () => {
+    test('値に含まれる "=" を保持する', () => {
+      const { format, accepted } = parseCookieImport('Cookie: session=YWJj==; theme=dark', NOW);
+
+      expect(format).toBe('header');
+      expect(accepted.map((c) => [c.name, c.value])).toEqual([
+        ['session', 'YWJj=='],
+        ['theme', 'dark'],
+      ]);
+      expect(accepted[0]).toMatchObject({ domain: '.calil.jp', path: '/', session: true, expires: -1 });
+    });
+  });
+
+  describe('Netscape cookies.txt', () => {
+    test('有効期限と HttpOnly を読み取り、他ドメインと期限切れを除外する', () => {
+      const text = [
+        '# Netscape HTTP Cookie File',
+        `#HttpOnly_.calil.jp\tTRUE\t/\tTRUE\t${FUTURE}\tsession\tabc=def`,
+        `login.calil.jp\tFALSE\t/\tTRUE\t0\tstate\txyz`,
+        `.example.com\tTRUE\t/\tFALSE\t${FUTURE}\tother\t1`,
+        `.calil.jp\tTRUE\t/\tTRUE\t${PAST}\told\t1`,
+      ].join('\n');
+
+      const { format, accepted, rejected } = parseCookieImport(text, NOW);
+
+      expect(format).toBe('netscape');
+      expect(accepted).toHaveLength(2);
+      expect(accepted[0]).toMatchObject({
+        name: 'session',
+        value: 'abc=def',
+        domain: '.calil.jp',
+        expires: FUTURE,
+        httpOnly: true,
+        secure: true,
+        session: false,
+      });
+      expect(accepted[1]).toMatchObject({ name: 'state', session: true });
+      expect(rejected).toEqual([
+        { name: 'other', reason: 'not a calil.jp cookie (.example.com)' },
+        { name: 'old', reason: 'expired' },
+      ]);
+    });
+  });
+
+  describe('JSON', () => {
+    test('拡張機能の expirationDate とセッションCookieを扱う', () => {
+      const text = JSON.stringify([
+        { name: 'session', value: 'abc', domain: '.calil.jp', path: '/', expirationDate: FUTURE + 0.5, httpOnly: true, secure: true },
+        { name: 'tmp', value: '1', domain: 'calil.jp', session: true },
+        { name: 'ga', value: '1', domain: '.google.com', expirationDate: FUTURE },
+      ]);
+
+      const { format, accepted, rejected } = parseCookieImport(text, NOW);
+
+      expect(format).toBe('json');
+      expect(accepted.map((c) => c.name)).toEqual(['session', 'tmp']);
+      expect(accepted[0]!.expires).toBe(FUTURE + 0.5);
+      expect(accepted[1]!.session).toBe(true);
+      expect(rejected.map((r) => r.name)).toEqual(['ga']);
+    });
+
+    test('壊れたJSONは例外', () => {
+      expect(() => parseCookieImport('[{"name":', NOW)).toThrow();
+    });
+
+    test('オブジェクトでない要素は名前なしとして除外する', () => {
+      const { accepted, rejected } = parseCookieImport('[1, {"name": "session", "value": "a", "domain": ".calil.jp"}]', NOW);
+
+      expect(accepted.map((c) => c.name)).toEqual(['session']);
+      expect(rejected).toEqual([{ name: '', reason: 'missing name' }]);
+    });
+  });
+
+  describe('hasCalilSessionCookie', () => {
+    test('calil.jp のセッションCookieがあるかを判定する', () => {
+      const withSession = parseCookieImport('Cookie: _ga=1; session=abc', NOW).accepted;
+      const analyticsOnly = parseCookieImport('Cookie: _ga=1; _gid=2', NOW).accepted;
+
+      expect(hasCalilSessionCookie(withSession)).toBe(true);
+      expect(hasCalilSessionCookie(analyticsOnly)).toBe(false);
+      expect(hasCalilSessionCookie(parseCookieImport('Cookie: session=', NOW).accepted)).toBe(false);
+    });
+  });
+});
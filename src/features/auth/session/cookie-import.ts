@@ -0,0 +1,172 @@
+import type { Cookie } from 'puppeteer';
+
+/**
+ * Parse cookies pasted on the auth page
+ *
+ * Accepted formats:
+ * - Netscape cookies.txt (tab separated, `#HttpOnly_` prefix supported)
+ * - JSON exported by cookie editor extensions (EditThisCookie, Cookie-Editor)
+ *   or puppeteer (`expirationDate` in seconds or `expires`)
+ * - A raw `Cookie:` request header (`name=value; name2=value2`)
+ *
+ * Only non-expired calil.jp cookies are accepted; the rest are reported
+ * with a reason. An import without Calil's session cookie is refused by the
+ * caller (see hasCalilSessionCookie).
+ */
+
+export type CookieImportFormat = 'netscape' | 'json' | 'header';
+
+export type RejectedCookie = { name: string; reason: string };
+
+export type CookieImportResult = {
+  format: CookieImportFormat;
+  accepted: Cookie[];
+  rejected: RejectedCookie[];
+};
+
+type CookieFields = {
+  name: string;
+  value: string;
+  domain: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+};
+
+const CALIL_DOMAIN = 'calil.jp';
+
+/** Name of the cookie that holds the calil.jp login session */
+export const CALIL_SESSION_COOKIE = 'session';
+
+export function detectCookieFormat(text: string): CookieImportFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  if (/^# (Netscape )?HTTP Cookie File/im.test(trimmed)) return 'netscape';
+  if (trimmed.split(/\r?\n/).some((line) => line.split('\t').length >= 7)) return 'netscape';
+  return 'header';
+}
+
+function parseNetscape(text: string): CookieFields[] {
+  const cookies: CookieFields[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    const httpOnly = line.startsWith('#HttpOnly_');
+    if (httpOnly) line = line.slice('#HttpOnly_'.length);
+    if (!line || line.startsWith('#')) continue;
+
+    const fields = line.split('\t');
+    if (fields.length < 7) continue;
+    const [domain = '', , path = '/', secure = '', expires = '0', name = '', ...value] = fields;
+    cookies.push({
+      name,
+      // Values may contain tabs only in theory, but keep them intact
+      value: value.join('\t'),
+      domain,
+      path,
+      expires: Number(expires) || undefined,
+      httpOnly,
+      secure: secure.toUpperCase() === 'TRUE',
+    });
+  }
+  return cookies;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): CookieFields[] {
+  const parsed: unknown = JSON.parse(text);
+  const items: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.cookies)
+      ? parsed.cookies
+      : [parsed];
+
+  return items.map((raw) => {
+    // 名前の無い要素として除外理由を返す
+    const item = isRecord(raw) ? raw : {};
+    const expires = item.expirationDate ?? item.expires;
+    return {
+      name: String(item.name ?? ''),
+      value: String(item.value ?? ''),
+      domain: String(item.domain ?? ''),
+      path: typeof item.path === 'string' ? item.path : undefined,
+      expires: item.session || typeof expires !== 'number' || expires <= 0 ? undefined : expires,
+      httpOnly: !!item.httpOnly,
+      secure: !!item.secure,
+    };
+  });
+}
+
+function parseHeader(text: string): CookieFields[] {
+  const header = text.trim().replace(/^cookie:\s*/i, '');
+  return header
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      // Values may contain "=" (base64 etc.); split at the first one only
+      const index = pair.indexOf('=');
+      return {
+        name: index >= 0 ? pair.slice(0, index).trim() : pair,
+        value: index >= 0 ? pair.slice(index + 1).trim() : '',
+        domain: `.${CALIL_DOMAIN}`,
+        secure: true,
+      };
+    });
+}
+
+function isCalilDomain(domain: string): boolean {
+  const host = domain.replace(/^\./, '').toLowerCase();
+  return host === CALIL_DOMAIN || host.endsWith(`.${CALIL_DOMAIN}`);
+}
+
+function toCookie(fields: CookieFields): Cookie {
+  const session = fields.expires === undefined;
+  return {
+    name: fields.name,
+    value: fields.value,
+    domain: fields.domain,
+    path: fields.path || '/',
+    expires: session ? -1 : fields.expires!,
+    size: fields.name.length + fields.value.length,
+    httpOnly: fields.httpOnly ?? false,
+    secure: fields.secure ?? true,
+    session,
+  };
+}
+
+/**
+ * @throws {SyntaxError} When JSON input can't be parsed
+ */
+export function parseCookieImport(text: string, now = Date.now()): CookieImportResult {
+  const format = detectCookieFormat(text);
+  const parsed =
+    format === 'json' ? parseJson(text) : format === 'netscape' ? parseNetscape(text) : parseHeader(text);
+
+  const accepted: Cookie[] = [];
+  const rejected: RejectedCookie[] = [];
+  for (const fields of parsed) {
+    if (!fields.name) {
+      rejected.push({ name: fields.name, reason: 'missing name' });
+    } else if (!isCalilDomain(fields.domain)) {
+      rejected.push({ name: fields.name, reason: `not a ${CALIL_DOMAIN} cookie (${fields.domain || 'no domain'})` });
+    } else if (fields.expires !== undefined && fields.expires * 1000 < now) {
+      rejected.push({ name: fields.name, reason: 'expired' });
+    } else {
+      accepted.push(toCookie(fields));
+    }
+  }
+
+  return { format, accepted, rejected };
+}
+
+/**
+ * Whether the cookies include Calil's login session
+ * Analytics and preference cookies on calil.jp alone can't log in.
+ */
+export function hasCalilSessionCookie(cookies: Cookie[]): boolean {
+  return cookies.some((cookie) => cookie.name === CALIL_SESSION_COOKIE && cookie.value !== '');
+}
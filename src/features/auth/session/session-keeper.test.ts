@@ -0,0 +1,132 @@
+import { test, expect, describe } from 'bun:test';
+import type { Cookie } from 'puppeteer';
+import { createSessionKeeper, sessionExpiry, type SessionKeeperDeps } from './session-keeper';
+import { VaultLockedError } from './vault.store';
+import { CalilAuthError, UpstreamUnavailableError } from '../../../shared/errors/upstream-errors';
+
+const HOUR = 60 * 60;
+
+function cookie(name: string, expiresInSeconds: number | null): Cookie {
+  return {
+    name,
+    value: 'v',
+    domain: '.calil.jp',
+    path: '/',
+    expires: expiresInSeconds === null ? -1 : Date.now() / 1000 + expiresInSeconds,
+    size: 2,
+    httpOnly: true,
+    secure: true,
+    session: expiresInSeconds === null,
+  };
+}
+
+function keeper(deps: Partial<SessionKeeperDeps>, calls: string[] = []) {
+  return createSessionKeeper(
+    {
+      load: async () => null,
+      validate: async () => true,
+      refresh: async () => {
+        calls.push('refresh');
+        return [cookie('fresh', 24 * HOUR)];
+      },
+      save: async () => {
+        calls.push('save');
+      },
+      ...deps,
+    },
+    { intervalMs: 60_000, refreshBeforeMs: HOUR * 1000 },
+  );
+}
+
+describe('session-keeper', () => {
+  test('sessionExpiry はログインセッションの Cookie の期限を返す', () => {
+    const session = cookie('session', 24 * HOUR);
+    expect(sessionExpiry([cookie('_ga', HOUR), session])).toBe(session.expires * 1000);
+    expect(sessionExpiry([cookie('_ga', HOUR), cookie('session', null)])).toBeNull();
+  });
+
+  test('sessionExpiry はセッション Cookie がなければ期限付き Cookie の最も早い期限を返す', () => {
+    const soon = cookie('a', HOUR);
+    expect(sessionExpiry([soon, cookie('b', 2 * HOUR), cookie('c', null)])).toBe(soon.expires * 1000);
+    expect(sessionExpiry([cookie('c', null)])).toBeNull();
+  });
+
+  test('短い期限の解析用 Cookie があっても更新しない', async () => {
+    const calls: string[] = [];
+    const k = keeper(
+      { load: async () => ({ cookies: [cookie('_ga', 60), cookie('session', 24 * HOUR)] }) },
+      calls,
+    );
+
+    expect((await k.check()).state).toBe('valid');
+    expect(calls).toEqual([]);
+  });
+
+  test('Cookieがなければ needs_login になり、リクエストはすぐ失敗する', async () => {
+    const calls: string[] = [];
+    let loads = 0;
+    const k = keeper({ load: async () => (loads++, null) }, calls);
+
+    expect((await k.check()).state).toBe('needs_login');
+    expect(calls).toEqual([]);
+
+    await expect(k.requireSession()).rejects.toBeInstanceOf(CalilAuthError);
+    expect(loads).toBe(1);
+  });
+
+  test('有効なセッションは更新しない', async () => {
+    const calls: string[] = [];
+    const k = keeper({ load: async () => ({ cookies: [cookie('s', 24 * HOUR)] }) }, calls);
+
+    expect((await k.check()).state).toBe('valid');
+    expect(calls).toEqual([]);
+    expect((await k.requireSession()).cookies[0]!.name).toBe('s');
+  });
+
+  test('期限が近ければヘッドレスで更新して保存する', async () => {
+    const calls: string[] = [];
+    const k = keeper({ load: async () => ({ cookies: [cookie('s', 60)] }) }, calls);
+
+    const status = await k.check();
+
+    expect(status.state).toBe('valid');
+    expect(calls).toEqual(['refresh', 'save']);
+  });
+
+  test('拒否されて更新にも失敗したら needs_login を通知する', async () => {
+    const states: string[] = [];
+    const k = keeper({
+      load: async () => ({ cookies: [cookie('s', 24 * HOUR)] }),
+      validate: async () => false,
+      refresh: async () => {
+        throw new Error('TimeoutError');
+      },
+    });
+    k.subscribe((status) => states.push(status.state));
+
+    expect((await k.check()).state).toBe('needs_login');
+    expect(states).toEqual(['refreshing', 'needs_login']);
+    await expect(k.requireSession()).rejects.toBeInstanceOf(CalilAuthError);
+  });
+
+  test('Calilに接続できないときは状態を変えない', async () => {
+    const k = keeper({
+      load: async () => ({ cookies: [cookie('s', 24 * HOUR)] }),
+      validate: async () => {
+        throw new UpstreamUnavailableError('calil', 'down');
+      },
+    });
+
+    expect((await k.check()).state).toBe('unknown');
+  });
+
+  test('保管庫がロックされていれば locked', async () => {
+    const k = keeper({
+      load: async () => {
+        throw new VaultLockedError();
+      },
+    });
+
+    expect((await k.check()).state).toBe('locked');
+  });
+});
@@ -0,0 +1,257 @@
+import type { Cookie } from 'puppeteer';
+import { DEFAULT_PROFILE_ID } from '../../../shared/config/app-paths';
+import { logger } from '../../../shared/logging/logger';
+import { CalilAuthError, UpstreamError } from '../../../shared/errors/upstream-errors';
+import { oauthLoginAndGetCookies } from '../puppeteer/oauth-login';
+import { isValidSession, loadCookies, saveCookies, VaultLockedError } from './vault.store';
+import { CALIL_SESSION_COOKIE } from './cookie-import';
+
+/**
+ * Session keeper: checks the stored Calil session in the background and
+ * refreshes it before it expires
+ *
+ * - Every interval it looks at the cookies' `expires` and asks Calil
+ *   whether the session is still valid (isValidSession)
+ * - When the session expires soon or was rejected, it logs in again
+ *   headlessly through the persistent browser profile (Google usually
+ *   lets a known profile through without user interaction)
+ * - If that fails the state becomes `needs_login` and the UI asks the user
+ *   to log in on /auth; requests fail fast with CalilAuthError meanwhile
+ *   instead of opening a browser in the middle of a page render
+ * - Each profile (Calil account) has its own keeper; see getSessionKeeper()
+ */
+
+export type SessionState = 'unknown' | 'valid' | 'refreshing' | 'needs_login' | 'locked';
+
+export type SessionStatus = {
+  state: SessionState;
+  checkedAt: number | null;
+  /** Expiry of the stored session cookie (ms), null for a browser-session cookie */
+  expiresAt: number | null;
+  error?: string;
+};
+
+export type SessionKeeperDeps = {
+  load: () => Promise<{ cookies: Cookie[] } | null>;
+  validate: (v: { cookies: Cookie[] }) => Promise<boolean>;
+  refresh: () => Promise<Cookie[]>;
+  save: (cookies: Cookie[]) => Promise<void>;
+};
+
+export type SessionKeeperOptions = {
+  /** How often the session is checked */
+  intervalMs: number;
+  /** Refresh when the session cookie expires within this window */
+  refreshBeforeMs: number;
+};
+
+/** Headless refresh gives up quickly; a visible login is up to the user */
+const HEADLESS_REFRESH_TIMEOUT_MS = 30_000;
+
+export const DEFAULT_KEEPER_OPTIONS: SessionKeeperOptions = {
+  intervalMs: 15 * 60 * 1000,
+  refreshBeforeMs: 60 * 60 * 1000,
+};
+
+function defaultDeps(profile: string): SessionKeeperDeps {
+  return {
+    load: () => loadCookies(profile),
+    validate: isValidSession,
+    refresh: () => oauthLoginAndGetCookies({ profile, headless: true, timeoutMs: HEADLESS_REFRESH_TIMEOUT_MS }),
+    save: (cookies) => saveCookies(cookies, profile),
+  };
+}
+
+/**
+ * Expiry (ms) of the Calil session cookie, null for a browser-session cookie
+ * Short-lived analytics cookies don't end the login, so they are ignored;
+ * without a session cookie the earliest expiry of all cookies is used.
+ */
+export function sessionExpiry(cookies: Cookie[]): number | null {
+  const session = cookies.filter((cookie) => cookie.name === CALIL_SESSION_COOKIE);
+  const expiries = (session.length > 0 ? session : cookies)
+    .filter((cookie) => !cookie.session && cookie.expires > 0)
+    .map((cookie) => cookie.expires * 1000);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
+
+export type SessionKeeper = ReturnType<typeof createSessionKeeper>;
+
+export function createSessionKeeper(
+  deps: SessionKeeperDeps = defaultDeps(DEFAULT_PROFILE_ID),
+  options: SessionKeeperOptions = DEFAULT_KEEPER_OPTIONS,
+  profile: string = DEFAULT_PROFILE_ID,
+) {
+  let status: SessionStatus = { state: 'unknown', checkedAt: null, expiresAt: null };
+  let running: Promise<SessionStatus> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const listeners = new Set<(status: SessionStatus) => void>();
+
+  function setStatus(next: Omit<SessionStatus, 'checkedAt'>) {
+    const changed = next.state !== status.state || next.error !== status.error;
+    status = { ...next, checkedAt: Date.now() };
+    if (!changed) return;
+
+    logger.info('Session state changed', { profile, state: status.state, error: status.error });
+    for (const listener of listeners) {
+      try {
+        listener({ ...status });
+      } catch (error) {
+        logger.warn('Session listener failed', { error: String(error) });
+      }
+    }
+  }
+
+  async function refresh(reason: string): Promise<void> {
+    logger.info('Refreshing Calil session headlessly', { profile, reason });
+    setStatus({ state: 'refreshing', expiresAt: status.expiresAt });
+    try {
+      const cookies = await deps.refresh();
+      if (!(await deps.validate({ cookies }))) {
+        throw new Error('Calil did not accept the refreshed session');
+      }
+      await deps.save(cookies);
+      setStatus({ state: 'valid', expiresAt: sessionExpiry(cookies) });
+    } catch (error) {
+      logger.warn('Headless session refresh failed; login required', { profile, error: String(error) });
+      setStatus({ state: 'needs_login', expiresAt: null, error: reason });
+    }
+  }
+
+  async function runCheck(): Promise<SessionStatus> {
+    let v: { cookies: Cookie[] } | null;
+    try {
+      v = await deps.load();
+    } catch (error) {
+      if (!(error instanceof VaultLockedError)) throw error;
+      setStatus({ state: 'locked', expiresAt: null });
+      return status;
+    }
+
+    if (!v || v.cookies.length === 0) {
+      // Never logged in; don't open a browser on our own
+      setStatus({ state: 'needs_login', expiresAt: null });
+      return status;
+    }
+
+    const expiresAt = sessionExpiry(v.cookies);
+    if (expiresAt !== null && expiresAt - Date.now() < options.refreshBeforeMs) {
+      await refresh('Session expires soon');
+      return status;
+    }
+
+    try {
+      if (await deps.validate(v)) {
+        setStatus({ state: 'valid', expiresAt });
+      } else {
+        await refresh('Session was rejected by Calil');
+      }
+    } catch (error) {
+      // Calil unreachable: keep the last known state and try again later
+      if (!(error instanceof UpstreamError)) throw error;
+      logger.warn('Session check failed', { profile, error: String(error) });
+    }
+    return status;
+  }
+
+  /**
+   * Check (and refresh if needed) now; concurrent calls share one check
+   */
+  function check(): Promise<SessionStatus> {
+    if (!running) {
+      running = runCheck()
+        .catch((error) => {
+          logger.error('Session check crashed', { profile, error: String(error) });
+          return status;
+        })
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  }
+
+  return {
+    check,
+
+    getStatus(): SessionStatus {
+      return { ...status };
+    },
+
+    /**
+     * @returns A function that removes the listener
+     */
+    subscribe(listener: (status: SessionStatus) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    /**
+     * Stored cookies for a request, failing fast when a login is needed
+     *
+     * @throws {CalilAuthError} When there is no usable session
+     * @throws {VaultLockedError} When the vault is locked
+     */
+    async requireSession(): Promise<{ cookies: Cookie[] }> {
+      if (status.state === 'needs_login') {
+        throw new CalilAuthError('Calil login required');
+      }
+
+      const v = await deps.load();
+      if (!v || v.cookies.length === 0) {
+        setStatus({ state: 'needs_login', expiresAt: null });
+        throw new CalilAuthError('Calil login required');
+      }
+      return v;
+    },
+
+    /**
+     * Calil rejected the session during a request: refresh in the background
+     */
+    reportRejected(): void {
+      logger.warn('Calil rejected the session during a request', { profile });
+      if (status.state === 'refreshing' || running) return;
+      running = refresh('Session was rejected by Calil')
+        .then(() => status)
+        .finally(() => {
+          running = null;
+        });
+    },
+
+    start(): void {
+      if (timer) return;
+      void check();
+      timer = setInterval(() => void check(), options.intervalMs);
+      // Don't keep the process alive just for the keeper
+      timer.unref?.();
+      logger.info('Session keeper started', { profile, intervalMs: options.intervalMs });
+    },
+
+    stop(): void {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
+
+const keepers = new Map<string, SessionKeeper>();
+
+/**
+ * The keeper of a profile, created on first use
+ */
+export function getSessionKeeper(profile: string = DEFAULT_PROFILE_ID): SessionKeeper {
+  let keeper = keepers.get(profile);
+  if (!keeper) {
+    keeper = createSessionKeeper(defaultDeps(profile), DEFAULT_KEEPER_OPTIONS, profile);
+    keepers.set(profile, keeper);
+  }
+  return keeper;
+}
+
+/**
+ * Stop and forget the keeper of a deleted profile
+ */
+export function removeSessionKeeper(profile: string): void {
+  keepers.get(profile)?.stop();
+  keepers.delete(profile);
+}
@@ -0,0 +1,56 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  decryptVault,
+  deriveKey,
+  encryptVault,
+  generateKey,
+  isVaultEnvelope,
+  newScryptParams,
+} from './vault-crypto';
+
+describe('vault-crypto', () => {
+  const plaintext = JSON.stringify({ cookies: [{ name: 'session', value: 'secret' }], savedAt: 1 });
+
+  test('暗号化したデータを同じ鍵で復号できる', () => {
+    const key = generateKey();
+    const envelope = encryptVault(plaintext, key, { name: 'keyfile' });
+
+    expect(isVaultEnvelope(envelope)).toBe(true);
+    expect(envelope.data).not.toContain('secret');
+    expect(decryptVault(envelope, key)).toBe(plaintext);
+  });
+
+  test('暗号化のたびにIVが変わる', () => {
+    const key = generateKey();
+    const a = encryptVault(plaintext, key, { name: 'keyfile' });
+    const b = encryptVault(plaintext, key, { name: 'keyfile' });
+
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.data).not.toBe(b.data);
+  });
+
+  test('違う鍵や改ざんされたデータは復号できない', () => {
+    const key = generateKey();
+    const envelope = encryptVault(plaintext, key, { name: 'keyfile' });
+
+    expect(() => decryptVault(envelope, generateKey())).toThrow();
+
+    const data = Buffer.from(envelope.data, 'base64');
+    data[0] = data[0]! ^ 0xff;
+    expect(() => decryptVault({ ...envelope, data: data.toString('base64') }, key)).toThrow();
+  });
+
+  test('パスフレーズと保存したソルトから同じ鍵を導出する', async () => {
+    const params = newScryptParams();
+    const envelope = encryptVault(plaintext, await deriveKey('correct horse', params), params);
+
+    expect(decryptVault(envelope, await deriveKey('correct horse', envelope.kdf as typeof params))).toBe(plaintext);
+    expect(() => decryptVault(envelope, generateKey())).toThrow();
+    expect((await deriveKey('wrong', params)).equals(await deriveKey('correct horse', params))).toBe(false);
+  });
+
+  test('平文の旧形式は暗号化データとみなさない', () => {
+    expect(isVaultEnvelope(JSON.parse(plaintext))).toBe(false);
+    expect(isVaultEnvelope(null)).toBe(false);
+  });
+});
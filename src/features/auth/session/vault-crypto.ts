@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+
+/**
+ * At-rest encryption of the cookie vault (AES-256-GCM)
+ *
+ * The key comes either from a passphrase (scrypt, parameters and salt are
+ * stored next to the ciphertext) or from a random key file.
+ */
+
+export type ScryptParams = { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+export type VaultKdf = ScryptParams | { name: 'keyfile' };
+
+export type VaultEnvelope = {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  kdf: VaultKdf;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+export const KEY_LENGTH = 32;
+
+export function generateKey(): Buffer {
+  return randomBytes(KEY_LENGTH);
+}
+
+export function newScryptParams(): ScryptParams {
+  return { name: 'scrypt', salt: randomBytes(16).toString('base64'), N: 2 ** 15, r: 8, p: 1 };
+}
+
+export function deriveKey(passphrase: string, params: ScryptParams): Promise<Buffer> {
+  const { N, r, p } = params;
+  return new Promise((resolve, reject) => {
+    // N=2^15, r=8 needs 32 MiB, just above Node's default maxmem
+    scrypt(passphrase, Buffer.from(params.salt, 'base64'), KEY_LENGTH, { N, r, p, maxmem: 128 * N * r * 2 }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+}
+
+export function encryptVault(plaintext: string, key: Buffer, kdf: VaultKdf): VaultEnvelope {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    kdf,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * @throws When the key is wrong or the envelope was tampered with
+ */
+export function decryptVault(envelope: VaultEnvelope, key: Buffer): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+export function isVaultEnvelope(value: unknown): value is VaultEnvelope {
+  const v = value as Partial<VaultEnvelope> | null;
+  return !!v && v.version === 1 && v.cipher === 'aes-256-gcm' && typeof v.data === 'string' && !!v.kdf;
+}
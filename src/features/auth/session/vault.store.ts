@@ -1,32 +1,242 @@
 import fs from 'node:fs/promises';
 import type { Cookie } from 'puppeteer';
-import { appPaths, ensureDir } from '../../../shared/config/app-paths';
+import { DEFAULT_PROFILE_ID, ensureDir, profilePaths } from '../../../shared/config/app-paths';
+import { getUpstreamBaseUrl, httpRequest } from '../../../shared/http/http-client';
+import { logger } from '../../../shared/logging/logger';
+import { clearCacheNamespace, getCacheDatabase } from '../../../shared/cache/kv-cache';
+import {
+  KEY_LENGTH,
+  decryptVault,
+  deriveKey,
+  encryptVault,
+  generateKey,
+  isVaultEnvelope,
+  newScryptParams,
+  type VaultEnvelope,
+  type VaultKdf,
+} from './vault-crypto';
 
-const FILE = appPaths.vaultFile;
+type VaultData = { cookies: Cookie[]; savedAt?: number };
+type VaultKey = { key: Buffer; kdf: VaultKdf };
 
-export async function saveCookies(cookies: Cookie[]) {
-  await ensureDir(appPaths.vaultDir);
-  await fs.writeFile(FILE, JSON.stringify({ cookies, savedAt: Date.now() }));
+/**
+ * The vault is encrypted with a passphrase that hasn't been given yet,
+ * or can't be decrypted with the available key
+ */
+export class VaultLockedError extends Error {
+  readonly code = 'vault_locked';
+
+  constructor(message = 'Cookie vault is locked') {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+// プロファイルごとの解錠済みの鍵（パスフレーズ由来の鍵はここにだけ保持する）
+const unlockedKeys = new Map<string, VaultKey>();
+
+function passphraseFromEnv(): string | undefined {
+  return process.env.CALIL_VAULT_PASSPHRASE || undefined;
+}
+
+async function readVaultFile(profile: string): Promise<unknown> {
+  try { return JSON.parse(await fs.readFile(profilePaths(profile).vaultFile, 'utf8')); } catch { return null; }
+}
+
+async function loadKeyFile(profile: string, create: boolean): Promise<Buffer | null> {
+  const { vaultDir, vaultKeyFile } = profilePaths(profile);
+  try {
+    const key = await fs.readFile(vaultKeyFile);
+    if (key.length === KEY_LENGTH) return key;
+    logger.warn('Vault key file has an unexpected length', { path: vaultKeyFile });
+    if (!create) return null;
+  } catch {
+    if (!create) return null;
+  }
+
+  const key = generateKey();
+  await ensureDir(vaultDir);
+  // 所有者のみ読み書き可（Windowsではmodeは無視される）
+  await fs.writeFile(vaultKeyFile, key, { mode: 0o600 });
+  logger.info('Generated vault key file', { path: vaultKeyFile });
+  return key;
+}
+
+/**
+ * Key that can decrypt the given envelope, or null while locked
+ */
+async function keyForEnvelope(profile: string, envelope: VaultEnvelope): Promise<VaultKey | null> {
+  const { kdf } = envelope;
+  if (kdf.name === 'keyfile') {
+    const key = await loadKeyFile(profile, false);
+    return key ? { key, kdf } : null;
+  }
+
+  const unlocked = unlockedKeys.get(profile);
+  if (unlocked?.kdf.name === 'scrypt' && unlocked.kdf.salt === kdf.salt) return unlocked;
+
+  const passphrase = passphraseFromEnv();
+  if (!passphrase) return null;
+  const derived = { key: await deriveKey(passphrase, kdf), kdf };
+  unlockedKeys.set(profile, derived);
+  return derived;
+}
+
+/**
+ * Key used for writing: the unlocked passphrase key, a new one from
+ * CALIL_VAULT_PASSPHRASE, or the key file
+ */
+async function keyForWriting(profile: string): Promise<VaultKey> {
+  const unlocked = unlockedKeys.get(profile);
+  if (unlocked) return unlocked;
+
+  const passphrase = passphraseFromEnv();
+  if (passphrase) {
+    const kdf = newScryptParams();
+    const derived = { key: await deriveKey(passphrase, kdf), kdf };
+    unlockedKeys.set(profile, derived);
+    return derived;
+  }
+
+  // パスフレーズで暗号化済みの保管庫を鍵ファイルで上書きしない
+  const stored = await readVaultFile(profile);
+  if (isVaultEnvelope(stored) && stored.kdf.name === 'scrypt') {
+    throw new VaultLockedError();
+  }
+
+  const key = (await loadKeyFile(profile, true))!;
+  return { key, kdf: { name: 'keyfile' } };
+}
+
+async function writeVault(profile: string, data: VaultData) {
+  const { vaultDir, vaultFile } = profilePaths(profile);
+  const { key, kdf } = await keyForWriting(profile);
+  const envelope = encryptVault(JSON.stringify(data), key, kdf);
+  await ensureDir(vaultDir);
+  await fs.writeFile(vaultFile, JSON.stringify(envelope), { mode: 0o600 });
+  // 旧バージョンが作ったファイルは mode が反映されないので明示的に絞る
+  await fs.chmod(vaultFile, 0o600).catch(() => undefined);
 }
-export async function loadCookies(): Promise<{cookies: Cookie[]}|null> {
-  try { return JSON.parse(await fs.readFile(FILE,'utf8')); } catch { return null; }
+
+/**
+ * Drop what cache.db holds for the account (Yomitai token, list counts)
+ * The cache outlives restarts, so a token of the previous session must not
+ * be sent along with the cookies of another login.
+ */
+function clearAccountCache(profile: string) {
+  clearCacheNamespace(getCacheDatabase(), `calil:${profile}`);
 }
-export async function clearCookies() {
-  try { await fs.unlink(FILE); } catch {}
+
+export async function saveCookies(cookies: Cookie[], profile: string = DEFAULT_PROFILE_ID) {
+  await writeVault(profile, { cookies, savedAt: Date.now() });
+  clearAccountCache(profile);
+}
+
+/**
+ * @throws {VaultLockedError} When the vault can't be decrypted
+ */
+export async function loadCookies(profile: string = DEFAULT_PROFILE_ID): Promise<{cookies: Cookie[]}|null> {
+  const stored = await readVaultFile(profile);
+  if (!stored) return null;
+
+  if (!isVaultEnvelope(stored)) {
+    // 旧バージョンの平文の保管庫 → 暗号化して保存し直す
+    if (!Array.isArray((stored as VaultData).cookies)) return null;
+    await writeVault(profile, stored as VaultData);
+    logger.info('Migrated plaintext cookie vault to encrypted storage', { path: profilePaths(profile).vaultFile });
+    return stored as VaultData;
+  }
+
+  const vaultKey = await keyForEnvelope(profile, stored);
+  if (!vaultKey) throw new VaultLockedError();
+  try {
+    return JSON.parse(decryptVault(stored, vaultKey.key));
+  } catch {
+    if (vaultKey === unlockedKeys.get(profile)) unlockedKeys.delete(profile);
+    throw new VaultLockedError('Cookie vault cannot be decrypted with the available key');
+  }
+}
+
+export async function clearCookies(profile: string = DEFAULT_PROFILE_ID) {
+  try { await fs.unlink(profilePaths(profile).vaultFile); } catch {}
+  clearAccountCache(profile);
+}
+
+/**
+ * Unlock the vault with a passphrase
+ *
+ * When the vault isn't passphrase-protected yet (missing, plaintext or
+ * key file), it is re-encrypted with the passphrase from now on.
+ *
+ * @returns false when the passphrase doesn't match
+ */
+export async function unlockVault(passphrase: string, profile: string = DEFAULT_PROFILE_ID): Promise<boolean> {
+  const stored = await readVaultFile(profile);
+
+  if (isVaultEnvelope(stored) && stored.kdf.name === 'scrypt') {
+    const key = await deriveKey(passphrase, stored.kdf);
+    try {
+      decryptVault(stored, key);
+    } catch {
+      logger.warn('Vault unlock failed: wrong passphrase', { profile });
+      return false;
+    }
+    unlockedKeys.set(profile, { key, kdf: stored.kdf });
+    logger.info('Cookie vault unlocked', { profile });
+    return true;
+  }
+
+  let current: VaultData | null = null;
+  try {
+    current = await loadCookies(profile);
+  } catch (error) {
+    if (!(error instanceof VaultLockedError)) throw error;
+    // 鍵ファイルを失った保管庫は読めないので作り直す
+  }
+
+  const kdf = newScryptParams();
+  unlockedKeys.set(profile, { key: await deriveKey(passphrase, kdf), kdf });
+  if (current) await writeVault(profile, current);
+  logger.info('Cookie vault is now protected by a passphrase', { profile });
+  return true;
+}
+
+/**
+ * Prepare the vault at startup: unlock it with CALIL_VAULT_PASSPHRASE
+ * and encrypt a plaintext vault left by older versions
+ */
+export async function initVault(profile: string = DEFAULT_PROFILE_ID): Promise<'NO_VAULT' | 'UNLOCKED' | 'LOCKED'> {
+  try {
+    const passphrase = passphraseFromEnv();
+    if (passphrase && !(await unlockVault(passphrase, profile))) {
+      logger.error('CALIL_VAULT_PASSPHRASE does not match the cookie vault; it stays locked', { profile });
+      return 'LOCKED';
+    }
+
+    const stored = await readVaultFile(profile);
+    if (!stored) return 'NO_VAULT';
+    await loadCookies(profile);
+    return 'UNLOCKED';
+  } catch (error) {
+    if (!(error instanceof VaultLockedError)) throw error;
+    logger.warn('Cookie vault is locked; unlock it with POST /auth/unlock', { profile, path: profilePaths(profile).vaultFile });
+    return 'LOCKED';
+  }
 }
 
 export function toCookieHeader(v: {cookies: Cookie[]}) {
   return v.cookies.map((c: Cookie)=>`${c.name}=${c.value}`).join('; ');
 }
 
+/**
+ * Check the cookies against Calil (does not save them)
+ */
 export async function isValidSession(v: {cookies: Cookie[]}) {
-  for (const c of v.cookies.sort((a,b)=>b.expires - a.expires)) {
-    const headers = { Cookie: toCookieHeader(v) };
-    const res = await fetch('https://calil.jp/', { headers });
-    if (res.status === 200) {
-      saveCookies([c]);
-      return true;
-    }
-  }
-  return false;
+  const res = await httpRequest(`${getUpstreamBaseUrl('calil')}/`, {
+    headers: { Cookie: toCookieHeader(v) },
+    upstream: 'calil',
+    context: 'Session check failed',
+  });
+  await res.body?.cancel().catch(() => undefined);
+  return res.status === 200;
 }
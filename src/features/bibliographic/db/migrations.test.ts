@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+import { Database } from "bun:sqlite";
+import { getCurrentVersion, migrations, runMigrations } from "./migrations";
+
+// Columns of bibliographic_info before the migrations (version 0)
+function createLegacyDatabase(): Database {
+    const db = new Database(":memory:");
+    db.run(`
+        CREATE TABLE bibliographic_info (
+            isbn TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            title_kana TEXT,
+            authors TEXT NOT NULL,
+            authors_kana TEXT,
+            publisher TEXT,
+            pub_year TEXT,
+            ndc10 TEXT,
+            ndlc TEXT,
+            created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+    return db;
+}
+
+function columnsOf(db: Database): string[] {
+    return (db.prepare("PRAGMA table_info(bibliographic_info)").all() as { name: string }[])
+        .map((column) => column.name);
+}
+
+describe("runMigrations", () => {
+    test("古いスキーマに全てのマイグレーションを適用する", () => {
+        const db = createLegacyDatabase();
+
+        runMigrations(db);
+
+        expect(getCurrentVersion(db)).toBe(Math.max(...migrations.map((m) => m.version)));
+        const columns = columnsOf(db);
+        expect(columns).toContain("creators");
+        expect(columns).not.toContain("authors");
+        for (const column of ["series_title", "volume", "edition", "table_of_contents", "alternative_titles", "authority_links", "source"]) {
+            expect(columns).toContain(column);
+        }
+        db.close();
+    });
+
+    test("既存の書誌の取得元は NDL にする", () => {
+        const db = createLegacyDatabase();
+        db.run(`INSERT INTO bibliographic_info (isbn, title, authors) VALUES ('9784000001007', '本', '[]')`);
+
+        runMigrations(db);
+
+        expect(db.prepare("SELECT source FROM bibliographic_info").get()).toEqual({ source: "ndl" });
+        db.close();
+    });
+
+    test("既に列がある場合も失敗しない", () => {
+        const db = createLegacyDatabase();
+        db.run("ALTER TABLE bibliographic_info ADD COLUMN volume TEXT");
+
+        expect(() => runMigrations(db)).not.toThrow();
+        expect(() => runMigrations(db)).not.toThrow();
+        db.close();
+    });
+});
@@ -91,6 +91,53 @@ export const migrations: Migration[] = [
             }
         },
     },
+    {
+        version: 4,
+        name: "add_dcndl_columns",
+        up: (db: Database) => {
+            // Fields only available from SRU (DC-NDL) records
+            const newColumns = [
+                "series_title TEXT",
+                "volume TEXT",
+                "edition TEXT",
+                "table_of_contents TEXT",
+                "alternative_titles TEXT",
+                "authority_links TEXT",
+            ];
+
+            for (const column of newColumns) {
+                try {
+                    const columnName = column.split(" ")[0];
+                    db.run(`ALTER TABLE bibliographic_info ADD COLUMN ${column}`);
+                    logger.info(`Migration: Added ${columnName} column to bibliographic_info`);
+                } catch (error) {
+                    const errorMsg = String(error);
+                    if (!errorMsg.includes("duplicate column")) {
+                        throw error;
+                    }
+                    logger.debug(`Migration: ${column.split(" ")[0]} column already exists`);
+                }
+            }
+        },
+    },
+    {
+        version: 5,
+        name: "add_source_column",
+        up: (db: Database) => {
+            // Metadata provider(s) of each record; everything before came from NDL
+            try {
+                db.run(`ALTER TABLE bibliographic_info ADD COLUMN source TEXT`);
+                logger.info("Migration: Added source column to bibliographic_info");
+            } catch (error) {
+                const errorMsg = String(error);
+                if (!errorMsg.includes("duplicate column")) {
+                    throw error;
+                }
+                logger.debug("Migration: source column already exists");
+            }
+            db.run(`UPDATE bibliographic_info SET source = 'ndl' WHERE source IS NULL`);
+        },
+    },
 ];
 
 /**
@@ -0,0 +1,70 @@
+import type { Database } from "bun:sqlite";
+import type { NdlItem } from "../../ndl/utility";
+
+/**
+ * Other NDL records found for an ISBN
+ *
+ * NDL often has several records for one ISBN (reprints, a set and its
+ * volumes, other formats). bibliographic_info keeps the selected record;
+ * the others are kept here in rank order so the user can pick a different
+ * one later without asking NDL again.
+ */
+
+type AlternativeRecord = {
+    isbn: string;
+    position: number;
+    record: string;
+};
+
+/**
+ * Create the alternatives table if it doesn't exist
+ */
+export function initRecordAlternativesSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS bibliographic_alternatives (
+            isbn TEXT NOT NULL,
+            position INTEGER NOT NULL,
+            ndl_bib_id TEXT,
+            record TEXT NOT NULL,
+            PRIMARY KEY (isbn, position)
+        )
+    `);
+}
+
+/**
+ * Alternatives of an ISBN in rank order
+ */
+export function getRecordAlternatives(db: Database, isbn: string): NdlItem[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM bibliographic_alternatives WHERE isbn = ? ORDER BY position`,
+        )
+        .all(isbn) as AlternativeRecord[];
+    return rows.map((row) => JSON.parse(row.record) as NdlItem);
+}
+
+/**
+ * Replace the alternatives of an ISBN
+ */
+export function saveRecordAlternatives(
+    db: Database,
+    isbn: string,
+    items: NdlItem[],
+): void {
+    const insert = db.prepare(`
+        INSERT INTO bibliographic_alternatives (isbn, position, ndl_bib_id, record)
+        VALUES (?, ?, ?, ?)
+    `);
+
+    db.run("BEGIN TRANSACTION");
+    try {
+        db.prepare(`DELETE FROM bibliographic_alternatives WHERE isbn = ?`).run(isbn);
+        items.forEach((item, position) => {
+            insert.run(isbn, position, item.ndlBibId, JSON.stringify(item));
+        });
+        db.run("COMMIT");
+    } catch (error) {
+        db.run("ROLLBACK");
+        throw error;
+    }
+}
@@ -0,0 +1,51 @@
+import type { Database } from "bun:sqlite";
+
+/**
+ * NDL records the user picked for an ISBN
+ *
+ * Stored in settings.db rather than bibliographic.db: the bibliographic
+ * cache is discarded on schema changes and refetched, and the record the
+ * user chose must win again when that happens (see preferChosenRecord()).
+ */
+
+/**
+ * Create the record choices table if it doesn't exist
+ */
+export function initRecordChoicesSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS record_choices (
+            isbn TEXT PRIMARY KEY,
+            ndl_bib_id TEXT NOT NULL,
+            updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+}
+
+/**
+ * NDL bibliographic id chosen for an ISBN, if any
+ */
+export function getRecordChoice(db: Database, isbn: string): string | null {
+    const row = db
+        .query("SELECT ndl_bib_id FROM record_choices WHERE isbn = ?")
+        .get(isbn) as { ndl_bib_id: string } | null;
+    return row?.ndl_bib_id ?? null;
+}
+
+/**
+ * Remember the record chosen for an ISBN
+ * A record without an NDL id (another provider's) can't be found again,
+ * so choosing one forgets the previous choice instead.
+ */
+export function saveRecordChoice(db: Database, isbn: string, ndlBibId: string | null): void {
+    if (!ndlBibId) {
+        db.run("DELETE FROM record_choices WHERE isbn = ?", [isbn]);
+        return;
+    }
+    db.run(
+        `INSERT INTO record_choices (isbn, ndl_bib_id) VALUES (?, ?)
+         ON CONFLICT(isbn) DO UPDATE SET
+            ndl_bib_id = excluded.ndl_bib_id,
+            updated_at = CURRENT_TIMESTAMP`,
+        [isbn, ndlBibId],
+    );
+}
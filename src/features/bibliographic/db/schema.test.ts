@@ -46,6 +46,13 @@ function initTestDatabase(db: Database): void {
             subjects TEXT,
             categories TEXT,
             description TEXT,
+            series_title TEXT,
+            volume TEXT,
+            edition TEXT,
+            table_of_contents TEXT,
+            alternative_titles TEXT,
+            authority_links TEXT,
+            source TEXT,
             created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
             updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
         )
@@ -213,6 +220,40 @@ describe("BibliographicInfo Database", () => {
             expect(result?.isbn).toBe(info.isbn);
             expect(result?.title).toBe(info.title);
         });
+
+        test("should round-trip DC-NDL fields", () => {
+            const info: BibliographicInfo = {
+                isbn: "9784000001007",
+                title: "はじめての型システム",
+                creators: ["山田太郎 著"],
+                publisher: "技術書房",
+                pub_year: "2015",
+                ndc10: "007.64",
+                ndlc: null,
+                series_title: "入門シリーズ",
+                volume: "上",
+                edition: "第2版",
+                table_of_contents: ["第1章 型とは", "第2章 推論"],
+                alternative_titles: ["Types for Beginners"],
+                authority_links: [
+                    {
+                        type: "creator",
+                        label: "山田, 太郎",
+                        uri: "http://id.ndl.go.jp/auth/entity/00000001",
+                    },
+                ],
+            };
+
+            upsertBibliographicInfo(db, info);
+            const result = getBibliographicInfo(db, info.isbn);
+
+            expect(result?.series_title).toBe("入門シリーズ");
+            expect(result?.volume).toBe("上");
+            expect(result?.edition).toBe("第2版");
+            expect(result?.table_of_contents).toEqual(info.table_of_contents!);
+            expect(result?.alternative_titles).toEqual(info.alternative_titles!);
+            expect(result?.authority_links).toEqual(info.authority_links!);
+        });
     });
 
     describe("getBibliographicInfoBatch", () => {
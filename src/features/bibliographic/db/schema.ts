@@ -4,6 +4,9 @@ import { appRoot } from "../../../shared/config/app-paths";
 import path from "node:path";
 import { runMigrations, getCurrentVersion, migrations } from "./migrations";
 import { logger } from "../../../shared/logging/logger";
+import { initListMirrorSchema } from "../../calil/db/list-mirror";
+import { initRecordAlternativesSchema } from "./record-alternatives";
+import type { NdlAuthorityLink } from "../../ndl/utility";
 
 export type BibliographicRecord = {
     isbn: string;
@@ -25,6 +28,13 @@ export type BibliographicRecord = {
     subjects: string | null; // JSON array string
     categories: string | null; // JSON array string
     description: string | null; // HTML description from NDL
+    series_title: string | null; // dcndl:seriesTitle (SRU only)
+    volume: string | null; // dcndl:volume
+    edition: string | null; // dcndl:edition
+    table_of_contents: string | null; // JSON array string
+    alternative_titles: string | null; // JSON array string
+    authority_links: string | null; // JSON array of NdlAuthorityLink
+    source: string | null; // Metadata providers, e.g. "ndl" or "ndl,openbd"
     created_at: string;
     updated_at: string;
 };
@@ -49,6 +59,13 @@ export type BibliographicInfo = {
     subjects?: string[]; // Other subjects
     categories?: string[]; // Categories
     description?: string | null; // HTML description from NDL
+    series_title?: string | null; // Series title (SRU only)
+    volume?: string | null; // Volume
+    edition?: string | null; // Edition
+    table_of_contents?: string[]; // Table of contents
+    alternative_titles?: string[]; // Alternative titles
+    authority_links?: NdlAuthorityLink[]; // NDL authority links of creators/subjects
+    source?: string | null; // Metadata providers, base record first
 };
 
 export type SearchOptions = {
@@ -286,6 +303,13 @@ function initializeDatabase(db: Database): void {
             subjects TEXT,
             categories TEXT,
             description TEXT,
+            series_title TEXT,
+            volume TEXT,
+            edition TEXT,
+            table_of_contents TEXT,
+            alternative_titles TEXT,
+            authority_links TEXT,
+            source TEXT,
             created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
             updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
         )
@@ -404,6 +428,98 @@ function initializeDatabase(db: Database): void {
 
     // NOTE: UPDATE trigger is NOT created because we manually manage FTS5 on updates
     // to work around bun:sqlite v1.3.2 FTS5 UPDATE trigger bug
+
+    // Calil list mirror lives in the same database file
+    initListMirrorSchema(db);
+
+    // Other NDL records of the same ISBN (see record-alternatives.ts)
+    initRecordAlternativesSchema(db);
+}
+
+/**
+ * Insert a bibliographic_info row (the INSERT trigger indexes it in FTS5)
+ */
+function insertBibliographicRow(db: Database, info: BibliographicInfo): void {
+    db.prepare(`
+        INSERT INTO bibliographic_info (
+            isbn, title, title_kana, link, creators, creators_kana,
+            publisher, pub_year, issued, extent, price,
+            ndc10, ndlc, ndl_bib_id, jpno, tohan_marc_no,
+            subjects, categories, description,
+            series_title, volume, edition,
+            table_of_contents, alternative_titles, authority_links, source, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `).run(
+        info.isbn,
+        info.title,
+        info.title_kana || null,
+        info.link || null,
+        JSON.stringify(info.creators),
+        info.creators_kana ? JSON.stringify(info.creators_kana) : null,
+        info.publisher,
+        info.pub_year,
+        info.issued || null,
+        info.extent || null,
+        info.price || null,
+        info.ndc10,
+        info.ndlc,
+        info.ndl_bib_id || null,
+        info.jpno || null,
+        info.tohan_marc_no || null,
+        info.subjects ? JSON.stringify(info.subjects) : null,
+        info.categories ? JSON.stringify(info.categories) : null,
+        info.description || null,
+        info.series_title || null,
+        info.volume || null,
+        info.edition || null,
+        info.table_of_contents ? JSON.stringify(info.table_of_contents) : null,
+        info.alternative_titles ? JSON.stringify(info.alternative_titles) : null,
+        info.authority_links ? JSON.stringify(info.authority_links) : null,
+        info.source || null
+    );
+}
+
+/**
+ * Convert a bibliographic_info row to BibliographicInfo
+ */
+function toBibliographicInfo(row: BibliographicRecord): BibliographicInfo {
+    return {
+        isbn: row.isbn,
+        title: row.title,
+        title_kana: row.title_kana,
+        link: row.link,
+        creators: JSON.parse(row.creators) as string[],
+        creators_kana: row.creators_kana
+            ? (JSON.parse(row.creators_kana) as string[])
+            : undefined,
+        publisher: row.publisher,
+        pub_year: row.pub_year,
+        issued: row.issued,
+        extent: row.extent,
+        price: row.price,
+        ndc10: row.ndc10,
+        ndlc: row.ndlc,
+        ndl_bib_id: row.ndl_bib_id,
+        jpno: row.jpno,
+        tohan_marc_no: row.tohan_marc_no,
+        subjects: row.subjects ? (JSON.parse(row.subjects) as string[]) : undefined,
+        categories: row.categories ? (JSON.parse(row.categories) as string[]) : undefined,
+        description: row.description,
+        series_title: row.series_title,
+        volume: row.volume,
+        edition: row.edition,
+        table_of_contents: row.table_of_contents
+            ? (JSON.parse(row.table_of_contents) as string[])
+            : undefined,
+        alternative_titles: row.alternative_titles
+            ? (JSON.parse(row.alternative_titles) as string[])
+            : undefined,
+        authority_links: row.authority_links
+            ? (JSON.parse(row.authority_links) as NdlAuthorityLink[])
+            : undefined,
+        source: row.source,
+    };
 }
 
 /**
@@ -443,66 +559,10 @@ export function upsertBibliographicInfo(
             );
 
             // 3. Insert new record (INSERT trigger will handle FTS5)
-            db.prepare(`
-                INSERT INTO bibliographic_info (
-                    isbn, title, title_kana, link, creators, creators_kana,
-                    publisher, pub_year, issued, extent, price,
-                    ndc10, ndlc, ndl_bib_id, jpno, tohan_marc_no,
-                    subjects, categories, description, updated_at
-                )
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-            `).run(
-                info.isbn,
-                info.title,
-                info.title_kana || null,
-                info.link || null,
-                JSON.stringify(info.creators),
-                info.creators_kana ? JSON.stringify(info.creators_kana) : null,
-                info.publisher,
-                info.pub_year,
-                info.issued || null,
-                info.extent || null,
-                info.price || null,
-                info.ndc10,
-                info.ndlc,
-                info.ndl_bib_id || null,
-                info.jpno || null,
-                info.tohan_marc_no || null,
-                info.subjects ? JSON.stringify(info.subjects) : null,
-                info.categories ? JSON.stringify(info.categories) : null,
-                info.description || null
-            );
+            insertBibliographicRow(db, info);
         } else {
             // INSERT path: use trigger (works correctly)
-            db.prepare(`
-                INSERT INTO bibliographic_info (
-                    isbn, title, title_kana, link, creators, creators_kana,
-                    publisher, pub_year, issued, extent, price,
-                    ndc10, ndlc, ndl_bib_id, jpno, tohan_marc_no,
-                    subjects, categories, description, updated_at
-                )
-                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-            `).run(
-                info.isbn,
-                info.title,
-                info.title_kana || null,
-                info.link || null,
-                JSON.stringify(info.creators),
-                info.creators_kana ? JSON.stringify(info.creators_kana) : null,
-                info.publisher,
-                info.pub_year,
-                info.issued || null,
-                info.extent || null,
-                info.price || null,
-                info.ndc10,
-                info.ndlc,
-                info.ndl_bib_id || null,
-                info.jpno || null,
-                info.tohan_marc_no || null,
-                info.subjects ? JSON.stringify(info.subjects) : null,
-                info.categories ? JSON.stringify(info.categories) : null,
-                info.description || null
-            );
+            insertBibliographicRow(db, info);
         }
 
         db.run("COMMIT");
@@ -526,29 +586,7 @@ export function getBibliographicInfo(
 
     if (!row) return null;
 
-    return {
-        isbn: row.isbn,
-        title: row.title,
-        title_kana: row.title_kana,
-        link: row.link,
-        creators: JSON.parse(row.creators) as string[],
-        creators_kana: row.creators_kana
-            ? (JSON.parse(row.creators_kana) as string[])
-            : undefined,
-        publisher: row.publisher,
-        pub_year: row.pub_year,
-        issued: row.issued,
-        extent: row.extent,
-        price: row.price,
-        ndc10: row.ndc10,
-        ndlc: row.ndlc,
-        ndl_bib_id: row.ndl_bib_id,
-        jpno: row.jpno,
-        tohan_marc_no: row.tohan_marc_no,
-        subjects: row.subjects ? (JSON.parse(row.subjects) as string[]) : undefined,
-        categories: row.categories ? (JSON.parse(row.categories) as string[]) : undefined,
-        description: row.description,
-    };
+    return toBibliographicInfo(row);
 }
 
 /**
@@ -566,29 +604,7 @@ export function getBibliographicInfoBatch(
     );
     const rows = stmt.all(...isbns) as BibliographicRecord[];
 
-    return rows.map((row) => ({
-        isbn: row.isbn,
-        title: row.title,
-        title_kana: row.title_kana,
-        link: row.link,
-        creators: JSON.parse(row.creators) as string[],
-        creators_kana: row.creators_kana
-            ? (JSON.parse(row.creators_kana) as string[])
-            : undefined,
-        publisher: row.publisher,
-        pub_year: row.pub_year,
-        issued: row.issued,
-        extent: row.extent,
-        price: row.price,
-        ndc10: row.ndc10,
-        ndlc: row.ndlc,
-        ndl_bib_id: row.ndl_bib_id,
-        jpno: row.jpno,
-        tohan_marc_no: row.tohan_marc_no,
-        subjects: row.subjects ? (JSON.parse(row.subjects) as string[]) : undefined,
-        categories: row.categories ? (JSON.parse(row.categories) as string[]) : undefined,
-        description: row.description,
-    }));
+    return rows.map(toBibliographicInfo);
 }
 
 /**
@@ -692,29 +708,7 @@ export function searchBibliographic(
     const stmt = db.prepare(sql);
     const rows = stmt.all(...params) as BibliographicRecord[];
 
-    return rows.map((row) => ({
-        isbn: row.isbn,
-        title: row.title,
-        title_kana: row.title_kana,
-        link: row.link,
-        creators: JSON.parse(row.creators) as string[],
-        creators_kana: row.creators_kana
-            ? (JSON.parse(row.creators_kana) as string[])
-            : undefined,
-        publisher: row.publisher,
-        pub_year: row.pub_year,
-        issued: row.issued,
-        extent: row.extent,
-        price: row.price,
-        ndc10: row.ndc10,
-        ndlc: row.ndlc,
-        ndl_bib_id: row.ndl_bib_id,
-        jpno: row.jpno,
-        tohan_marc_no: row.tohan_marc_no,
-        subjects: row.subjects ? (JSON.parse(row.subjects) as string[]) : undefined,
-        categories: row.categories ? (JSON.parse(row.categories) as string[]) : undefined,
-        description: row.description,
-    }));
+    return rows.map(toBibliographicInfo);
 }
 
 /**
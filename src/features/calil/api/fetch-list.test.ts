@@ -1,5 +1,8 @@
-import { test, expect, describe } from 'bun:test';
+import { test, expect, describe, afterAll, beforeAll } from 'bun:test';
 import type { Cookie } from 'puppeteer';
+import { fetchBookListMetadata, fetchBookListPages } from './fetch-list';
+import { getCacheDatabase, setCacheEntry } from '../../../shared/cache/kv-cache';
+import { clearCookies, saveCookies } from '../../auth/session/vault.store';
 
 /**
  * fetch-list.tsのテスト
@@ -206,3 +209,70 @@ describe('fetch-list utilities', () => {
     });
   });
 });
+
+describe('保存した Cookie での Calil へのリクエスト', () => {
+  const profile = 'fetch-list-test';
+  const savedBaseUrl = process.env.CALIL_BASE_URL;
+  // Stand-in Calil: accepts only requests that carry the session cookie
+  let server: ReturnType<typeof Bun.serve>;
+  let cookieHeaders: string[] = [];
+
+  const cookie = (name: string, value: string): Cookie => ({
+    name,
+    value,
+    domain: '.calil.jp',
+    path: '/',
+    expires: -1,
+    size: name.length + value.length,
+    httpOnly: false,
+    secure: true,
+    session: true,
+  });
+
+  beforeAll(async () => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const header = req.headers.get('cookie') ?? '';
+        cookieHeaders.push(header);
+        if (!header.split('; ').includes('session=abc')) return new Response('', { status: 401 });
+        if (new URL(req.url).pathname.endsWith('get_yomitai_token')) {
+          return Response.json({ 'Calil-Yomitai-Token': 'token' });
+        }
+        if (new URL(req.url).pathname.endsWith('get_total_count')) {
+          return Response.json({ totalCount: 45 });
+        }
+        return Response.json({ books: [] });
+      },
+    });
+    process.env.CALIL_BASE_URL = `http://localhost:${server.port}`;
+  });
+
+  afterAll(async () => {
+    server.stop(true);
+    if (savedBaseUrl === undefined) delete process.env.CALIL_BASE_URL;
+    else process.env.CALIL_BASE_URL = savedBaseUrl;
+    await clearCookies(profile);
+  });
+
+  test('セッション以外の Cookie が先に保存されていてもセッション Cookie を送る', async () => {
+    cookieHeaders = [];
+    await saveCookies([cookie('_ga', 'GA1.2'), cookie('session', 'abc')], profile);
+
+    expect(await fetchBookListPages('wish', 1, 1, profile)).toEqual([]);
+    expect(cookieHeaders).toEqual(['_ga=GA1.2; session=abc', '_ga=GA1.2; session=abc']);
+  });
+  test('fresh を指定するとキャッシュした件数を使わずに Calil に問い合わせる', async () => {
+    await saveCookies([cookie('session', 'abc')], profile);
+    // calil.jp 側で本が追加される前にキャッシュした件数
+    const stale = { totalCount: 40, totalPages: 2, pageSize: 20 };
+    setCacheEntry(getCacheDatabase(), `calil:${profile}:wish`, 'metadata', stale, 60_000);
+
+    expect(await fetchBookListMetadata('wish', profile)).toEqual(stale);
+    expect(await fetchBookListMetadata('wish', profile, { fresh: true })).toEqual({
+      totalCount: 45,
+      totalPages: 3,
+      pageSize: 20,
+    });
+  });
+});
@@ -1,79 +1,75 @@
-import {
-    loadCookies,
-    saveCookies,
-    toCookieHeader,
-    isValidSession,
-} from "../../auth/session/vault.store";
-import { oauthLoginAndGetCookies } from "../../auth/puppeteer/oauth-login";
+import { toCookieHeader } from "../../auth/session/vault.store";
+import { getSessionKeeper } from "../../auth/session/session-keeper";
 import type { Cookie } from "puppeteer";
 import { create } from "node:domain";
+import {
+    CalilAuthError,
+    CalilTokenExpiredError,
+    calilErrorFromResponse,
+} from "../../../shared/errors/upstream-errors";
+import {
+    getUpstreamBaseUrl,
+    httpRequest,
+} from "../../../shared/http/http-client";
+import { DEMO_COOKIE, isDemoMode } from "../../demo/demo-mode";
+import { logger } from "../../../shared/logging/logger";
+import { DEFAULT_PROFILE_ID } from "../../../shared/config/app-paths";
+import {
+    clearCacheNamespace,
+    deleteCacheEntry,
+    getCacheDatabase,
+    getCacheEntry,
+    setCacheEntry,
+} from "../../../shared/cache/kv-cache";
 
-export async function ensureSession(): Promise<{ cookies: Cookie[] }> {
-    let v = await loadCookies();
-    if (v && (await isValidSession(v))) return v;
-    // 失効 or 未保存 → 再ログイン。2回目以降はたいてい無人で通過
-    const cookies = await oauthLoginAndGetCookies({ headless: false });
-    await saveCookies(cookies);
-    return { cookies };
+/**
+ * Stored Calil session for a request
+ * Login and refresh are left to the session keeper; this never opens a browser.
+ *
+ * @param profile - Calil account whose session is used
+ * @throws {CalilAuthError} When the user has to log in first
+ */
+export async function ensureSession(
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<{ cookies: Cookie[] }> {
+    // デモモードではログインせず固定のクッキーを使う
+    if (isDemoMode()) return { cookies: [DEMO_COOKIE] };
+    return await getSessionKeeper(profile).requireSession();
+}
+
+function calilUrl(path: string): string {
+    return `${getUpstreamBaseUrl("calil")}${path}`;
 }
 
-const BASE_URL = "https://calil.jp";
 const ITEMS_PER_PAGE = 20;
 
 // Cache configuration
 const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 
-interface CacheEntry<T> {
-    value: T;
-    expiresAt: number;
-}
-
-// In-memory cache for tokens and metadata
-const cache = new Map<string, CacheEntry<any>>();
+// Tokens and metadata are kept in the persistent cache (cache.db) so a
+// restart doesn't fetch them again. Namespaces: calil:<profile> for the
+// account (Yomitai token), calil:<profile>:<listType> for a list.
+const TOKEN_CACHE_KEY = "yomitai-token";
 
-function getCacheKey(type: string, listType?: string): string {
-    return listType ? `${listType}:${type}` : type;
+function cacheNamespace(profile: string, listType?: ListType): string {
+    return listType ? `calil:${profile}:${listType}` : `calil:${profile}`;
 }
 
-function getFromCache<T>(key: string): T | null {
-    const entry = cache.get(key);
-    if (!entry) return null;
-
-    if (Date.now() > entry.expiresAt) {
-        cache.delete(key);
-        return null;
-    }
-
-    return entry.value as T;
+function getFromCache<T>(namespace: string, key: string): T | null {
+    return getCacheEntry<T>(getCacheDatabase(), namespace, key);
 }
 
 function setInCache<T>(
+    namespace: string,
     key: string,
     value: T,
     ttlMs: number = CACHE_TTL_MS,
 ): void {
-    cache.set(key, {
-        value,
-        expiresAt: Date.now() + ttlMs,
-    });
-}
-
-function clearCache(pattern?: string): void {
-    if (pattern) {
-        // Clear specific cache entries matching pattern
-        for (const key of cache.keys()) {
-            if (key.includes(pattern)) {
-                cache.delete(key);
-            }
-        }
-    } else {
-        // Clear all cache
-        cache.clear();
-    }
+    setCacheEntry(getCacheDatabase(), namespace, key, value, ttlMs);
 }
 
 // Types
-type BookElement = {
+export type BookElement = {
     author: string;
     id: string;
     isbn: string;
@@ -91,24 +87,32 @@ type YomitaiTokenResponse = { "Calil-Yomitai-Token": string };
 
 type TotalCountResponse = { totalCount: number };
 
-type ListType = "wish" | "read";
+/**
+ * Calil list name sent as `name` to the list API (e.g. "wish", "read")
+ * Which lists exist is decided by the list registry, not by this module.
+ */
+export type ListType = string;
 
 interface FetchListOptions {
-    cookie: Cookie;
+    profile?: string;
+    /** Stored calil.jp cookies, all sent like a browser would */
+    cookies: Cookie[];
     yomitaiToken?: YomitaiTokenResponse;
     listType?: ListType;
     page?: number;
+    /** Skip the cached value (the cache is still updated) */
+    fresh?: boolean;
 }
 
 // Utility function to create common headers
 function createHeaders({
-    cookie,
+    cookies,
     yomitaiToken,
 }: FetchListOptions): Record<string, string> {
     const headers: Record<string, string> = {
         accept: "*/*",
-        Referer: "https://calil.jp/list",
-        Cookie: `${cookie.name}=${cookie.value}`,
+        Referer: calilUrl("/list"),
+        Cookie: toCookieHeader({ cookies }),
     };
     if (yomitaiToken) {
         headers["Calil-Yomitai-Token"] = yomitaiToken["Calil-Yomitai-Token"];
@@ -116,208 +120,234 @@ function createHeaders({
     return headers;
 }
 
-// Singleton token fetch to prevent concurrent requests
-let tokenFetchPromise: Promise<YomitaiTokenResponse> | null = null;
+/**
+ * Send a request to Calil through the shared HTTP client
+ *
+ * @param idempotent - Read-only POSTs may be retried like GETs
+ */
+function calilFetch(
+    url: string,
+    init: RequestInit,
+    context: string,
+    idempotent?: boolean,
+): Promise<Response> {
+    return httpRequest(url, { ...init, upstream: "calil", context, idempotent });
+}
+
+// One token fetch per profile to prevent concurrent requests
+const tokenFetchPromises = new Map<string, Promise<YomitaiTokenResponse>>();
 
 // Function to fetch Yomitai token with cache
 async function fetchYomitaiToken(
-    cookie: Cookie,
+    profile: string,
+    cookies: Cookie[],
 ): Promise<YomitaiTokenResponse> {
-    const cacheKey = getCacheKey("yomitai-token");
+    const namespace = cacheNamespace(profile);
 
     // Try to get from cache
-    const cached = getFromCache<YomitaiTokenResponse>(cacheKey);
+    const cached = getFromCache<YomitaiTokenResponse>(namespace, TOKEN_CACHE_KEY);
     if (cached) {
-        console.log("Using cached Yomitai token");
+        logger.debug("Using cached Yomitai token");
         return cached;
     }
 
     // If a token fetch is already in progress, wait for it
-    if (tokenFetchPromise) {
-        console.log("Token fetch already in progress, waiting...");
-        return await tokenFetchPromise;
+    const inProgress = tokenFetchPromises.get(profile);
+    if (inProgress) {
+        logger.debug("Token fetch already in progress, waiting...");
+        return await inProgress;
     }
 
     // Perform the actual token fetch
     const performFetch = async (): Promise<YomitaiTokenResponse> => {
         // Double-check cache in case another request completed while we were waiting
-        const cachedAfterWait = getFromCache<YomitaiTokenResponse>(cacheKey);
+        const cachedAfterWait = getFromCache<YomitaiTokenResponse>(
+            namespace,
+            TOKEN_CACHE_KEY,
+        );
         if (cachedAfterWait) {
-            console.log("Using cached Yomitai token (found after wait)");
+            logger.debug("Using cached Yomitai token (found after wait)");
             return cachedAfterWait;
         }
 
         // Fetch from API
-        const response = await fetch(
-            `${BASE_URL}/infrastructure/v2/get_yomitai_token`,
+        const response = await calilFetch(
+            calilUrl("/infrastructure/v2/get_yomitai_token"),
             {
-                headers: createHeaders({ cookie }),
+                headers: createHeaders({ cookies }),
                 method: "GET",
             },
+            "Failed to fetch Yomitai token",
         );
         if (!response.ok) {
-            throw new Error(
-                `Failed to fetch Yomitai token: ${response.statusText}`,
+            // 401/403 here means the session cookie itself is no longer valid
+            throw calilErrorFromResponse(
+                response,
+                "Failed to fetch Yomitai token",
+                CalilAuthError,
             );
         }
         const data: YomitaiTokenResponse = await response.json();
 
         // Store in cache
-        setInCache(cacheKey, data);
-        console.log("Fetched and cached new Yomitai token");
+        setInCache(namespace, TOKEN_CACHE_KEY, data);
+        logger.info("Fetched and cached new Yomitai token", { profile });
 
         return data;
     };
 
     try {
-        tokenFetchPromise = performFetch();
-        const result = await tokenFetchPromise;
-        return result;
+        const promise = performFetch();
+        tokenFetchPromises.set(profile, promise);
+        return await promise;
     } finally {
-        tokenFetchPromise = null;
+        tokenFetchPromises.delete(profile);
     }
 }
 
 /**
- * Common function to ensure valid session and token
- * Handles session refresh and token caching with auto-retry on expiration
+ * Common function to get the session and token
+ * Handles token caching; session problems surface as CalilAuthError
  */
-async function ensureSessionAndToken(): Promise<{
-    cookie: Cookie;
+async function ensureSessionAndToken(profile: string): Promise<{
+    cookies: Cookie[];
     yomitaiToken: YomitaiTokenResponse;
 }> {
-    let v = await loadCookies();
-    if (!v || !(await isValidSession(v))) {
-        v = await ensureSession();
-        clearCache();
-        console.log("Session refreshed, cleared all caches");
-    }
+    const v = await ensureSession(profile);
 
     let yomitaiToken: YomitaiTokenResponse;
     try {
-        yomitaiToken = await fetchYomitaiToken(v.cookies[0]!);
+        yomitaiToken = await fetchYomitaiToken(profile, v.cookies);
     } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        if (message.includes("Unauthorized")) {
-            v = await ensureSession();
-            clearCache();
-            console.log(
-                "Unauthorized error, refreshed session and cleared caches",
-            );
-            yomitaiToken = await fetchYomitaiToken(v.cookies[0]!);
-        } else {
-            throw error;
+        if (error instanceof CalilAuthError && !isDemoMode()) {
+            // Fail fast; the keeper refreshes in the background or asks for a login.
+            // Only the token belongs to the session; list metadata stays valid.
+            deleteCacheEntry(getCacheDatabase(), cacheNamespace(profile), TOKEN_CACHE_KEY);
+            getSessionKeeper(profile).reportRejected();
         }
+        throw error;
     }
 
     return {
-        cookie: v.cookies[0]!,
+        cookies: v.cookies,
         yomitaiToken,
     };
 }
 
 /**
- * Retry function with token refresh on Forbidden/Unauthorized errors
+ * Retry function with token refresh when Calil rejects the token
  */
 async function retryWithTokenRefresh<T>(
+    profile: string,
     operation: (
-        cookie: Cookie,
+        cookies: Cookie[],
         yomitaiToken: YomitaiTokenResponse,
     ) => Promise<T>,
 ): Promise<T> {
-    const { cookie, yomitaiToken } = await ensureSessionAndToken();
+    const { cookies, yomitaiToken } = await ensureSessionAndToken(profile);
 
     try {
-        return await operation(cookie, yomitaiToken);
+        return await operation(cookies, yomitaiToken);
     } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
         // If token expired (Forbidden/Unauthorized), clear token cache and retry
-        if (
-            message.includes("Token expired") ||
-            message.includes("unauthorized") ||
-            message.includes("Forbidden")
-        ) {
-            console.log(
+        if (error instanceof CalilTokenExpiredError) {
+            logger.info(
                 "Token expired or forbidden, clearing token cache and retrying",
             );
             // Clear token cache
-            clearCache("yomitai-token");
+            deleteCacheEntry(getCacheDatabase(), cacheNamespace(profile), TOKEN_CACHE_KEY);
             // Get fresh session and token
-            const refreshed = await ensureSessionAndToken();
+            const refreshed = await ensureSessionAndToken(profile);
             // Retry the operation
-            return await operation(refreshed.cookie, refreshed.yomitaiToken);
+            return await operation(refreshed.cookies, refreshed.yomitaiToken);
         }
         throw error;
     }
 }
 
 async function fetchTotalCount({
-    cookie,
+    profile = DEFAULT_PROFILE_ID,
+    cookies,
     yomitaiToken,
     listType,
+    fresh = false,
 }: FetchListOptions): Promise<number> {
-    const cacheKey = getCacheKey("total-count", listType);
+    const namespace = cacheNamespace(profile, listType);
 
     // Try to get from cache
-    const cached = getFromCache<number>(cacheKey);
+    const cached = fresh ? null : getFromCache<number>(namespace, "total-count");
     if (cached !== null) {
-        console.log(`Using cached total count for ${listType}: ${cached}`);
+        logger.debug("Using cached total count", { listType, totalCount: cached });
         return cached;
     }
 
     // Fetch from API
-    const response = await fetch(`${BASE_URL}/api/list/v2/get_total_count`, {
-        headers: {
-            ...createHeaders({ cookie, yomitaiToken }),
-            "content-type": "application/json",
+    const response = await calilFetch(
+        calilUrl("/api/list/v2/get_total_count"),
+        {
+            headers: {
+                ...createHeaders({ cookies, yomitaiToken }),
+                "content-type": "application/json",
+            },
+            body: JSON.stringify({ name: listType, startCount: 0 }),
+            method: "POST",
         },
-        body: JSON.stringify({ name: listType, startCount: 0 }),
-        method: "POST",
-    });
+        "Failed to fetch total count",
+        true,
+    );
     if (!response.ok) {
-        throw new Error(`Failed to fetch total count: ${response.statusText}`);
+        throw calilErrorFromResponse(
+            response,
+            "Failed to fetch total count",
+            CalilTokenExpiredError,
+        );
     }
     const data: TotalCountResponse = await response.json();
-    console.log(`Total books in ${listType} list: ${data.totalCount}`);
+    logger.info("Fetched total count", { listType, totalCount: data.totalCount });
 
     // Store in cache
-    setInCache(cacheKey, data.totalCount);
+    setInCache(namespace, "total-count", data.totalCount);
 
     return data.totalCount;
 }
 
 async function fetchBookPage({
-    cookie,
+    cookies,
     yomitaiToken,
     listType,
     page,
 }: FetchListOptions): Promise<BookElement[]> {
-    const response = await fetch(`${BASE_URL}/api/list/v2/`, {
-        headers: {
-            ...createHeaders({ cookie, yomitaiToken }),
-            "content-type": "application/json",
+    const response = await calilFetch(
+        calilUrl("/api/list/v2/"),
+        {
+            headers: {
+                ...createHeaders({ cookies, yomitaiToken }),
+                "content-type": "application/json",
+            },
+            body: JSON.stringify({
+                name: listType,
+                page,
+                perCount: ITEMS_PER_PAGE,
+            }),
+            method: "POST",
         },
-        body: JSON.stringify({
-            name: listType,
-            page,
-            perCount: ITEMS_PER_PAGE,
-        }),
-        method: "POST",
-    });
+        `Failed to fetch book page ${page}`,
+        true,
+    );
     if (!response.ok) {
-        console.error(
-            `request headers: ${JSON.stringify(createHeaders({ cookie, yomitaiToken }))}`,
-        );
+        // Secrets in the headers are masked by the logger
+        logger.warn("Book page request rejected", {
+            listType,
+            page,
+            status: response.status,
+            headers: createHeaders({ cookies, yomitaiToken }),
+        });
 
         // If Forbidden or Unauthorized, the token might be expired
-        if (response.status === 403 || response.status === 401) {
-            throw new Error(
-                `Token expired or unauthorized: ${response.statusText}`,
-            );
-        }
-
-        throw new Error(
-            `Failed to fetch book page ${page}: ${response.statusText}`,
+        throw calilErrorFromResponse(
+            response,
+            `Failed to fetch book page ${page}`,
+            CalilTokenExpiredError,
         );
     }
     const data: BookListResponse = await response.json();
@@ -327,36 +357,45 @@ async function fetchBookPage({
 /**
  * Get metadata about the book list (total count, total pages)
  * Results are cached for 1 hour
+ *
+ * @param options.fresh - Ask Calil even if cached (the list may have been
+ *   changed on calil.jp, which doesn't invalidate the cache)
  */
 export async function fetchBookListMetadata(
     listType: ListType,
+    profile: string = DEFAULT_PROFILE_ID,
+    { fresh = false }: { fresh?: boolean } = {},
 ): Promise<{ totalCount: number; totalPages: number; pageSize: number }> {
-    const cacheKey = getCacheKey("metadata", listType);
+    const namespace = cacheNamespace(profile, listType);
 
     // Try to get from cache
-    const cached = getFromCache<{
-        totalCount: number;
-        totalPages: number;
-        pageSize: number;
-    }>(cacheKey);
+    const cached = fresh
+        ? null
+        : getFromCache<{
+              totalCount: number;
+              totalPages: number;
+              pageSize: number;
+          }>(namespace, "metadata");
     if (cached) {
-        console.log(`Using cached metadata for ${listType}:`, cached);
+        logger.debug("Using cached metadata", { listType, ...cached });
         return cached;
     }
 
     // Fetch from API with auto-retry on token expiration
-    return await retryWithTokenRefresh(async (cookie, yomitaiToken) => {
+    return await retryWithTokenRefresh(profile, async (cookies, yomitaiToken) => {
         const totalCount = await fetchTotalCount({
-            cookie,
+            profile,
+            cookies,
             yomitaiToken,
             listType,
+            fresh,
         });
         const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
 
         const metadata = { totalCount, totalPages, pageSize: ITEMS_PER_PAGE };
 
         // Store in cache
-        setInCache(cacheKey, metadata);
+        setInCache(namespace, "metadata", metadata);
 
         return metadata;
     });
@@ -368,11 +407,12 @@ export async function fetchBookListMetadata(
 export async function fetchBookListPage(
     listType: ListType,
     page: number,
+    profile: string = DEFAULT_PROFILE_ID,
 ): Promise<BookElement[]> {
     // Fetch from API with auto-retry on token expiration
-    return await retryWithTokenRefresh(async (cookie, yomitaiToken) => {
+    return await retryWithTokenRefresh(profile, async (cookies, yomitaiToken) => {
         return await fetchBookPage({
-            cookie,
+            cookies,
             yomitaiToken,
             listType,
             page,
@@ -387,10 +427,11 @@ export async function fetchBookListPages(
     listType: ListType,
     startPage: number,
     endPage: number,
+    profile: string = DEFAULT_PROFILE_ID,
 ): Promise<BookElement[]> {
     const allBooks: BookElement[] = [];
     for (let page = startPage; page <= endPage; page++) {
-        const books = await fetchBookListPage(listType, page);
+        const books = await fetchBookListPage(listType, page, profile);
         allBooks.push(...books);
     }
     return allBooks;
@@ -401,7 +442,77 @@ export async function fetchBookListPages(
  */
 export async function fetchBookList(
     listType: ListType,
+    profile: string = DEFAULT_PROFILE_ID,
 ): Promise<BookElement[]> {
-    const metadata = await fetchBookListMetadata(listType);
-    return await fetchBookListPages(listType, 1, metadata.totalPages);
+    const metadata = await fetchBookListMetadata(listType, profile);
+    return await fetchBookListPages(listType, 1, metadata.totalPages, profile);
+}
+
+/**
+ * Invalidate cached metadata and total count of a list after it was modified
+ */
+function invalidateListCache(profile: string, listType: ListType): void {
+    clearCacheNamespace(getCacheDatabase(), cacheNamespace(profile, listType));
+    logger.debug("Cleared list caches", { profile, listType });
+}
+
+async function postListMutation(
+    { cookies, yomitaiToken }: FetchListOptions,
+    endpoint: string,
+    body: Record<string, unknown>,
+): Promise<void> {
+    const response = await calilFetch(
+        calilUrl(`/api/list/v2/${endpoint}`),
+        {
+            headers: {
+                ...createHeaders({ cookies, yomitaiToken }),
+                "content-type": "application/json",
+            },
+            body: JSON.stringify(body),
+            method: "POST",
+        },
+        `Failed to ${endpoint} list item`,
+    );
+    if (!response.ok) {
+        // If Forbidden or Unauthorized, the token might be expired
+        throw calilErrorFromResponse(
+            response,
+            `Failed to ${endpoint} list item`,
+            CalilTokenExpiredError,
+        );
+    }
+}
+
+/**
+ * Add a book to a list by ISBN
+ */
+export async function addBookToList(
+    listType: ListType,
+    isbn: string,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<void> {
+    await retryWithTokenRefresh(profile, async (cookies, yomitaiToken) => {
+        await postListMutation({ cookies, yomitaiToken }, "add", {
+            name: listType,
+            isbn,
+        });
+    });
+    invalidateListCache(profile, listType);
+}
+
+/**
+ * Remove a book from a list by its list entry id
+ */
+export async function removeBookFromList(
+    listType: ListType,
+    bookId: string,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<void> {
+    await retryWithTokenRefresh(profile, async (cookies, yomitaiToken) => {
+        await postListMutation({ cookies, yomitaiToken }, "delete", {
+            name: listType,
+            id: bookId,
+        });
+    });
+    invalidateListCache(profile, listType);
 }
@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+    clearAvailabilityCache,
+    getAvailability,
+    summarizeBook,
+    summarizeSystem,
+    type AvailabilityOptions,
+} from "./availability";
+import { runCheck } from "./check-api";
+
+// Stub of Calil's check API: the first request reports Running,
+// the follow-up poll reports the final result.
+let server: ReturnType<typeof Bun.serve>;
+let requests: URLSearchParams[] = [];
+
+const finalBooks = (isbns: string[]) =>
+    Object.fromEntries(
+        isbns.map((isbn) => [
+            isbn,
+            {
+                Tokyo_Test: {
+                    status: "OK",
+                    reserveurl: `https://lib.example/${isbn}`,
+                    libkey:
+                        isbn === "9784000000001"
+                            ? { 中央: "貸出可" }
+                            : isbn === "9784000000002"
+                              ? { 中央: "貸出中" }
+                              : {},
+                },
+            },
+        ]),
+    );
+
+const sessions = new Map<string, string[]>();
+
+beforeAll(() => {
+    server = Bun.serve({
+        port: 0,
+        fetch(req) {
+            const params = new URL(req.url).searchParams;
+            requests.push(params);
+
+            const session = params.get("session");
+            if (session) {
+                const isbns = sessions.get(session) ?? [];
+                return Response.json({
+                    session,
+                    continue: 0,
+                    books: finalBooks(isbns),
+                });
+            }
+
+            const isbns = (params.get("isbn") ?? "").split(",");
+            const id = `s${sessions.size + 1}`;
+            sessions.set(id, isbns);
+            return Response.json({
+                session: id,
+                continue: 1,
+                books: Object.fromEntries(
+                    isbns.map((isbn) => [
+                        isbn,
+                        { Tokyo_Test: { status: "Running", reserveurl: "", libkey: {} } },
+                    ]),
+                ),
+            });
+        },
+    });
+});
+
+afterAll(() => {
+    server.stop(true);
+});
+
+beforeEach(() => {
+    requests = [];
+    clearAvailabilityCache();
+});
+
+const options = (): AvailabilityOptions => ({
+    appKey: "test-key",
+    systemIds: ["Tokyo_Test"],
+    baseUrl: `http://localhost:${server.port}`,
+    pollIntervalMs: 1,
+});
+
+describe("runCheck", () => {
+    test("polls the session until Calil is done", async () => {
+        const books = await runCheck(["9784000000001"], ["Tokyo_Test"], options());
+
+        expect(requests.length).toBe(2);
+        expect(requests[0]?.get("appkey")).toBe("test-key");
+        expect(requests[0]?.get("format")).toBe("json");
+        expect(requests[1]?.get("session")).toBeTruthy();
+        expect(books["9784000000001"]?.Tokyo_Test?.status).toBe("OK");
+    });
+
+    test("returns partial results after maxPolls", async () => {
+        const books = await runCheck(["9784000000001"], ["Tokyo_Test"], {
+            ...options(),
+            maxPolls: 0,
+        });
+
+        expect(requests.length).toBe(1);
+        expect(books["9784000000001"]?.Tokyo_Test?.status).toBe("Running");
+    });
+});
+
+describe("summarizeSystem", () => {
+    test("maps branch statuses to a library status", () => {
+        const lib = (libkey: Record<string, string>) =>
+            summarizeSystem("X", { status: "OK", reserveurl: "", libkey });
+
+        expect(lib({ 本館: "貸出中", 分館: "館内のみ" }).status).toBe("available");
+        expect(lib({ 本館: "貸出中" }).status).toBe("checked_out");
+        expect(lib({ 本館: "予約中" }).status).toBe("checked_out");
+        expect(lib({}).status).toBe("not_owned");
+    });
+
+    test("reports unfinished or failed lookups as unknown", () => {
+        expect(summarizeSystem("X", undefined).status).toBe("unknown");
+        expect(
+            summarizeSystem("X", { status: "Error", reserveurl: "", libkey: {} })
+                .status,
+        ).toBe("unknown");
+    });
+});
+
+describe("summarizeBook", () => {
+    test("prefers the best status across libraries", () => {
+        const a = summarizeSystem("A", { status: "OK", reserveurl: "", libkey: {} });
+        const b = summarizeSystem("B", {
+            status: "Cache",
+            reserveurl: "",
+            libkey: { 本館: "貸出可" },
+        });
+
+        const result = summarizeBook("9784000000001", [a, b]);
+        expect(result.status).toBe("available");
+        expect(result.label).toBe("貸出可");
+        expect(summarizeBook("9784000000001", [a]).label).toBe("蔵書なし");
+    });
+});
+
+describe("getAvailability", () => {
+    test("merges concurrent lookups into one check", async () => {
+        const opts = options();
+        const [a, b, c] = await Promise.all([
+            getAvailability("9784000000001", opts),
+            getAvailability("9784000000002", opts),
+            getAvailability("9784000000003", opts),
+        ]);
+
+        expect(a.status).toBe("available");
+        expect(b.status).toBe("checked_out");
+        expect(c.status).toBe("not_owned");
+        expect(a.libraries[0]?.reserveUrl).toBe("https://lib.example/9784000000001");
+
+        // One initial request + one poll for all three ISBNs
+        expect(requests.length).toBe(2);
+        expect(requests[0]?.get("isbn")?.split(",").sort()).toEqual([
+            "9784000000001",
+            "9784000000002",
+            "9784000000003",
+        ]);
+    });
+
+    test("serves finished results from cache", async () => {
+        const opts = options();
+        await getAvailability("9784000000001", opts);
+        const count = requests.length;
+
+        const again = await getAvailability("9784000000001", opts);
+        expect(again.status).toBe("available");
+        expect(requests.length).toBe(count);
+    });
+
+    test("does not cache unfinished results", async () => {
+        const opts = { ...options(), maxPolls: 0 };
+        const first = await getAvailability("9784000000001", opts);
+        expect(first.status).toBe("unknown");
+
+        await getAvailability("9784000000001", opts);
+        expect(requests.length).toBe(2);
+    });
+
+    test("throws when not configured", async () => {
+        expect(getAvailability("9784000000001", null)).rejects.toThrow(
+            "not configured",
+        );
+    });
+});
@@ -0,0 +1,274 @@
+import { logger } from "../../../shared/logging/logger";
+import { getSettingsDatabase } from "../../settings/db/settings-db";
+import { getFavoriteSystemIds } from "../db/libraries";
+import {
+    runCheck,
+    type CheckApiOptions,
+    type CheckStatus,
+    type SystemAvailability,
+} from "./check-api";
+
+/**
+ * Library availability lookups with caching and request coalescing
+ *
+ * Book cards ask for one ISBN at a time, but Calil's check API accepts many
+ * ISBNs per session and every session has to be polled. Lookups arriving
+ * within BATCH_WINDOW_MS are therefore merged into a single check, and
+ * finished results are cached per ISBN and systemid.
+ */
+
+export type AvailabilityStatus =
+    | "available"
+    | "checked_out"
+    | "not_owned"
+    | "unknown";
+
+export const AVAILABILITY_LABELS: Record<AvailabilityStatus, string> = {
+    available: "貸出可",
+    checked_out: "貸出中",
+    not_owned: "蔵書なし",
+    unknown: "確認できません",
+};
+
+export type LibraryAvailability = {
+    systemId: string;
+    status: AvailabilityStatus;
+    checkStatus: CheckStatus;
+    reserveUrl: string | null;
+    /** Branch name → lending status as reported by the library */
+    branches: Record<string, string>;
+};
+
+export type BookAvailability = {
+    isbn: string;
+    status: AvailabilityStatus;
+    label: string;
+    libraries: LibraryAvailability[];
+};
+
+export type AvailabilityOptions = CheckApiOptions & {
+    /** Library systemids to check */
+    systemIds: string[];
+    /** How long finished results are cached */
+    ttlMs?: number;
+};
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+const BATCH_WINDOW_MS = 50;
+const MAX_BATCH_SIZE = 20;
+
+// Branch statuses that mean the book can be borrowed or read now
+const AVAILABLE_BRANCH_STATUSES = new Set(["貸出可", "蔵書あり", "館内のみ"]);
+
+/**
+ * Read availability settings from the environment
+ * CALIL_SYSTEM_IDS takes precedence over the favorite libraries.
+ * Returns null when no app key or library is configured.
+ */
+export function getAvailabilityConfig(): AvailabilityOptions | null {
+    const appKey = process.env.CALIL_APP_KEY;
+    if (!appKey) {
+        return null;
+    }
+
+    const envSystemIds = (process.env.CALIL_SYSTEM_IDS ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    const systemIds =
+        envSystemIds.length > 0
+            ? envSystemIds
+            : getFavoriteSystemIds(getSettingsDatabase());
+
+    if (systemIds.length === 0) {
+        return null;
+    }
+
+    return {
+        appKey,
+        systemIds,
+        baseUrl: process.env.CALIL_API_BASE_URL,
+    };
+}
+
+/**
+ * Whether availability checks are configured
+ */
+export function isAvailabilityEnabled(): boolean {
+    return getAvailabilityConfig() !== null;
+}
+
+/**
+ * Summarize the branches of one library system
+ */
+export function summarizeSystem(
+    systemId: string,
+    availability: SystemAvailability | undefined,
+): LibraryAvailability {
+    const checkStatus = availability?.status ?? "Running";
+    const branches = availability?.libkey ?? {};
+    const values = Object.values(branches);
+
+    let status: AvailabilityStatus;
+    if (checkStatus === "Running" || checkStatus === "Error") {
+        status = "unknown";
+    } else if (values.some((v) => AVAILABLE_BRANCH_STATUSES.has(v))) {
+        status = "available";
+    } else if (values.length > 0) {
+        status = "checked_out";
+    } else {
+        status = "not_owned";
+    }
+
+    return {
+        systemId,
+        status,
+        checkStatus,
+        reserveUrl: availability?.reserveurl || null,
+        branches,
+    };
+}
+
+/**
+ * Combine library results into one status for the book
+ * The best status wins: one library that can lend the book is enough.
+ */
+export function summarizeBook(
+    isbn: string,
+    libraries: LibraryAvailability[],
+): BookAvailability {
+    const order: AvailabilityStatus[] = [
+        "available",
+        "checked_out",
+        "unknown",
+        "not_owned",
+    ];
+    const status =
+        order.find((s) => libraries.some((lib) => lib.status === s)) ??
+        "unknown";
+
+    return {
+        isbn,
+        status,
+        label: AVAILABILITY_LABELS[status],
+        libraries,
+    };
+}
+
+// Cache of finished results: `${isbn}:${systemId}` → entry
+const cache = new Map<
+    string,
+    { value: LibraryAvailability; expiresAt: number }
+>();
+
+function getCached(isbn: string, systemId: string): LibraryAvailability | null {
+    const key = `${isbn}:${systemId}`;
+    const entry = cache.get(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+        cache.delete(key);
+        return null;
+    }
+    return entry.value;
+}
+
+/**
+ * Drop all cached availability results
+ */
+export function clearAvailabilityCache(): void {
+    cache.clear();
+}
+
+type PendingBatch = {
+    options: AvailabilityOptions;
+    waiters: Map<string, ((result: BookAvailability) => void)[]>;
+    failers: ((error: unknown) => void)[];
+    timer: ReturnType<typeof setTimeout> | null;
+};
+
+// Batches waiting to be sent, keyed by API endpoint and library set
+const pendingBatches = new Map<string, PendingBatch>();
+
+async function flushBatch(key: string): Promise<void> {
+    const batch = pendingBatches.get(key);
+    if (!batch) return;
+    pendingBatches.delete(key);
+    if (batch.timer) clearTimeout(batch.timer);
+
+    const isbns = [...batch.waiters.keys()];
+    const { options } = batch;
+
+    try {
+        const books = await runCheck(isbns, options.systemIds, options);
+        const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+
+        for (const isbn of isbns) {
+            const libraries = options.systemIds.map((systemId) => {
+                const lib = summarizeSystem(systemId, books[isbn]?.[systemId]);
+                if (lib.checkStatus === "OK" || lib.checkStatus === "Cache") {
+                    cache.set(`${isbn}:${systemId}`, {
+                        value: lib,
+                        expiresAt: Date.now() + ttlMs,
+                    });
+                }
+                return lib;
+            });
+            const result = summarizeBook(isbn, libraries);
+            for (const resolve of batch.waiters.get(isbn) ?? []) {
+                resolve(result);
+            }
+        }
+    } catch (error) {
+        logger.error("Calil availability check failed", {
+            isbns,
+            error: String(error),
+        });
+        for (const reject of batch.failers) {
+            reject(error);
+        }
+    }
+}
+
+/**
+ * Get availability of a book in the configured libraries
+ *
+ * @param isbn - ISBN to look up
+ * @param options - API settings (defaults to the environment configuration)
+ * @throws {Error} If availability checks are not configured
+ */
+export async function getAvailability(
+    isbn: string,
+    options: AvailabilityOptions | null = getAvailabilityConfig(),
+): Promise<BookAvailability> {
+    if (!options) {
+        throw new Error("Availability check is not configured");
+    }
+
+    const cached = options.systemIds.map((systemId) =>
+        getCached(isbn, systemId),
+    );
+    if (cached.every((lib): lib is LibraryAvailability => lib !== null)) {
+        logger.debug("Availability cache hit", { isbn });
+        return summarizeBook(isbn, cached);
+    }
+
+    const key = `${options.baseUrl ?? ""}|${options.systemIds.join(",")}`;
+
+    return await new Promise<BookAvailability>((resolve, reject) => {
+        let batch = pendingBatches.get(key);
+        if (!batch) {
+            batch = { options, waiters: new Map(), failers: [], timer: null };
+            pendingBatches.set(key, batch);
+            batch.timer = setTimeout(() => flushBatch(key), BATCH_WINDOW_MS);
+        }
+
+        const waiters = batch.waiters.get(isbn) ?? [];
+        waiters.push(resolve);
+        batch.waiters.set(isbn, waiters);
+        batch.failers.push(reject);
+
+        if (batch.waiters.size >= MAX_BATCH_SIZE) {
+            flushBatch(key);
+        }
+    });
+}
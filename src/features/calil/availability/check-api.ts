@@ -0,0 +1,114 @@
+import { logger } from "../../../shared/logging/logger";
+import { errorFromResponse } from "../../../shared/errors/upstream-errors";
+import { httpRequest } from "../../../shared/http/http-client";
+
+/**
+ * Client for Calil's library "check" API
+ *
+ * A check is started with the ISBNs and library systemids to look up.
+ * Calil answers immediately with whatever it already knows plus a session id;
+ * while `continue` is 1 the same session has to be polled (no more often
+ * than every 2 seconds) until every library has reported.
+ *
+ * @see https://calil.jp/doc/api_ref.html
+ */
+
+/**
+ * Per-library lookup status reported by Calil
+ */
+export type CheckStatus = "OK" | "Cache" | "Running" | "Error";
+
+export type SystemAvailability = {
+    status: CheckStatus;
+    reserveurl: string;
+    /** Branch name → lending status (e.g. "貸出可", "貸出中") */
+    libkey: Record<string, string>;
+};
+
+/** ISBN → systemid → availability */
+export type CheckBooks = Record<string, Record<string, SystemAvailability>>;
+
+type CheckResponse = {
+    session: string;
+    continue: 0 | 1;
+    books: CheckBooks;
+};
+
+export type CheckApiOptions = {
+    /** Calil application key */
+    appKey: string;
+    /** API base URL (overridable for stub servers) */
+    baseUrl?: string;
+    /** Delay between polls of the same session */
+    pollIntervalMs?: number;
+    /** Give up after this many polls and return partial results */
+    maxPolls?: number;
+};
+
+const DEFAULT_BASE_URL = "https://api.calil.jp";
+const DEFAULT_POLL_INTERVAL_MS = 2000; // Calil asks clients not to poll faster
+const DEFAULT_MAX_POLLS = 15;
+
+async function requestCheck(
+    baseUrl: string,
+    params: Record<string, string>,
+): Promise<CheckResponse> {
+    const query = new URLSearchParams({
+        ...params,
+        format: "json",
+        callback: "no",
+    });
+    const response = await httpRequest(`${baseUrl}/check?${query}`, {
+        upstream: "calil",
+        context: "Calil check API failed",
+    });
+    if (!response.ok) {
+        throw errorFromResponse("calil", response, "Calil check API failed");
+    }
+    return (await response.json()) as CheckResponse;
+}
+
+/**
+ * Look up ISBNs in the given library systems, polling until Calil is done
+ *
+ * @returns Availability per ISBN and systemid. Libraries that were still
+ *   running when maxPolls was reached are reported with status "Running".
+ */
+export async function runCheck(
+    isbns: string[],
+    systemIds: string[],
+    options: CheckApiOptions,
+): Promise<CheckBooks> {
+    const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const maxPolls = options.maxPolls ?? DEFAULT_MAX_POLLS;
+
+    logger.debug("Calil check started", { isbns, systemIds });
+
+    let result = await requestCheck(baseUrl, {
+        appkey: options.appKey,
+        isbn: isbns.join(","),
+        systemid: systemIds.join(","),
+    });
+
+    let polls = 0;
+    while (result.continue === 1 && polls < maxPolls) {
+        await Bun.sleep(pollIntervalMs);
+        polls++;
+        result = await requestCheck(baseUrl, {
+            appkey: options.appKey,
+            session: result.session,
+        });
+    }
+
+    if (result.continue === 1) {
+        logger.warn("Calil check did not finish, returning partial result", {
+            isbns,
+            polls,
+        });
+    } else {
+        logger.debug("Calil check finished", { isbns, polls });
+    }
+
+    return result.books ?? {};
+}
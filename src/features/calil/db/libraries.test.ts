@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import type { CalilLibrary } from "../libraries/library-master";
+import {
+    getFavoriteLibraries,
+    getFavoriteSystemIds,
+    importLibraries,
+    initLibrariesSchema,
+    listCities,
+    listPrefectures,
+    searchLibraries,
+    setFavoriteSystemIds,
+} from "./libraries";
+
+const library = (overrides: Partial<CalilLibrary>): CalilLibrary => ({
+    libid: "1",
+    systemid: "Tokyo_Setagaya",
+    systemname: "東京都世田谷区",
+    libkey: "中央",
+    short: "中央",
+    formal: "世田谷区立中央図書館",
+    category: "MEDIUM",
+    pref: "東京都",
+    city: "世田谷区",
+    address: "",
+    post: "",
+    tel: "",
+    geocode: "",
+    url_pc: "",
+    ...overrides,
+});
+
+let db: Database;
+
+beforeEach(() => {
+    db = new Database(":memory:");
+    initLibrariesSchema(db);
+    importLibraries(db, [
+        library({ libid: "1" }),
+        library({ libid: "2", libkey: "経堂", short: "経堂", formal: "世田谷区立経堂図書館" }),
+        library({
+            libid: "3",
+            systemid: "Tokyo_Bunkyo",
+            systemname: "東京都文京区",
+            formal: "文京区立真砂中央図書館",
+            city: "文京区",
+        }),
+        library({
+            libid: "4",
+            systemid: "Kanagawa_Yokohama",
+            systemname: "神奈川県横浜市",
+            formal: "横浜市中央図書館",
+            pref: "神奈川県",
+            city: "横浜市",
+        }),
+    ]);
+});
+
+describe("searchLibraries", () => {
+    test("filters by prefecture and city", () => {
+        expect(searchLibraries(db, { pref: "東京都" })).toHaveLength(3);
+        expect(
+            searchLibraries(db, { pref: "東京都", city: "文京区" }).map((l) => l.libid),
+        ).toEqual(["3"]);
+    });
+
+    test("matches library and system names", () => {
+        expect(searchLibraries(db, { q: "経堂" }).map((l) => l.libid)).toEqual(["2"]);
+        expect(searchLibraries(db, { q: "横浜市" }).map((l) => l.libid)).toEqual(["4"]);
+    });
+
+    test("re-importing replaces libraries by libid", () => {
+        importLibraries(db, [library({ libid: "1", formal: "新中央図書館" })]);
+
+        expect(searchLibraries(db, { q: "新中央" })).toHaveLength(1);
+        expect(searchLibraries(db, {})).toHaveLength(4);
+    });
+});
+
+describe("prefecture and city lists", () => {
+    test("lists imported prefectures and cities", () => {
+        expect(listPrefectures(db)).toEqual(["東京都", "神奈川県"]);
+        expect(listCities(db, "東京都")).toEqual(["世田谷区", "文京区"]);
+    });
+});
+
+describe("favorites", () => {
+    test("stores systemids in order without duplicates", () => {
+        setFavoriteSystemIds(db, ["Tokyo_Bunkyo", "Tokyo_Setagaya", "Tokyo_Bunkyo"]);
+
+        expect(getFavoriteSystemIds(db)).toEqual(["Tokyo_Bunkyo", "Tokyo_Setagaya"]);
+    });
+
+    test("joins favorite systems with the registry", () => {
+        setFavoriteSystemIds(db, ["Tokyo_Setagaya", "Unknown_System"]);
+
+        expect(getFavoriteLibraries(db)).toEqual([
+            {
+                systemid: "Tokyo_Setagaya",
+                systemname: "東京都世田谷区",
+                pref: "東京都",
+                branchCount: 2,
+            },
+            {
+                systemid: "Unknown_System",
+                systemname: "Unknown_System",
+                pref: "",
+                branchCount: 0,
+            },
+        ]);
+    });
+
+    test("replaces the previous selection", () => {
+        setFavoriteSystemIds(db, ["Tokyo_Setagaya"]);
+        setFavoriteSystemIds(db, []);
+
+        expect(getFavoriteSystemIds(db)).toEqual([]);
+    });
+});
@@ -0,0 +1,214 @@
+import type { Database } from "bun:sqlite";
+import type { CalilLibrary } from "../libraries/library-master";
+
+/**
+ * Library registry and favorite library systems
+ *
+ * `libraries` holds the imported Calil library master (one row per libid).
+ * `favorite_libraries` holds the systemids the user picked; they drive
+ * availability checks and the per-library search links.
+ */
+
+export type LibrarySearchQuery = {
+    pref?: string;
+    city?: string;
+    /** Matched against formal/short/system names */
+    q?: string;
+    limit?: number;
+};
+
+export type LibrarySystem = {
+    systemid: string;
+    systemname: string;
+    pref: string;
+    /** Number of branches imported for the system */
+    branchCount: number;
+};
+
+/**
+ * Create library tables if they don't exist
+ */
+export function initLibrariesSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS libraries (
+            libid TEXT PRIMARY KEY,
+            systemid TEXT NOT NULL,
+            systemname TEXT NOT NULL,
+            libkey TEXT NOT NULL,
+            short TEXT NOT NULL,
+            formal TEXT NOT NULL,
+            category TEXT NOT NULL,
+            pref TEXT NOT NULL,
+            city TEXT NOT NULL,
+            address TEXT NOT NULL,
+            post TEXT NOT NULL,
+            tel TEXT NOT NULL,
+            geocode TEXT NOT NULL,
+            url_pc TEXT NOT NULL,
+            imported_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    db.run(`
+        CREATE INDEX IF NOT EXISTS idx_libraries_pref_city
+        ON libraries(pref, city)
+    `);
+
+    db.run(`
+        CREATE INDEX IF NOT EXISTS idx_libraries_systemid
+        ON libraries(systemid)
+    `);
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS favorite_libraries (
+            systemid TEXT PRIMARY KEY,
+            position INTEGER NOT NULL,
+            created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+}
+
+/**
+ * Insert or replace libraries from a Calil library master
+ *
+ * @returns Number of libraries written
+ */
+export function importLibraries(db: Database, libraries: CalilLibrary[]): number {
+    const insert = db.prepare(`
+        INSERT OR REPLACE INTO libraries (
+            libid, systemid, systemname, libkey, short, formal, category,
+            pref, city, address, post, tel, geocode, url_pc, imported_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    db.transaction(() => {
+        for (const lib of libraries) {
+            insert.run(
+                lib.libid,
+                lib.systemid,
+                lib.systemname,
+                lib.libkey,
+                lib.short,
+                lib.formal,
+                lib.category,
+                lib.pref,
+                lib.city,
+                lib.address,
+                lib.post,
+                lib.tel,
+                lib.geocode,
+                lib.url_pc,
+            );
+        }
+    })();
+
+    return libraries.length;
+}
+
+/**
+ * Search imported libraries by prefecture, city and name
+ */
+export function searchLibraries(
+    db: Database,
+    query: LibrarySearchQuery,
+): CalilLibrary[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.pref) {
+        conditions.push("pref = ?");
+        params.push(query.pref);
+    }
+    if (query.city) {
+        conditions.push("city = ?");
+        params.push(query.city);
+    }
+    if (query.q) {
+        conditions.push("(formal LIKE ? OR short LIKE ? OR systemname LIKE ?)");
+        const pattern = `%${query.q}%`;
+        params.push(pattern, pattern, pattern);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    params.push(query.limit ?? 100);
+
+    return db
+        .query(`
+            SELECT libid, systemid, systemname, libkey, short, formal, category,
+                   pref, city, address, post, tel, geocode, url_pc
+            FROM libraries
+            ${where}
+            ORDER BY pref, city, systemid, formal
+            LIMIT ?
+        `)
+        .all(...params) as CalilLibrary[];
+}
+
+/**
+ * Prefectures that have imported libraries
+ */
+export function listPrefectures(db: Database): string[] {
+    return (
+        db
+            .query("SELECT DISTINCT pref FROM libraries ORDER BY pref")
+            .all() as { pref: string }[]
+    ).map((row) => row.pref);
+}
+
+/**
+ * Cities of a prefecture that have imported libraries
+ */
+export function listCities(db: Database, pref: string): string[] {
+    return (
+        db
+            .query("SELECT DISTINCT city FROM libraries WHERE pref = ? ORDER BY city")
+            .all(pref) as { city: string }[]
+    ).map((row) => row.city);
+}
+
+/**
+ * Favorite systemids in the order the user saved them
+ */
+export function getFavoriteSystemIds(db: Database): string[] {
+    return (
+        db
+            .query("SELECT systemid FROM favorite_libraries ORDER BY position")
+            .all() as { systemid: string }[]
+    ).map((row) => row.systemid);
+}
+
+/**
+ * Favorite library systems with names from the registry
+ * Systems missing from the registry are returned with their systemid as name.
+ */
+export function getFavoriteLibraries(db: Database): LibrarySystem[] {
+    return db
+        .query(`
+            SELECT f.systemid AS systemid,
+                   COALESCE(MAX(l.systemname), f.systemid) AS systemname,
+                   COALESCE(MAX(l.pref), '') AS pref,
+                   COUNT(l.libid) AS branchCount
+            FROM favorite_libraries f
+            LEFT JOIN libraries l ON l.systemid = f.systemid
+            GROUP BY f.systemid
+            ORDER BY f.position
+        `)
+        .all() as LibrarySystem[];
+}
+
+/**
+ * Replace the favorite systemids (duplicates are dropped, order is kept)
+ */
+export function setFavoriteSystemIds(db: Database, systemIds: string[]): string[] {
+    const unique = [...new Set(systemIds)];
+    const insert = db.prepare(
+        "INSERT INTO favorite_libraries (systemid, position) VALUES (?, ?)",
+    );
+
+    db.transaction(() => {
+        db.run("DELETE FROM favorite_libraries");
+        unique.forEach((systemId, index) => insert.run(systemId, index));
+    })();
+
+    return unique;
+}
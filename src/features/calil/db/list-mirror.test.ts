@@ -0,0 +1,144 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    applyListSync,
+    countMirroredItems,
+    getListChanges,
+    getListSyncState,
+    getMirroredItems,
+    getMirroredMetadata,
+    getMirroredPage,
+    initListMirrorSchema,
+} from "./list-mirror";
+import type { Book } from "../types/book";
+
+function makeBook(id: string, updated = "2024-01-01"): Book {
+    return {
+        id,
+        title: `書籍${id}`,
+        author: `著者${id}`,
+        pubdate: "2024-01-01",
+        publisher: "テスト出版社",
+        source: "calil",
+        isbn: `97848731175${id.padStart(2, "0")}`,
+        volume: "",
+        updated,
+    };
+}
+
+describe("list-mirror", () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = new Database(":memory:");
+        initListMirrorSchema(db);
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    test("未同期のリストは状態なし・0件", () => {
+        expect(getListSyncState(db, "wish")).toBeNull();
+        expect(countMirroredItems(db, "wish")).toBe(0);
+        expect(getMirroredItems(db, "wish")).toEqual([]);
+    });
+
+    test("完全同期でアイテムと同期状態が保存される", () => {
+        const books = [makeBook("1"), makeBook("2"), makeBook("3")];
+        const result = applyListSync(db, "wish", books, true);
+
+        expect(result.added.length).toBe(3);
+        expect(result.removed.length).toBe(0);
+        expect(getMirroredItems(db, "wish").map((b) => b.id)).toEqual([
+            "1",
+            "2",
+            "3",
+        ]);
+
+        const state = getListSyncState(db, "wish");
+        expect(state?.totalCount).toBe(3);
+        expect(state?.lastSyncedAt).not.toBeNull();
+        expect(state?.lastChangedAt).not.toBeNull();
+    });
+
+    test("リストタイプごとに分離される", () => {
+        applyListSync(db, "wish", [makeBook("1")], true);
+        applyListSync(db, "read", [makeBook("2"), makeBook("3")], true);
+
+        expect(countMirroredItems(db, "wish")).toBe(1);
+        expect(countMirroredItems(db, "read")).toBe(2);
+    });
+
+    test("完全同期で消えたアイテムは削除され履歴に残る", () => {
+        applyListSync(db, "wish", [makeBook("1"), makeBook("2")], true);
+        const result = applyListSync(db, "wish", [makeBook("2")], true);
+
+        expect(result.removed.map((b) => b.id)).toEqual(["1"]);
+        expect(getMirroredItems(db, "wish").map((b) => b.id)).toEqual(["2"]);
+
+        const changes = getListChanges(db, "wish");
+        expect(changes[0]?.changeType).toBe("removed");
+        expect(changes[0]?.bookId).toBe("1");
+    });
+
+    test("updatedが変わったアイテムはupdatedとして記録される", () => {
+        applyListSync(db, "wish", [makeBook("1", "2024-01-01")], true);
+        const result = applyListSync(
+            db,
+            "wish",
+            [makeBook("1", "2024-02-01")],
+            true,
+        );
+
+        expect(result.updated.length).toBe(1);
+        expect(getMirroredItems(db, "wish")[0]?.updated).toBe("2024-02-01");
+    });
+
+    test("部分同期では未取得のアイテムを残し、先頭に新規アイテムを並べる", () => {
+        applyListSync(db, "wish", [makeBook("1"), makeBook("2")], true);
+        const result = applyListSync(
+            db,
+            "wish",
+            [makeBook("3"), makeBook("1")],
+            false,
+        );
+
+        expect(result.added.map((b) => b.id)).toEqual(["3"]);
+        expect(result.removed).toEqual([]);
+        expect(getMirroredItems(db, "wish").map((b) => b.id)).toEqual([
+            "3",
+            "1",
+            "2",
+        ]);
+        expect(getListSyncState(db, "wish")?.totalCount).toBe(3);
+    });
+
+    test("変更がない同期ではlastChangedAtが維持される", () => {
+        applyListSync(db, "wish", [makeBook("1")], true);
+        db.run(
+            `UPDATE calil_list_sync_state SET last_changed_at = '2000-01-01 00:00:00'`,
+        );
+        applyListSync(db, "wish", [makeBook("1")], true);
+
+        expect(getListSyncState(db, "wish")?.lastChangedAt).toBe(
+            "2000-01-01 00:00:00",
+        );
+    });
+
+    test("ページ単位で取得できる", () => {
+        const books = Array.from({ length: 45 }, (_, i) =>
+            makeBook(String(i + 1)),
+        );
+        applyListSync(db, "read", books, true);
+
+        expect(getMirroredPage(db, "read", 1).length).toBe(20);
+        expect(getMirroredPage(db, "read", 3).length).toBe(5);
+        expect(getMirroredPage(db, "read", 3)[0]?.id).toBe("41");
+        expect(getMirroredMetadata(db, "read")).toEqual({
+            totalCount: 45,
+            totalPages: 3,
+            pageSize: 20,
+        });
+    });
+});
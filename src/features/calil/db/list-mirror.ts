@@ -0,0 +1,378 @@
+import type { Database } from "bun:sqlite";
+import type { Book } from "../types/book";
+
+/**
+ * Local mirror of Calil book lists
+ *
+ * Every BookElement returned by calil.jp is stored per list type in
+ * calil_list_items (same database file as bibliographic_info), so the UI
+ * can render lists without waiting for Calil. The sync engine keeps the
+ * mirror up to date and records added/removed items in calil_list_changes.
+ */
+
+export type ListChangeType = "added" | "removed" | "updated";
+
+export type ListItemRecord = {
+    list_type: string;
+    book_id: string;
+    isbn: string;
+    title: string;
+    author: string;
+    pubdate: string;
+    publisher: string;
+    source: string;
+    volume: string;
+    updated: string;
+    position: number;
+    synced_at: string;
+};
+
+export type ListSyncState = {
+    listType: string;
+    totalCount: number;
+    lastSyncedAt: string | null;
+    lastChangedAt: string | null;
+};
+
+export type ListChange = {
+    id: number;
+    listType: string;
+    bookId: string;
+    isbn: string;
+    title: string;
+    changeType: ListChangeType;
+    detectedAt: string;
+};
+
+/**
+ * Page size used when serving the mirror (matches Calil's perCount)
+ */
+export const MIRROR_PAGE_SIZE = 20;
+
+/**
+ * Create list mirror tables if they don't exist
+ */
+export function initListMirrorSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS calil_list_items (
+            list_type TEXT NOT NULL,
+            book_id TEXT NOT NULL,
+            isbn TEXT NOT NULL,
+            title TEXT NOT NULL,
+            author TEXT NOT NULL,
+            pubdate TEXT NOT NULL,
+            publisher TEXT NOT NULL,
+            source TEXT NOT NULL,
+            volume TEXT NOT NULL,
+            updated TEXT NOT NULL,
+            position INTEGER NOT NULL,
+            synced_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (list_type, book_id)
+        )
+    `);
+
+    db.run(`
+        CREATE INDEX IF NOT EXISTS idx_calil_list_items_position
+        ON calil_list_items(list_type, position)
+    `);
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS calil_list_sync_state (
+            list_type TEXT PRIMARY KEY,
+            total_count INTEGER NOT NULL,
+            last_synced_at TEXT,
+            last_changed_at TEXT
+        )
+    `);
+
+    db.run(`
+        CREATE TABLE IF NOT EXISTS calil_list_changes (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            list_type TEXT NOT NULL,
+            book_id TEXT NOT NULL,
+            isbn TEXT NOT NULL,
+            title TEXT NOT NULL,
+            change_type TEXT NOT NULL,
+            detected_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    db.run(`
+        CREATE INDEX IF NOT EXISTS idx_calil_list_changes_list
+        ON calil_list_changes(list_type, detected_at)
+    `);
+}
+
+function recordToBook(row: ListItemRecord): Book {
+    return {
+        id: row.book_id,
+        title: row.title,
+        author: row.author,
+        pubdate: row.pubdate,
+        publisher: row.publisher,
+        source: row.source,
+        isbn: row.isbn,
+        volume: row.volume,
+        updated: row.updated,
+    };
+}
+
+/**
+ * Get all mirrored items of a list in Calil order
+ */
+export function getMirroredItems(db: Database, listType: string): Book[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM calil_list_items WHERE list_type = ? ORDER BY position`,
+        )
+        .all(listType) as ListItemRecord[];
+    return rows.map(recordToBook);
+}
+
+/**
+ * Get a single mirrored item by its Calil list entry id
+ */
+export function getMirroredItem(
+    db: Database,
+    listType: string,
+    bookId: string,
+): Book | null {
+    const row = db
+        .prepare(
+            `SELECT * FROM calil_list_items WHERE list_type = ? AND book_id = ?`,
+        )
+        .get(listType, bookId) as ListItemRecord | null;
+    return row ? recordToBook(row) : null;
+}
+
+/**
+ * ISBN and list of every mirrored item (to mark books that are on a list)
+ */
+export function getMirroredIsbns(
+    db: Database,
+): { listType: string; isbn: string }[] {
+    return db
+        .prepare(`SELECT list_type AS listType, isbn FROM calil_list_items`)
+        .all() as { listType: string; isbn: string }[];
+}
+
+/**
+ * Get a single page (1-based) of mirrored items
+ */
+export function getMirroredPage(
+    db: Database,
+    listType: string,
+    page: number,
+    pageSize: number = MIRROR_PAGE_SIZE,
+): Book[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM calil_list_items WHERE list_type = ?
+             ORDER BY position LIMIT ? OFFSET ?`,
+        )
+        .all(listType, pageSize, (page - 1) * pageSize) as ListItemRecord[];
+    return rows.map(recordToBook);
+}
+
+/**
+ * Count mirrored items of a list
+ */
+export function countMirroredItems(db: Database, listType: string): number {
+    const row = db
+        .prepare(
+            `SELECT COUNT(*) as count FROM calil_list_items WHERE list_type = ?`,
+        )
+        .get(listType) as { count: number };
+    return row.count;
+}
+
+/**
+ * Get metadata for a mirrored list in the same shape as fetchBookListMetadata
+ */
+export function getMirroredMetadata(
+    db: Database,
+    listType: string,
+    pageSize: number = MIRROR_PAGE_SIZE,
+): { totalCount: number; totalPages: number; pageSize: number } {
+    const totalCount = countMirroredItems(db, listType);
+    return {
+        totalCount,
+        totalPages: Math.ceil(totalCount / pageSize),
+        pageSize,
+    };
+}
+
+/**
+ * Get sync state of a list, or null if it has never been synced
+ */
+export function getListSyncState(
+    db: Database,
+    listType: string,
+): ListSyncState | null {
+    const row = db
+        .prepare(`SELECT * FROM calil_list_sync_state WHERE list_type = ?`)
+        .get(listType) as {
+        list_type: string;
+        total_count: number;
+        last_synced_at: string | null;
+        last_changed_at: string | null;
+    } | null;
+
+    if (!row) return null;
+
+    return {
+        listType: row.list_type,
+        totalCount: row.total_count,
+        lastSyncedAt: row.last_synced_at,
+        lastChangedAt: row.last_changed_at,
+    };
+}
+
+/**
+ * Get the most recent recorded changes of a list (newest first)
+ */
+export function getListChanges(
+    db: Database,
+    listType: string,
+    limit: number = 50,
+): ListChange[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM calil_list_changes WHERE list_type = ?
+             ORDER BY id DESC LIMIT ?`,
+        )
+        .all(listType, limit) as {
+        id: number;
+        list_type: string;
+        book_id: string;
+        isbn: string;
+        title: string;
+        change_type: ListChangeType;
+        detected_at: string;
+    }[];
+
+    return rows.map((row) => ({
+        id: row.id,
+        listType: row.list_type,
+        bookId: row.book_id,
+        isbn: row.isbn,
+        title: row.title,
+        changeType: row.change_type,
+        detectedAt: row.detected_at,
+    }));
+}
+
+/**
+ * Apply the result of a sync to the mirror in a single transaction
+ *
+ * @param orderedBooks - Books in Calil order. When `complete` is false this is
+ *   only the leading part of the list; mirrored items that were not seen keep
+ *   their relative order after it.
+ * @param complete - Whether orderedBooks covers the whole remote list. Items
+ *   missing from a complete list are deleted and recorded as removed.
+ * @returns Recorded changes
+ */
+export function applyListSync(
+    db: Database,
+    listType: string,
+    orderedBooks: Book[],
+    complete: boolean,
+): { added: Book[]; removed: Book[]; updated: Book[] } {
+    const existing = new Map(
+        getMirroredItems(db, listType).map((book) => [book.id, book]),
+    );
+    const seen = new Set(orderedBooks.map((book) => book.id));
+
+    const added = orderedBooks.filter((book) => !existing.has(book.id));
+    const updated = orderedBooks.filter((book) => {
+        const prev = existing.get(book.id);
+        return prev !== undefined && prev.updated !== book.updated;
+    });
+    const removed = complete
+        ? [...existing.values()].filter((book) => !seen.has(book.id))
+        : [];
+
+    // Seen items first, then untouched mirrored items in their old order
+    const newOrder = [
+        ...orderedBooks,
+        ...(complete
+            ? []
+            : [...existing.values()].filter((book) => !seen.has(book.id))),
+    ];
+
+    const upsert = db.prepare(`
+        INSERT INTO calil_list_items (
+            list_type, book_id, isbn, title, author, pubdate,
+            publisher, source, volume, updated, position, synced_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(list_type, book_id) DO UPDATE SET
+            isbn = excluded.isbn,
+            title = excluded.title,
+            author = excluded.author,
+            pubdate = excluded.pubdate,
+            publisher = excluded.publisher,
+            source = excluded.source,
+            volume = excluded.volume,
+            updated = excluded.updated,
+            position = excluded.position,
+            synced_at = excluded.synced_at
+    `);
+    const remove = db.prepare(
+        `DELETE FROM calil_list_items WHERE list_type = ? AND book_id = ?`,
+    );
+    const logChange = db.prepare(`
+        INSERT INTO calil_list_changes (list_type, book_id, isbn, title, change_type)
+        VALUES (?, ?, ?, ?, ?)
+    `);
+
+    db.run("BEGIN TRANSACTION");
+    try {
+        newOrder.forEach((book, position) => {
+            upsert.run(
+                listType,
+                book.id,
+                book.isbn,
+                book.title,
+                book.author,
+                book.pubdate,
+                book.publisher,
+                book.source,
+                book.volume,
+                book.updated,
+                position,
+            );
+        });
+
+        for (const book of removed) {
+            remove.run(listType, book.id);
+        }
+
+        const changes: [Book, ListChangeType][] = [
+            ...added.map((book): [Book, ListChangeType] => [book, "added"]),
+            ...updated.map((book): [Book, ListChangeType] => [book, "updated"]),
+            ...removed.map((book): [Book, ListChangeType] => [book, "removed"]),
+        ];
+        for (const [book, changeType] of changes) {
+            logChange.run(listType, book.id, book.isbn, book.title, changeType);
+        }
+
+        const hasChanges = changes.length > 0;
+        db.prepare(`
+            INSERT INTO calil_list_sync_state (list_type, total_count, last_synced_at, last_changed_at)
+            VALUES (?, ?, CURRENT_TIMESTAMP, CASE WHEN ? THEN CURRENT_TIMESTAMP END)
+            ON CONFLICT(list_type) DO UPDATE SET
+                total_count = excluded.total_count,
+                last_synced_at = excluded.last_synced_at,
+                last_changed_at = CASE WHEN ? THEN CURRENT_TIMESTAMP
+                                       ELSE calil_list_sync_state.last_changed_at END
+        `).run(listType, newOrder.length, hasChanges ? 1 : 0, hasChanges ? 1 : 0);
+
+        db.run("COMMIT");
+    } catch (error) {
+        db.run("ROLLBACK");
+        throw error;
+    }
+
+    return { added, removed, updated };
+}
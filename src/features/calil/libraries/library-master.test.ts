@@ -0,0 +1,132 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+    calilLibrarySearchUrl,
+    loadLibraryMaster,
+    parseLibraryMaster,
+} from "./library-master";
+import { USER_AGENT } from "../../../shared/http/http-client";
+
+const jsonMaster = JSON.stringify([
+    {
+        libid: "104688",
+        systemid: "Tokyo_Setagaya",
+        systemname: "東京都世田谷区",
+        libkey: "中央",
+        short: "中央",
+        formal: "世田谷区立中央図書館",
+        category: "MEDIUM",
+        pref: "東京都",
+        city: "世田谷区",
+        address: "東京都世田谷区弦巻3-16-8",
+        post: "154-0016",
+        tel: "03-3429-1811",
+        geocode: "139.6469,35.6372",
+        url_pc: "https://libweb.city.setagaya.tokyo.jp/",
+    },
+    { libid: "", systemid: "Broken" },
+]);
+
+const xmlMaster = `<?xml version="1.0" encoding="UTF-8"?>
+<Libraries>
+  <Library>
+    <libid>0102</libid>
+    <systemid>Univ_Tokyo</systemid>
+    <systemname>東京大学</systemname>
+    <libkey>総合</libkey>
+    <short>総合図書館</short>
+    <formal>東京大学附属図書館総合図書館</formal>
+    <category>UNIV</category>
+    <pref>東京都</pref>
+    <city>文京区</city>
+  </Library>
+</Libraries>`;
+
+const tempDir = mkdtempSync(path.join(tmpdir(), "library-master-"));
+
+afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("parseLibraryMaster", () => {
+    test("parses JSON and skips entries without ids", () => {
+        const libraries = parseLibraryMaster(jsonMaster);
+
+        expect(libraries).toHaveLength(1);
+        expect(libraries[0]?.systemid).toBe("Tokyo_Setagaya");
+        expect(libraries[0]?.city).toBe("世田谷区");
+    });
+
+    test("parses JSONP responses", () => {
+        const libraries = parseLibraryMaster(`callback(${jsonMaster});`);
+        expect(libraries[0]?.libid).toBe("104688");
+    });
+
+    test("parses XML and keeps ids as strings", () => {
+        const libraries = parseLibraryMaster(xmlMaster);
+
+        expect(libraries).toHaveLength(1);
+        expect(libraries[0]?.libid).toBe("0102");
+        expect(libraries[0]?.formal).toBe("東京大学附属図書館総合図書館");
+        expect(libraries[0]?.url_pc).toBe("");
+    });
+});
+
+describe("loadLibraryMaster", () => {
+    test("loads a master from a local file", async () => {
+        const file = path.join(tempDir, "libraries.xml");
+        writeFileSync(file, xmlMaster);
+
+        const libraries = await loadLibraryMaster(file);
+        expect(libraries.map((lib) => lib.systemid)).toEqual(["Univ_Tokyo"]);
+    });
+
+    test("fetches a URL with the shared HTTP client through the proxy", async () => {
+        // Stand-in forward proxy: answers with the master itself
+        const seen: { url: string; userAgent: string | null }[] = [];
+        const proxy = Bun.serve({
+            port: 0,
+            fetch(req) {
+                seen.push({ url: req.url, userAgent: req.headers.get("user-agent") });
+                return new Response(`callback(${jsonMaster});`);
+            },
+        });
+        const saved = {
+            HTTP_PROXY: process.env.HTTP_PROXY,
+            NO_PROXY: process.env.NO_PROXY,
+            no_proxy: process.env.no_proxy,
+        };
+        process.env.HTTP_PROXY = `http://localhost:${proxy.port}`;
+        delete process.env.NO_PROXY;
+        delete process.env.no_proxy;
+
+        try {
+            const libraries = await loadLibraryMaster(
+                "http://api.calil.invalid/library?appkey=k&pref=東京都",
+            );
+            expect(libraries.map((lib) => lib.systemid)).toEqual(["Tokyo_Setagaya"]);
+            expect(seen).toEqual([
+                {
+                    url: `http://api.calil.invalid/library?appkey=k&pref=${encodeURIComponent("東京都")}`,
+                    userAgent: USER_AGENT,
+                },
+            ]);
+        } finally {
+            proxy.stop(true);
+            for (const [name, value] of Object.entries(saved)) {
+                if (value === undefined) delete process.env[name];
+                else process.env[name] = value;
+            }
+        }
+    });
+});
+
+describe("calilLibrarySearchUrl", () => {
+    test("encodes the ISBN and systemid", () => {
+        expect(calilLibrarySearchUrl("9784873117522", "Tokyo_Setagaya")).toBe(
+            "https://calil.jp/book/9784873117522/search?nearby=Tokyo_Setagaya",
+        );
+    });
+});
@@ -0,0 +1,155 @@
+import { XMLParser } from "fast-xml-parser";
+import { logger } from "../../../shared/logging/logger";
+import { errorFromResponse } from "../../../shared/errors/upstream-errors";
+import { httpRequest } from "../../../shared/http/http-client";
+
+/**
+ * Calil library master
+ *
+ * Calil identifies every library by `libid`, and groups the branches of one
+ * library system under a `systemid` (the unit used by the check API).
+ * The master is available from the library API per prefecture, as JSON or XML.
+ *
+ * @see https://calil.jp/doc/api_ref.html
+ */
+
+export type CalilLibrary = {
+    libid: string;
+    systemid: string;
+    systemname: string;
+    libkey: string;
+    short: string;
+    formal: string;
+    category: string;
+    pref: string;
+    city: string;
+    address: string;
+    post: string;
+    tel: string;
+    geocode: string;
+    url_pc: string;
+};
+
+export const PREFECTURES = [
+    "北海道", "青森県", "岩手県", "宮城県", "秋田県", "山形県", "福島県",
+    "茨城県", "栃木県", "群馬県", "埼玉県", "千葉県", "東京都", "神奈川県",
+    "新潟県", "富山県", "石川県", "福井県", "山梨県", "長野県", "岐阜県",
+    "静岡県", "愛知県", "三重県", "滋賀県", "京都府", "大阪府", "兵庫県",
+    "奈良県", "和歌山県", "鳥取県", "島根県", "岡山県", "広島県", "山口県",
+    "徳島県", "香川県", "愛媛県", "高知県", "福岡県", "佐賀県", "長崎県",
+    "熊本県", "大分県", "宮崎県", "鹿児島県", "沖縄県",
+] as const;
+
+const DEFAULT_BASE_URL = "https://api.calil.jp";
+
+const FIELDS: (keyof CalilLibrary)[] = [
+    "libid",
+    "systemid",
+    "systemname",
+    "libkey",
+    "short",
+    "formal",
+    "category",
+    "pref",
+    "city",
+    "address",
+    "post",
+    "tel",
+    "geocode",
+    "url_pc",
+];
+
+const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false, // keep libid, post and tel as strings
+    trimValues: true,
+});
+
+function normalizeLibrary(raw: Record<string, unknown>): CalilLibrary | null {
+    const library = Object.fromEntries(
+        FIELDS.map((field) => [field, raw[field] == null ? "" : String(raw[field])]),
+    ) as CalilLibrary;
+
+    return library.libid && library.systemid ? library : null;
+}
+
+/**
+ * Parse a library master in Calil's JSON or XML format
+ *
+ * JSON is an array of library objects (optionally JSONP-wrapped); XML is
+ * `<Libraries><Library>...</Library></Libraries>`.
+ * Entries without libid or systemid are skipped.
+ */
+export function parseLibraryMaster(text: string): CalilLibrary[] {
+    const trimmed = text.trim();
+    let rawLibraries: unknown;
+
+    if (trimmed.startsWith("<")) {
+        const xml = parser.parse(trimmed);
+        rawLibraries = xml?.Libraries?.Library ?? [];
+    } else {
+        // The library API wraps JSON in a JSONP callback unless told otherwise
+        const jsonp = trimmed.match(/^[\w$.]*\(([\s\S]*)\);?$/);
+        rawLibraries = JSON.parse(jsonp ? jsonp[1]! : trimmed);
+    }
+
+    const list = Array.isArray(rawLibraries) ? rawLibraries : [rawLibraries];
+
+    return list
+        .filter((raw): raw is Record<string, unknown> => !!raw && typeof raw === "object")
+        .map(normalizeLibrary)
+        .filter((library): library is CalilLibrary => library !== null);
+}
+
+/**
+ * Load a library master from a local file or an http(s) URL
+ */
+export async function loadLibraryMaster(source: string): Promise<CalilLibrary[]> {
+    let text: string;
+
+    if (/^https?:\/\//.test(source)) {
+        const response = await httpRequest(source, {
+            upstream: "calil",
+            context: "Failed to fetch library master",
+        });
+        if (!response.ok) {
+            throw errorFromResponse("calil", response, "Failed to fetch library master");
+        }
+        text = await response.text();
+    } else {
+        text = await Bun.file(source).text();
+    }
+
+    const libraries = parseLibraryMaster(text);
+    // Drop the query string so the app key is not logged
+    logger.info("Library master loaded", {
+        source: source.split("?")[0],
+        count: libraries.length,
+    });
+    return libraries;
+}
+
+/**
+ * Fetch the libraries of one prefecture from Calil's library API
+ */
+export async function fetchLibrariesByPref(
+    pref: string,
+    options: { appKey: string; baseUrl?: string },
+): Promise<CalilLibrary[]> {
+    const query = new URLSearchParams({
+        appkey: options.appKey,
+        pref,
+        format: "json",
+        callback: "",
+    });
+    return await loadLibraryMaster(
+        `${options.baseUrl ?? DEFAULT_BASE_URL}/library?${query}`,
+    );
+}
+
+/**
+ * Calil page searching a book in one library system
+ */
+export function calilLibrarySearchUrl(isbn: string, systemId: string): string {
+    return `https://calil.jp/book/${encodeURIComponent(isbn)}/search?nearby=${encodeURIComponent(systemId)}`;
+}
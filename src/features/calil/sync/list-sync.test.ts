@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { syncList, type ListSource } from "./list-sync";
+import {
+    getListChanges,
+    getMirroredItems,
+    initListMirrorSchema,
+} from "../db/list-mirror";
+import type { Book } from "../types/book";
+
+const PAGE_SIZE = 2;
+
+function makeBook(id: string, updated = "2024-01-01"): Book {
+    return {
+        id,
+        title: `書籍${id}`,
+        author: "著者",
+        pubdate: "2024-01-01",
+        publisher: "出版社",
+        source: "calil",
+        isbn: "9784873117522",
+        volume: "",
+        updated,
+    };
+}
+
+/**
+ * In-memory Calil stand-in that records which pages were requested
+ */
+function createSource(books: Book[]): ListSource & { requestedPages: number[] } {
+    const requestedPages: number[] = [];
+    return {
+        requestedPages,
+        fetchMetadata: async () => ({
+            totalCount: books.length,
+            totalPages: Math.ceil(books.length / PAGE_SIZE),
+            pageSize: PAGE_SIZE,
+        }),
+        fetchPage: async (_listType, page) => {
+            requestedPages.push(page);
+            return books.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+        },
+    };
+}
+
+describe("syncList", () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = new Database(":memory:");
+        initListMirrorSchema(db);
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    test("初回同期は全ページを取得する", async () => {
+        const source = createSource(
+            ["1", "2", "3", "4", "5"].map((id) => makeBook(id)),
+        );
+        const result = await syncList(db, "wish", source);
+
+        expect(source.requestedPages).toEqual([1, 2, 3]);
+        expect(result.complete).toBe(true);
+        expect(result.added).toBe(5);
+        expect(getMirroredItems(db, "wish").length).toBe(5);
+    });
+
+    test("変更がなければ先頭ページだけで終了する", async () => {
+        const books = ["1", "2", "3", "4", "5"].map((id) => makeBook(id));
+        await syncList(db, "wish", createSource(books));
+
+        const source = createSource(books);
+        const result = await syncList(db, "wish", source);
+
+        expect(source.requestedPages).toEqual([1]);
+        expect(result.complete).toBe(false);
+        expect(result.added).toBe(0);
+        expect(getMirroredItems(db, "wish").length).toBe(5);
+    });
+
+    test("先頭に追加されたアイテムだけを取得して反映する", async () => {
+        const books = ["1", "2", "3", "4", "5"].map((id) => makeBook(id));
+        await syncList(db, "wish", createSource(books));
+
+        const source = createSource([makeBook("6", "2024-02-01"), ...books]);
+        const result = await syncList(db, "wish", source);
+
+        expect(source.requestedPages).toEqual([1, 2]);
+        expect(result.added).toBe(1);
+        expect(getMirroredItems(db, "wish").map((b) => b.id)).toEqual([
+            "6",
+            "1",
+            "2",
+            "3",
+            "4",
+            "5",
+        ]);
+    });
+
+    test("削除があれば全ページを走査して削除を記録する", async () => {
+        const books = ["1", "2", "3", "4", "5"].map((id) => makeBook(id));
+        await syncList(db, "wish", createSource(books));
+
+        const source = createSource(books.filter((b) => b.id !== "4"));
+        const result = await syncList(db, "wish", source);
+
+        expect(source.requestedPages).toEqual([1, 2]);
+        expect(result.complete).toBe(true);
+        expect(result.removed).toBe(1);
+        expect(getMirroredItems(db, "wish").map((b) => b.id)).not.toContain(
+            "4",
+        );
+        expect(getListChanges(db, "wish")[0]?.changeType).toBe("removed");
+    });
+});
@@ -0,0 +1,221 @@
+import type { Database } from "bun:sqlite";
+import {
+    fetchBookListMetadata,
+    fetchBookListPage,
+    type ListType,
+} from "../api/fetch-list";
+import {
+    applyListSync,
+    getListSyncState,
+    getMirroredItems,
+} from "../db/list-mirror";
+import type { Book } from "../types/book";
+import { logger } from "../../../shared/logging/logger";
+import { DEFAULT_PROFILE_ID } from "../../../shared/config/app-paths";
+
+/**
+ * Remote source of list data (defaults to the Calil API)
+ */
+export type ListSource = {
+    fetchMetadata: (
+        listType: ListType,
+    ) => Promise<{ totalCount: number; totalPages: number; pageSize: number }>;
+    fetchPage: (listType: ListType, page: number) => Promise<Book[]>;
+};
+
+export type ListSyncResult = {
+    listType: ListType;
+    totalCount: number;
+    pagesFetched: number;
+    complete: boolean;
+    added: number;
+    removed: number;
+    updated: number;
+};
+
+/**
+ * The Calil lists of a profile (Calil account)
+ * The count is always asked fresh: books added on calil.jp itself don't
+ * invalidate the cached one, and a stale page count would make the sync
+ * stop early and record the books on the uncounted pages as removed.
+ */
+export function calilListSource(profile: string = DEFAULT_PROFILE_ID): ListSource {
+    return {
+        fetchMetadata: (listType) => fetchBookListMetadata(listType, profile, { fresh: true }),
+        fetchPage: (listType, page) => fetchBookListPage(listType, page, profile),
+    };
+}
+
+const calilSource = calilListSource();
+
+/**
+ * Minimum interval between background syncs of the same list
+ */
+const BACKGROUND_SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Synchronize a Calil list into the local mirror
+ *
+ * Calil returns lists ordered by `updated` (newest first), so new and
+ * modified entries are always at the head of the list. Pages are fetched
+ * from the top until a page contains no new or modified entries and the
+ * remote total matches the mirror plus additions; the remaining pages are
+ * then known to be unchanged. If the counts don't add up, something was
+ * removed further down and the whole list is fetched to find it.
+ */
+export async function syncList(
+    db: Database,
+    listType: ListType,
+    source: ListSource = calilSource,
+): Promise<ListSyncResult> {
+    const known = new Map(
+        getMirroredItems(db, listType).map((book) => [book.id, book]),
+    );
+    const isInitialSync = getListSyncState(db, listType) === null;
+
+    const metadata = await source.fetchMetadata(listType);
+    logger.info("List sync started", {
+        listType,
+        remoteCount: metadata.totalCount,
+        mirroredCount: known.size,
+        isInitialSync,
+    });
+
+    const fetched: Book[] = [];
+    const seenIds = new Set<string>();
+    let addedCount = 0;
+    let pagesFetched = 0;
+    let complete = true;
+
+    for (let page = 1; page <= metadata.totalPages; page++) {
+        const books = await source.fetchPage(listType, page);
+        pagesFetched++;
+
+        let pageChanged = false;
+        for (const book of books) {
+            // Pages can shift while we read them; ignore duplicates
+            if (seenIds.has(book.id)) continue;
+            seenIds.add(book.id);
+            fetched.push(book);
+
+            const prev = known.get(book.id);
+            if (!prev) {
+                addedCount++;
+                pageChanged = true;
+            } else if (prev.updated !== book.updated) {
+                pageChanged = true;
+            }
+        }
+
+        const countsMatch = known.size + addedCount === metadata.totalCount;
+        if (
+            !isInitialSync &&
+            !pageChanged &&
+            countsMatch &&
+            page < metadata.totalPages
+        ) {
+            logger.debug("List sync reached unchanged page, stopping", {
+                listType,
+                page,
+            });
+            complete = false;
+            break;
+        }
+    }
+
+    const changes = applyListSync(db, listType, fetched, complete);
+
+    const result: ListSyncResult = {
+        listType,
+        totalCount: metadata.totalCount,
+        pagesFetched,
+        complete,
+        added: changes.added.length,
+        removed: changes.removed.length,
+        updated: changes.updated.length,
+    };
+    logger.info("List sync completed", result);
+
+    return result;
+}
+
+// In-flight syncs per mirror and list type (prevents concurrent syncs of the same list)
+const inFlightSyncs = new Map<string, Promise<ListSyncResult>>();
+
+// Last time a sync finished per mirror and list type
+const lastSyncFinishedAt = new Map<string, number>();
+
+// Each profile mirrors its lists into its own database
+function syncKey(db: Database, listType: ListType): string {
+    return `${db.filename}\0${listType}`;
+}
+
+/**
+ * Run a sync, sharing the promise with concurrent callers
+ */
+export function requestListSync(
+    db: Database,
+    listType: ListType,
+    source: ListSource = calilSource,
+): Promise<ListSyncResult> {
+    const key = syncKey(db, listType);
+    const inFlight = inFlightSyncs.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = syncList(db, listType, source).finally(() => {
+        inFlightSyncs.delete(key);
+        lastSyncFinishedAt.set(key, Date.now());
+    });
+    inFlightSyncs.set(key, promise);
+    return promise;
+}
+
+/**
+ * Sync a list that was just modified through the app
+ * Waits for a sync that may have started before the change, then runs a new one.
+ */
+export async function resyncList(
+    db: Database,
+    listType: ListType,
+    source: ListSource = calilSource,
+): Promise<ListSyncResult> {
+    const inFlight = inFlightSyncs.get(syncKey(db, listType));
+    if (inFlight) {
+        await inFlight.catch(() => undefined);
+    }
+    return await requestListSync(db, listType, source);
+}
+
+/**
+ * Make sure a list can be served from the mirror
+ *
+ * The first time a list is requested the sync is awaited so there is
+ * something to show. Afterwards the mirror is returned immediately and a
+ * background sync is started (at most once per BACKGROUND_SYNC_INTERVAL_MS).
+ */
+export async function ensureListMirror(
+    db: Database,
+    listType: ListType,
+    source: ListSource = calilSource,
+): Promise<void> {
+    if (getListSyncState(db, listType) === null) {
+        await requestListSync(db, listType, source);
+        return;
+    }
+
+    const key = syncKey(db, listType);
+    const lastFinished = lastSyncFinishedAt.get(key) ?? 0;
+    if (
+        inFlightSyncs.has(key) ||
+        Date.now() - lastFinished < BACKGROUND_SYNC_INTERVAL_MS
+    ) {
+        return;
+    }
+
+    requestListSync(db, listType, source).catch((error) => {
+        logger.error("Background list sync failed", {
+            listType,
+            error: String(error),
+        });
+    });
+}
@@ -4,6 +4,11 @@ import { existsSync } from "node:fs";
 import path from "node:path";
 import { logger } from "../../../shared/logging/logger";
 import { appPaths, ensureDir } from "../../../shared/config/app-paths";
+import { errorFromResponse } from "../../../shared/errors/upstream-errors";
+import {
+    getUpstreamBaseUrl,
+    httpRequest,
+} from "../../../shared/http/http-client";
 
 const CACHE_DIR = appPaths.coverCache;
 
@@ -52,7 +57,12 @@ export async function initCoverCache() {
     });
 }
 
-// Get cached cover or fetch from NDL
+/**
+ * Get cached cover or fetch from NDL
+ *
+ * @returns The cached image, or null if NDL has no cover for the ISBN
+ * @throws {UpstreamUnavailableError} If NDL can't be reached or answers 429/5xx
+ */
 export async function getCoverImage(
     isbn: string,
 ): Promise<{ path: string; contentType: string } | null> {
@@ -77,30 +87,45 @@ export async function getCoverImage(
     }
 
     // Fetch from NDL
-    const ndlUrl = `https://ndlsearch.ndl.go.jp/thumbnail/${isbn}.jpg`;
+    const ndlUrl = `${getUpstreamBaseUrl("thumbnail")}/${isbn}.jpg`;
     logger.debug("Fetching cover from NDL", { isbn, url: ndlUrl });
-    try {
-        const response = await fetch(ndlUrl);
-        logger.debug("NDL response received", {
+
+    const response = await httpRequest(ndlUrl, {
+        upstream: "ndl",
+        context: `Failed to fetch cover ${isbn}`,
+    });
+    logger.debug("NDL response received", {
+        isbn,
+        status: response.status,
+        ok: response.ok,
+    });
+
+    if (!response.ok) {
+        if (response.status === 404) {
+            logger.debug("Cover not found on NDL", { isbn });
+            // Add to negative cache to prevent future attempts
+            addToNotFoundCache(isbn);
+            return null;
+        }
+
+        logger.warn("NDL cover fetch failed", {
             isbn,
             status: response.status,
-            ok: response.ok,
         });
-
-        if (!response.ok) {
-            if (response.status === 404) {
-                logger.debug("Cover not found on NDL", { isbn });
-                // Add to negative cache to prevent future attempts
-                addToNotFoundCache(isbn);
-            } else {
-                logger.warn("NDL cover fetch failed", {
-                    isbn,
-                    status: response.status,
-                });
-            }
+        const error = errorFromResponse(
+            "ndl",
+            response,
+            `Failed to fetch cover ${isbn}`,
+        );
+        if (!error.retryable) {
+            // Other 4xx won't change on retry; treat like a missing cover
+            addToNotFoundCache(isbn);
             return null;
         }
+        throw error;
+    }
 
+    try {
         const arrayBuffer = await response.arrayBuffer();
         logger.debug("Image data received from NDL", {
             isbn,
@@ -139,7 +164,7 @@ export async function getCoverImage(
             contentType: "image/jpeg",
         };
     } catch (error) {
-        logger.error("Failed to fetch cover image", {
+        logger.error("Failed to store cover image", {
             isbn,
             error: String(error),
         });
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Cookie } from "puppeteer";
+import { logger } from "../../shared/logging/logger";
+import { startFakeUpstream, type FakeUpstream } from "./fake-upstream";
+
+/**
+ * Offline demo mode (`bun index.tsx --demo`)
+ *
+ * Starts the fake Calil/NDL/openBD/Google Books server and points the
+ * upstream base URLs at it.
+ * Login is skipped (a fixed demo cookie is used instead of ensureSession)
+ * and, unless CALIL_APP_ROOT is set, data goes to a fresh temporary
+ * directory so the real databases and caches are never touched.
+ */
+
+export const DEMO_COOKIE: Cookie = {
+    name: "calil_demo_session",
+    value: "demo",
+    domain: "127.0.0.1",
+    path: "/",
+    expires: -1,
+    size: 22,
+    httpOnly: true,
+    secure: false,
+    session: true,
+};
+
+export function isDemoMode(): boolean {
+    return process.env.CALIL_DEMO === "1";
+}
+
+/**
+ * Enable the demo mode; must run before the app modules are imported
+ * because app paths are resolved at import time
+ */
+export function startDemoMode(): FakeUpstream {
+    const upstream = startFakeUpstream();
+
+    process.env.CALIL_DEMO = "1";
+    process.env.CALIL_BASE_URL = upstream.url;
+    process.env.NDL_BASE_URL = upstream.url;
+    process.env.OPENBD_BASE_URL = upstream.url;
+    process.env.GOOGLE_BOOKS_BASE_URL = upstream.url;
+    delete process.env.NDL_THUMBNAIL_BASE_URL;
+
+    // The fake server is local; never send it through a proxy
+    process.env.NO_PROXY = [process.env.NO_PROXY || process.env.no_proxy, "127.0.0.1"]
+        .filter(Boolean)
+        .join(",");
+
+    if (!process.env.CALIL_APP_ROOT) {
+        const appRoot = mkdtempSync(path.join(tmpdir(), "calil-demo-"));
+        process.env.CALIL_APP_ROOT = appRoot;
+        process.on("exit", () => {
+            try {
+                rmSync(appRoot, { recursive: true, force: true });
+            } catch {
+                // Best effort; the OS cleans up the temp directory eventually
+            }
+        });
+    }
+
+    logger.info("Demo mode enabled", {
+        upstream: upstream.url,
+        appRoot: process.env.CALIL_APP_ROOT,
+    });
+    return upstream;
+}
@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startFakeUpstream, DEMO_YOMITAI_TOKEN, type FakeUpstream } from "./fake-upstream";
+import { parseNdlOpenSearch } from "../ndl/utility";
+import { parseNdlSru } from "../ndl/sru";
+import { parseOpenBd } from "../metadata/openbd";
+import { parseGoogleBooks } from "../metadata/google-books";
+import fixtures from "./fixtures/books.json";
+
+let upstream: FakeUpstream;
+
+const listApi = (path: string, body: Record<string, unknown>, token = DEMO_YOMITAI_TOKEN) =>
+    fetch(`${upstream.url}/api/list/v2/${path}`, {
+        method: "POST",
+        headers: {
+            "content-type": "application/json",
+            "Calil-Yomitai-Token": token,
+        },
+        body: JSON.stringify(body),
+    });
+
+beforeAll(() => {
+    upstream = startFakeUpstream();
+});
+
+afterAll(() => {
+    upstream.stop();
+});
+
+describe("fake Calil", () => {
+    test("トークンが無いリクエストは403", async () => {
+        const res = await listApi("get_total_count", { name: "wish" }, "");
+        expect(res.status).toBe(403);
+    });
+
+    test("フィクスチャのリストを updated の新しい順にページングして返す", async () => {
+        const wishCount = fixtures.books.filter((book) => book.list === "wish").length;
+
+        const count = await (await listApi("get_total_count", { name: "wish" })).json();
+        expect(count).toEqual({ totalCount: wishCount });
+
+        const page1 = (await (await listApi("", { name: "wish", page: 1, perCount: 20 })).json()).books;
+        const page2 = (await (await listApi("", { name: "wish", page: 2, perCount: 20 })).json()).books;
+        expect(page1).toHaveLength(20);
+        expect(page2).toHaveLength(wishCount - 20);
+
+        const updated = [...page1, ...page2].map((book) => book.updated);
+        expect(updated).toEqual([...updated].sort().reverse());
+    });
+
+    test("追加・削除がリストに反映される", async () => {
+        await listApi("add", { name: "read", isbn: "9784000009999" });
+        const [added] = (await (await listApi("", { name: "read", page: 1, perCount: 20 })).json()).books;
+        expect(added).toMatchObject({ isbn: "9784000009999", title: "ISBN 9784000009999" });
+
+        await listApi("delete", { name: "read", id: added.id });
+        const books = (await (await listApi("", { name: "read", page: 1, perCount: 20 })).json()).books;
+        expect(books.some((book: { id: string }) => book.id === added.id)).toBe(false);
+    });
+});
+
+describe("fake NDL", () => {
+    test("OpenSearch はフィクスチャの書誌を RSS で返す", async () => {
+        const book = fixtures.books[0]!;
+        const res = await fetch(`${upstream.url}/api/opensearch?isbn=${book.isbn}`);
+        const feed = parseNdlOpenSearch(await res.text());
+
+        expect(feed.totalResults).toBe(1);
+        expect(feed.items[0]).toMatchObject({
+            title: book.title,
+            creators: book.creators,
+            publisher: book.publisher,
+            isbn13: book.isbn,
+            titleKana: book.titleKana,
+            extent: book.extent,
+        });
+    });
+
+    test("キーワード検索は部分一致で絞り込み、cnt/idx でページを返す", async () => {
+        const res = await fetch(`${upstream.url}/api/opensearch?ndc=007&cnt=1&idx=2`);
+        const feed = parseNdlOpenSearch(await res.text());
+        const expected = fixtures.books.filter(
+            (book) => book.sources.includes("ndl") && book.ndc10.startsWith("007"),
+        );
+
+        expect(feed.totalResults).toBe(expected.length);
+        expect(feed.startIndex).toBe(2);
+        expect(feed.items.map((item) => item.isbn13)).toEqual([expected[1]!.isbn]);
+    });
+
+    test("出版年の範囲で絞り込む", async () => {
+        const res = await fetch(`${upstream.url}/api/opensearch?title=${encodeURIComponent("型システム")}&from=2016`);
+        expect(parseNdlOpenSearch(await res.text()).totalResults).toBe(
+            fixtures.books.filter(
+                (book) => book.title.includes("型システム") && book.issued >= "2016",
+            ).length,
+        );
+    });
+
+    test("SRU は isbn の CQL に DC-NDL のレコードを返す", async () => {
+        const book = fixtures.books[0]!;
+        const query = encodeURIComponent(`isbn="${book.isbn}"`);
+        const res = await fetch(`${upstream.url}/api/sru?operation=searchRetrieve&query=${query}`);
+        const feed = parseNdlSru(await res.text());
+
+        expect(feed.totalResults).toBe(1);
+        expect(feed.items[0]).toMatchObject({
+            title: book.title,
+            titleKana: book.titleKana,
+            publisher: book.publisher,
+            isbn13: book.isbn,
+            ndc10: book.ndc10,
+        });
+    });
+
+    test("SRU は OR でつないだ ISBN をまとめて返す", async () => {
+        const [a, b] = fixtures.books;
+        const query = encodeURIComponent(`isbn="${a!.isbn}" OR isbn="${b!.isbn}" OR isbn="9784000009999"`);
+        const res = await fetch(`${upstream.url}/api/sru?operation=searchRetrieve&query=${query}`);
+
+        expect(parseNdlSru(await res.text()).items.map((item) => item.isbn13)).toEqual([a!.isbn, b!.isbn]);
+    });
+
+    test("未知の ISBN は0件", async () => {
+        const res = await fetch(`${upstream.url}/api/opensearch?isbn=9784000009999`);
+        expect(parseNdlOpenSearch(await res.text()).items).toEqual([]);
+    });
+
+    test("書影は JPEG、無いものは404", async () => {
+        const withCover = await fetch(`${upstream.url}/thumbnail/${fixtures.books[0]!.isbn}.jpg`);
+        expect(withCover.status).toBe(200);
+        expect(withCover.headers.get("content-type")).toBe("image/jpeg");
+        const bytes = new Uint8Array(await withCover.arrayBuffer());
+        expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+
+        const withoutCover = await fetch(`${upstream.url}/thumbnail/${fixtures.books[2]!.isbn}.jpg`);
+        expect(withoutCover.status).toBe(404);
+    });
+});
+
+describe("fake openBD / Google Books", () => {
+    const onlyIn = (source: string) =>
+        fixtures.books.find((book) => book.sources.length === 1 && book.sources[0] === source)!;
+
+    test("NDL に無い本は NDL では0件", async () => {
+        const book = onlyIn("openbd");
+        const res = await fetch(`${upstream.url}/api/opensearch?isbn=${book.isbn}`);
+        expect(parseNdlOpenSearch(await res.text()).items).toEqual([]);
+    });
+
+    test("openBD は ISBN ごとの書誌を返し、未知の ISBN は null", async () => {
+        const book = onlyIn("openbd");
+        const res = await fetch(`${upstream.url}/v1/get?isbn=${book.isbn},9784000009999`);
+        const json = await res.json();
+
+        expect(json[1]).toBeNull();
+        expect(parseOpenBd(json)).toEqual([
+            expect.objectContaining({
+                title: book.title,
+                titleKana: book.titleKana,
+                creators: book.creators,
+                publisher: book.publisher,
+                issued: book.issued,
+                price: book.price,
+                descriptionHtml: book.description,
+            }),
+        ]);
+    });
+
+    test("Google Books は q=isbn: の検索に volume を返す", async () => {
+        const book = onlyIn("google");
+        const res = await fetch(`${upstream.url}/books/v1/volumes?q=isbn:${book.isbn}`);
+
+        expect(parseGoogleBooks(await res.json(), book.isbn)).toEqual([
+            expect.objectContaining({ title: book.title, creators: book.creators, issued: book.issued }),
+        ]);
+
+        const unknown = await fetch(`${upstream.url}/books/v1/volumes?q=isbn:${onlyIn("openbd").isbn}`);
+        expect(parseGoogleBooks(await unknown.json(), onlyIn("openbd").isbn)).toEqual([]);
+    });
+});
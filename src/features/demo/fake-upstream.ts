@@ -0,0 +1,441 @@
+import fixtures from "./fixtures/books.json";
+import type { BookElement } from "../calil/api/fetch-list";
+import { logger } from "../../shared/logging/logger";
+
+/**
+ * In-process stand-in for Calil, NDL, openBD and Google Books used by the
+ * demo mode and the tests
+ *
+ * Serves the subset of the upstream APIs the app talks to, backed by the
+ * fixtures in ./fixtures:
+ * - Calil: session check (/), Yomitai token, list total count / pages,
+ *   add and delete (changes are kept in memory until the server stops)
+ * - NDL: OpenSearch by ISBN or keywords (rendered as OpenSearch RSS XML),
+ *   SRU by ISBNs (DC-NDL records) and thumbnails
+ * - openBD: /v1/get by ISBNs; Google Books: /books/v1/volumes?q=isbn:…
+ *
+ * Each fixture lists in `sources` the providers that know it, so books
+ * missing from NDL can be demonstrated.
+ */
+
+export type FixtureBook = (typeof fixtures.books)[number];
+
+export type FakeUpstream = {
+    url: string;
+    stop: () => void;
+};
+
+export const DEMO_YOMITAI_TOKEN = "demo-token";
+
+// @hono/node-server replaces the global Response once the app is loaded,
+// and Bun.serve only accepts its own; keep a reference to the native one
+const NativeResponse = globalThis.Response;
+
+const COVERS_DIR = new URL("./fixtures/covers/", import.meta.url);
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function hyphenateIsbn(isbn: string): string {
+    return `${isbn.slice(0, 3)}-${isbn.slice(3, 4)}-${isbn.slice(4, 10)}-${isbn.slice(10, 12)}-${isbn.slice(12)}`;
+}
+
+/**
+ * Render fixture records as an NDL OpenSearch RSS feed
+ *
+ * @param page - Paging of a keyword search; defaults to a single page
+ */
+export function renderOpenSearchXml(
+    books: FixtureBook[],
+    page: { totalResults: number; startIndex: number } = {
+        totalResults: books.length,
+        startIndex: 1,
+    },
+): string {
+    const items = books
+        .map((book, index) => {
+            const ndlBibId = `0${book.isbn.slice(-8)}`;
+            return `
+    <item>
+      <title>${escapeXml(book.title)}</title>
+      <link>https://ndlsearch.ndl.go.jp/books/R100000002-I${ndlBibId}</link>
+      <description><![CDATA[<p>${escapeXml(book.description)}</p>]]></description>
+      <author>${escapeXml(book.creators.join(", "))}</author>
+      <category>図書</category>
+      <guid isPermaLink="true">https://ndlsearch.ndl.go.jp/books/R100000002-I${ndlBibId}</guid>
+      <dc:title>${escapeXml(book.title)}</dc:title>
+      <dcndl:titleTranscription>${escapeXml(book.titleKana)}</dcndl:titleTranscription>
+${book.creators.map((creator) => `      <dc:creator>${escapeXml(creator)}</dc:creator>`).join("\n")}
+      <dc:publisher>${escapeXml(book.publisher)}</dc:publisher>
+      <dcterms:issued xsi:type="dcterms:W3CDTF">${book.issued}</dcterms:issued>
+      <dc:date xsi:type="dcterms:W3CDTF">${book.issued.slice(0, 4)}</dc:date>
+      <dcndl:price>${escapeXml(book.price)}</dcndl:price>
+      <dc:extent>${escapeXml(book.extent)}</dc:extent>
+      <dc:identifier xsi:type="dcndl:ISBN">${hyphenateIsbn(book.isbn)}</dc:identifier>
+      <dc:identifier xsi:type="dcndl:NDLBibID">${ndlBibId}</dc:identifier>
+      <dc:identifier xsi:type="dcndl:JPNO">${23000000 + index}</dc:identifier>
+${book.subjects.map((subject) => `      <dc:subject>${escapeXml(subject)}</dc:subject>`).join("\n")}
+      <dc:subject xsi:type="dcndl:NDC10">${book.ndc10}</dc:subject>
+    </item>`;
+        })
+        .join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcndl="http://ndl.go.jp/dcndl/terms/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:openSearch="http://a9.com/-/spec/opensearchrss/1.0/" version="2.0">
+  <channel>
+    <title>国立国会図書館サーチ（デモ）</title>
+    <openSearch:totalResults>${page.totalResults}</openSearch:totalResults>
+    <openSearch:startIndex>${page.startIndex}</openSearch:startIndex>
+    <openSearch:itemsPerPage>${books.length}</openSearch:itemsPerPage>${items}
+  </channel>
+</rss>`;
+}
+
+/**
+ * Render fixture records as an NDL SRU response with DC-NDL records
+ */
+export function renderSruXml(books: FixtureBook[]): string {
+    const records = books
+        .map((book, index) => {
+            const ndlBibId = `0${book.isbn.slice(-8)}`;
+            const about = `https://ndlsearch.ndl.go.jp/books/R100000002-I${ndlBibId}`;
+            return `
+    <record>
+      <recordSchema>info:ndl-ndl/dcndl</recordSchema>
+      <recordPacking>xml</recordPacking>
+      <recordData>
+        <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:rdfs="http://www.w3.org/2000/01/rdf-schema#" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcndl="http://ndl.go.jp/dcndl/terms/" xmlns:foaf="http://xmlns.com/foaf/0.1/">
+          <dcndl:BibAdminResource rdf:about="${about}"/>
+          <dcndl:BibResource rdf:about="${about}#material">
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/ISBN">${hyphenateIsbn(book.isbn)}</dcterms:identifier>
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/NDLBibID">${ndlBibId}</dcterms:identifier>
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/JPNO">${23000000 + index}</dcterms:identifier>
+            <dc:title><rdf:Description><rdf:value>${escapeXml(book.title)}</rdf:value><dcndl:transcription>${escapeXml(book.titleKana)}</dcndl:transcription></rdf:Description></dc:title>
+${book.creators.map((creator) => `            <dc:creator>${escapeXml(creator)}</dc:creator>`).join("\n")}
+            <dcterms:publisher><foaf:Agent><foaf:name>${escapeXml(book.publisher)}</foaf:name></foaf:Agent></dcterms:publisher>
+            <dcterms:date>${book.issued}</dcterms:date>
+            <dcterms:issued rdf:datatype="http://purl.org/dc/terms/W3CDTF">${book.issued.slice(0, 4)}</dcterms:issued>
+${book.subjects.map((subject) => `            <dcterms:subject><rdf:Description><rdf:value>${escapeXml(subject)}</rdf:value></rdf:Description></dcterms:subject>`).join("\n")}
+            <dcterms:subject rdf:resource="http://id.ndl.go.jp/class/ndc10/${book.ndc10}"/>
+            <dcterms:extent>${escapeXml(book.extent)}</dcterms:extent>
+            <dcndl:price>${escapeXml(book.price)}</dcndl:price>
+            <dcterms:abstract>${escapeXml(book.description)}</dcterms:abstract>
+            <dcndl:materialType rdf:resource="http://ndl.go.jp/ndltype/Book" rdfs:label="図書"/>
+          </dcndl:BibResource>
+        </rdf:RDF>
+      </recordData>
+      <recordPosition>${index + 1}</recordPosition>
+    </record>`;
+        })
+        .join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<searchRetrieveResponse xmlns="http://www.loc.gov/zing/srw/">
+  <version>1.2</version>
+  <numberOfRecords>${books.length}</numberOfRecords>
+  <nextRecordPosition>0</nextRecordPosition>
+  <records>${records}
+  </records>
+</searchRetrieveResponse>`;
+}
+
+// "2015.1" -> "2015-01"（from/until と比較するため）
+function issuedMonth(issued: string): string {
+    const [year, month = "01"] = issued.split(".");
+    return `${year}-${month.padStart(2, "0")}`;
+}
+
+// "180p ; 19cm" -> "180"
+function pageCount(extent: string): string | null {
+    return extent.match(/^(\d+)p/)?.[1] ?? null;
+}
+
+/**
+ * Render fixture records as an openBD /v1/get response
+ * (one entry per requested ISBN, null for unknown ones)
+ */
+export function renderOpenBdJson(books: (FixtureBook | null)[]): unknown[] {
+    return books.map((book) => {
+        if (!book) return null;
+        const pages = pageCount(book.extent);
+        return {
+            onix: {
+                RecordReference: book.isbn,
+                DescriptiveDetail: {
+                    TitleDetail: {
+                        TitleType: "01",
+                        TitleElement: {
+                            TitleElementLevel: "01",
+                            TitleText: { content: book.title, collationkey: book.titleKana },
+                        },
+                    },
+                    Contributor: book.creators.map((name, index) => ({
+                        SequenceNumber: String(index + 1),
+                        ContributorRole: ["A01"],
+                        PersonName: { content: name },
+                    })),
+                    Extent: pages ? [{ ExtentType: "11", ExtentValue: pages, ExtentUnit: "03" }] : [],
+                },
+                CollateralDetail: {
+                    TextContent: [{ TextType: "03", ContentAudience: "00", Text: book.description }],
+                },
+                ProductSupply: {
+                    SupplyDetail: {
+                        Price: [{ PriceType: "01", PriceAmount: book.price.replace(/\D/g, ""), CurrencyCode: "JPY" }],
+                    },
+                },
+            },
+            summary: {
+                isbn: book.isbn,
+                title: book.title,
+                volume: "",
+                series: "",
+                publisher: book.publisher,
+                pubdate: issuedMonth(book.issued),
+                cover: "",
+                author: book.creators.map((name) => `${name}／著`).join(" "),
+            },
+        };
+    });
+}
+
+/**
+ * Render fixture records as a Google Books volumes search response
+ */
+export function renderGoogleBooksJson(books: FixtureBook[]): unknown {
+    if (books.length === 0) {
+        return { kind: "books#volumes", totalItems: 0 };
+    }
+    return {
+        kind: "books#volumes",
+        totalItems: books.length,
+        items: books.map((book) => ({
+            kind: "books#volume",
+            id: `demo${book.isbn.slice(-6)}`,
+            volumeInfo: {
+                title: book.title,
+                authors: book.creators,
+                publisher: book.publisher,
+                publishedDate: issuedMonth(book.issued),
+                description: book.description,
+                industryIdentifiers: [{ type: "ISBN_13", identifier: book.isbn }],
+                pageCount: Number(pageCount(book.extent)) || undefined,
+                categories: book.subjects,
+                language: "ja",
+            },
+        })),
+    };
+}
+
+/**
+ * Keyword search over the fixtures (title/creator/publisher/ndc are partial
+ * matches, from/until compare the issued year or month)
+ */
+export function searchFixtureBooks(params: URLSearchParams): FixtureBook[] {
+    const includes = (value: string, key: string) => {
+        const keyword = params.get(key);
+        return !keyword || value.includes(keyword);
+    };
+    const from = params.get("from");
+    const until = params.get("until");
+
+    return fixtures.books.filter((book) => {
+        if (!book.sources.includes("ndl")) return false;
+        const month = issuedMonth(book.issued);
+        return (
+            includes(book.title, "title") &&
+            includes(book.creators.join(" "), "creator") &&
+            includes(book.publisher, "publisher") &&
+            (!params.get("ndc") || book.ndc10.startsWith(params.get("ndc")!)) &&
+            (!from || month.slice(0, from.length) >= from) &&
+            (!until || month.slice(0, until.length) <= until)
+        );
+    });
+}
+
+function toBookElement(book: FixtureBook, id: number): BookElement {
+    return {
+        id: String(id),
+        isbn: book.isbn,
+        title: book.title,
+        author: book.creators.join(", "),
+        publisher: book.publisher,
+        pubdate: book.issued,
+        source: "demo",
+        updated: book.updated,
+        volume: "",
+    };
+}
+
+function timestamp(): string {
+    return new Date().toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Start the fake upstream on a free port (or the given one)
+ */
+export function startFakeUpstream(options: { port?: number } = {}): FakeUpstream {
+    const byIsbn = new Map(fixtures.books.map((book) => [book.isbn, book]));
+    // A provider's view of the fixtures
+    const lookup = (isbn: string, source: string) => {
+        const book = byIsbn.get(isbn.replace(/-/g, ""));
+        return book?.sources.includes(source) ? book : null;
+    };
+
+    // Calil lists, kept sorted by `updated` (newest first) like the real API
+    let nextId = 1;
+    const lists = new Map<string, BookElement[]>();
+    for (const book of fixtures.books) {
+        const list = lists.get(book.list) ?? [];
+        list.push(toBookElement(book, nextId++));
+        lists.set(book.list, list);
+    }
+    const sortList = (books: BookElement[]) =>
+        books.sort((a, b) => b.updated.localeCompare(a.updated));
+    lists.forEach(sortList);
+
+    const calil = async (req: Request, pathname: string): Promise<Response> => {
+        if (pathname === "/") {
+            return new NativeResponse("<html><body>Calil (demo)</body></html>", {
+                headers: { "content-type": "text/html; charset=utf-8" },
+            });
+        }
+
+        if (pathname === "/infrastructure/v2/get_yomitai_token") {
+            return NativeResponse.json({ "Calil-Yomitai-Token": DEMO_YOMITAI_TOKEN });
+        }
+
+        if (req.headers.get("Calil-Yomitai-Token") !== DEMO_YOMITAI_TOKEN) {
+            return new NativeResponse("Forbidden", { status: 403 });
+        }
+
+        const body = (await req.json().catch(() => ({}))) as Record<string, any>;
+        const name = String(body.name ?? "");
+        const list = lists.get(name) ?? [];
+        lists.set(name, list);
+
+        switch (pathname) {
+            case "/api/list/v2/get_total_count":
+                return NativeResponse.json({ totalCount: list.length });
+            case "/api/list/v2/": {
+                const perCount = Number(body.perCount) || 20;
+                const page = Number(body.page) || 1;
+                const start = (page - 1) * perCount;
+                return NativeResponse.json({ books: list.slice(start, start + perCount) });
+            }
+            case "/api/list/v2/add": {
+                const isbn = String(body.isbn ?? "");
+                if (!list.some((book) => book.isbn === isbn)) {
+                    const fixture = byIsbn.get(isbn);
+                    const element: BookElement = fixture
+                        ? toBookElement(fixture, nextId++)
+                        : {
+                              id: String(nextId++),
+                              isbn,
+                              title: `ISBN ${isbn}`,
+                              author: "",
+                              publisher: "",
+                              pubdate: "",
+                              source: "demo",
+                              updated: "",
+                              volume: "",
+                          };
+                    element.updated = timestamp();
+                    list.push(element);
+                    sortList(list);
+                }
+                return NativeResponse.json({ result: "ok" });
+            }
+            case "/api/list/v2/delete": {
+                const index = list.findIndex((book) => book.id === String(body.id));
+                if (index >= 0) list.splice(index, 1);
+                return NativeResponse.json({ result: "ok" });
+            }
+        }
+        return new NativeResponse("Not Found", { status: 404 });
+    };
+
+    const ndl = async (url: URL): Promise<Response> => {
+        if (url.pathname === "/api/opensearch") {
+            const headers = { "content-type": "application/xml; charset=utf-8" };
+            if (url.searchParams.has("isbn")) {
+                const book = lookup(url.searchParams.get("isbn") ?? "", "ndl");
+                return new NativeResponse(renderOpenSearchXml(book ? [book] : []), { headers });
+            }
+
+            const matches = searchFixtureBooks(url.searchParams);
+            const cnt = Number(url.searchParams.get("cnt")) || 20;
+            const idx = Number(url.searchParams.get("idx")) || 1;
+            const page = matches.slice(idx - 1, idx - 1 + cnt);
+            return new NativeResponse(
+                renderOpenSearchXml(page, { totalResults: matches.length, startIndex: idx }),
+                { headers },
+            );
+        }
+
+        if (url.pathname === "/api/sru") {
+            // isbn="..." を OR でつないだ CQL だけに対応
+            const books = [...(url.searchParams.get("query") ?? "").matchAll(/isbn="?([\d-]+)"?/g)]
+                .map((match) => lookup(match[1]!, "ndl"))
+                .filter((book): book is FixtureBook => !!book);
+            return new NativeResponse(renderSruXml(books), {
+                headers: { "content-type": "application/xml; charset=utf-8" },
+            });
+        }
+
+        const thumbnail = url.pathname.match(/^\/thumbnail\/(\d+)\.jpg$/);
+        if (thumbnail) {
+            const file = Bun.file(new URL(`${thumbnail[1]}.jpg`, COVERS_DIR));
+            if (await file.exists()) {
+                return new NativeResponse(file, {
+                    headers: { "content-type": "image/jpeg" },
+                });
+            }
+        }
+        return new NativeResponse("Not Found", { status: 404 });
+    };
+
+    const metadata = (url: URL): Response => {
+        if (url.pathname === "/v1/get") {
+            const isbns = (url.searchParams.get("isbn") ?? "").split(",").filter(Boolean);
+            return NativeResponse.json(renderOpenBdJson(isbns.map((isbn) => lookup(isbn, "openbd"))));
+        }
+
+        // q=isbn:9784...
+        const isbn = (url.searchParams.get("q") ?? "").match(/^isbn:([\d-]+)$/)?.[1] ?? "";
+        const book = lookup(isbn, "google");
+        return NativeResponse.json(renderGoogleBooksJson(book ? [book] : []));
+    };
+
+    const server = Bun.serve({
+        port: options.port ?? 0,
+        hostname: "127.0.0.1",
+        async fetch(req) {
+            const url = new URL(req.url);
+            if (
+                url.pathname === "/api/opensearch" ||
+                url.pathname === "/api/sru" ||
+                url.pathname.startsWith("/thumbnail/")
+            ) {
+                return ndl(url);
+            }
+            if (url.pathname === "/v1/get" || url.pathname === "/books/v1/volumes") {
+                return metadata(url);
+            }
+            return calil(req, url.pathname);
+        },
+    });
+
+    const url = `http://127.0.0.1:${server.port}`;
+    logger.info("Demo upstream started", { url, books: fixtures.books.length });
+
+    return {
+        url,
+        stop: () => server.stop(true),
+    };
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    getList,
+    getLists,
+    initListRegistrySchema,
+    isValidListId,
+    registerList,
+    unregisterList,
+} from "./list-registry";
+
+let db: Database;
+
+beforeEach(() => {
+    db = new Database(":memory:");
+    initListRegistrySchema(db);
+});
+
+describe("list registry", () => {
+    test("seeds the default Calil lists", () => {
+        expect(getLists(db).map((list) => list.id)).toEqual(["wish", "read"]);
+        expect(getList(db, "wish")).toMatchObject({
+            name: "読みたい本",
+            icon: "📖",
+            source: "calil",
+        });
+    });
+
+    test("keeps user changes when the schema is initialized again", () => {
+        registerList(db, { id: "wish", name: "いつか読む", icon: "📖", source: "calil" });
+        initListRegistrySchema(db);
+
+        expect(getList(db, "wish")?.name).toBe("いつか読む");
+    });
+
+    test("does not seed an unregistered default list again on restart", () => {
+        unregisterList(db, "read");
+        initListRegistrySchema(db);
+
+        expect(getLists(db).map((list) => list.id)).toEqual(["wish"]);
+    });
+
+    test("appends new lists after existing ones", () => {
+        registerList(db, { id: "owned", name: "持っている本", icon: "🏠", source: "local" });
+
+        expect(getLists(db).map((list) => list.id)).toEqual(["wish", "read", "owned"]);
+        expect(getLists(db, "calil").map((list) => list.id)).toEqual(["wish", "read"]);
+        expect(getLists(db, "local").map((list) => list.id)).toEqual(["owned"]);
+    });
+
+    test("updating a list keeps its position", () => {
+        registerList(db, { id: "wish", name: "読みたい", icon: "⭐", source: "calil" });
+
+        expect(getLists(db).map((list) => list.id)).toEqual(["wish", "read"]);
+        expect(getList(db, "wish")?.icon).toBe("⭐");
+    });
+
+    test("rejects ids that are not URL-safe", () => {
+        expect(isValidListId("reading")).toBe(true);
+        expect(isValidListId("Reading")).toBe(false);
+        expect(isValidListId("a/b")).toBe(false);
+        expect(() =>
+            registerList(db, { id: "../x", name: "x", icon: "x", source: "calil" }),
+        ).toThrow("Invalid list id");
+    });
+
+    test("unregisters lists", () => {
+        expect(unregisterList(db, "read")).toBe(true);
+        expect(unregisterList(db, "read")).toBe(false);
+        expect(getList(db, "read")).toBeNull();
+    });
+});
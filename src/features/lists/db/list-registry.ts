@@ -0,0 +1,141 @@
+import type { Database } from "bun:sqlite";
+
+/**
+ * Registry of book lists shown by the app
+ *
+ * Each list has an id (used in URLs and as the Calil list name), a display
+ * name, an icon and a source: "calil" lists are mirrored from calil.jp,
+ * "local" lists exist only in this app. Tabs, tab counts, downloads and
+ * route validation are all driven by this table, so adding a list is a row
+ * rather than code.
+ */
+
+export type ListSourceKind = "calil" | "local";
+
+export type ListDefinition = {
+    id: string;
+    name: string;
+    icon: string;
+    source: ListSourceKind;
+    position: number;
+};
+
+export type NewListDefinition = Omit<ListDefinition, "position"> & {
+    position?: number;
+};
+
+/**
+ * Lists every Calil account has; seeded into a new registry
+ */
+export const DEFAULT_LISTS: NewListDefinition[] = [
+    { id: "wish", name: "読みたい本", icon: "📖", source: "calil" },
+    { id: "read", name: "読んだ本", icon: "✅", source: "calil" },
+];
+
+const LIST_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Whether a string can be used as a list id (lowercase, URL-safe)
+ */
+export function isValidListId(id: string): boolean {
+    return LIST_ID_PATTERN.test(id);
+}
+
+/**
+ * Create the list registry table and seed the default lists
+ * The defaults are seeded only when the table is created, so a default
+ * list the user unregistered stays removed after a restart.
+ */
+export function initListRegistrySchema(db: Database): void {
+    const exists = db
+        .query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'list_registry'")
+        .get();
+    if (exists) return;
+
+    db.run(`
+        CREATE TABLE list_registry (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            icon TEXT NOT NULL,
+            source TEXT NOT NULL CHECK (source IN ('calil', 'local')),
+            position INTEGER NOT NULL,
+            created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    const seed = db.prepare(`
+        INSERT OR IGNORE INTO list_registry (id, name, icon, source, position)
+        VALUES (?, ?, ?, ?, ?)
+    `);
+    DEFAULT_LISTS.forEach((list, index) => {
+        seed.run(list.id, list.name, list.icon, list.source, index);
+    });
+}
+
+/**
+ * All registered lists in tab order
+ */
+export function getLists(db: Database, source?: ListSourceKind): ListDefinition[] {
+    const rows = db
+        .query(
+            "SELECT id, name, icon, source, position FROM list_registry ORDER BY position, id",
+        )
+        .all() as ListDefinition[];
+
+    return source ? rows.filter((list) => list.source === source) : rows;
+}
+
+/**
+ * Look up a list by id
+ */
+export function getList(db: Database, id: string): ListDefinition | null {
+    return (
+        (db
+            .query(
+                "SELECT id, name, icon, source, position FROM list_registry WHERE id = ?",
+            )
+            .get(id) as ListDefinition | null) ?? null
+    );
+}
+
+/**
+ * Add or update a list; new lists go after the existing ones
+ *
+ * @throws {Error} If the id is not a valid list id
+ */
+export function registerList(db: Database, list: NewListDefinition): ListDefinition {
+    if (!isValidListId(list.id)) {
+        throw new Error(`Invalid list id: ${list.id}`);
+    }
+
+    const position =
+        list.position ??
+        getList(db, list.id)?.position ??
+        ((
+            db.query("SELECT MAX(position) AS max FROM list_registry").get() as {
+                max: number | null;
+            }
+        ).max ?? -1) + 1;
+
+    db.run(
+        `INSERT INTO list_registry (id, name, icon, source, position)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+            name = excluded.name,
+            icon = excluded.icon,
+            source = excluded.source,
+            position = excluded.position`,
+        [list.id, list.name, list.icon, list.source, position],
+    );
+
+    return getList(db, list.id)!;
+}
+
+/**
+ * Remove a list from the registry
+ *
+ * @returns true if the list existed
+ */
+export function unregisterList(db: Database, id: string): boolean {
+    return db.run("DELETE FROM list_registry WHERE id = ?", [id]).changes > 0;
+}
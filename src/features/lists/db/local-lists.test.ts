@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    addLocalListItem,
+    clearLocalList,
+    countLocalListItems,
+    getLocalListItems,
+    getLocalListMetadata,
+    getLocalListPage,
+    initLocalListsSchema,
+    removeLocalListItem,
+    type NewLocalListItem,
+} from "./local-lists";
+
+const item = (isbn: string, title = `書籍 ${isbn}`): NewLocalListItem => ({
+    isbn,
+    title,
+    author: "著者",
+    publisher: "出版社",
+    pubdate: "2024",
+    source: "ndl",
+});
+
+let db: Database;
+
+beforeEach(() => {
+    db = new Database(":memory:");
+    initLocalListsSchema(db);
+});
+
+describe("local lists", () => {
+    test("stores items as books, newest first", () => {
+        addLocalListItem(db, "owned", item("9784000000001"));
+        addLocalListItem(db, "owned", item("9784000000002"));
+        addLocalListItem(db, "lent", item("9784000000003"));
+
+        const books = getLocalListItems(db, "owned");
+        expect(books.map((book) => book.isbn)).toEqual([
+            "9784000000002",
+            "9784000000001",
+        ]);
+        expect(books[0]).toMatchObject({
+            title: "書籍 9784000000002",
+            author: "著者",
+            source: "ndl",
+            volume: "",
+        });
+        expect(countLocalListItems(db, "lent")).toBe(1);
+    });
+
+    test("rejects duplicate ISBNs within a list", () => {
+        expect(addLocalListItem(db, "owned", item("9784000000001"))).not.toBeNull();
+        expect(addLocalListItem(db, "owned", item("9784000000001"))).toBeNull();
+        expect(addLocalListItem(db, "lent", item("9784000000001"))).not.toBeNull();
+    });
+
+    test("pages through a list", () => {
+        for (let i = 1; i <= 5; i++) {
+            addLocalListItem(db, "owned", item(`978400000000${i}`));
+        }
+
+        expect(getLocalListMetadata(db, "owned", 2)).toEqual({
+            totalCount: 5,
+            totalPages: 3,
+            pageSize: 2,
+        });
+        expect(getLocalListPage(db, "owned", 3, 2).map((b) => b.isbn)).toEqual([
+            "9784000000001",
+        ]);
+    });
+
+    test("removes single items and whole lists", () => {
+        const added = addLocalListItem(db, "owned", item("9784000000001"))!;
+        addLocalListItem(db, "owned", item("9784000000002"));
+
+        expect(removeLocalListItem(db, "lent", added.id)).toBe(false);
+        expect(removeLocalListItem(db, "owned", added.id)).toBe(true);
+        expect(countLocalListItems(db, "owned")).toBe(1);
+
+        expect(clearLocalList(db, "owned")).toBe(1);
+        expect(getLocalListItems(db, "owned")).toEqual([]);
+    });
+});
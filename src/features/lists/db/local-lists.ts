@@ -0,0 +1,195 @@
+import type { Database } from "bun:sqlite";
+import type { Book } from "../../calil/types/book";
+
+/**
+ * Items of local-only lists (e.g. "owned", "lent out")
+ *
+ * The lists themselves are rows in list_registry with source "local";
+ * this table holds their books. Items are returned as Book so the same
+ * BookCard/BookList components render Calil and local lists.
+ */
+
+export type LocalListItemRecord = {
+    id: number;
+    list_id: string;
+    isbn: string;
+    title: string;
+    author: string;
+    publisher: string;
+    pubdate: string;
+    /** Where the item came from: "ndl", "isbn" or "calil:<list id>" */
+    source: string;
+    added_at: string;
+};
+
+export type NewLocalListItem = {
+    isbn: string;
+    title: string;
+    author: string;
+    publisher: string;
+    pubdate: string;
+    source: string;
+};
+
+/**
+ * Page size used when serving local lists (same as the Calil mirror)
+ */
+export const LOCAL_LIST_PAGE_SIZE = 20;
+
+/**
+ * Create local list tables if they don't exist
+ */
+export function initLocalListsSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS local_list_items (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            list_id TEXT NOT NULL,
+            isbn TEXT NOT NULL,
+            title TEXT NOT NULL,
+            author TEXT NOT NULL,
+            publisher TEXT NOT NULL,
+            pubdate TEXT NOT NULL,
+            source TEXT NOT NULL,
+            added_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (list_id, isbn)
+        )
+    `);
+
+    db.run(`
+        CREATE INDEX IF NOT EXISTS idx_local_list_items_list
+        ON local_list_items(list_id, id)
+    `);
+}
+
+function recordToBook(row: LocalListItemRecord): Book {
+    return {
+        id: String(row.id),
+        title: row.title,
+        author: row.author,
+        pubdate: row.pubdate,
+        publisher: row.publisher,
+        source: row.source,
+        isbn: row.isbn,
+        volume: "",
+        updated: row.added_at,
+    };
+}
+
+/**
+ * Get all items of a local list, newest first
+ */
+export function getLocalListItems(db: Database, listId: string): Book[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM local_list_items WHERE list_id = ? ORDER BY id DESC`,
+        )
+        .all(listId) as LocalListItemRecord[];
+    return rows.map(recordToBook);
+}
+
+/**
+ * Get a single page (1-based) of a local list
+ */
+export function getLocalListPage(
+    db: Database,
+    listId: string,
+    page: number,
+    pageSize: number = LOCAL_LIST_PAGE_SIZE,
+): Book[] {
+    const rows = db
+        .prepare(
+            `SELECT * FROM local_list_items WHERE list_id = ?
+             ORDER BY id DESC LIMIT ? OFFSET ?`,
+        )
+        .all(listId, pageSize, (page - 1) * pageSize) as LocalListItemRecord[];
+    return rows.map(recordToBook);
+}
+
+/**
+ * Count items of a local list
+ */
+export function countLocalListItems(db: Database, listId: string): number {
+    const row = db
+        .prepare(
+            `SELECT COUNT(*) as count FROM local_list_items WHERE list_id = ?`,
+        )
+        .get(listId) as { count: number };
+    return row.count;
+}
+
+/**
+ * Get metadata for a local list in the same shape as getMirroredMetadata
+ */
+export function getLocalListMetadata(
+    db: Database,
+    listId: string,
+    pageSize: number = LOCAL_LIST_PAGE_SIZE,
+): { totalCount: number; totalPages: number; pageSize: number } {
+    const totalCount = countLocalListItems(db, listId);
+    return {
+        totalCount,
+        totalPages: Math.ceil(totalCount / pageSize),
+        pageSize,
+    };
+}
+
+/**
+ * Add a book to a local list
+ *
+ * @returns The stored item, or null if the ISBN is already in the list
+ */
+export function addLocalListItem(
+    db: Database,
+    listId: string,
+    item: NewLocalListItem,
+): Book | null {
+    const result = db.run(
+        `INSERT OR IGNORE INTO local_list_items
+            (list_id, isbn, title, author, publisher, pubdate, source)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+            listId,
+            item.isbn,
+            item.title,
+            item.author,
+            item.publisher,
+            item.pubdate,
+            item.source,
+        ],
+    );
+
+    if (result.changes === 0) {
+        return null;
+    }
+
+    const row = db
+        .prepare(`SELECT * FROM local_list_items WHERE id = ?`)
+        .get(result.lastInsertRowid) as LocalListItemRecord;
+    return recordToBook(row);
+}
+
+/**
+ * Remove an item from a local list
+ *
+ * @returns true if the item existed
+ */
+export function removeLocalListItem(
+    db: Database,
+    listId: string,
+    itemId: string,
+): boolean {
+    return (
+        db.run(`DELETE FROM local_list_items WHERE list_id = ? AND id = ?`, [
+            listId,
+            itemId,
+        ]).changes > 0
+    );
+}
+
+/**
+ * Remove all items of a local list
+ */
+export function clearLocalList(db: Database, listId: string): number {
+    return db.run(`DELETE FROM local_list_items WHERE list_id = ?`, [listId])
+        .changes;
+}
@@ -0,0 +1,143 @@
+import {
+    countMirroredItems,
+    getMirroredIsbns,
+    getMirroredItems,
+    getMirroredMetadata,
+    getMirroredPage,
+} from "../calil/db/list-mirror";
+import { calilListSource, ensureListMirror } from "../calil/sync/list-sync";
+import type { Book } from "../calil/types/book";
+import { DEFAULT_PROFILE_ID } from "../../shared/config/app-paths";
+import { convertISBN10to13 } from "../ndl/utility";
+import { getListDatabases } from "../profiles/list-databases";
+import {
+    countLocalListItems,
+    getLocalListItems,
+    getLocalListMetadata,
+    getLocalListPage,
+} from "./db/local-lists";
+import { getLists, type ListDefinition } from "./db/list-registry";
+
+/**
+ * Source-independent access to list contents
+ *
+ * Calil lists are read from the local mirror (syncing it first if needed);
+ * local lists from the list registry database. Both belong to a profile
+ * (see getListDatabases()). Routes and pages use these helpers so they
+ * don't have to care where a list lives.
+ */
+
+export type ListMetadata = {
+    totalCount: number;
+    totalPages: number;
+    pageSize: number;
+};
+
+/**
+ * Make sure the list contents are available locally
+ */
+export async function prepareList(
+    list: ListDefinition,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<void> {
+    if (list.source === "calil") {
+        await ensureListMirror(
+            getListDatabases(profile).mirror,
+            list.id,
+            calilListSource(profile),
+        );
+    }
+}
+
+export async function readListMetadata(
+    list: ListDefinition,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<ListMetadata> {
+    await prepareList(list, profile);
+    const { registry, mirror } = getListDatabases(profile);
+    return list.source === "calil"
+        ? getMirroredMetadata(mirror, list.id)
+        : getLocalListMetadata(registry, list.id);
+}
+
+export async function readListPage(
+    list: ListDefinition,
+    page: number,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<Book[]> {
+    await prepareList(list, profile);
+    const { registry, mirror } = getListDatabases(profile);
+    return list.source === "calil"
+        ? getMirroredPage(mirror, list.id, page)
+        : getLocalListPage(registry, list.id, page);
+}
+
+export async function readListItems(
+    list: ListDefinition,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<Book[]> {
+    await prepareList(list, profile);
+    const { registry, mirror } = getListDatabases(profile);
+    return list.source === "calil"
+        ? getMirroredItems(mirror, list.id)
+        : getLocalListItems(registry, list.id);
+}
+
+export async function countListItems(
+    list: ListDefinition,
+    profile: string = DEFAULT_PROFILE_ID,
+): Promise<number> {
+    await prepareList(list, profile);
+    const { registry, mirror } = getListDatabases(profile);
+    return list.source === "calil"
+        ? countMirroredItems(mirror, list.id)
+        : countLocalListItems(registry, list.id);
+}
+
+/**
+ * Lists a book card of the given list can move or copy its book to
+ * Books move between Calil lists and are copied into local lists.
+ */
+export function getCardTargets(
+    list: ListDefinition,
+    profile: string = DEFAULT_PROFILE_ID,
+): {
+    moveTargets: ListDefinition[];
+    copyTargets: ListDefinition[];
+} {
+    if (list.source !== "calil") {
+        return { moveTargets: [], copyTargets: [] };
+    }
+
+    const lists = getLists(getListDatabases(profile).registry);
+    return {
+        moveTargets: lists.filter(
+            (target) => target.source === "calil" && target.id !== list.id,
+        ),
+        copyTargets: lists.filter((target) => target.source === "local"),
+    };
+}
+
+/**
+ * Calil lists each ISBN (as ISBN-13) is on, read from the local mirror
+ * without syncing; used to mark search results that are already listed
+ */
+export function getCalilListsByIsbn(
+    profile: string = DEFAULT_PROFILE_ID,
+): Map<string, ListDefinition[]> {
+    const { registry, mirror } = getListDatabases(profile);
+    const lists = new Map(
+        getLists(registry, "calil").map((list) => [list.id, list]),
+    );
+
+    const byIsbn = new Map<string, ListDefinition[]>();
+    for (const { listType, isbn } of getMirroredIsbns(mirror)) {
+        const list = lists.get(listType);
+        if (!list || !isbn) continue;
+        const isbn13 = convertISBN10to13(isbn.replace(/-/g, ""));
+        const found = byIsbn.get(isbn13) ?? [];
+        if (!found.includes(list)) found.push(list);
+        byIsbn.set(isbn13, found);
+    }
+    return byIsbn;
+}
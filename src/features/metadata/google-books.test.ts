@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+import { parseGoogleBooks } from "./google-books";
+import { MetadataParseError } from "../../shared/errors/upstream-errors";
+
+const volume = (identifiers: { type: string; identifier: string }[], title = "週末のRust入門") => ({
+    kind: "books#volume",
+    volumeInfo: {
+        title,
+        subtitle: "所有権から非同期まで",
+        authors: ["Taro Kobayashi"],
+        publisher: "個人出版",
+        publishedDate: "2024-10-05",
+        description: "Rust の入門書です。",
+        industryIdentifiers: identifiers,
+        pageCount: 128,
+        categories: ["Computers"],
+    },
+});
+
+describe("parseGoogleBooks", () => {
+    test("volumeInfo から書誌を組み立てる", () => {
+        const json = {
+            totalItems: 1,
+            items: [volume([{ type: "ISBN_13", identifier: "9784000003209" }])],
+        };
+
+        expect(parseGoogleBooks(json, "9784000003209")).toEqual([
+            expect.objectContaining({
+                title: "週末のRust入門 : 所有権から非同期まで",
+                creators: ["Taro Kobayashi"],
+                publisher: "個人出版",
+                pubYear: "2024",
+                issued: "2024.10",
+                extent: "128p",
+                categories: ["Computers"],
+                isbn13: "9784000003209",
+                descriptionHtml: "Rust の入門書です。",
+            }),
+        ]);
+    });
+
+    test("ISBN の違う volume は除き、ISBN-10 だけのものは変換して比べる", () => {
+        const json = {
+            totalItems: 2,
+            items: [
+                volume([{ type: "ISBN_13", identifier: "9784000009999" }], "別の本"),
+                volume([{ type: "ISBN_10", identifier: "4873117526" }], "ISBN-10 の本"),
+            ],
+        };
+
+        expect(parseGoogleBooks(json, "9784873117522").map((item) => item.title)).toEqual([
+            "ISBN-10 の本 : 所有権から非同期まで",
+        ]);
+    });
+
+    test("0件の応答（items なし）は空配列", () => {
+        expect(parseGoogleBooks({ kind: "books#volumes", totalItems: 0 }, "9784000003209")).toEqual([]);
+    });
+
+    test("volumes でない応答は MetadataParseError", () => {
+        expect(() => parseGoogleBooks({ error: { code: 403 } }, "9784000003209")).toThrow(
+            MetadataParseError,
+        );
+    });
+});
@@ -0,0 +1,106 @@
+import {
+    MetadataParseError,
+    errorFromResponse,
+} from "../../shared/errors/upstream-errors";
+import { getUpstreamBaseUrl, httpRequest } from "../../shared/http/http-client";
+import { logger } from "../../shared/logging/logger";
+import { convertISBN10to13, type NdlItem } from "../ndl/utility";
+import { emptyRecord, toIssued, type MetadataProvider } from "./provider";
+
+/**
+ * Google Books API (volumes search by ISBN)
+ *
+ * The last resort for books neither NDL nor openBD know. Without
+ * GOOGLE_BOOKS_API_KEY the anonymous (small) quota is used.
+ */
+
+type GoogleBooksVolume = {
+    volumeInfo?: {
+        title?: string;
+        subtitle?: string;
+        authors?: string[];
+        publisher?: string;
+        publishedDate?: string;
+        description?: string;
+        industryIdentifiers?: { type: string; identifier: string }[];
+        pageCount?: number;
+        categories?: string[];
+    };
+};
+
+function isbnOf(volume: GoogleBooksVolume): string | null {
+    const identifiers = volume.volumeInfo?.industryIdentifiers ?? [];
+    const isbn13 = identifiers.find((id) => id.type === "ISBN_13")?.identifier;
+    const isbn10 = identifiers.find((id) => id.type === "ISBN_10")?.identifier;
+    return isbn13 ?? (isbn10 ? convertISBN10to13(isbn10) : null);
+}
+
+function toItem(volume: GoogleBooksVolume): NdlItem | null {
+    const info = volume.volumeInfo;
+    if (!info?.title) return null;
+
+    return {
+        ...emptyRecord(),
+        title: info.subtitle ? `${info.title} : ${info.subtitle}` : info.title,
+        creators: info.authors ?? [],
+        publisher: info.publisher ?? null,
+        pubYear: toIssued(info.publishedDate)?.slice(0, 4) ?? null,
+        issued: toIssued(info.publishedDate),
+        extent: info.pageCount ? `${info.pageCount}p` : null,
+        categories: info.categories ?? [],
+        isbn13: isbnOf(volume),
+        descriptionHtml: info.description ?? null,
+    };
+}
+
+/**
+ * Parse a volumes search response
+ * The search also matches other editions; only volumes carrying the ISBN
+ * are kept.
+ *
+ * @throws {MetadataParseError} If the response is not a volumes list
+ */
+export function parseGoogleBooks(json: unknown, isbn: string): NdlItem[] {
+    if (typeof json !== "object" || json === null || !("totalItems" in json)) {
+        throw new MetadataParseError("google", "Google Books response is not a volumes list");
+    }
+    const volumes = ((json as { items?: GoogleBooksVolume[] }).items ?? []).filter(
+        (volume) => isbnOf(volume) === isbn,
+    );
+    return volumes.map(toItem).filter((item): item is NdlItem => !!item);
+}
+
+/**
+ * Look up an ISBN in Google Books
+ *
+ * @throws {UpstreamUnavailableError} If Google Books can't be reached or answers 429/5xx
+ * @throws {MetadataParseError} If the response is not Google Books JSON
+ */
+export async function lookupGoogleBooks(isbn: string): Promise<NdlItem[]> {
+    const context = `Google Books request failed for ${isbn}`;
+    const params = new URLSearchParams({ q: `isbn:${isbn}` });
+    const apiKey = process.env.GOOGLE_BOOKS_API_KEY;
+    if (apiKey) params.set("key", apiKey);
+
+    logger.info("[GoogleBooks] 書誌取得", { isbn });
+    const response = await httpRequest(
+        `${getUpstreamBaseUrl("google")}/books/v1/volumes?${params}`,
+        { upstream: "google", context },
+    );
+    if (!response.ok) {
+        throw errorFromResponse("google", response, context);
+    }
+
+    let json: unknown;
+    try {
+        json = await response.json();
+    } catch (error) {
+        throw new MetadataParseError("google", `${context}: invalid JSON`, { cause: error });
+    }
+    return parseGoogleBooks(json, isbn);
+}
+
+export const googleBooksProvider: MetadataProvider = {
+    id: "google",
+    lookup: lookupGoogleBooks,
+};
@@ -0,0 +1,312 @@
+import { describe, test, expect, beforeEach, afterEach, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { createMetadataLookup, mergeRecords, type MetadataLookupOptions } from "./lookup";
+import { emptyRecord, type MetadataProvider, type MetadataSource } from "./provider";
+import type { NdlItem } from "../ndl/utility";
+import { getBibliographicInfo } from "../bibliographic/db/schema";
+import {
+    getRecordAlternatives,
+    initRecordAlternativesSchema,
+} from "../bibliographic/db/record-alternatives";
+import { UpstreamUnavailableError } from "../../shared/errors/upstream-errors";
+import { startFakeUpstream, type FakeUpstream } from "../demo/fake-upstream";
+import fixtures from "../demo/fixtures/books.json";
+
+const ISBN = "9784000001007";
+
+function record(overrides: Partial<NdlItem> = {}): NdlItem {
+    return { ...emptyRecord(), isbn13: ISBN, ...overrides };
+}
+
+const complete = (overrides: Partial<NdlItem> = {}) =>
+    record({
+        title: "本",
+        creators: ["著者"],
+        publisher: "出版社",
+        issued: "2020.1",
+        descriptionHtml: "紹介",
+        ...overrides,
+    });
+
+// 呼ばれた順を記録する偽のプロバイダー
+function fakeProvider(
+    id: MetadataSource,
+    calls: string[],
+    result: NdlItem[] | Error,
+): MetadataProvider {
+    return {
+        id,
+        lookup: async () => {
+            calls.push(id);
+            if (result instanceof Error) throw result;
+            return result;
+        },
+    };
+}
+
+const lookupWith = (
+    db: Database,
+    providers: MetadataProvider[],
+    options: MetadataLookupOptions = {},
+) => createMetadataLookup(() => providers, () => null).lookup(ISBN, db, options);
+
+function createDatabase(): Database {
+    const db = new Database(":memory:");
+    db.run(`
+        CREATE TABLE bibliographic_info (
+            isbn TEXT PRIMARY KEY,
+            title TEXT NOT NULL,
+            title_kana TEXT,
+            link TEXT,
+            creators TEXT NOT NULL,
+            creators_kana TEXT,
+            publisher TEXT,
+            pub_year TEXT,
+            issued TEXT,
+            extent TEXT,
+            price TEXT,
+            ndc10 TEXT,
+            ndlc TEXT,
+            ndl_bib_id TEXT,
+            jpno TEXT,
+            tohan_marc_no TEXT,
+            subjects TEXT,
+            categories TEXT,
+            description TEXT,
+            series_title TEXT,
+            volume TEXT,
+            edition TEXT,
+            table_of_contents TEXT,
+            alternative_titles TEXT,
+            authority_links TEXT,
+            source TEXT,
+            created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+    db.run(`
+        CREATE VIRTUAL TABLE bibliographic_fts USING fts5(
+            isbn UNINDEXED, title, content='bibliographic_info', content_rowid='rowid'
+        )
+    `);
+    db.run(`
+        CREATE TRIGGER bibliographic_fts_insert
+        AFTER INSERT ON bibliographic_info BEGIN
+            INSERT INTO bibliographic_fts(rowid, isbn, title) VALUES (new.rowid, new.isbn, new.title);
+        END
+    `);
+    initRecordAlternativesSchema(db);
+    return db;
+}
+
+describe("mergeRecords", () => {
+    test("足りない項目だけを後のプロバイダーから補い、取得元を記録する", () => {
+        const merged = mergeRecords([
+            { source: "ndl", item: record({ title: "NDL の題名", ndc10: "007.64" }) },
+            {
+                source: "openbd",
+                item: record({
+                    title: "openBD の題名",
+                    creators: ["森 さくら"],
+                    creatorsKana: ["モリ サクラ"],
+                    descriptionHtml: "紹介",
+                }),
+            },
+            { source: "google", item: record({ title: "Google の題名", creators: ["Sakura Mori"] }) },
+        ]);
+
+        expect(merged).toMatchObject({
+            title: "NDL の題名",
+            ndc10: "007.64",
+            creators: ["森 さくら"],
+            creatorsKana: ["モリ サクラ"],
+            descriptionHtml: "紹介",
+            source: "ndl,openbd",
+        });
+    });
+
+    test("レコードが無ければ null", () => {
+        expect(mergeRecords([])).toBeNull();
+    });
+});
+
+describe("lookupBibliographic", () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = createDatabase();
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    test("項目がそろったら後のプロバイダーには問い合わせない", async () => {
+        const calls: string[] = [];
+        const [item] = await lookupWith(db, [
+            fakeProvider("ndl", calls, [complete()]),
+            fakeProvider("openbd", calls, [complete({ title: "別" })]),
+        ]);
+
+        expect(calls).toEqual(["ndl"]);
+        expect(item?.source).toBe("ndl");
+    });
+
+    test("NDL に無ければ次のプロバイダーの書誌を保存する", async () => {
+        const calls: string[] = [];
+        const providers = [
+            fakeProvider("ndl", calls, []),
+            fakeProvider("openbd", calls, [complete({ title: "新刊" })]),
+            fakeProvider("google", calls, []),
+        ];
+
+        const [item] = await lookupWith(db, providers);
+
+        expect(calls).toEqual(["ndl", "openbd"]);
+        expect(item).toMatchObject({ title: "新刊", source: "openbd" });
+        expect(getBibliographicInfo(db, ISBN)).toMatchObject({ title: "新刊", source: "openbd" });
+
+        // 2回目は DB キャッシュから
+        await lookupWith(db, providers);
+        expect(calls).toEqual(["ndl", "openbd"]);
+    });
+
+    test("最初のプロバイダーのほかの書誌を候補として保存する", async () => {
+        const records = await lookupWith(db, [
+            fakeProvider("ndl", [], [record({ title: "上" }), record({ title: "下" })]),
+            fakeProvider("openbd", [], [record({ title: "上", descriptionHtml: "紹介" })]),
+        ]);
+
+        expect(records.map((item) => item.title)).toEqual(["上", "下"]);
+        expect(records[0]?.source).toBe("ndl,openbd");
+        expect(getRecordAlternatives(db, ISBN)).toEqual([record({ title: "下", source: "ndl" })]);
+    });
+
+    test("失敗したプロバイダーがあれば見つかった書誌を返すが保存しない", async () => {
+        const records = await lookupWith(db, [
+            fakeProvider("ndl", [], new UpstreamUnavailableError("ndl", "down")),
+            fakeProvider("openbd", [], [complete()]),
+        ]);
+
+        expect(records).toHaveLength(1);
+        expect(getBibliographicInfo(db, ISBN)).toBeNull();
+    });
+
+    test("どこにも無く、失敗したプロバイダーがあればそのエラーを投げる", async () => {
+        const providers = [
+            fakeProvider("ndl", [], new UpstreamUnavailableError("ndl", "down")),
+            fakeProvider("openbd", [], []),
+        ];
+
+        await expect(lookupWith(db, providers)).rejects.toThrow(UpstreamUnavailableError);
+        expect(await lookupWith(db, [providers[1]!])).toEqual([]);
+    });
+
+    test("known の書誌はそのプロバイダーの応答として扱い、足りなければ後のプロバイダーで補う", async () => {
+        const calls: string[] = [];
+        const providers = [
+            fakeProvider("ndl", calls, [complete({ title: "呼ばれない" })]),
+            fakeProvider("openbd", calls, [complete({ title: "openBD の題名", publisher: "台所書房" })]),
+        ];
+
+        const [item] = await lookupWith(db, providers, {
+            known: { source: "ndl", items: [record({ title: "NDL の題名" }), record({ title: "別版" })] },
+        });
+
+        expect(calls).toEqual(["openbd"]);
+        expect(item).toMatchObject({ title: "NDL の題名", publisher: "台所書房", source: "ndl,openbd" });
+        expect(getBibliographicInfo(db, ISBN)).toMatchObject({ title: "NDL の題名", source: "ndl,openbd" });
+        expect(getRecordAlternatives(db, ISBN).map((alt) => alt.title)).toEqual(["別版"]);
+    });
+
+    test("known の書誌がそろっていればほかのプロバイダーには問い合わせない", async () => {
+        const calls: string[] = [];
+        const [item] = await lookupWith(
+            db,
+            [fakeProvider("ndl", calls, []), fakeProvider("openbd", calls, [complete()])],
+            { known: { source: "ndl", items: [complete({ title: "NDL の題名" })] } },
+        );
+
+        expect(calls).toEqual([]);
+        expect(item).toMatchObject({ title: "NDL の題名", source: "ndl" });
+    });
+
+    test("利用者が選んだ NDL の書誌を取り直したときも選ぶ", async () => {
+        const ndl = [record({ title: "全集", ndlBibId: "a" }), record({ title: "第2巻", ndlBibId: "b" })];
+        const records = await createMetadataLookup(
+            () => [fakeProvider("ndl", [], ndl)],
+            () => "b",
+        ).lookup(ISBN, db);
+        expect(records.map((item) => item.ndlBibId)).toEqual(["b", "a"]);
+        expect(getBibliographicInfo(db, ISBN)?.title).toBe("第2巻");
+
+        // 一括検索で得た書誌でも同じ
+        const other = createDatabase();
+        try {
+            const [item] = await createMetadataLookup(() => [], () => "b").lookup(ISBN, other, {
+                known: { source: "ndl", items: ndl },
+            });
+            expect(item?.title).toBe("第2巻");
+        } finally {
+            other.close();
+        }
+    });
+
+    test("exclude のプロバイダーには問い合わせない", async () => {
+        const calls: string[] = [];
+        await lookupWith(db, [fakeProvider("ndl", calls, []), fakeProvider("openbd", calls, [])], {
+            exclude: ["ndl"],
+        });
+
+        expect(calls).toEqual(["openbd"]);
+    });
+});
+
+describe("lookupBibliographic（偽サーバー）", () => {
+    const ENV_KEYS = ["NDL_BASE_URL", "OPENBD_BASE_URL", "GOOGLE_BOOKS_BASE_URL", "METADATA_PROVIDERS"];
+    const savedEnv = new Map<string, string | undefined>();
+    // METADATA_PROVIDERS の既定の順（NDL・openBD・Google Books）
+    const { lookup } = createMetadataLookup();
+    let upstream: FakeUpstream;
+    let db: Database;
+
+    beforeAll(() => {
+        upstream = startFakeUpstream();
+        for (const key of ENV_KEYS) savedEnv.set(key, process.env[key]);
+        process.env.NDL_BASE_URL = upstream.url;
+        process.env.OPENBD_BASE_URL = upstream.url;
+        process.env.GOOGLE_BOOKS_BASE_URL = upstream.url;
+        delete process.env.METADATA_PROVIDERS;
+        db = createDatabase();
+    });
+
+    afterAll(() => {
+        db.close();
+        upstream.stop();
+        for (const [key, value] of savedEnv) {
+            if (value === undefined) delete process.env[key];
+            else process.env[key] = value;
+        }
+    });
+
+    const onlyIn = (source: string) =>
+        fixtures.books.find((book) => book.sources.length === 1 && book.sources[0] === source)!;
+
+    test("NDL の書誌はそのまま使う", async () => {
+        const book = fixtures.books[0]!;
+        const [item] = await lookup(book.isbn, db);
+        expect(item).toMatchObject({ title: book.title, ndc10: book.ndc10, source: "ndl" });
+    });
+
+    test("NDL に無い新刊は openBD、openBD にも無い本は Google Books から取る", async () => {
+        const [fromOpenBd] = await lookup(onlyIn("openbd").isbn, db);
+        const [fromGoogle] = await lookup(onlyIn("google").isbn, db);
+
+        expect(fromOpenBd).toMatchObject({ title: onlyIn("openbd").title, source: "openbd" });
+        expect(fromGoogle).toMatchObject({ title: onlyIn("google").title, source: "google" });
+    });
+
+    test("どこにも無い ISBN は空", async () => {
+        expect(await lookup("9784000009999", db)).toEqual([]);
+    });
+});
@@ -0,0 +1,226 @@
+import type { Database } from "bun:sqlite";
+import {
+    getBibliographicInfo,
+    upsertBibliographicInfo,
+} from "../bibliographic/db/schema";
+import {
+    getRecordAlternatives,
+    saveRecordAlternatives,
+} from "../bibliographic/db/record-alternatives";
+import { getRecordChoice } from "../bibliographic/db/record-choices";
+import { getSettingsDatabase } from "../settings/db/settings-db";
+import { logger } from "../../shared/logging/logger";
+import {
+    bibliographicInfoToNdlItem,
+    fetchNdlRecords,
+    ndlItemToBibliographicInfo,
+    type NdlItem,
+} from "../ndl/utility";
+import { preferChosenRecord } from "../ndl/record-selection";
+import { googleBooksProvider } from "./google-books";
+import { openBdProvider } from "./openbd";
+import {
+    getMetadataProviderOrder,
+    type MetadataProvider,
+    type MetadataSource,
+} from "./provider";
+
+/**
+ * Bibliographic lookup across the metadata providers
+ *
+ * - The DB cache (bibliographic_info) is checked first
+ * - Providers are asked in priority order until the merged record has a
+ *   title, creators, publisher, publication date and description
+ * - The merged record takes each field from the first provider that has it;
+ *   its `source` lists the providers that contributed ("ndl,openbd")
+ * - The other records of the first provider (NDL's reprints, volumes, ...)
+ *   are kept as alternatives
+ * - A failing provider is skipped; the result is then not cached so that
+ *   the next lookup asks it again
+ * - Records a caller already has (NDL's answer to a batch query) take the
+ *   place of that provider's answer, so they are merged the same way
+ * - The NDL record the user chose on the detail page is selected again
+ *   when the ISBN is fetched anew (e.g. after bibliographic.db was reset)
+ */
+
+export const ndlProvider: MetadataProvider = {
+    id: "ndl",
+    lookup: fetchNdlRecords,
+};
+
+const PROVIDERS: Record<MetadataSource, MetadataProvider> = {
+    ndl: ndlProvider,
+    openbd: openBdProvider,
+    google: googleBooksProvider,
+};
+
+/**
+ * Providers in the order configured by METADATA_PROVIDERS
+ */
+export function getMetadataProviders(): MetadataProvider[] {
+    return getMetadataProviderOrder().map((id) => PROVIDERS[id]);
+}
+
+type ProviderRecords = { source: MetadataSource; items: NdlItem[] };
+
+export type MetadataLookupOptions = {
+    /** Providers not to ask (e.g. NDL after a batch query found nothing) */
+    exclude?: MetadataSource[];
+    /** Records already fetched from a provider, which is then not asked */
+    known?: ProviderRecords;
+};
+
+function isEmpty(value: unknown): boolean {
+    return value == null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+// Fields after which further providers are not asked
+function isComplete(item: NdlItem | null): boolean {
+    return (
+        !!item?.title &&
+        item.creators.length > 0 &&
+        !!item.publisher &&
+        !!(item.issued || item.pubYear) &&
+        !!item.descriptionHtml
+    );
+}
+
+/**
+ * Merge the best records of several providers, given in priority order
+ * Each field comes from the first record that has it; creator readings
+ * always come with the creators they belong to.
+ */
+export function mergeRecords(records: { source: MetadataSource; item: NdlItem }[]): NdlItem | null {
+    const [base, ...rest] = records;
+    if (!base) return null;
+
+    const merged: Record<string, unknown> = { ...base.item };
+    const sources = new Set([base.source]);
+    for (const key of Object.keys(merged) as (keyof NdlItem)[]) {
+        if (key === "creatorsKana" || key === "source" || !isEmpty(merged[key])) continue;
+
+        const donor = rest.find((record) => !isEmpty(record.item[key]));
+        if (!donor) continue;
+        merged[key] = donor.item[key];
+        if (key === "creators") merged.creatorsKana = donor.item.creatorsKana;
+        sources.add(donor.source);
+    }
+
+    merged.source = records
+        .map((record) => record.source)
+        .filter((source) => sources.has(source))
+        .join(",");
+    return merged as NdlItem;
+}
+
+export type MetadataLookup = ReturnType<typeof createMetadataLookup>;
+
+/**
+ * @param getProviders - Providers in priority order, read on every lookup
+ * @param getChosenRecord - NDL bibliographic id the user chose for an ISBN
+ */
+export function createMetadataLookup(
+    getProviders: () => MetadataProvider[] = getMetadataProviders,
+    getChosenRecord: (isbn: string) => string | null = (isbn) =>
+        getRecordChoice(getSettingsDatabase(), isbn),
+) {
+    /**
+     * Look up an ISBN in the cache, then in the metadata providers
+     *
+     * @returns The selected (merged) record followed by its alternatives;
+     *   empty if no provider knows the ISBN
+     * @throws {UpstreamError} The first provider error, if every provider
+     *   failed or the others found nothing
+     */
+    async function lookup(
+        isbn: string,
+        db: Database,
+        options: MetadataLookupOptions = {},
+    ): Promise<NdlItem[]> {
+        const cached = getBibliographicInfo(db, isbn);
+        if (cached) {
+            logger.debug("[metadata] DBキャッシュヒット", { isbn });
+            return [bibliographicInfoToNdlItem(cached), ...getRecordAlternatives(db, isbn)];
+        }
+
+        const chosen = getChosenRecord(isbn);
+        const prefer = (records: ProviderRecords): ProviderRecords =>
+            records.source === "ndl"
+                ? { ...records, items: preferChosenRecord(records.items, chosen) }
+                : records;
+
+        const { known } = options;
+        const providers = getProviders().filter(
+            (provider) => !options.exclude?.includes(provider.id),
+        );
+        // Known records of a provider that isn't configured come first
+        const found: ProviderRecords[] =
+            known?.items.length && !providers.some((provider) => provider.id === known.source)
+                ? [prefer(known)]
+                : [];
+        const errors: unknown[] = [];
+
+        for (const provider of providers) {
+            const merged = mergeRecords(found.map(({ source, items }) => ({ source, item: items[0]! })));
+            if (isComplete(merged)) break;
+
+            if (provider.id === known?.source) {
+                if (known.items.length > 0) found.push(prefer(known));
+                continue;
+            }
+
+            try {
+                const items = await provider.lookup(isbn);
+                if (items.length > 0) found.push(prefer({ source: provider.id, items }));
+            } catch (error) {
+                logger.warn("[metadata] プロバイダーでの取得に失敗", {
+                    isbn,
+                    provider: provider.id,
+                    error: String(error),
+                });
+                errors.push(error);
+            }
+        }
+
+        const merged = mergeRecords(found.map(({ source, items }) => ({ source, item: items[0]! })));
+        if (!merged) {
+            if (errors.length > 0) throw errors[0];
+            logger.info("[metadata] 書誌が見つかりません", { isbn, providers: providers.map((p) => p.id) });
+            return [];
+        }
+
+        const alternatives = found[0]!.items
+            .slice(1)
+            .map((item) => ({ ...item, source: found[0]!.source }));
+
+        // With a provider missing, the record may be incomplete; ask again next time
+        if (errors.length === 0) {
+            try {
+                upsertBibliographicInfo(db, ndlItemToBibliographicInfo(isbn, merged));
+                saveRecordAlternatives(db, isbn, alternatives);
+                logger.debug("[metadata] DBキャッシュ保存完了", { isbn, source: merged.source });
+            } catch (error) {
+                // Ignore cache save errors
+                logger.warn("[metadata] DBキャッシュ保存失敗", { isbn, error: String(error) });
+            }
+        }
+
+        return [merged, ...alternatives];
+    }
+
+    return { lookup };
+}
+
+const defaultLookup = createMetadataLookup();
+
+/**
+ * Look up an ISBN with the providers configured by METADATA_PROVIDERS
+ * See createMetadataLookup().lookup.
+ */
+export function lookupBibliographic(
+    isbn: string,
+    db: Database,
+    options: MetadataLookupOptions = {},
+): Promise<NdlItem[]> {
+    return defaultLookup.lookup(isbn, db, options);
+}
@@ -0,0 +1,87 @@
+import { describe, test, expect } from "bun:test";
+import { parseOpenBd } from "./openbd";
+import { MetadataParseError } from "../../shared/errors/upstream-errors";
+
+// openBD /v1/get の応答から使う部分だけを抜き出したもの
+const entry = {
+    onix: {
+        RecordReference: "9784000003100",
+        DescriptiveDetail: {
+            TitleDetail: {
+                TitleType: "01",
+                TitleElement: {
+                    TitleElementLevel: "01",
+                    TitleText: { content: "季節の小さなおやつ", collationkey: "キセツノチイサナオヤツ" },
+                },
+            },
+            Contributor: [
+                { SequenceNumber: "1", ContributorRole: ["A01"], PersonName: { content: "森 さくら", collationkey: "モリ サクラ" } },
+                { SequenceNumber: "2", ContributorRole: ["A12"], PersonName: { content: "林 一郎" } },
+            ],
+            Extent: [{ ExtentType: "11", ExtentValue: "96", ExtentUnit: "03" }],
+        },
+        CollateralDetail: {
+            TextContent: [
+                { TextType: "02", ContentAudience: "00", Text: "季節のおやつ" },
+                { TextType: "03", ContentAudience: "00", Text: "春夏秋冬のおやつを紹介します。" },
+                { TextType: "04", ContentAudience: "00", Text: "春のおやつ\n夏のおやつ\n\n秋のおやつ" },
+            ],
+        },
+        ProductSupply: {
+            SupplyDetail: { Price: [{ PriceType: "01", PriceAmount: "1600", CurrencyCode: "JPY" }] },
+        },
+    },
+    summary: {
+        isbn: "9784000003100",
+        title: "季節の小さなおやつ",
+        volume: "",
+        series: "台所の本",
+        publisher: "台所書房",
+        pubdate: "20250320",
+        cover: "",
+        author: "森さくら／著 林一郎／イラスト",
+    },
+};
+
+describe("parseOpenBd", () => {
+    test("ONIX と summary から書誌を組み立てる", () => {
+        const [item] = parseOpenBd([entry]);
+
+        expect(item).toMatchObject({
+            title: "季節の小さなおやつ",
+            titleKana: "キセツノチイサナオヤツ",
+            creators: ["森 さくら", "林 一郎"],
+            creatorsKana: ["モリ サクラ", ""],
+            publisher: "台所書房",
+            pubYear: "2025",
+            issued: "2025.3",
+            extent: "96p",
+            price: "1600円",
+            isbn13: "9784000003100",
+            descriptionHtml: "春夏秋冬のおやつを紹介します。",
+            tableOfContents: ["春のおやつ", "夏のおやつ", "秋のおやつ"],
+            seriesTitle: "台所の本",
+            volume: null,
+            ndlBibId: null,
+            link: null,
+        });
+    });
+
+    test("ONIX の著者が無ければ summary.author の役割表示を外して使う", () => {
+        const [item] = parseOpenBd([
+            { summary: { ...entry.summary }, onix: { DescriptiveDetail: {} } },
+        ]);
+
+        expect(item?.creators).toEqual(["森さくら", "林一郎"]);
+        expect(item?.descriptionHtml).toBeNull();
+    });
+
+    test("未知の ISBN（null）は除く", () => {
+        expect(parseOpenBd([null, entry]).map((item) => item.isbn13)).toEqual(["9784000003100"]);
+        expect(parseOpenBd([null])).toEqual([]);
+    });
+
+    test("配列でない応答は MetadataParseError", () => {
+        expect(() => parseOpenBd({ error: "bad request" })).toThrow(MetadataParseError);
+    });
+});
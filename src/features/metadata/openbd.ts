@@ -0,0 +1,123 @@
+import {
+    MetadataParseError,
+    errorFromResponse,
+} from "../../shared/errors/upstream-errors";
+import { getUpstreamBaseUrl, httpRequest } from "../../shared/http/http-client";
+import { logger } from "../../shared/logging/logger";
+import type { NdlItem } from "../ndl/utility";
+import { emptyRecord, toIssued, type MetadataProvider } from "./provider";
+
+/**
+ * openBD (https://openbd.jp/) — publisher-supplied ONIX records
+ *
+ * Often has new releases before NDL does, with a description, a table of
+ * contents and kana readings.
+ */
+
+// ONIX TextType codes of CollateralDetail.TextContent
+const TEXT_TYPE_SHORT_DESCRIPTION = "02";
+const TEXT_TYPE_DESCRIPTION = "03";
+const TEXT_TYPE_TABLE_OF_CONTENTS = "04";
+// ONIX ExtentType for the page count of the main content
+const EXTENT_TYPE_PAGES = "11";
+
+function asArray<T>(value: T | T[] | null | undefined): T[] {
+    if (value == null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function nonEmpty(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Convert one openBD entry (null when openBD has no record)
+ */
+function toItem(entry: any): NdlItem | null {
+    const summary = entry?.summary;
+    const title = nonEmpty(summary?.title);
+    if (!title) return null;
+
+    const descriptive = entry.onix?.DescriptiveDetail ?? {};
+    const texts = asArray<any>(entry.onix?.CollateralDetail?.TextContent);
+    const text = (type: string) =>
+        nonEmpty(texts.find((content) => content?.TextType === type)?.Text);
+
+    const contributors = asArray<any>(descriptive.Contributor);
+    const creators = contributors
+        .map((contributor) => nonEmpty(contributor?.PersonName?.content))
+        .filter((name): name is string => !!name);
+    const pages = asArray<any>(descriptive.Extent).find(
+        (extent) => extent?.ExtentType === EXTENT_TYPE_PAGES,
+    )?.ExtentValue;
+    const price = asArray<any>(entry.onix?.ProductSupply?.SupplyDetail?.Price)[0]?.PriceAmount;
+
+    return {
+        ...emptyRecord(),
+        title,
+        titleKana: nonEmpty(descriptive.TitleDetail?.TitleElement?.TitleText?.collationkey),
+        // summary.author is "山田太郎／著 佐藤花子／訳"; use it only without ONIX contributors
+        creators: creators.length > 0
+            ? creators
+            : (nonEmpty(summary.author)?.split(/\s+/).map((name) => name.replace(/／.*$/, "")) ?? []),
+        creatorsKana: creators.length > 0
+            ? contributors.map((contributor) => nonEmpty(contributor?.PersonName?.collationkey) ?? "")
+            : [],
+        publisher: nonEmpty(summary.publisher),
+        pubYear: toIssued(summary.pubdate)?.slice(0, 4) ?? null,
+        issued: toIssued(summary.pubdate),
+        extent: pages ? `${pages}p` : null,
+        price: price ? `${price}円` : null,
+        isbn13: nonEmpty(summary.isbn),
+        descriptionHtml: text(TEXT_TYPE_DESCRIPTION) ?? text(TEXT_TYPE_SHORT_DESCRIPTION),
+        tableOfContents: text(TEXT_TYPE_TABLE_OF_CONTENTS)
+            ?.split(/\r?\n/)
+            .map((line) => line.trim())
+            .filter(Boolean) ?? [],
+        seriesTitle: nonEmpty(summary.series),
+        volume: nonEmpty(summary.volume),
+    };
+}
+
+/**
+ * Parse the response of /v1/get (an array with one entry or null per ISBN)
+ *
+ * @throws {MetadataParseError} If the response is not an array
+ */
+export function parseOpenBd(json: unknown): NdlItem[] {
+    if (!Array.isArray(json)) {
+        throw new MetadataParseError("openbd", "openBD response is not an array");
+    }
+    return json.map(toItem).filter((item): item is NdlItem => !!item);
+}
+
+/**
+ * Look up an ISBN in openBD
+ *
+ * @throws {UpstreamUnavailableError} If openBD can't be reached or answers 429/5xx
+ * @throws {MetadataParseError} If the response is not openBD JSON
+ */
+export async function lookupOpenBd(isbn: string): Promise<NdlItem[]> {
+    const context = `openBD request failed for ${isbn}`;
+    logger.info("[openBD] 書誌取得", { isbn });
+    const response = await httpRequest(
+        `${getUpstreamBaseUrl("openbd")}/v1/get?isbn=${encodeURIComponent(isbn)}`,
+        { upstream: "openbd", context },
+    );
+    if (!response.ok) {
+        throw errorFromResponse("openbd", response, context);
+    }
+
+    let json: unknown;
+    try {
+        json = await response.json();
+    } catch (error) {
+        throw new MetadataParseError("openbd", `${context}: invalid JSON`, { cause: error });
+    }
+    return parseOpenBd(json);
+}
+
+export const openBdProvider: MetadataProvider = {
+    id: "openbd",
+    lookup: lookupOpenBd,
+};
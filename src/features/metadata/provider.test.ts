@@ -0,0 +1,35 @@
+import { describe, test, expect } from "bun:test";
+import { getMetadataProviderOrder, toIssued } from "./provider";
+
+describe("getMetadataProviderOrder", () => {
+    test("未設定なら NDL・openBD・Google Books の順", () => {
+        expect(getMetadataProviderOrder({})).toEqual(["ndl", "openbd", "google"]);
+    });
+
+    test("METADATA_PROVIDERS の順に並べ、重複と未知の名前は除く", () => {
+        expect(getMetadataProviderOrder({ METADATA_PROVIDERS: " OpenBD, ndl,openbd,amazon" })).toEqual([
+            "openbd",
+            "ndl",
+        ]);
+    });
+
+    test("有効な名前が無ければ既定の順", () => {
+        expect(getMetadataProviderOrder({ METADATA_PROVIDERS: "amazon" })).toEqual([
+            "ndl",
+            "openbd",
+            "google",
+        ]);
+    });
+});
+
+describe("toIssued", () => {
+    test("日付を NDL の出版年月の形式にする", () => {
+        expect(toIssued("20250320")).toBe("2025.3");
+        expect(toIssued("2024-10-05")).toBe("2024.10");
+        expect(toIssued("2024-10")).toBe("2024.10");
+        expect(toIssued("2024")).toBe("2024");
+        expect(toIssued("202400")).toBe("2024");
+        expect(toIssued("")).toBeNull();
+        expect(toIssued(null)).toBeNull();
+    });
+});
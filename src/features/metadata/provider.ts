@@ -0,0 +1,102 @@
+import { logger } from "../../shared/logging/logger";
+import type { NdlItem } from "../ndl/utility";
+
+/**
+ * Bibliographic metadata providers
+ *
+ * NDL has no record for many new releases and self-published books, so a
+ * lookup asks several providers in priority order (METADATA_PROVIDERS) and
+ * merges their records field by field (see ./lookup). Every provider
+ * returns records in the NdlItem shape; fields it doesn't know stay empty.
+ */
+
+export type MetadataSource = "ndl" | "openbd" | "google";
+
+export const METADATA_SOURCES: MetadataSource[] = ["ndl", "openbd", "google"];
+
+export const METADATA_SOURCE_LABELS: Record<MetadataSource, string> = {
+    ndl: "国立国会図書館",
+    openbd: "openBD",
+    google: "Google Books",
+};
+
+export type MetadataProvider = {
+    id: MetadataSource;
+    /**
+     * Records of an ISBN-13, best first; empty if the provider has none
+     *
+     * @throws {UpstreamError} If the provider can't be reached or its
+     * response can't be understood
+     */
+    lookup: (isbn: string) => Promise<NdlItem[]>;
+};
+
+/**
+ * Provider priority from METADATA_PROVIDERS (comma separated, e.g.
+ * "ndl,openbd"); defaults to all providers, NDL first
+ * Unknown names are ignored.
+ */
+export function getMetadataProviderOrder(
+    env: Record<string, string | undefined> = process.env,
+): MetadataSource[] {
+    const configured = (env.METADATA_PROVIDERS ?? "")
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+    if (configured.length === 0) return [...METADATA_SOURCES];
+
+    const order = [...new Set(configured)].filter((name): name is MetadataSource =>
+        METADATA_SOURCES.includes(name as MetadataSource),
+    );
+    if (order.length !== configured.length) {
+        logger.warn("METADATA_PROVIDERS contains unknown providers", {
+            configured,
+            known: METADATA_SOURCES,
+        });
+    }
+    return order.length > 0 ? order : [...METADATA_SOURCES];
+}
+
+/**
+ * A record without any field set, for providers other than NDL
+ */
+export function emptyRecord(): NdlItem {
+    return {
+        title: null,
+        titleKana: null,
+        link: null,
+        creators: [],
+        creatorsKana: [],
+        publisher: null,
+        pubYear: null,
+        issued: null,
+        extent: null,
+        price: null,
+        categories: [],
+        isbn13: null,
+        ndlBibId: null,
+        jpno: null,
+        tohanMarcNo: null,
+        ndc10: null,
+        ndlc: null,
+        subjects: [],
+        descriptionHtml: null,
+        seeAlso: [],
+        seriesTitle: null,
+        volume: null,
+        edition: null,
+        tableOfContents: [],
+        alternativeTitles: [],
+        authorityLinks: [],
+    };
+}
+
+/**
+ * "20150120", "2015-01-20" or "2015-01" as NDL's issued format ("2015.1")
+ */
+export function toIssued(date: string | null | undefined): string | null {
+    const match = date?.match(/^(\d{4})(?:-?(\d{2}))?/);
+    if (!match) return null;
+    const month = Number(match[2]);
+    return month >= 1 && month <= 12 ? `${match[1]}.${month}` : match[1]!;
+}
@@ -0,0 +1,225 @@
+import { describe, test, expect } from "bun:test";
+import {
+    createNdlEnricher,
+    type EnrichmentProgress,
+    type NdlEnrichmentDeps,
+} from "./enrichment";
+import type { NdlFeed, NdlItem } from "./utility";
+import { UpstreamUnavailableError } from "../../shared/errors/upstream-errors";
+
+function item(isbn: string): NdlItem {
+    return {
+        title: `本 ${isbn}`,
+        titleKana: null,
+        link: null,
+        creators: [],
+        creatorsKana: [],
+        publisher: null,
+        pubYear: null,
+        issued: null,
+        extent: null,
+        price: null,
+        categories: [],
+        isbn13: isbn,
+        ndlBibId: null,
+        jpno: null,
+        tohanMarcNo: null,
+        ndc10: null,
+        ndlc: null,
+        subjects: [],
+        descriptionHtml: null,
+        seeAlso: [],
+        seriesTitle: null,
+        volume: null,
+        edition: null,
+        tableOfContents: [],
+        alternativeTitles: [],
+        authorityLinks: [],
+    };
+}
+
+function feed(items: NdlItem[], totalResults = items.length): NdlFeed {
+    return { totalResults, startIndex: 1, itemsPerPage: items.length, items };
+}
+
+// NDL（known）とほかのプロバイダー（elsewhere）に登録されている ISBN だけを返す偽の依存
+function fakeDeps(
+    known: string[],
+    overrides: Partial<NdlEnrichmentDeps> = {},
+    elsewhere: string[] = [],
+) {
+    const calls = {
+        sru: [] as string[],
+        lookup: [] as string[],
+        fallback: [] as string[],
+        completed: [] as string[],
+        sleeps: [] as number[],
+    };
+    let clock = 0;
+    const deps: NdlEnrichmentDeps = {
+        searchSru: async (cql) => {
+            calls.sru.push(cql);
+            const isbns = [...cql.matchAll(/isbn="(\d+)"/g)].map((m) => m[1]!);
+            return feed(isbns.filter((isbn) => known.includes(isbn)).map(item));
+        },
+        lookup: async (isbn) => {
+            calls.lookup.push(isbn);
+            return known.includes(isbn) ? item(isbn) : null;
+        },
+        fallback: async (isbn) => {
+            calls.fallback.push(isbn);
+            return elsewhere.includes(isbn) ? item(isbn) : null;
+        },
+        complete: async (isbn, [best]) => {
+            calls.completed.push(isbn);
+            return best ?? null;
+        },
+        sleep: async (ms) => {
+            calls.sleeps.push(ms);
+            clock += ms;
+        },
+        now: () => clock,
+        ...overrides,
+    };
+    return { deps, calls };
+}
+
+describe("createNdlEnricher", () => {
+    test("ISBN を OR 検索にまとめ、見つかったものを保存する", async () => {
+        const { deps, calls } = fakeDeps(["9784000000001", "9784000000002"]);
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(
+            ["9784000000001", "9784000000002", "9784000000003"],
+            { batchSize: 3, intervalMs: 0 },
+        );
+
+        expect(calls.sru).toEqual([
+            'isbn="9784000000001" OR isbn="9784000000002" OR isbn="9784000000003"',
+        ]);
+        expect(calls.lookup).toEqual([]);
+        expect(calls.fallback).toEqual(["9784000000003"]);
+        expect(calls.completed).toEqual(["9784000000001", "9784000000002"]);
+        expect([...result.items.keys()]).toEqual(["9784000000001", "9784000000002"]);
+        expect(result.notFound).toEqual(["9784000000003"]);
+    });
+
+    test("NDL にない ISBN はほかのプロバイダーで探す", async () => {
+        const { deps, calls } = fakeDeps(["9784000000001"], {}, ["9784000000002"]);
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(["9784000000001", "9784000000002"], {
+            intervalMs: 100,
+        });
+
+        expect(calls.fallback).toEqual(["9784000000002"]);
+        expect(calls.sleeps).toEqual([]);
+        expect([...result.items.keys()].sort()).toEqual(["9784000000001", "9784000000002"]);
+        expect(result.notFound).toEqual([]);
+    });
+
+    test("一括検索で見つかった書誌は補完した結果を返し、補完に失敗したら NDL の書誌を返す", async () => {
+        const { deps } = fakeDeps(["9784000000001", "9784000000002"], {
+            complete: async (isbn, [best]) => {
+                if (isbn === "9784000000002") throw new Error("openBD down");
+                return { ...best!, publisher: "補完した出版社", source: "ndl,openbd" };
+            },
+        });
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(["9784000000001", "9784000000002"], {
+            intervalMs: 0,
+        });
+
+        expect(result.items.get("9784000000001")).toMatchObject({
+            publisher: "補完した出版社",
+            source: "ndl,openbd",
+        });
+        expect(result.items.get("9784000000002")).toEqual(item("9784000000002"));
+        expect(result.failed).toEqual([]);
+    });
+
+    test("余った1件と、一括検索に失敗した分は個別に取得する", async () => {
+        const { deps, calls } = fakeDeps(["9784000000001", "9784000000003"], {
+            searchSru: async () => {
+                throw new Error("diagnostic");
+            },
+        });
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(
+            ["9784000000001", "9784000000002", "9784000000003"],
+            { batchSize: 2, intervalMs: 0 },
+        );
+
+        expect(calls.lookup.sort()).toEqual(["9784000000001", "9784000000002", "9784000000003"]);
+        expect(result.items.size).toBe(2);
+        expect(result.notFound).toEqual(["9784000000002"]);
+    });
+
+    test("一括検索の結果が途中までなら、足りない ISBN を個別に取得する", async () => {
+        const { deps, calls } = fakeDeps(["9784000000001", "9784000000002"], {
+            searchSru: async () => feed([item("9784000000001")], 5),
+        });
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(["9784000000001", "9784000000002"], { intervalMs: 0 });
+
+        expect(calls.lookup).toEqual(["9784000000002"]);
+        expect(result.items.size).toBe(2);
+    });
+
+    test("同じ ISBN の取得が進行中なら、その結果を待つ", async () => {
+        const gate = Promise.withResolvers<void>();
+        const { deps, calls } = fakeDeps(["9784000000001"], {
+            lookup: async (isbn) => {
+                calls.lookup.push(isbn);
+                await gate.promise;
+                return item(isbn);
+            },
+        });
+        const enricher = createNdlEnricher(deps);
+
+        const first = enricher.enrich(["9784000000001"], { intervalMs: 0 });
+        const second = enricher.enrich(["9784000000001", "9784000000001"], { intervalMs: 0 });
+        gate.resolve();
+
+        const [a, b] = await Promise.all([first, second]);
+        expect(calls.lookup).toEqual(["9784000000001"]);
+        expect(a.items.get("9784000000001")).toEqual(b.items.get("9784000000001")!);
+    });
+
+    test("リクエストの開始を intervalMs ずつ空け、進捗を報告する", async () => {
+        const { deps, calls } = fakeDeps(["9784000000001"]);
+        const enricher = createNdlEnricher(deps);
+        const progress: EnrichmentProgress[] = [];
+
+        await enricher.enrich(["9784000000001", "9784000000002", "9784000000003"], {
+            batchSize: 1,
+            concurrency: 1,
+            intervalMs: 100,
+            onProgress: (p) => progress.push(p),
+        });
+
+        expect(calls.sleeps).toEqual([100, 100]);
+        expect(progress.at(-1)).toEqual({ total: 3, done: 3, found: 1, notFound: 2, failed: 0 });
+    });
+
+    test("NDL が利用できなくなったら残りは取得しない", async () => {
+        const { deps, calls } = fakeDeps([], {
+            lookup: async (isbn) => {
+                calls.lookup.push(isbn);
+                throw new UpstreamUnavailableError("ndl", "down");
+            },
+        });
+        const enricher = createNdlEnricher(deps);
+
+        const result = await enricher.enrich(
+            ["9784000000001", "9784000000002", "9784000000003"],
+            { batchSize: 1, concurrency: 1, intervalMs: 0 },
+        );
+
+        expect(calls.lookup).toEqual(["9784000000001"]);
+        expect(result.failed).toEqual(["9784000000001", "9784000000002", "9784000000003"]);
+    });
+});
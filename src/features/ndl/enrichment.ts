@@ -0,0 +1,309 @@
+import { getDatabase } from "../bibliographic/db/schema";
+import { UpstreamUnavailableError } from "../../shared/errors/upstream-errors";
+import { logger } from "../../shared/logging/logger";
+import { cqlQuote, searchNdlSru, type NdlSruOptions } from "./sru";
+import { rankNdlItems } from "./record-selection";
+import { lookupBibliographic } from "../metadata/lookup";
+import { convertISBN10to13, type NdlFeed, type NdlItem } from "./utility";
+
+/**
+ * Batch NDL enrichment for many ISBNs (list downloads, prefetching)
+ *
+ * - ISBNs are grouped into SRU OR queries (`isbn="…" OR isbn="…"`)
+ * - ISBNs a batch could not answer (failed or truncated batch, single
+ *   leftovers) are looked up one by one through lookupBibliographic
+ * - ISBNs NDL doesn't have are looked up in the other metadata providers
+ *   (openBD, Google Books); these lookups are not spaced
+ * - Requests run in a bounded pool, and their starts are spaced by
+ *   intervalMs so that NDL is not flooded
+ * - An ISBN already being looked up by another caller is awaited instead
+ *   of requested again
+ * - Once NDL is unavailable, the remaining ISBNs are not requested
+ *
+ * Records found by a batch query go through the same merge as a single
+ * lookup: the other providers are asked only when the NDL record lacks
+ * fields, and the merged record is what gets cached.
+ */
+
+export const DEFAULT_ENRICHMENT_BATCH_SIZE = 10;
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 2;
+export const DEFAULT_ENRICHMENT_INTERVAL_MS = 250;
+// Records per SRU response (NDL returns at most 200)
+const MAX_RECORDS = 200;
+
+export type EnrichmentProgress = {
+    total: number;
+    done: number;
+    found: number;
+    notFound: number;
+    failed: number;
+};
+
+export type NdlEnrichmentOptions = {
+    /** ISBNs per OR query (1 disables batching) */
+    batchSize?: number;
+    /** Requests to NDL running at the same time */
+    concurrency?: number;
+    /** Minimum time between the start of two requests */
+    intervalMs?: number;
+    /** Called whenever an ISBN has been resolved */
+    onProgress?: (progress: EnrichmentProgress) => void;
+};
+
+export type NdlEnrichmentResult = {
+    /** Found records by requested ISBN */
+    items: Map<string, NdlItem>;
+    notFound: string[];
+    /** ISBNs whose lookup failed or was skipped because NDL is unavailable */
+    failed: string[];
+};
+
+export type NdlEnrichmentDeps = {
+    searchSru: (cql: string, options: NdlSruOptions) => Promise<NdlFeed>;
+    /** Single ISBN lookup (DB cache, then every metadata provider) */
+    lookup: (isbn: string) => Promise<NdlItem | null>;
+    /** Lookup in the metadata providers other than NDL */
+    fallback: (isbn: string) => Promise<NdlItem | null>;
+    /**
+     * Merge the records a batch query found for an ISBN (best first) with
+     * the other providers and save the result
+     */
+    complete: (isbn: string, items: NdlItem[]) => Promise<NdlItem | null>;
+    sleep: (ms: number) => Promise<void>;
+    now: () => number;
+};
+
+function defaultDeps(): NdlEnrichmentDeps {
+    return {
+        searchSru: searchNdlSru,
+        lookup: async (isbn) => (await lookupBibliographic(isbn, getDatabase()))[0] ?? null,
+        fallback: async (isbn) =>
+            (await lookupBibliographic(isbn, getDatabase(), { exclude: ["ndl"] }))[0] ?? null,
+        complete: async (isbn, items) =>
+            (await lookupBibliographic(isbn, getDatabase(), { known: { source: "ndl", items } }))[0] ??
+            null,
+        sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+        now: () => Date.now(),
+    };
+}
+
+/**
+ * Run worker over items with at most `concurrency` running at once
+ * Stops taking new items once shouldStop() returns true.
+ */
+async function runPool<T>(
+    items: T[],
+    concurrency: number,
+    shouldStop: () => boolean,
+    worker: (item: T) => Promise<void>,
+): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+        while (next < items.length && !shouldStop()) {
+            await worker(items[next++]!);
+        }
+    });
+    await Promise.all(runners);
+}
+
+export type NdlEnricher = ReturnType<typeof createNdlEnricher>;
+
+export function createNdlEnricher(deps: NdlEnrichmentDeps = defaultDeps()) {
+    // Lookups in progress, shared by concurrent enrich() calls
+    const inFlight = new Map<string, Promise<NdlItem | null>>();
+    // Earliest start of the next request (shared by all callers)
+    let nextSlotAt = 0;
+
+    async function throttle(intervalMs: number): Promise<void> {
+        const now = deps.now();
+        const startAt = Math.max(now, nextSlotAt);
+        nextSlotAt = startAt + intervalMs;
+        if (startAt > now) {
+            await deps.sleep(startAt - now);
+        }
+    }
+
+    /**
+     * Look up NDL records for a list of ISBN-13s
+     * Never throws; failures are reported in the result.
+     */
+    async function enrich(
+        isbns: string[],
+        options: NdlEnrichmentOptions = {},
+    ): Promise<NdlEnrichmentResult> {
+        const batchSize = Math.max(1, options.batchSize ?? DEFAULT_ENRICHMENT_BATCH_SIZE);
+        const concurrency = Math.max(1, options.concurrency ?? DEFAULT_ENRICHMENT_CONCURRENCY);
+        const intervalMs = Math.max(0, options.intervalMs ?? DEFAULT_ENRICHMENT_INTERVAL_MS);
+
+        const unique = [...new Set(isbns)];
+        const result: NdlEnrichmentResult = { items: new Map(), notFound: [], failed: [] };
+        const progress: EnrichmentProgress = {
+            total: unique.length,
+            done: 0,
+            found: 0,
+            notFound: 0,
+            failed: 0,
+        };
+
+        const settle = (isbn: string, outcome: NdlItem | null | Error) => {
+            if (outcome instanceof Error) {
+                result.failed.push(isbn);
+                progress.failed++;
+            } else if (outcome?.title) {
+                result.items.set(isbn, outcome);
+                progress.found++;
+            } else {
+                result.notFound.push(isbn);
+                progress.notFound++;
+            }
+            progress.done++;
+            options.onProgress?.({ ...progress });
+        };
+
+        // Wait for ISBNs another caller is already looking up
+        const joined = unique
+            .filter((isbn) => inFlight.has(isbn))
+            .map(async (isbn) => {
+                try {
+                    settle(isbn, await inFlight.get(isbn)!);
+                } catch (error) {
+                    settle(isbn, error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+
+        const own = unique.filter((isbn) => !inFlight.has(isbn));
+        const pending = new Map(
+            own.map((isbn) => [isbn, Promise.withResolvers<NdlItem | null>()]),
+        );
+        for (const [isbn, deferred] of pending) {
+            deferred.promise.catch(() => undefined);
+            inFlight.set(isbn, deferred.promise);
+        }
+        const finish = (isbn: string, outcome: NdlItem | null | Error) => {
+            const deferred = pending.get(isbn);
+            if (!deferred) return;
+            pending.delete(isbn);
+            inFlight.delete(isbn);
+            if (outcome instanceof Error) deferred.reject(outcome);
+            else deferred.resolve(outcome);
+            settle(isbn, outcome);
+        };
+
+        let unavailable: UpstreamUnavailableError | null = null;
+        const onError = (error: unknown) => {
+            if (
+                error instanceof UpstreamUnavailableError &&
+                error.upstream === "ndl" &&
+                !unavailable
+            ) {
+                logger.warn("[enrichment] NDL利用不可のため残りの取得を中止", {
+                    remaining: pending.size,
+                });
+                unavailable = error;
+            }
+        };
+
+        // Fill in a batch hit from the other providers; NDL's record is kept
+        // if that fails
+        const completeHit = async (isbn: string, ranked: NdlItem[]) => {
+            try {
+                finish(isbn, (await deps.complete(isbn, ranked)) ?? ranked[0]!);
+            } catch (error) {
+                logger.warn("[enrichment] 書誌情報の補完に失敗", { isbn, error: String(error) });
+                finish(isbn, ranked[0]!);
+            }
+        };
+
+        // 1. OR queries; ISBNs a batch can't answer are looked up one by one
+        const batches: string[][] = [];
+        const singles: string[] = [];
+        const notInNdl: string[] = [];
+        for (let i = 0; i < own.length; i += batchSize) {
+            const batch = own.slice(i, i + batchSize);
+            if (batch.length > 1) batches.push(batch);
+            else singles.push(...batch);
+        }
+
+        await runPool(batches, concurrency, () => !!unavailable, async (batch) => {
+            const maximumRecords = Math.min(MAX_RECORDS, batch.length * 3);
+            try {
+                await throttle(intervalMs);
+                const feed = await deps.searchSru(
+                    batch.map((isbn) => `isbn=${cqlQuote(isbn)}`).join(" OR "),
+                    { maximumRecords },
+                );
+
+                const byIsbn = new Map<string, NdlItem[]>();
+                for (const item of feed.items) {
+                    const isbn = item.isbn13 ? convertISBN10to13(item.isbn13) : null;
+                    if (isbn) byIsbn.set(isbn, [...(byIsbn.get(isbn) ?? []), item]);
+                }
+                // Records beyond maximumRecords may hold the missing ISBNs
+                const truncated = feed.totalResults > feed.items.length;
+
+                const hits: [string, NdlItem[]][] = [];
+                for (const isbn of batch) {
+                    const ranked = rankNdlItems(byIsbn.get(isbn) ?? [], isbn);
+                    if (ranked[0]) {
+                        hits.push([isbn, ranked]);
+                    } else if (truncated) {
+                        singles.push(isbn);
+                    } else {
+                        notInNdl.push(isbn);
+                    }
+                }
+                await Promise.all(hits.map(([isbn, ranked]) => completeHit(isbn, ranked)));
+            } catch (error) {
+                logger.warn("[enrichment] SRUの一括検索に失敗、個別に取得", {
+                    count: batch.length,
+                    error: String(error),
+                });
+                onError(error);
+                singles.push(...batch);
+            }
+        });
+
+        // 2. One request per remaining ISBN
+        await runPool(singles, concurrency, () => !!unavailable, async (isbn) => {
+            try {
+                await throttle(intervalMs);
+                finish(isbn, await deps.lookup(isbn));
+            } catch (error) {
+                logger.warn("[enrichment] NDL書誌情報取得失敗", { isbn, error: String(error) });
+                onError(error);
+                finish(isbn, error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // 3. ISBNs NDL doesn't have: the other providers only
+        await runPool(notInNdl, concurrency, () => false, async (isbn) => {
+            try {
+                finish(isbn, await deps.fallback(isbn));
+            } catch (error) {
+                logger.warn("[enrichment] 書誌情報取得失敗", { isbn, error: String(error) });
+                finish(isbn, error instanceof Error ? error : new Error(String(error)));
+            }
+        });
+
+        // Skipped because NDL is unavailable
+        for (const isbn of [...pending.keys()]) {
+            finish(isbn, unavailable ?? new Error("NDL lookup skipped"));
+        }
+
+        await Promise.all(joined);
+        return result;
+    }
+
+    return { enrich };
+}
+
+let sharedEnricher: NdlEnricher | null = null;
+
+/**
+ * Enricher shared by the routes, so that concurrent downloads share lookups
+ * and the request spacing
+ */
+export function getNdlEnricher(): NdlEnricher {
+    sharedEnricher ??= createNdlEnricher();
+    return sharedEnricher;
+}
@@ -0,0 +1,223 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    preferChosenRecord,
+    rankNdlItems,
+    scoreNdlItem,
+    selectAlternativeRecord,
+} from "./record-selection";
+import { ndlItemToBibliographicInfo, type NdlItem } from "./utility";
+import {
+    getBibliographicInfo,
+    upsertBibliographicInfo,
+} from "../bibliographic/db/schema";
+import {
+    getRecordAlternatives,
+    initRecordAlternativesSchema,
+    saveRecordAlternatives,
+} from "../bibliographic/db/record-alternatives";
+import {
+    getRecordChoice,
+    initRecordChoicesSchema,
+    saveRecordChoice,
+} from "../bibliographic/db/record-choices";
+
+const ISBN = "9784000000001";
+
+function item(overrides: Partial<NdlItem> = {}): NdlItem {
+    return {
+        title: "本",
+        titleKana: null,
+        link: null,
+        creators: [],
+        creatorsKana: [],
+        publisher: null,
+        pubYear: null,
+        issued: null,
+        extent: null,
+        price: null,
+        categories: [],
+        isbn13: ISBN,
+        ndlBibId: null,
+        jpno: null,
+        tohanMarcNo: null,
+        ndc10: null,
+        ndlc: null,
+        subjects: [],
+        descriptionHtml: null,
+        seeAlso: [],
+        seriesTitle: null,
+        volume: null,
+        edition: null,
+        tableOfContents: [],
+        alternativeTitles: [],
+        authorityLinks: [],
+        ...overrides,
+    };
+}
+
+describe("scoreNdlItem", () => {
+    test("ISBN が一致する書誌を優先する", () => {
+        expect(scoreNdlItem(item(), ISBN)).toBeGreaterThan(
+            scoreNdlItem(item({ isbn13: null, ndc10: "913.6" }), ISBN),
+        );
+        expect(scoreNdlItem(item({ isbn13: null }), ISBN)).toBeGreaterThan(
+            scoreNdlItem(item({ isbn13: "9784000000002" }), ISBN),
+        );
+    });
+
+    test("ISBN-10 の書誌も一致とみなす", () => {
+        expect(scoreNdlItem(item({ isbn13: "4873117526" }), "9784873117522")).toBe(
+            scoreNdlItem(item({ isbn13: "9784873117522" }), "9784873117522"),
+        );
+    });
+});
+
+describe("rankNdlItems", () => {
+    test("NDC・内容紹介・出版年のある書誌を上位にし、同点なら新しいものを先にする", () => {
+        const bare = item({ ndlBibId: "bare" });
+        const old = item({ ndlBibId: "old", ndc10: "913.6", issued: "1999" });
+        const reprint = item({ ndlBibId: "reprint", ndc10: "913.6", issued: "2021" });
+        const set = item({ ndlBibId: "set", isbn13: "9784000000002", ndc10: "913.6", issued: "2022" });
+
+        expect(rankNdlItems([bare, set, old, reprint], ISBN).map((i) => i.ndlBibId)).toEqual([
+            "reprint",
+            "old",
+            "bare",
+            "set",
+        ]);
+    });
+
+    test("タイトルのない書誌は除く", () => {
+        expect(rankNdlItems([item({ title: "" })], ISBN)).toEqual([]);
+    });
+});
+
+describe("preferChosenRecord", () => {
+    const ranked = [item({ ndlBibId: "a" }), item({ ndlBibId: "b" }), item({ ndlBibId: "c" })];
+
+    test("選んだ書誌を先頭にし、ほかは順位どおりに残す", () => {
+        expect(preferChosenRecord(ranked, "c").map((i) => i.ndlBibId)).toEqual(["c", "a", "b"]);
+    });
+
+    test("選んだ書誌が無ければ順位のまま", () => {
+        expect(preferChosenRecord(ranked, "gone")).toEqual(ranked);
+        expect(preferChosenRecord(ranked, null)).toEqual(ranked);
+    });
+});
+
+describe("record choices", () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = new Database(":memory:");
+        initRecordChoicesSchema(db);
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    test("ISBN ごとに選んだ書誌を保存し、選び直せば上書きする", () => {
+        expect(getRecordChoice(db, ISBN)).toBeNull();
+
+        saveRecordChoice(db, ISBN, "b");
+        saveRecordChoice(db, ISBN, "c");
+
+        expect(getRecordChoice(db, ISBN)).toBe("c");
+    });
+
+    test("NDL の ID が無い書誌を選ぶと以前の選択を消す", () => {
+        saveRecordChoice(db, ISBN, "b");
+        saveRecordChoice(db, ISBN, null);
+
+        expect(getRecordChoice(db, ISBN)).toBeNull();
+    });
+});
+
+describe("selectAlternativeRecord", () => {
+    let db: Database;
+
+    beforeEach(() => {
+        db = new Database(":memory:");
+        db.run(`
+            CREATE TABLE bibliographic_info (
+                isbn TEXT PRIMARY KEY,
+                title TEXT NOT NULL,
+                title_kana TEXT,
+                link TEXT,
+                creators TEXT NOT NULL,
+                creators_kana TEXT,
+                publisher TEXT,
+                pub_year TEXT,
+                issued TEXT,
+                extent TEXT,
+                price TEXT,
+                ndc10 TEXT,
+                ndlc TEXT,
+                ndl_bib_id TEXT,
+                jpno TEXT,
+                tohan_marc_no TEXT,
+                subjects TEXT,
+                categories TEXT,
+                description TEXT,
+                series_title TEXT,
+                volume TEXT,
+                edition TEXT,
+                table_of_contents TEXT,
+                alternative_titles TEXT,
+                authority_links TEXT,
+                source TEXT,
+                created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        db.run(`
+            CREATE VIRTUAL TABLE bibliographic_fts USING fts5(
+                isbn UNINDEXED, title, content='bibliographic_info', content_rowid='rowid'
+            )
+        `);
+        db.run(`
+            CREATE TRIGGER bibliographic_fts_insert
+            AFTER INSERT ON bibliographic_info BEGIN
+                INSERT INTO bibliographic_fts(rowid, isbn, title) VALUES (new.rowid, new.isbn, new.title);
+            END
+        `);
+        initRecordAlternativesSchema(db);
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    test("候補を保存順に読み出す", () => {
+        const alternatives = [item({ ndlBibId: "b", volume: "上" }), item({ ndlBibId: "c" })];
+        saveRecordAlternatives(db, ISBN, alternatives);
+
+        expect(getRecordAlternatives(db, ISBN)).toEqual(alternatives);
+
+        saveRecordAlternatives(db, ISBN, []);
+        expect(getRecordAlternatives(db, ISBN)).toEqual([]);
+    });
+
+    test("選んだ候補を書誌にし、それまでの書誌を候補に入れ替える", () => {
+        upsertBibliographicInfo(db, ndlItemToBibliographicInfo(ISBN, item({ title: "全集", ndlBibId: "a" })));
+        saveRecordAlternatives(db, ISBN, [
+            item({ title: "第1巻", ndlBibId: "b" }),
+            item({ title: "第2巻", ndlBibId: "c" }),
+        ]);
+
+        const records = selectAlternativeRecord(db, ISBN, 1);
+
+        expect(records?.map((r) => r.ndlBibId)).toEqual(["c", "b", "a"]);
+        expect(getBibliographicInfo(db, ISBN)?.title).toBe("第2巻");
+        expect(getRecordAlternatives(db, ISBN).map((r) => r.title)).toEqual(["第1巻", "全集"]);
+    });
+
+    test("候補がなければ null を返す", () => {
+        upsertBibliographicInfo(db, ndlItemToBibliographicInfo(ISBN, item()));
+
+        expect(selectAlternativeRecord(db, ISBN, 0)).toBeNull();
+        expect(selectAlternativeRecord(db, "9784000000002", 0)).toBeNull();
+    });
+});
@@ -0,0 +1,85 @@
+import type { Database } from "bun:sqlite";
+import {
+    getBibliographicInfo,
+    upsertBibliographicInfo,
+} from "../bibliographic/db/schema";
+import {
+    getRecordAlternatives,
+    saveRecordAlternatives,
+} from "../bibliographic/db/record-alternatives";
+import {
+    bibliographicInfoToNdlItem,
+    convertISBN10to13,
+    ndlItemToBibliographicInfo,
+    type NdlItem,
+} from "./utility";
+
+/**
+ * Choosing among several NDL records for one ISBN
+ *
+ * A record scores higher when its ISBN is the one we asked for (a set or
+ * another volume carries a different ISBN), and when it has an NDC
+ * classification, a description and a publication date. Equal scores
+ * prefer the newer publication.
+ */
+
+export function scoreNdlItem(item: NdlItem, isbn: string): number {
+    let score = 0;
+    const itemIsbn = item.isbn13 ? convertISBN10to13(item.isbn13) : null;
+    if (itemIsbn === convertISBN10to13(isbn)) score += 100;
+    else if (itemIsbn) score -= 50;
+    if (item.ndc10) score += 10;
+    if (item.descriptionHtml) score += 5;
+    if (item.issued || item.pubYear) score += 5;
+    return score;
+}
+
+/**
+ * Records with a title, best first
+ */
+export function rankNdlItems(items: NdlItem[], isbn: string): NdlItem[] {
+    const published = (item: NdlItem) => item.issued ?? item.pubYear ?? "";
+    return items
+        .filter((item) => item.title)
+        .map((item) => ({ item, score: scoreNdlItem(item, isbn) }))
+        .sort(
+            (a, b) =>
+                b.score - a.score ||
+                published(b.item).localeCompare(published(a.item), undefined, { numeric: true }),
+        )
+        .map(({ item }) => item);
+}
+
+/**
+ * Move the record the user chose (by NDL bibliographic id) to the front
+ * The ranking is kept otherwise, also when the chosen record is gone.
+ */
+export function preferChosenRecord(items: NdlItem[], ndlBibId: string | null): NdlItem[] {
+    const chosen = ndlBibId ? items.find((item) => item.ndlBibId === ndlBibId) : undefined;
+    return chosen ? [chosen, ...items.filter((item) => item !== chosen)] : items;
+}
+
+/**
+ * Make the alternative at `position` the record of the ISBN
+ * The previously selected record becomes an alternative in its place.
+ *
+ * @returns The selected record followed by the alternatives, or null if
+ * there is no such alternative
+ */
+export function selectAlternativeRecord(
+    db: Database,
+    isbn: string,
+    position: number,
+): NdlItem[] | null {
+    const alternatives = getRecordAlternatives(db, isbn);
+    const chosen = alternatives[position];
+    const current = getBibliographicInfo(db, isbn);
+    if (!chosen || !current) return null;
+
+    const rest = alternatives.map((item, index) =>
+        index === position ? bibliographicInfoToNdlItem(current) : item,
+    );
+    upsertBibliographicInfo(db, ndlItemToBibliographicInfo(isbn, chosen));
+    saveRecordAlternatives(db, isbn, rest);
+    return [chosen, ...rest];
+}
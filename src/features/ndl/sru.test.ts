@@ -0,0 +1,159 @@
+import { test, expect, describe } from "bun:test";
+import { cqlQuote, parseNdlSru } from "./sru";
+import { NdlParseError } from "../../shared/errors/upstream-errors";
+
+const record = `
+    <record>
+      <recordSchema>info:ndl-ndl/dcndl</recordSchema>
+      <recordPacking>xml</recordPacking>
+      <recordData>
+        <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:rdfs="http://www.w3.org/2000/01/rdf-schema#" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcndl="http://ndl.go.jp/dcndl/terms/" xmlns:foaf="http://xmlns.com/foaf/0.1/">
+          <dcndl:BibAdminResource rdf:about="https://ndlsearch.ndl.go.jp/books/R100000002-I000012345">
+            <dcndl:record rdf:resource="https://ndlsearch.ndl.go.jp/books/R100000002-I000012345#material"/>
+          </dcndl:BibAdminResource>
+          <dcndl:BibResource rdf:about="https://ndlsearch.ndl.go.jp/books/R100000002-I000012345#material">
+            <rdfs:seeAlso rdf:resource="https://id.ndl.go.jp/bib/000012345"/>
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/JPNO">23000001</dcterms:identifier>
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/ISBN">978-4-00-000100-7</dcterms:identifier>
+            <dcterms:identifier rdf:datatype="http://ndl.go.jp/dcndl/terms/NDLBibID">000012345</dcterms:identifier>
+            <dcterms:title>はじめての型システム 上</dcterms:title>
+            <dc:title>
+              <rdf:Description>
+                <rdf:value>はじめての型システム</rdf:value>
+                <dcndl:transcription>ハジメテ ノ カタ システム</dcndl:transcription>
+              </rdf:Description>
+            </dc:title>
+            <dcndl:alternative>
+              <rdf:Description>
+                <rdf:value>Types for Beginners</rdf:value>
+              </rdf:Description>
+            </dcndl:alternative>
+            <dcndl:volume>
+              <rdf:Description>
+                <rdf:value>上</rdf:value>
+              </rdf:Description>
+            </dcndl:volume>
+            <dcndl:seriesTitle>
+              <rdf:Description>
+                <rdf:value>入門シリーズ</rdf:value>
+                <dcndl:transcription>ニュウモン シリーズ</dcndl:transcription>
+              </rdf:Description>
+            </dcndl:seriesTitle>
+            <dcndl:edition>第2版</dcndl:edition>
+            <dcterms:creator>
+              <foaf:Agent rdf:about="http://id.ndl.go.jp/auth/entity/00000001">
+                <foaf:name>山田, 太郎, 1970-</foaf:name>
+                <dcndl:transcription>ヤマダ, タロウ, 1970-</dcndl:transcription>
+              </foaf:Agent>
+            </dcterms:creator>
+            <dc:creator>山田太郎 著</dc:creator>
+            <dcterms:publisher>
+              <foaf:Agent>
+                <foaf:name>技術書房</foaf:name>
+              </foaf:Agent>
+            </dcterms:publisher>
+            <dcterms:date>2015.1</dcterms:date>
+            <dcterms:issued rdf:datatype="http://purl.org/dc/terms/W3CDTF">2015</dcterms:issued>
+            <dcterms:subject>
+              <rdf:Description rdf:about="http://id.ndl.go.jp/auth/ndlsh/00000002">
+                <rdf:value>プログラミング (コンピュータ)</rdf:value>
+              </rdf:Description>
+            </dcterms:subject>
+            <dcterms:subject rdf:resource="http://id.ndl.go.jp/class/ndlc/M159"/>
+            <dcterms:subject rdf:resource="http://id.ndl.go.jp/class/ndc10/007.64"/>
+            <dcterms:tableOfContents>第1章 型とは -- 第2章 型推論 -- 第3章 多相性</dcterms:tableOfContents>
+            <dcterms:extent>180p ; 19cm</dcterms:extent>
+            <dcndl:price>1200円</dcndl:price>
+            <dcndl:materialType rdf:resource="http://ndl.go.jp/ndltype/Book" rdfs:label="図書"/>
+          </dcndl:BibResource>
+        </rdf:RDF>
+      </recordData>
+      <recordPosition>1</recordPosition>
+    </record>`;
+
+const sruResponse = (records: string, numberOfRecords = 1) => `<?xml version="1.0" encoding="UTF-8"?>
+<searchRetrieveResponse xmlns="http://www.loc.gov/zing/srw/">
+  <version>1.2</version>
+  <numberOfRecords>${numberOfRecords}</numberOfRecords>
+  <nextRecordPosition>0</nextRecordPosition>
+  <records>${records}
+  </records>
+  <echoedSearchRetrieveRequest>
+    <version>1.2</version>
+    <query>isbn="9784000001007"</query>
+    <startRecord>1</startRecord>
+    <maximumRecords>10</maximumRecords>
+  </echoedSearchRetrieveRequest>
+</searchRetrieveResponse>`;
+
+describe("parseNdlSru", () => {
+    test("DC-NDL のレコードから OpenSearch に無い項目も取り出す", () => {
+        const feed = parseNdlSru(sruResponse(record));
+        const item = feed.items[0]!;
+
+        expect(feed.totalResults).toBe(1);
+        expect(feed.startIndex).toBe(1);
+        expect(item).toMatchObject({
+            title: "はじめての型システム",
+            titleKana: "ハジメテ ノ カタ システム",
+            link: "https://ndlsearch.ndl.go.jp/books/R100000002-I000012345",
+            creators: ["山田太郎 著"],
+            creatorsKana: ["ヤマダ, タロウ, 1970-"],
+            publisher: "技術書房",
+            pubYear: "2015",
+            issued: "2015",
+            extent: "180p ; 19cm",
+            price: "1200円",
+            categories: ["図書"],
+            isbn13: "9784000001007",
+            ndlBibId: "000012345",
+            jpno: "23000001",
+            ndc10: "007.64",
+            ndlc: "M159",
+            subjects: ["プログラミング (コンピュータ)"],
+            seeAlso: ["https://id.ndl.go.jp/bib/000012345"],
+            seriesTitle: "入門シリーズ",
+            volume: "上",
+            edition: "第2版",
+            tableOfContents: ["第1章 型とは", "第2章 型推論", "第3章 多相性"],
+            alternativeTitles: ["Types for Beginners"],
+        });
+        expect(item.authorityLinks).toEqual([
+            { type: "creator", label: "山田, 太郎, 1970-", uri: "http://id.ndl.go.jp/auth/entity/00000001" },
+            { type: "subject", label: "プログラミング (コンピュータ)", uri: "http://id.ndl.go.jp/auth/ndlsh/00000002" },
+        ]);
+    });
+
+    test("0件の応答は空の結果", () => {
+        const feed = parseNdlSru(sruResponse("", 0));
+
+        expect(feed.totalResults).toBe(0);
+        expect(feed.items).toEqual([]);
+    });
+
+    test("diagnostics（CQLの誤りなど）は NdlParseError", () => {
+        const xml = `<searchRetrieveResponse xmlns="http://www.loc.gov/zing/srw/">
+  <version>1.2</version>
+  <numberOfRecords>0</numberOfRecords>
+  <diagnostics>
+    <diagnostic xmlns="http://www.loc.gov/zing/srw/diagnostic/">
+      <uri>info:srw/diagnostic/1/10</uri>
+      <message>Query syntax error</message>
+    </diagnostic>
+  </diagnostics>
+</searchRetrieveResponse>`;
+
+        expect(() => parseNdlSru(xml)).toThrow("Query syntax error");
+    });
+
+    test("SRU の応答でなければ NdlParseError", () => {
+        expect(() => parseNdlSru("<rss><channel/></rss>")).toThrow(NdlParseError);
+    });
+});
+
+describe("cqlQuote", () => {
+    test("引用符とバックスラッシュをエスケープする", () => {
+        expect(cqlQuote("9784000001007")).toBe('"9784000001007"');
+        expect(cqlQuote('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+    });
+});
@@ -0,0 +1,254 @@
+import { XMLParser } from "fast-xml-parser";
+import {
+    NdlParseError,
+    errorFromResponse,
+} from "../../shared/errors/upstream-errors";
+import { getUpstreamBaseUrl, httpRequest } from "../../shared/http/http-client";
+import { logger } from "../../shared/logging/logger";
+import type { NdlAuthorityLink, NdlFeed, NdlItem } from "./utility";
+
+/**
+ * NDL SRU client (CQL queries, DC-NDL RDF/XML records)
+ *
+ * OpenSearch RSS only carries part of the record; DC-NDL adds series
+ * title, volume, edition, table of contents, alternative titles and links
+ * to the NDL authorities. Records are returned as NdlItem so callers can
+ * use either source.
+ */
+
+export type NdlSruOptions = {
+    /** Defaults to 10 (the NDL limit is 200 for DC-NDL) */
+    maximumRecords?: number;
+    /** 1-based position of the first record */
+    startRecord?: number;
+};
+
+/**
+ * Quote a value for a CQL query (e.g. `isbn=${cqlQuote(isbn)}`)
+ */
+export function cqlQuote(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Send a CQL query to the NDL SRU API and parse the DC-NDL records
+ *
+ * @throws {UpstreamUnavailableError} If NDL can't be reached or answers 429/5xx
+ * @throws {NdlParseError} If the response is not an SRU response or has diagnostics
+ */
+export async function searchNdlSru(
+    cql: string,
+    options: NdlSruOptions = {},
+): Promise<NdlFeed> {
+    const params = new URLSearchParams({
+        operation: "searchRetrieve",
+        version: "1.2",
+        recordSchema: "dcndl",
+        recordPacking: "xml",
+        query: cql,
+        maximumRecords: String(options.maximumRecords ?? 10),
+        startRecord: String(options.startRecord ?? 1),
+    });
+    logger.debug("[searchNdlSru] NDL SRU呼び出し", { cql });
+
+    const response = await httpRequest(
+        `${getUpstreamBaseUrl("ndl")}/api/sru?${params}`,
+        { upstream: "ndl", context: "NDL SRU request failed" },
+    );
+    if (!response.ok) {
+        throw errorFromResponse("ndl", response, "NDL SRU request failed");
+    }
+    return parseNdlSru(await response.text());
+}
+
+// 値を文字列のまま扱う（NDLBibID や NDC の先頭の0を落とさない）
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: true,
+});
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+// テキスト、または <rdf:Description><rdf:value> の値
+function valueOf(node: any): string | null {
+    if (node == null) return null;
+    if (typeof node === "string") return node || null;
+    if (typeof node === "number") return String(node);
+    if (typeof node["#text"] === "string") return node["#text"];
+    if (node.Description) return valueOf(asArray(node.Description)[0]?.value);
+    return null;
+}
+
+function transcriptionOf(node: any): string | null {
+    return valueOf(asArray(asArray(node?.Description)[0]?.transcription)[0]);
+}
+
+function values(nodes: unknown): string[] {
+    return asArray(nodes).map(valueOf).filter((v): v is string => !!v);
+}
+
+// rdf:datatype / rdf:resource の末尾（".../terms/ISBN" → "ISBN"）
+function lastSegment(uri: unknown): string {
+    return typeof uri === "string" ? uri.slice(uri.lastIndexOf("/") + 1) : "";
+}
+
+function parseBibResource(resource: any, admin: any): NdlItem {
+    let isbn13: string | null = null;
+    let ndlBibId: string | null = null;
+    let jpno: string | null = null;
+    let tohanMarcNo: string | null = null;
+    for (const node of asArray(resource.identifier)) {
+        const value = valueOf(node);
+        if (!value) continue;
+        const type = lastSegment(node["@_datatype"]).toUpperCase();
+        if (type === "ISBN") isbn13 = value.replace(/-/g, "");
+        else if (type === "NDLBIBID") ndlBibId = value;
+        else if (type === "JPNO") jpno = value;
+        else if (type === "TOHANMARCNO") tohanMarcNo = value;
+    }
+
+    const authorityLinks: NdlAuthorityLink[] = [];
+
+    const agents = asArray(resource.creator)
+        .map((node: any) => asArray(node?.Agent)[0])
+        .filter(Boolean);
+    for (const agent of agents) {
+        const label = valueOf(asArray(agent.name)[0]);
+        if (label && agent["@_about"]) {
+            authorityLinks.push({ type: "creator", label, uri: agent["@_about"] });
+        }
+    }
+
+    // 件名: NDC/NDLC は分類のURI、ほかは件名標目（典拠付き）
+    let ndc10: string | null = null;
+    let ndlc: string | null = null;
+    const subjects: string[] = [];
+    for (const node of asArray(resource.subject)) {
+        const classUri: string = node?.["@_resource"] ?? "";
+        const datatype = lastSegment(node?.["@_datatype"]).toUpperCase();
+        if (classUri.includes("/ndc10/") || datatype === "NDC10") {
+            ndc10 = decodeURIComponent(lastSegment(classUri)) || valueOf(node);
+            continue;
+        }
+        if (classUri.includes("/ndlc/") || datatype === "NDLC") {
+            ndlc = decodeURIComponent(lastSegment(classUri)) || valueOf(node);
+            continue;
+        }
+        const label = valueOf(node);
+        if (!label) continue;
+        subjects.push(label);
+        const about = asArray(node?.Description)[0]?.["@_about"];
+        if (about) authorityLinks.push({ type: "subject", label, uri: about });
+    }
+
+    // 目次は " -- " 区切りの1行か、部分ごとの partInformation
+    const tableOfContents = [
+        ...values(resource.tableOfContents).flatMap((toc) =>
+            toc.split(/\s+--\s+/),
+        ),
+        ...asArray(resource.partInformation)
+            .map((node: any) => valueOf(asArray(asArray(node?.Description)[0]?.title)[0]))
+            .filter((v): v is string => !!v),
+    ];
+
+    // dcterms:title（巻次込みの文字列）と dc:title（読み付き）が同じ名前になる
+    const titleNode = asArray(resource.title).find((node: any) => node?.Description);
+    const title = valueOf(titleNode) ?? values(resource.title)[0] ?? null;
+    const date = valueOf(asArray(resource.date)[0]);
+    const link =
+        admin?.["@_about"] ??
+        (typeof resource["@_about"] === "string"
+            ? resource["@_about"].replace(/#material$/, "")
+            : null);
+
+    return {
+        title,
+        titleKana: transcriptionOf(titleNode),
+        link,
+        // dc:creator は表示用の「山田太郎 著」、無ければ典拠の名前
+        creators: values(resource.creator).length > 0
+            ? values(resource.creator)
+            : agents.map((agent: any) => valueOf(asArray(agent.name)[0])).filter((v): v is string => !!v),
+        creatorsKana: agents
+            .map((agent: any) => valueOf(asArray(agent.transcription)[0]))
+            .filter((v): v is string => !!v),
+        publisher: valueOf(asArray(asArray(asArray(resource.publisher)[0]?.Agent)[0]?.name)[0]),
+        pubYear: date?.match(/\d{4}/)?.[0] ?? null,
+        issued: valueOf(asArray(resource.issued)[0]) ?? date,
+        extent: values(resource.extent)[0] ?? null,
+        price: valueOf(asArray(resource.price)[0]),
+        categories: asArray(resource.materialType)
+            .map((node: any) => node?.["@_label"])
+            .filter((v): v is string => typeof v === "string"),
+        isbn13,
+        ndlBibId,
+        jpno,
+        tohanMarcNo,
+        ndc10,
+        ndlc,
+        subjects,
+        descriptionHtml: values(resource.abstract)[0] ?? values(resource.description)[0] ?? null,
+        seeAlso: asArray(resource.seeAlso)
+            .map((node: any) => node?.["@_resource"])
+            .filter((v): v is string => typeof v === "string"),
+        seriesTitle: valueOf(asArray(resource.seriesTitle)[0]),
+        volume: valueOf(asArray(resource.volume)[0]),
+        edition: valueOf(asArray(resource.edition)[0]),
+        tableOfContents,
+        alternativeTitles: values(resource.alternative),
+        authorityLinks,
+    };
+}
+
+/**
+ * Parse an SRU searchRetrieve response with DC-NDL records
+ *
+ * @throws {NdlParseError} If the XML is invalid, is not an SRU response
+ * or reports diagnostics (e.g. a CQL syntax error)
+ */
+export function parseNdlSru(xml: string): NdlFeed {
+    let root: any;
+    try {
+        root = parser.parse(xml, true);
+    } catch (error) {
+        throw new NdlParseError(`Invalid NDL SRU XML: ${String(error)}`, { cause: error });
+    }
+    const response = root?.searchRetrieveResponse;
+    if (!response) {
+        throw new NdlParseError("NDL SRU response has no <searchRetrieveResponse> element");
+    }
+
+    const diagnostic = asArray(response.diagnostics?.diagnostic)[0];
+    if (diagnostic) {
+        throw new NdlParseError(
+            `NDL SRU diagnostic: ${valueOf(diagnostic.message) ?? valueOf(diagnostic.uri) ?? "unknown"}`,
+        );
+    }
+
+    const records = asArray(response.records?.record);
+    const items = records.flatMap((record: any) => {
+        const rdf = record?.recordData?.RDF;
+        if (!rdf) return [];
+        const resources = asArray(rdf.BibResource);
+        const resource =
+            resources.find((r: any) => String(r?.["@_about"] ?? "").endsWith("#material")) ??
+            resources[0];
+        return resource ? [parseBibResource(resource, asArray(rdf.BibAdminResource)[0])] : [];
+    });
+
+    const echoed = response.echoedSearchRetrieveRequest;
+    return {
+        totalResults: Number(valueOf(response.numberOfRecords) ?? items.length),
+        startIndex: Number(
+            valueOf(records[0]?.recordPosition) ?? valueOf(echoed?.startRecord) ?? 1,
+        ),
+        itemsPerPage: Number(valueOf(echoed?.maximumRecords) ?? items.length),
+        items,
+    };
+}
@@ -1,5 +1,11 @@
 import { test, expect, describe } from 'bun:test';
-import { convertISBN10to13, parseNdlOpenSearch } from './utility';
+import {
+  buildNdlSearchParams,
+  convertISBN10to13,
+  hasNdlSearchKeyword,
+  parseNdlOpenSearch,
+} from './utility';
+import { NdlParseError } from '../../shared/errors/upstream-errors';
 
 describe('convertISBN10to13', () => {
   test('正しいISBN-10をISBN-13に変換する', () => {
@@ -138,3 +144,45 @@ describe('parseNdlOpenSearch', () => {
     expect(item.subjects).toEqual([]);
   });
 });
+
+describe('parseNdlOpenSearch エラー', () => {
+  test('XMLとして不正な場合は NdlParseError', () => {
+    expect(() => parseNdlOpenSearch('<html><body>メンテナンス中')).toThrow(NdlParseError);
+  });
+
+  test('rss要素が無い場合は NdlParseError', () => {
+    expect(() => parseNdlOpenSearch('<?xml version="1.0"?><error>busy</error>')).toThrow(NdlParseError);
+  });
+});
+
+describe('NDLキーワード検索のパラメータ', () => {
+  test('キーワードが1つも無ければ検索しない', () => {
+    expect(hasNdlSearchKeyword({})).toBe(false);
+    expect(hasNdlSearchKeyword({ title: '  ', from: '2020' })).toBe(false);
+    expect(hasNdlSearchKeyword({ creator: '山田' })).toBe(true);
+    expect(hasNdlSearchKeyword({ ndc: '007' })).toBe(true);
+  });
+
+  test('値をトリムし、件数の既定値と開始位置を付ける', () => {
+    const params = buildNdlSearchParams({ title: ' 型システム ', publisher: '' });
+
+    expect(params.get('title')).toBe('型システム');
+    expect(params.has('publisher')).toBe(false);
+    expect(params.get('cnt')).toBe('20');
+    expect(params.get('idx')).toBe('1');
+  });
+
+  test('件数は上限に丸め、開始位置は1以上にする', () => {
+    const params = buildNdlSearchParams({ title: 'a', cnt: 500, idx: -3 });
+
+    expect(params.get('cnt')).toBe('100');
+    expect(params.get('idx')).toBe('1');
+  });
+
+  test('形式の違う出版年は送らない', () => {
+    const params = buildNdlSearchParams({ title: 'a', from: '2020-04', until: '令和5年' });
+
+    expect(params.get('from')).toBe('2020-04');
+    expect(params.has('until')).toBe(false);
+  });
+});
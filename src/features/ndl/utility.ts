@@ -1,5 +1,12 @@
-import type { Database } from "bun:sqlite";
 import type { BibliographicInfo } from "../bibliographic/db/schema";
+import {
+    NdlParseError,
+    errorFromResponse,
+} from "../../shared/errors/upstream-errors";
+import { getUpstreamBaseUrl, httpRequest } from "../../shared/http/http-client";
+import { logger } from "../../shared/logging/logger";
+import { cqlQuote, searchNdlSru } from "./sru";
+import { rankNdlItems } from "./record-selection";
 
 export const convertISBN10to13 = (isbn10: string): string => {
     if (isbn10.length !== 10) return isbn10;
@@ -19,7 +26,7 @@ export const convertISBN10to13 = (isbn10: string): string => {
  * Convert BibliographicInfo from DB to NdlItem format
  * Since BibliographicInfo now uses NDL API naming, conversion is minimal
  */
-function bibliographicInfoToNdlItem(info: BibliographicInfo): NdlItem {
+export function bibliographicInfoToNdlItem(info: BibliographicInfo): NdlItem {
     return {
         title: info.title,
         titleKana: info.title_kana ?? null,
@@ -41,77 +48,164 @@ function bibliographicInfoToNdlItem(info: BibliographicInfo): NdlItem {
         subjects: info.subjects || [],
         descriptionHtml: info.description ?? null,
         seeAlso: [], // Not stored in DB
+        seriesTitle: info.series_title ?? null,
+        volume: info.volume ?? null,
+        edition: info.edition ?? null,
+        tableOfContents: info.table_of_contents || [],
+        alternativeTitles: info.alternative_titles || [],
+        authorityLinks: info.authority_links || [],
+        source: info.source ?? null,
     };
 }
 
 /**
- * Search NDL with optional DB cache support
+ * Convert an NdlItem to the bibliographic_info record of an ISBN
  *
- * @param isbn - ISBN to search for
- * @param db - Optional database instance for caching
- * @param getBibliographicInfo - Optional function to retrieve cached data
- * @param upsertBibliographicInfo - Optional function to save fetched data
- * @returns Array of NdlItem or null if not found
+ * @param isbn - Cache key; the ISBN that was looked up, not item.isbn13
  */
-export const NDLsearch = async (
-    isbn: string,
-    db?: Database,
-    getBibliographicInfo?: (db: Database, isbn: string) => BibliographicInfo | null,
-    upsertBibliographicInfo?: (db: Database, info: BibliographicInfo) => void
-): Promise<NdlItem[] | null> => {
-    // Try cache first if DB functions are provided
-    if (db && getBibliographicInfo) {
-        const cached = getBibliographicInfo(db, isbn);
-        if (cached) {
-            console.log(`[NDLsearch] DBキャッシュヒット: ${isbn}`);
-            return [bibliographicInfoToNdlItem(cached)];
-        }
+export function ndlItemToBibliographicInfo(isbn: string, item: NdlItem): BibliographicInfo {
+    // BibliographicInfo now uses NDL API naming, so minimal conversion needed
+    return {
+        isbn,
+        title: item.title ?? "",
+        title_kana: item.titleKana,
+        link: item.link,
+        creators: item.creators, // Matches NDL API naming
+        creators_kana: item.creatorsKana, // Matches NDL API naming
+        publisher: item.publisher,
+        pub_year: item.pubYear,
+        issued: item.issued,
+        extent: item.extent,
+        price: item.price,
+        ndc10: item.ndc10,
+        ndlc: item.ndlc,
+        ndl_bib_id: item.ndlBibId,
+        jpno: item.jpno,
+        tohan_marc_no: item.tohanMarcNo,
+        subjects: item.subjects,
+        categories: item.categories,
+        description: item.descriptionHtml,
+        series_title: item.seriesTitle,
+        volume: item.volume,
+        edition: item.edition,
+        table_of_contents: item.tableOfContents,
+        alternative_titles: item.alternativeTitles,
+        authority_links: item.authorityLinks,
+        source: item.source ?? "ndl",
+    };
+}
+
+/**
+ * Look up an ISBN through SRU (DC-NDL records with series, volume, table
+ * of contents, ...), falling back to OpenSearch when SRU fails
+ */
+async function fetchNdlByIsbn(isbn: string): Promise<NdlFeed> {
+    try {
+        logger.info("[NDLsearch] NDL SRU呼び出し", { isbn });
+        return await searchNdlSru(`isbn=${cqlQuote(isbn)}`);
+    } catch (error) {
+        logger.warn("[NDLsearch] SRU失敗、OpenSearchで再試行", { isbn, error: String(error) });
+    }
+
+    logger.info("[NDLsearch] NDL API呼び出し", { isbn });
+    const response = await httpRequest(
+        `${getUpstreamBaseUrl("ndl")}/api/opensearch?isbn=${isbn}`,
+        { upstream: "ndl", context: `NDL OpenSearch request failed for ${isbn}` },
+    );
+    if (!response.ok) {
+        throw errorFromResponse("ndl", response, `NDL OpenSearch request failed for ${isbn}`);
     }
+    return parseNdlOpenSearch(await response.text());
+}
+
+/**
+ * NDL records of an ISBN
+ *
+ * NDL often has several records for one ISBN (reprints, set vs. volume,
+ * formats); they are ranked with the best one first.
+ *
+ * @returns Records with a title, the best one first
+ * @throws {UpstreamUnavailableError} If NDL can't be reached or answers 429/5xx
+ * @throws {NdlParseError} If SRU fails and the OpenSearch fallback is not a feed
+ */
+export async function fetchNdlRecords(isbn: string): Promise<NdlItem[]> {
+    const result = await fetchNdlByIsbn(isbn);
+    return rankNdlItems(result.items, isbn);
+}
+
+/**
+ * Keyword search parameters (names follow the NDL OpenSearch API)
+ */
+export type NdlSearchQuery = {
+    title?: string;
+    creator?: string;
+    publisher?: string;
+    /** Publication year/month from, e.g. "2020" or "2020-04" */
+    from?: string;
+    /** Publication year/month until */
+    until?: string;
+    /** NDC classification prefix, e.g. "007" */
+    ndc?: string;
+    /** Results per page */
+    cnt?: number;
+    /** 1-based index of the first result */
+    idx?: number;
+};
+
+export const NDL_SEARCH_DEFAULT_COUNT = 20;
+export const NDL_SEARCH_MAX_COUNT = 100;
 
-    // Fetch from NDL API
-    console.log(`[NDLsearch] NDL API呼び出し: ${isbn}`);
-    const response = await fetch(`https://ndlsearch.ndl.go.jp/api/opensearch?isbn=${isbn}`);
-    const xmlText = await response.text();
-
-    const result = parseNdlOpenSearch(xmlText);
-
-    // Save to cache if DB functions are provided and data is valid
-    if (db && upsertBibliographicInfo && result.items && result.items[0]) {
-        const item = result.items[0];
-        if (item.title) {
-            // BibliographicInfo now uses NDL API naming, so minimal conversion needed
-            const bibInfo: BibliographicInfo = {
-                isbn: isbn, // Use request ISBN as cache key, not item.isbn13
-                title: item.title,
-                title_kana: item.titleKana,
-                link: item.link,
-                creators: item.creators, // Matches NDL API naming
-                creators_kana: item.creatorsKana, // Matches NDL API naming
-                publisher: item.publisher,
-                pub_year: item.pubYear,
-                issued: item.issued,
-                extent: item.extent,
-                price: item.price,
-                ndc10: item.ndc10,
-                ndlc: item.ndlc,
-                ndl_bib_id: item.ndlBibId,
-                jpno: item.jpno,
-                tohan_marc_no: item.tohanMarcNo,
-                subjects: item.subjects,
-                categories: item.categories,
-                description: item.descriptionHtml,
-            };
-            try {
-                upsertBibliographicInfo(db, bibInfo);
-                console.log(`[NDLsearch] DBキャッシュ保存完了: ${isbn}`);
-            } catch (error) {
-                // Ignore cache save errors
-                console.error(`[NDLsearch] DBキャッシュ保存失敗: ${isbn}`, error);
-            }
-        }
+const NDL_SEARCH_KEYWORDS = ["title", "creator", "publisher", "ndc"] as const;
+const NDL_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+/**
+ * Whether the query has at least one keyword to search for
+ */
+export function hasNdlSearchKeyword(query: NdlSearchQuery): boolean {
+    return NDL_SEARCH_KEYWORDS.some((key) => !!query[key]?.trim());
+}
+
+/**
+ * Build the OpenSearch query string; dates in another format are dropped
+ * and cnt / idx are clamped to what the UI pages through
+ */
+export function buildNdlSearchParams(query: NdlSearchQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    for (const key of NDL_SEARCH_KEYWORDS) {
+        const value = query[key]?.trim();
+        if (value) params.set(key, value);
+    }
+    for (const key of ["from", "until"] as const) {
+        const value = query[key]?.trim();
+        if (value && NDL_DATE_PATTERN.test(value)) params.set(key, value);
     }
 
-    return result.items || null;
+    const cnt = Number.isFinite(query.cnt) ? Math.trunc(query.cnt!) : NDL_SEARCH_DEFAULT_COUNT;
+    const idx = Number.isFinite(query.idx) ? Math.trunc(query.idx!) : 1;
+    params.set("cnt", String(Math.min(Math.max(cnt, 1), NDL_SEARCH_MAX_COUNT)));
+    params.set("idx", String(Math.max(idx, 1)));
+    return params;
+}
+
+/**
+ * Search NDL by title / author / publisher (books not looked up by ISBN)
+ * The feed's totalResults / startIndex are used for paging.
+ *
+ * @throws {UpstreamUnavailableError} If NDL can't be reached or answers 429/5xx
+ * @throws {NdlParseError} If the response is not an OpenSearch feed
+ */
+export async function searchNdl(query: NdlSearchQuery): Promise<NdlFeed> {
+    const params = buildNdlSearchParams(query);
+    logger.info("[searchNdl] NDL API呼び出し", { query: params.toString() });
+
+    const response = await httpRequest(
+        `${getUpstreamBaseUrl("ndl")}/api/opensearch?${params}`,
+        { upstream: "ndl", context: "NDL OpenSearch keyword search failed" },
+    );
+    if (!response.ok) {
+        throw errorFromResponse("ndl", response, "NDL OpenSearch keyword search failed");
+    }
+    return parseNdlOpenSearch(await response.text());
 }
 
 // parse-ndl-opensearch.ts
@@ -138,9 +232,26 @@ export type NdlItem = {
   subjects: string[];           // それ以外の件名（dc:subject）
   descriptionHtml: string | null; // item/description のHTML（必要なら後で整形）
   seeAlso: string[];            // rdfs:seeAlso/@resource のURL群
+  // 以下は主に SRU（DC-NDL）で取れる項目。OpenSearch では取れる範囲だけ
+  seriesTitle: string | null;   // dcndl:seriesTitle
+  volume: string | null;        // dcndl:volume
+  edition: string | null;       // dcndl:edition
+  tableOfContents: string[];    // dcterms:tableOfContents / dcndl:partInformation
+  alternativeTitles: string[];  // dcndl:alternative
+  authorityLinks: NdlAuthorityLink[]; // 著者・件名の典拠（id.ndl.go.jp）
+  source?: string | null;       // 取得元のプロバイダー（"ndl,openbd" 等、DB 保存時に付く）
+};
+
+/**
+ * Link from a creator or subject to its NDL authority record
+ */
+export type NdlAuthorityLink = {
+  type: 'creator' | 'subject';
+  label: string;
+  uri: string;
 };
 
-type NdlFeed = {
+export type NdlFeed = {
   totalResults: number;
   startIndex: number;
   itemsPerPage: number;
@@ -188,7 +299,15 @@ function textOf(node: any): string | null {
 }
 
 export function parseNdlOpenSearch(xml: string): NdlFeed {
-  const root = parser.parse(xml);
+  let root: any;
+  try {
+    root = parser.parse(xml, true);
+  } catch (error) {
+    throw new NdlParseError(`Invalid NDL OpenSearch XML: ${String(error)}`, { cause: error });
+  }
+  if (!root?.rss) {
+    throw new NdlParseError('NDL OpenSearch response has no <rss> element');
+  }
 
   // ルート: rss.channel
   const ch = root?.rss?.channel ?? {};
@@ -312,6 +431,12 @@ export function parseNdlOpenSearch(xml: string): NdlFeed {
       subjects,
       descriptionHtml: descriptionHtml ?? null,
       seeAlso,
+      seriesTitle: textOf(it['seriesTitle']),
+      volume: textOf(it['volume']),
+      edition: textOf(it['edition']),
+      tableOfContents: [],
+      alternativeTitles: [],
+      authorityLinks: [],
     };
   });
 
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    deleteProfile,
+    getProfile,
+    getProfiles,
+    initProfilesSchema,
+    isValidProfileId,
+    saveProfile,
+} from "./profiles";
+
+let db: Database;
+
+beforeEach(() => {
+    db = new Database(":memory:");
+    initProfilesSchema(db);
+});
+
+describe("profiles", () => {
+    test("seeds the default profile", () => {
+        expect(getProfiles(db).map((profile) => profile.id)).toEqual(["default"]);
+    });
+
+    test("appends new profiles and keeps the position on rename", () => {
+        saveProfile(db, { id: "partner", name: "家族" });
+        saveProfile(db, { id: "work", name: "仕事" });
+        saveProfile(db, { id: "partner", name: "パートナー" });
+
+        expect(getProfiles(db).map((profile) => profile.id)).toEqual([
+            "default",
+            "partner",
+            "work",
+        ]);
+        expect(getProfile(db, "partner")?.name).toBe("パートナー");
+    });
+
+    test("keeps profiles when the schema is initialized again", () => {
+        saveProfile(db, { id: "partner", name: "家族" });
+        initProfilesSchema(db);
+
+        expect(getProfile(db, "partner")).not.toBeNull();
+    });
+
+    test("rejects ids that are not path-safe", () => {
+        expect(isValidProfileId("partner-2")).toBe(true);
+        expect(isValidProfileId("Partner")).toBe(false);
+        expect(isValidProfileId("../x")).toBe(false);
+        expect(() => saveProfile(db, { id: "a/b", name: "x" })).toThrow(
+            "Invalid profile id",
+        );
+    });
+
+    test("deletes profiles except the default one", () => {
+        saveProfile(db, { id: "partner", name: "家族" });
+
+        expect(deleteProfile(db, "partner")).toBe(true);
+        expect(deleteProfile(db, "partner")).toBe(false);
+        expect(() => deleteProfile(db, "default")).toThrow();
+    });
+});
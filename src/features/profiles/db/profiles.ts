@@ -0,0 +1,109 @@
+import type { Database } from "bun:sqlite";
+import { DEFAULT_PROFILE_ID } from "../../../shared/config/app-paths";
+
+/**
+ * Registry of Calil accounts (profiles) used by the app
+ *
+ * Each profile has its own cookie vault, browser profile, token cache and
+ * list data (see profilePaths() and getListDatabases()); the bibliographic
+ * cache and library settings are shared. The default profile always exists
+ * and keeps the files of a single-account install.
+ */
+
+export type Profile = {
+    id: string;
+    name: string;
+    position: number;
+};
+
+const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+/**
+ * Whether a string can be used as a profile id (lowercase, path-safe)
+ */
+export function isValidProfileId(id: string): boolean {
+    return PROFILE_ID_PATTERN.test(id);
+}
+
+/**
+ * Create the profiles table and seed the default profile
+ */
+export function initProfilesSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS profiles (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            position INTEGER NOT NULL,
+            created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+    `);
+
+    db.run(
+        "INSERT OR IGNORE INTO profiles (id, name, position) VALUES (?, ?, 0)",
+        [DEFAULT_PROFILE_ID, "メイン"],
+    );
+}
+
+/**
+ * All profiles in display order
+ */
+export function getProfiles(db: Database): Profile[] {
+    return db
+        .query("SELECT id, name, position FROM profiles ORDER BY position, id")
+        .all() as Profile[];
+}
+
+/**
+ * Look up a profile by id
+ */
+export function getProfile(db: Database, id: string): Profile | null {
+    return (
+        (db
+            .query("SELECT id, name, position FROM profiles WHERE id = ?")
+            .get(id) as Profile | null) ?? null
+    );
+}
+
+/**
+ * Add or rename a profile; new profiles go after the existing ones
+ *
+ * @throws {Error} If the id is not a valid profile id
+ */
+export function saveProfile(
+    db: Database,
+    profile: { id: string; name: string },
+): Profile {
+    if (!isValidProfileId(profile.id)) {
+        throw new Error(`Invalid profile id: ${profile.id}`);
+    }
+
+    const position =
+        getProfile(db, profile.id)?.position ??
+        ((
+            db.query("SELECT MAX(position) AS max FROM profiles").get() as {
+                max: number | null;
+            }
+        ).max ?? -1) + 1;
+
+    db.run(
+        `INSERT INTO profiles (id, name, position)
+         VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET name = excluded.name`,
+        [profile.id, profile.name, position],
+    );
+
+    return getProfile(db, profile.id)!;
+}
+
+/**
+ * Remove a profile from the registry (its files are left on disk)
+ *
+ * @returns true if the profile existed
+ * @throws {Error} For the default profile, which can't be removed
+ */
+export function deleteProfile(db: Database, id: string): boolean {
+    if (id === DEFAULT_PROFILE_ID) {
+        throw new Error("The default profile can't be deleted");
+    }
+    return db.run("DELETE FROM profiles WHERE id = ?", [id]).changes > 0;
+}
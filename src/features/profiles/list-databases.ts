@@ -0,0 +1,66 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import {
+    DEFAULT_PROFILE_ID,
+    profilePaths,
+} from "../../shared/config/app-paths";
+import { logger } from "../../shared/logging/logger";
+import { getDatabase } from "../bibliographic/db/schema";
+import { initListMirrorSchema } from "../calil/db/list-mirror";
+import { initListRegistrySchema } from "../lists/db/list-registry";
+import { initLocalListsSchema } from "../lists/db/local-lists";
+import { getSettingsDatabase } from "../settings/db/settings-db";
+
+/**
+ * Databases holding the lists of a profile
+ *
+ * - registry: list registry and local lists
+ * - mirror: local mirror of the Calil lists
+ *
+ * The default profile keeps them where a single-account install had them
+ * (settings.db / bibliographic.db); other profiles use one lists.db in
+ * their profile directory.
+ */
+export type ListDatabases = {
+    registry: Database;
+    mirror: Database;
+};
+
+const profileDatabases = new Map<string, Database>();
+
+/**
+ * Create the list tables of a profile database
+ */
+export function initializeProfileListsDatabase(db: Database): void {
+    initListRegistrySchema(db);
+    initLocalListsSchema(db);
+    initListMirrorSchema(db);
+}
+
+export function getListDatabases(
+    profile: string = DEFAULT_PROFILE_ID,
+): ListDatabases {
+    if (profile === DEFAULT_PROFILE_ID) {
+        return { registry: getSettingsDatabase(), mirror: getDatabase() };
+    }
+
+    let db = profileDatabases.get(profile);
+    if (!db) {
+        const dbPath = profilePaths(profile).listsDb;
+        mkdirSync(path.dirname(dbPath), { recursive: true });
+        db = new Database(dbPath, { create: true });
+        initializeProfileListsDatabase(db);
+        profileDatabases.set(profile, db);
+        logger.debug("Profile lists database opened", { profile, dbPath });
+    }
+    return { registry: db, mirror: db };
+}
+
+/**
+ * Close the lists database of a deleted profile
+ */
+export function closeListDatabases(profile: string): void {
+    profileDatabases.get(profile)?.close();
+    profileDatabases.delete(profile);
+}
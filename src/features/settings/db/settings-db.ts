@@ -0,0 +1,42 @@
+import { Database } from "bun:sqlite";
+import path from "node:path";
+import { appRoot } from "../../../shared/config/app-paths";
+import { logger } from "../../../shared/logging/logger";
+import { initRecordChoicesSchema } from "../../bibliographic/db/record-choices";
+import { initLibrariesSchema } from "../../calil/db/libraries";
+import { initListRegistrySchema } from "../../lists/db/list-registry";
+import { initLocalListsSchema } from "../../lists/db/local-lists";
+import { initProfilesSchema } from "../../profiles/db/profiles";
+
+/**
+ * User settings database (settings.db next to bibliographic.db)
+ *
+ * Kept apart from bibliographic.db, which is discarded whenever its schema
+ * version changes; user choices must survive those resets.
+ */
+
+let dbInstance: Database | null = null;
+
+/**
+ * Get or create the settings database instance
+ */
+export function getSettingsDatabase(): Database {
+    if (!dbInstance) {
+        const dbPath = path.join(appRoot, "settings.db");
+        dbInstance = new Database(dbPath, { create: true });
+        initializeSettingsDatabase(dbInstance);
+        logger.debug("Settings database opened", { dbPath });
+    }
+    return dbInstance;
+}
+
+/**
+ * Create all settings tables
+ */
+export function initializeSettingsDatabase(db: Database): void {
+    initLibrariesSchema(db);
+    initListRegistrySchema(db);
+    initLocalListsSchema(db);
+    initProfilesSchema(db);
+    initRecordChoicesSchema(db);
+}
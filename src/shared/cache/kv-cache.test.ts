@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import {
+    clearCacheNamespace,
+    deleteCacheEntry,
+    getCacheEntry,
+    getCacheStats,
+    initKvCacheSchema,
+    purgeExpiredCacheEntries,
+    setCacheEntry,
+} from "./kv-cache";
+
+const NOW = 1_700_000_000_000;
+
+let db: Database;
+
+beforeEach(() => {
+    db = new Database(":memory:");
+    initKvCacheSchema(db);
+});
+
+describe("kv-cache", () => {
+    test("保存した値をTTLの間だけ返す", () => {
+        setCacheEntry(db, "calil:default", "token", { value: "abc" }, 1000, NOW);
+
+        expect(
+            getCacheEntry<{ value: string }>(db, "calil:default", "token", NOW + 999),
+        ).toEqual({ value: "abc" });
+        expect(getCacheEntry(db, "calil:default", "token", NOW + 1000)).toBeNull();
+        // 期限切れのエントリは読んだときに削除される
+        expect(getCacheStats(db, NOW)).toEqual([]);
+    });
+
+    test("同じキーは上書きする", () => {
+        setCacheEntry(db, "ns", "count", 1, 1000, NOW);
+        setCacheEntry(db, "ns", "count", 2, 1000, NOW);
+
+        expect(getCacheEntry<number>(db, "ns", "count", NOW)).toBe(2);
+        expect(deleteCacheEntry(db, "ns", "count")).toBe(true);
+        expect(deleteCacheEntry(db, "ns", "count")).toBe(false);
+    });
+
+    test("名前空間の削除は下位の名前空間も消す", () => {
+        setCacheEntry(db, "calil:default", "token", "a", 1000, NOW);
+        setCacheEntry(db, "calil:default:wish", "metadata", {}, 1000, NOW);
+        setCacheEntry(db, "calil:default2", "token", "b", 1000, NOW);
+
+        expect(clearCacheNamespace(db, "calil:default")).toBe(2);
+        expect(getCacheEntry<string>(db, "calil:default2", "token", NOW)).toBe("b");
+    });
+
+    test("名前空間ごとの統計と期限切れの削除", () => {
+        setCacheEntry(db, "a", "1", "x", 1000, NOW);
+        setCacheEntry(db, "a", "2", "y", 10, NOW);
+        setCacheEntry(db, "b", "1", "z", 1000, NOW);
+
+        expect(getCacheStats(db, NOW + 100)).toEqual([
+            { namespace: "a", entries: 2, expired: 1, bytes: 6, lastUpdatedAt: NOW },
+            { namespace: "b", entries: 1, expired: 0, bytes: 3, lastUpdatedAt: NOW },
+        ]);
+        expect(purgeExpiredCacheEntries(db, NOW + 100)).toBe(1);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Small persistent key/value cache (cache.db in appRoot)
+ *
+ * Values are stored as JSON with an expiry time, grouped by namespace
+ * (e.g. "calil:default" for an account, "calil:default:wish" for one of its
+ * lists). Clearing a namespace also clears the namespaces below it, so
+ * "calil:default" drops everything cached for that account.
+ *
+ * Kept out of bibliographic.db and settings.db: it can be deleted at any
+ * time without losing anything but a few upstream requests.
+ */
+
+import { Database } from "bun:sqlite";
+import path from "node:path";
+import { appRoot } from "../config/app-paths";
+import { logger } from "../logging/logger";
+
+export type CacheNamespaceStats = {
+    namespace: string;
+    entries: number;
+    expired: number;
+    /** Size of the stored JSON in bytes */
+    bytes: number;
+    lastUpdatedAt: number | null;
+};
+
+let dbInstance: Database | null = null;
+
+/**
+ * Get or create the cache database instance
+ */
+export function getCacheDatabase(): Database {
+    if (!dbInstance) {
+        const dbPath = path.join(appRoot, "cache.db");
+        dbInstance = new Database(dbPath, { create: true });
+        initKvCacheSchema(dbInstance);
+        const purged = purgeExpiredCacheEntries(dbInstance);
+        logger.debug("Cache database opened", { dbPath, purged });
+    }
+    return dbInstance;
+}
+
+export function initKvCacheSchema(db: Database): void {
+    db.run(`
+        CREATE TABLE IF NOT EXISTS kv_cache (
+            namespace TEXT NOT NULL,
+            key TEXT NOT NULL,
+            value TEXT NOT NULL,
+            expires_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            PRIMARY KEY (namespace, key)
+        )
+    `);
+}
+
+/**
+ * Cached value, or null if missing or expired (expired entries are removed)
+ */
+export function getCacheEntry<T>(
+    db: Database,
+    namespace: string,
+    key: string,
+    now: number = Date.now(),
+): T | null {
+    const row = db
+        .query(
+            "SELECT value, expires_at FROM kv_cache WHERE namespace = ? AND key = ?",
+        )
+        .get(namespace, key) as { value: string; expires_at: number } | null;
+    if (!row) return null;
+
+    if (row.expires_at <= now) {
+        deleteCacheEntry(db, namespace, key);
+        return null;
+    }
+    return JSON.parse(row.value) as T;
+}
+
+export function setCacheEntry<T>(
+    db: Database,
+    namespace: string,
+    key: string,
+    value: T,
+    ttlMs: number,
+    now: number = Date.now(),
+): void {
+    db.run(
+        `INSERT INTO kv_cache (namespace, key, value, expires_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(namespace, key) DO UPDATE SET
+            value = excluded.value,
+            expires_at = excluded.expires_at,
+            updated_at = excluded.updated_at`,
+        [namespace, key, JSON.stringify(value), now + ttlMs, now],
+    );
+}
+
+/**
+ * @returns true if the entry existed
+ */
+export function deleteCacheEntry(
+    db: Database,
+    namespace: string,
+    key: string,
+): boolean {
+    return (
+        db.run("DELETE FROM kv_cache WHERE namespace = ? AND key = ?", [
+            namespace,
+            key,
+        ]).changes > 0
+    );
+}
+
+/**
+ * Remove a namespace and the namespaces below it ("<namespace>:...")
+ *
+ * @returns Number of removed entries
+ */
+export function clearCacheNamespace(db: Database, namespace: string): number {
+    return db.run(
+        "DELETE FROM kv_cache WHERE namespace = ? OR substr(namespace, 1, ?) = ?",
+        [namespace, namespace.length + 1, `${namespace}:`],
+    ).changes;
+}
+
+export function purgeExpiredCacheEntries(
+    db: Database,
+    now: number = Date.now(),
+): number {
+    return db.run("DELETE FROM kv_cache WHERE expires_at <= ?", [now]).changes;
+}
+
+export function getCacheStats(
+    db: Database,
+    now: number = Date.now(),
+): CacheNamespaceStats[] {
+    return db
+        .query(
+            `SELECT namespace,
+                    COUNT(*) AS entries,
+                    SUM(CASE WHEN expires_at <= ? THEN 1 ELSE 0 END) AS expired,
+                    SUM(LENGTH(CAST(value AS BLOB))) AS bytes,
+                    MAX(updated_at) AS lastUpdatedAt
+             FROM kv_cache
+             GROUP BY namespace
+             ORDER BY namespace`,
+        )
+        .all(now) as CacheNamespaceStats[];
+}
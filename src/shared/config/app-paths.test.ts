@@ -1,6 +1,7 @@
 import { test, expect, describe } from 'bun:test';
 import path from 'node:path';
 import { resolveAppRoot } from './path-utils';
+import { DEFAULT_PROFILE_ID, resolveProfilePaths } from './app-paths';
 
 /**
  * app-paths.tsのテスト
@@ -89,7 +90,9 @@ describe('App Paths', () => {
         coverCache: path.join(appRoot, 'cache', 'covers'),
         vaultDir: path.join(appRoot, 'vault'),
         vaultFile: path.join(appRoot, 'vault', 'calil.cookies.json'),
+        vaultKeyFile: path.join(appRoot, 'vault', 'vault.key'),
         chromeEndpointFile: path.join(appRoot, 'vault', 'chrome.ws'),
+        accessTokenFile: path.join(appRoot, 'vault', 'access.token'),
         browserProfile: path.join(appRoot, 'browser-profile'),
         chromiumCache: path.join(appRoot, 'chromium-cache'),
       };
@@ -99,7 +102,9 @@ describe('App Paths', () => {
       expect(appPaths.coverCache).toBe(path.join('/test/app/root', 'cache', 'covers'));
       expect(appPaths.vaultDir).toBe(path.join('/test/app/root', 'vault'));
       expect(appPaths.vaultFile).toBe(path.join('/test/app/root', 'vault', 'calil.cookies.json'));
+      expect(appPaths.vaultKeyFile).toBe(path.join('/test/app/root', 'vault', 'vault.key'));
       expect(appPaths.chromeEndpointFile).toBe(path.join('/test/app/root', 'vault', 'chrome.ws'));
+      expect(appPaths.accessTokenFile).toBe(path.join('/test/app/root', 'vault', 'access.token'));
       expect(appPaths.browserProfile).toBe(path.join('/test/app/root', 'browser-profile'));
       expect(appPaths.chromiumCache).toBe(path.join('/test/app/root', 'chromium-cache'));
     });
@@ -131,6 +136,28 @@ describe('App Paths', () => {
     });
   });
 
+  describe('プロファイルごとのパス', () => {
+    test('defaultプロファイルは従来の場所を使う', () => {
+      const paths = resolveProfilePaths('/test/root', DEFAULT_PROFILE_ID);
+
+      expect(paths.root).toBe('/test/root');
+      expect(paths.vaultFile).toBe(path.join('/test/root', 'vault', 'calil.cookies.json'));
+      expect(paths.vaultKeyFile).toBe(path.join('/test/root', 'vault', 'vault.key'));
+      expect(paths.chromeEndpointFile).toBe(path.join('/test/root', 'vault', 'chrome.ws'));
+      expect(paths.browserProfile).toBe(path.join('/test/root', 'browser-profile'));
+    });
+
+    test('ほかのプロファイルは profiles/<id> の下に分ける', () => {
+      const paths = resolveProfilePaths('/test/root', 'partner');
+      const profileRoot = path.join('/test/root', 'profiles', 'partner');
+
+      expect(paths.root).toBe(profileRoot);
+      expect(paths.vaultFile).toBe(path.join(profileRoot, 'vault', 'calil.cookies.json'));
+      expect(paths.browserProfile).toBe(path.join(profileRoot, 'browser-profile'));
+      expect(paths.listsDb).toBe(path.join(profileRoot, 'lists.db'));
+    });
+  });
+
   describe('パス結合の正確性', () => {
     test('path.joinが正しく機能する', () => {
       const parts = ['root', 'cache', 'covers'];
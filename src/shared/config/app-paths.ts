@@ -15,11 +15,60 @@ export const appPaths = {
     coverCache: path.join(appRoot, 'cache', 'covers'),
     vaultDir: path.join(appRoot, 'vault'),
     vaultFile: path.join(appRoot, 'vault', 'calil.cookies.json'),
+    vaultKeyFile: path.join(appRoot, 'vault', 'vault.key'),
     chromeEndpointFile: path.join(appRoot, 'vault', 'chrome.ws'),
+    accessTokenFile: path.join(appRoot, 'vault', 'access.token'),
     browserProfile: path.join(appRoot, 'browser-profile'),
     chromiumCache: path.join(appRoot, 'chromium-cache'),
+    profilesDir: path.join(appRoot, 'profiles'),
 };
 
+/**
+ * Profile used when none is selected; its files keep the original layout
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+export type ProfilePaths = {
+    root: string;
+    vaultDir: string;
+    vaultFile: string;
+    vaultKeyFile: string;
+    chromeEndpointFile: string;
+    browserProfile: string;
+    /**
+     * Lists registry, local lists and the list mirror of the profile
+     * (the default profile keeps them in settings.db / bibliographic.db)
+     */
+    listsDb: string;
+};
+
+/**
+ * Per-profile (per Calil account) paths
+ *
+ * The default profile uses the paths of a single-account install so that
+ * existing vaults and browser profiles keep working; other profiles live in
+ * profiles/<id>/. Caches shared by all accounts (bibliographic.db, covers,
+ * Chromium) stay in appPaths.
+ */
+export function resolveProfilePaths(root: string, profileId: string): ProfilePaths {
+    const profileRoot = profileId === DEFAULT_PROFILE_ID
+        ? root
+        : path.join(root, 'profiles', profileId);
+    return {
+        root: profileRoot,
+        vaultDir: path.join(profileRoot, 'vault'),
+        vaultFile: path.join(profileRoot, 'vault', 'calil.cookies.json'),
+        vaultKeyFile: path.join(profileRoot, 'vault', 'vault.key'),
+        chromeEndpointFile: path.join(profileRoot, 'vault', 'chrome.ws'),
+        browserProfile: path.join(profileRoot, 'browser-profile'),
+        listsDb: path.join(profileRoot, 'lists.db'),
+    };
+}
+
+export function profilePaths(profileId: string = DEFAULT_PROFILE_ID): ProfilePaths {
+    return resolveProfilePaths(appRoot, profileId);
+}
+
 export async function ensureDir(directory: string) {
     await mkdir(directory, { recursive: true });
 }
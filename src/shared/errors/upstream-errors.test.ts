@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+    CalilAuthError,
+    CalilRateLimitError,
+    CalilTokenExpiredError,
+    UpstreamRequestError,
+    UpstreamUnavailableError,
+    calilErrorFromResponse,
+    errorFromResponse,
+    networkError,
+    parseRetryAfter,
+} from "./upstream-errors";
+
+const response = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+describe("calilErrorFromResponse", () => {
+    test("401/403 はトークン取得なら認証エラー、リストAPIならトークン期限切れ", () => {
+        const auth = calilErrorFromResponse(response(401), "token", CalilAuthError);
+        expect(auth).toBeInstanceOf(CalilAuthError);
+        expect(auth.status).toBe(401);
+        expect(auth.retryable).toBe(false);
+
+        const expired = calilErrorFromResponse(
+            response(403),
+            "list",
+            CalilTokenExpiredError,
+        );
+        expect(expired).toBeInstanceOf(CalilTokenExpiredError);
+        expect(expired.status).toBe(403);
+        expect(expired.retryable).toBe(true);
+    });
+
+    test("429 はレート制限エラーで Retry-After を保持する", () => {
+        const error = calilErrorFromResponse(
+            response(429, { "Retry-After": "30" }),
+            "list",
+            CalilTokenExpiredError,
+        );
+        expect(error).toBeInstanceOf(CalilRateLimitError);
+        expect((error as CalilRateLimitError).retryAfterSeconds).toBe(30);
+        expect(error.retryable).toBe(true);
+    });
+
+    test("5xx は利用不可エラー", () => {
+        const error = calilErrorFromResponse(
+            response(503),
+            "list",
+            CalilTokenExpiredError,
+        );
+        expect(error).toBeInstanceOf(UpstreamUnavailableError);
+        expect(error.upstream).toBe("calil");
+        expect(error.message).toBe("list: 503");
+    });
+});
+
+describe("errorFromResponse", () => {
+    test("429 と 5xx は再試行可能、その他の 4xx は再試行不可", () => {
+        expect(errorFromResponse("ndl", response(429), "ndl")).toBeInstanceOf(
+            UpstreamUnavailableError,
+        );
+        expect(errorFromResponse("ndl", response(500), "ndl").retryable).toBe(
+            true,
+        );
+
+        const error = errorFromResponse("ndl", response(400), "ndl");
+        expect(error).toBeInstanceOf(UpstreamRequestError);
+        expect(error.retryable).toBe(false);
+        expect(error.code).toBe("upstream_request_failed");
+    });
+});
+
+describe("networkError", () => {
+    test("fetch の失敗を利用不可エラーとして包む", () => {
+        const cause = new TypeError("fetch failed");
+        const error = networkError("ndl", "NDL request failed", cause);
+
+        expect(error).toBeInstanceOf(UpstreamUnavailableError);
+        expect(error.status).toBeNull();
+        expect(error.cause).toBe(cause);
+        expect(error.name).toBe("UpstreamUnavailableError");
+    });
+});
+
+describe("parseRetryAfter", () => {
+    test("秒数と HTTP 日付を解釈する", () => {
+        expect(parseRetryAfter("120")).toBe(120);
+        expect(parseRetryAfter(null)).toBeNull();
+        expect(parseRetryAfter("invalid")).toBeNull();
+
+        const inOneMinute = new Date(Date.now() + 60_000).toUTCString();
+        const seconds = parseRetryAfter(inOneMinute)!;
+        expect(seconds).toBeGreaterThan(50);
+        expect(seconds).toBeLessThanOrEqual(60);
+    });
+});
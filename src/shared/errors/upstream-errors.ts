@@ -0,0 +1,196 @@
+/**
+ * Errors raised by the Calil, NDL and other metadata clients
+ *
+ * Callers decide what to do (re-login, refresh the token, retry later)
+ * by checking the error class instead of matching message strings.
+ * Every error carries the upstream HTTP status (if there was a response)
+ * and whether retrying the same request later may succeed.
+ */
+
+export type Upstream = "calil" | "ndl" | "openbd" | "google";
+
+export abstract class UpstreamError extends Error {
+    /** Machine-readable error code returned to API clients */
+    abstract readonly code: string;
+
+    constructor(
+        message: string,
+        readonly upstream: Upstream,
+        /** HTTP status returned by the upstream, if any */
+        readonly status: number | null,
+        /** Whether the same request may succeed if retried later */
+        readonly retryable: boolean,
+        options?: { cause?: unknown },
+    ) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The Calil session is missing or no longer valid; a new login is needed
+ */
+export class CalilAuthError extends UpstreamError {
+    readonly code = "calil_auth_required";
+
+    constructor(message: string, status: number | null = 401) {
+        super(message, "calil", status, false);
+    }
+}
+
+/**
+ * The Yomitai token was rejected; fetching a new token and retrying may work
+ */
+export class CalilTokenExpiredError extends UpstreamError {
+    readonly code = "calil_token_expired";
+
+    constructor(message: string, status: number | null = 403) {
+        super(message, "calil", status, true);
+    }
+}
+
+/**
+ * Calil asked us to slow down (HTTP 429)
+ */
+export class CalilRateLimitError extends UpstreamError {
+    readonly code = "calil_rate_limited";
+
+    constructor(
+        message: string,
+        /** Seconds from the Retry-After header, if present */
+        readonly retryAfterSeconds: number | null = null,
+    ) {
+        super(message, "calil", 429, true);
+    }
+}
+
+/**
+ * The upstream could not be reached or answered with a server error
+ */
+export class UpstreamUnavailableError extends UpstreamError {
+    readonly code = "upstream_unavailable";
+
+    /** Seconds from the Retry-After header, if present */
+    readonly retryAfterSeconds: number | null;
+
+    constructor(
+        upstream: Upstream,
+        message: string,
+        status: number | null = null,
+        options?: { cause?: unknown; retryAfterSeconds?: number | null },
+    ) {
+        super(message, upstream, status, true, options);
+        this.retryAfterSeconds = options?.retryAfterSeconds ?? null;
+    }
+}
+
+/**
+ * The upstream rejected the request itself (other 4xx); retrying won't help
+ */
+export class UpstreamRequestError extends UpstreamError {
+    readonly code = "upstream_request_failed";
+
+    constructor(upstream: Upstream, message: string, status: number) {
+        super(message, upstream, status, false);
+    }
+}
+
+/**
+ * The NDL response could not be understood as an OpenSearch feed
+ */
+export class NdlParseError extends UpstreamError {
+    readonly code = "ndl_parse_error";
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, "ndl", null, false, options);
+    }
+}
+
+/**
+ * The openBD or Google Books response was not the expected JSON
+ */
+export class MetadataParseError extends UpstreamError {
+    readonly code = "metadata_parse_error";
+
+    constructor(upstream: Upstream, message: string, options?: { cause?: unknown }) {
+        super(message, upstream, null, false, options);
+    }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, Math.ceil(seconds));
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return null;
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Map a failed Calil response to an error
+ *
+ * @param authError - Error class for 401/403: the token endpoint answers
+ *   these when the session is gone, the list API when the token expired
+ */
+export function calilErrorFromResponse(
+    response: Response,
+    context: string,
+    authError: typeof CalilAuthError | typeof CalilTokenExpiredError,
+): UpstreamError {
+    const message = `${context}: ${response.status} ${response.statusText}`.trim();
+
+    if (response.status === 401 || response.status === 403) {
+        return new authError(message, response.status);
+    }
+    if (response.status === 429) {
+        return new CalilRateLimitError(
+            message,
+            parseRetryAfter(response.headers.get("retry-after")),
+        );
+    }
+    return errorFromResponse("calil", response, context);
+}
+
+/**
+ * Map a failed response without upstream-specific meaning to an error
+ * 429 and 5xx are retryable, other statuses are not.
+ */
+export function errorFromResponse(
+    upstream: Upstream,
+    response: Response,
+    context: string,
+): UpstreamError {
+    const message = `${context}: ${response.status} ${response.statusText}`.trim();
+
+    if (response.status === 429 || response.status >= 500) {
+        return new UpstreamUnavailableError(upstream, message, response.status, {
+            retryAfterSeconds: parseRetryAfter(
+                response.headers.get("retry-after"),
+            ),
+        });
+    }
+    return new UpstreamRequestError(upstream, message, response.status);
+}
+
+/**
+ * Wrap a network-level failure (DNS, connection reset, ...) of fetch()
+ */
+export function networkError(
+    upstream: Upstream,
+    context: string,
+    error: unknown,
+): UpstreamUnavailableError {
+    return new UpstreamUnavailableError(
+        upstream,
+        `${context}: ${error instanceof Error ? error.message : String(error)}`,
+        null,
+        { cause: error },
+    );
+}
@@ -0,0 +1,231 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+    USER_AGENT,
+    backoffDelay,
+    configureUpstream,
+    getUpstreamBaseUrl,
+    httpRequest,
+    resetUpstreamPolicies,
+} from "./http-client";
+import { UpstreamUnavailableError } from "../errors/upstream-errors";
+
+// Stub upstream: each path answers with a scripted sequence of statuses
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+let hits = new Map<string, number>();
+let userAgents: (string | null)[] = [];
+// Concurrent requests to /slow seen by the server
+let inFlight = 0;
+let maxInFlight = 0;
+
+const scripts: Record<string, (hit: number) => Response | Promise<Response>> = {
+    "/flaky": (hit) =>
+        hit === 1 ? new Response("busy", { status: 503 }) : new Response("ok"),
+    "/retry-after": (hit) =>
+        hit === 1
+            ? new Response("slow down", {
+                  status: 429,
+                  headers: { "Retry-After": "0" },
+              })
+            : new Response("ok"),
+    "/retry-after-long": () =>
+        new Response("slow down", {
+            status: 429,
+            headers: { "Retry-After": "3600" },
+        }),
+    "/down": () => new Response("down", { status: 500 }),
+    "/missing": () => new Response("missing", { status: 404 }),
+    "/hang": async () => {
+        await Bun.sleep(200);
+        return new Response("late");
+    },
+    "/slow": async () => {
+        await Bun.sleep(30);
+        return new Response("ok");
+    },
+};
+
+beforeAll(() => {
+    server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+            const { pathname } = new URL(req.url);
+            const hit = (hits.get(pathname) ?? 0) + 1;
+            hits.set(pathname, hit);
+            userAgents.push(req.headers.get("user-agent"));
+
+            if (pathname !== "/slow") {
+                return scripts[pathname]!(hit);
+            }
+
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            try {
+                return await scripts[pathname]!(hit);
+            } finally {
+                inFlight--;
+            }
+        },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+    server.stop(true);
+});
+
+beforeEach(() => {
+    hits = new Map();
+    userAgents = [];
+    maxInFlight = 0;
+    configureUpstream("ndl", { baseDelayMs: 1, maxDelayMs: 5 });
+});
+
+afterEach(() => {
+    resetUpstreamPolicies();
+});
+
+describe("httpRequest", () => {
+    test("5xx は再試行して成功したレスポンスを返す", async () => {
+        const res = await httpRequest(`${baseUrl}/flaky`, {
+            upstream: "ndl",
+            context: "test",
+        });
+
+        expect(res.status).toBe(200);
+        expect(hits.get("/flaky")).toBe(2);
+        expect(userAgents[0]).toBe(USER_AGENT);
+    });
+
+    test("Retry-After に従って再試行する", async () => {
+        const res = await httpRequest(`${baseUrl}/retry-after`, {
+            upstream: "ndl",
+            context: "test",
+        });
+
+        expect(res.status).toBe(200);
+        expect(hits.get("/retry-after")).toBe(2);
+    });
+
+    test("Retry-After が長すぎる場合は待たずに返す", async () => {
+        const res = await httpRequest(`${baseUrl}/retry-after-long`, {
+            upstream: "ndl",
+            context: "test",
+        });
+
+        expect(res.status).toBe(429);
+        expect(hits.get("/retry-after-long")).toBe(1);
+    });
+
+    test("再試行回数を超えたら最後のレスポンスを返す", async () => {
+        configureUpstream("ndl", { maxRetries: 2 });
+
+        const res = await httpRequest(`${baseUrl}/down`, {
+            upstream: "ndl",
+            context: "test",
+        });
+
+        expect(res.status).toBe(500);
+        expect(hits.get("/down")).toBe(3);
+    });
+
+    test("4xx は再試行しない", async () => {
+        const res = await httpRequest(`${baseUrl}/missing`, {
+            upstream: "ndl",
+            context: "test",
+        });
+
+        expect(res.status).toBe(404);
+        expect(hits.get("/missing")).toBe(1);
+    });
+
+    test("POST は idempotent 指定が無ければ再試行しない", async () => {
+        const once = await httpRequest(`${baseUrl}/flaky`, {
+            upstream: "ndl",
+            context: "test",
+            method: "POST",
+        });
+        expect(once.status).toBe(503);
+
+        hits = new Map();
+        const retried = await httpRequest(`${baseUrl}/flaky`, {
+            upstream: "ndl",
+            context: "test",
+            method: "POST",
+            idempotent: true,
+        });
+        expect(retried.status).toBe(200);
+        expect(hits.get("/flaky")).toBe(2);
+    });
+
+    test("タイムアウトは UpstreamUnavailableError になる", async () => {
+        configureUpstream("ndl", { timeoutMs: 20, maxRetries: 1 });
+
+        const error = await httpRequest(`${baseUrl}/hang`, {
+            upstream: "ndl",
+            context: "hang",
+        }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(UpstreamUnavailableError);
+        expect(error.upstream).toBe("ndl");
+        expect(hits.get("/hang")).toBe(2);
+    });
+
+    test("ホストごとの同時接続数を制限する", async () => {
+        configureUpstream("ndl", { maxConcurrency: 2 });
+
+        const responses = await Promise.all(
+            Array.from({ length: 6 }, () =>
+                httpRequest(`${baseUrl}/slow`, {
+                    upstream: "ndl",
+                    context: "test",
+                }),
+            ),
+        );
+
+        expect(responses.every((res) => res.ok)).toBe(true);
+        expect(maxInFlight).toBe(2);
+    });
+});
+
+describe("backoffDelay", () => {
+    test("指数的に増える上限の範囲でばらつく", () => {
+        const policy = {
+            timeoutMs: 1000,
+            maxRetries: 3,
+            baseDelayMs: 100,
+            maxDelayMs: 1000,
+            maxRetryAfterMs: 1000,
+            maxConcurrency: 1,
+        };
+
+        for (let i = 0; i < 20; i++) {
+            expect(backoffDelay(0, policy)).toBeLessThanOrEqual(100);
+            expect(backoffDelay(2, policy)).toBeLessThanOrEqual(400);
+            expect(backoffDelay(10, policy)).toBeLessThanOrEqual(1000);
+        }
+    });
+});
+
+describe("getUpstreamBaseUrl", () => {
+    test("環境変数で接続先を変更できる", () => {
+        const original = process.env.NDL_BASE_URL;
+        try {
+            process.env.NDL_BASE_URL = "http://localhost:9999/";
+            expect(getUpstreamBaseUrl("ndl")).toBe("http://localhost:9999");
+
+            expect(getUpstreamBaseUrl("thumbnail")).toBe(
+                "http://localhost:9999/thumbnail",
+            );
+
+            delete process.env.NDL_BASE_URL;
+            expect(getUpstreamBaseUrl("ndl")).toBe("https://ndlsearch.ndl.go.jp");
+
+            process.env.NDL_THUMBNAIL_BASE_URL = "http://covers.local/img";
+            expect(getUpstreamBaseUrl("thumbnail")).toBe("http://covers.local/img");
+        } finally {
+            if (original !== undefined) process.env.NDL_BASE_URL = original;
+            delete process.env.NDL_THUMBNAIL_BASE_URL;
+        }
+    });
+});
@@ -0,0 +1,313 @@
+/**
+ * Shared client for outbound requests to Calil, NDL, openBD and Google Books
+ *
+ * Every upstream call goes through httpRequest(), which adds:
+ * - a timeout per upstream
+ * - retries with exponential backoff and jitter for network errors,
+ *   429 and 5xx (GET/HEAD, or requests marked idempotent)
+ * - Retry-After handling (capped by maxRetryAfterMs)
+ * - a cap on concurrent requests per host
+ * - a User-Agent and request/latency logging through logger
+ * - the proxy and CA settings from ./proxy
+ *
+ * Failed responses are returned as-is after the last attempt so callers
+ * can map them with errorFromResponse(); network failures and timeouts
+ * are thrown as UpstreamUnavailableError.
+ */
+
+import { logger } from "../logging/logger";
+import {
+    networkError,
+    parseRetryAfter,
+    type Upstream,
+} from "../errors/upstream-errors";
+import { outboundFetchOptions } from "./proxy";
+import pkg from "../../../package.json";
+
+export type UpstreamPolicy = {
+    /** Abort a single attempt after this many milliseconds */
+    timeoutMs: number;
+    /** Additional attempts after the first one */
+    maxRetries: number;
+    /** Base delay of the exponential backoff */
+    baseDelayMs: number;
+    /** Upper bound of a single backoff delay */
+    maxDelayMs: number;
+    /** Longest Retry-After we are willing to wait before retrying */
+    maxRetryAfterMs: number;
+    /** Concurrent requests allowed per host */
+    maxConcurrency: number;
+};
+
+const DEFAULT_POLICIES: Record<Upstream, UpstreamPolicy> = {
+    calil: {
+        timeoutMs: 15_000,
+        maxRetries: 2,
+        baseDelayMs: 500,
+        maxDelayMs: 5_000,
+        maxRetryAfterMs: 30_000,
+        maxConcurrency: 4,
+    },
+    ndl: {
+        timeoutMs: 10_000,
+        maxRetries: 3,
+        baseDelayMs: 500,
+        maxDelayMs: 8_000,
+        maxRetryAfterMs: 30_000,
+        maxConcurrency: 4,
+    },
+    openbd: {
+        timeoutMs: 10_000,
+        maxRetries: 2,
+        baseDelayMs: 500,
+        maxDelayMs: 5_000,
+        maxRetryAfterMs: 30_000,
+        maxConcurrency: 4,
+    },
+    // The anonymous Google Books quota is small; stay gentle
+    google: {
+        timeoutMs: 10_000,
+        maxRetries: 1,
+        baseDelayMs: 1_000,
+        maxDelayMs: 5_000,
+        maxRetryAfterMs: 10_000,
+        maxConcurrency: 2,
+    },
+};
+
+/**
+ * Configurable upstream endpoints: the Calil web/list API, NDL OpenSearch,
+ * the NDL thumbnail server, openBD and Google Books
+ */
+export type UpstreamEndpoint = Upstream | "thumbnail";
+
+const DEFAULT_BASE_URLS: Record<Upstream, string> = {
+    calil: "https://calil.jp",
+    ndl: "https://ndlsearch.ndl.go.jp",
+    openbd: "https://api.openbd.jp",
+    google: "https://www.googleapis.com",
+};
+
+const BASE_URL_ENV: Record<UpstreamEndpoint, string> = {
+    calil: "CALIL_BASE_URL",
+    ndl: "NDL_BASE_URL",
+    thumbnail: "NDL_THUMBNAIL_BASE_URL",
+    openbd: "OPENBD_BASE_URL",
+    google: "GOOGLE_BOOKS_BASE_URL",
+};
+
+export const USER_AGENT = `${pkg.name}/${pkg.version}`;
+
+const policies: Record<Upstream, UpstreamPolicy> = {
+    calil: { ...DEFAULT_POLICIES.calil },
+    ndl: { ...DEFAULT_POLICIES.ndl },
+    openbd: { ...DEFAULT_POLICIES.openbd },
+    google: { ...DEFAULT_POLICIES.google },
+};
+
+/**
+ * Base URL of an upstream endpoint, overridable with CALIL_BASE_URL,
+ * NDL_BASE_URL, NDL_THUMBNAIL_BASE_URL, OPENBD_BASE_URL and
+ * GOOGLE_BOOKS_BASE_URL
+ * Thumbnails default to /thumbnail on the NDL base URL.
+ */
+export function getUpstreamBaseUrl(endpoint: UpstreamEndpoint): string {
+    const configured = process.env[BASE_URL_ENV[endpoint]];
+    const fallback =
+        endpoint === "thumbnail"
+            ? `${getUpstreamBaseUrl("ndl")}/thumbnail`
+            : DEFAULT_BASE_URLS[endpoint];
+    return (configured || fallback).replace(/\/+$/, "");
+}
+
+/**
+ * Override parts of an upstream's policy (mainly for tests)
+ */
+export function configureUpstream(
+    upstream: Upstream,
+    policy: Partial<UpstreamPolicy>,
+): void {
+    Object.assign(policies[upstream], policy);
+}
+
+/**
+ * Restore the default policies
+ */
+export function resetUpstreamPolicies(): void {
+    policies.calil = { ...DEFAULT_POLICIES.calil };
+    policies.ndl = { ...DEFAULT_POLICIES.ndl };
+    policies.openbd = { ...DEFAULT_POLICIES.openbd };
+    policies.google = { ...DEFAULT_POLICIES.google };
+}
+
+// Per-host concurrency limiter: slots in use and callers waiting for one
+const hostSlots = new Map<string, { active: number; waiting: (() => void)[] }>();
+
+async function acquireSlot(host: string, limit: number): Promise<() => void> {
+    let slots = hostSlots.get(host);
+    if (!slots) {
+        slots = { active: 0, waiting: [] };
+        hostSlots.set(host, slots);
+    }
+
+    if (slots.active >= limit) {
+        await new Promise<void>((resolve) => slots!.waiting.push(resolve));
+    } else {
+        slots.active++;
+    }
+
+    return () => {
+        const next = slots!.waiting.shift();
+        if (next) {
+            // Hand the slot directly to the next waiter
+            next();
+        } else {
+            slots!.active--;
+        }
+    };
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+/**
+ * Backoff delay for the given retry (0-based), using "full jitter"
+ */
+export function backoffDelay(attempt: number, policy: UpstreamPolicy): number {
+    const ceiling = Math.min(
+        policy.maxDelayMs,
+        policy.baseDelayMs * 2 ** attempt,
+    );
+    return Math.round(Math.random() * ceiling);
+}
+
+export type HttpRequestOptions = RequestInit & {
+    upstream: Upstream;
+    /** Describes the request in logs and errors */
+    context: string;
+    /** Allow retrying non-GET requests that are safe to repeat */
+    idempotent?: boolean;
+};
+
+/**
+ * Send a request to an upstream with timeout, retries and concurrency cap
+ *
+ * @throws {UpstreamUnavailableError} On network failure or timeout of the last attempt
+ */
+export async function httpRequest(
+    url: string,
+    options: HttpRequestOptions,
+): Promise<Response> {
+    const { upstream, context, idempotent, ...init } = options;
+    const policy = policies[upstream];
+    const method = (init.method ?? "GET").toUpperCase();
+    const canRetry = idempotent ?? (method === "GET" || method === "HEAD");
+    const maxAttempts = canRetry ? policy.maxRetries + 1 : 1;
+    const { host, pathname } = new URL(url);
+
+    const headers = new Headers(init.headers);
+    if (!headers.has("user-agent")) {
+        headers.set("user-agent", USER_AGENT);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+        const release = await acquireSlot(host, policy.maxConcurrency);
+        const startedAt = performance.now();
+        let response: Response;
+
+        try {
+            const timeout = AbortSignal.timeout(policy.timeoutMs);
+            response = await fetch(url, {
+                ...init,
+                ...outboundFetchOptions(url),
+                headers,
+                signal: init.signal
+                    ? AbortSignal.any([init.signal, timeout])
+                    : timeout,
+            });
+        } catch (error) {
+            const latencyMs = Math.round(performance.now() - startedAt);
+            release();
+
+            if (init.signal?.aborted || attempt >= maxAttempts) {
+                logger.warn("HTTP request failed", {
+                    upstream,
+                    method,
+                    host,
+                    path: pathname,
+                    attempt,
+                    latencyMs,
+                    error: String(error),
+                });
+                throw networkError(upstream, context, error);
+            }
+
+            const delayMs = backoffDelay(attempt - 1, policy);
+            logger.warn("HTTP request failed, retrying", {
+                upstream,
+                method,
+                host,
+                path: pathname,
+                attempt,
+                latencyMs,
+                delayMs,
+                error: String(error),
+            });
+            await Bun.sleep(delayMs);
+            continue;
+        }
+
+        const latencyMs = Math.round(performance.now() - startedAt);
+        release();
+
+        if (!isRetryableStatus(response.status) || attempt >= maxAttempts) {
+            logger.debug("HTTP request completed", {
+                upstream,
+                method,
+                host,
+                path: pathname,
+                status: response.status,
+                attempt,
+                latencyMs,
+            });
+            return response;
+        }
+
+        const retryAfterSeconds = parseRetryAfter(
+            response.headers.get("retry-after"),
+        );
+        if (
+            retryAfterSeconds !== null &&
+            retryAfterSeconds * 1000 > policy.maxRetryAfterMs
+        ) {
+            // Waiting that long would block the caller; let it fail now
+            logger.warn("HTTP Retry-After too long, giving up", {
+                upstream,
+                host,
+                path: pathname,
+                status: response.status,
+                retryAfterSeconds,
+            });
+            return response;
+        }
+
+        const delayMs =
+            retryAfterSeconds !== null
+                ? retryAfterSeconds * 1000
+                : backoffDelay(attempt - 1, policy);
+        logger.warn("HTTP request got retryable status, retrying", {
+            upstream,
+            method,
+            host,
+            path: pathname,
+            status: response.status,
+            attempt,
+            latencyMs,
+            delayMs,
+        });
+        // Drain the body so the connection can be reused
+        await response.body?.cancel().catch(() => undefined);
+        await Bun.sleep(delayMs);
+    }
+}
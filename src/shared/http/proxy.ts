@@ -0,0 +1,132 @@
+/**
+ * Proxy and CA settings for outbound traffic
+ *
+ * Reads the usual HTTPS_PROXY / HTTP_PROXY / NO_PROXY variables (upper or
+ * lower case) and an optional extra CA bundle (UPSTREAM_CA_FILE, PEM) that
+ * is trusted in addition to the built-in root certificates. The same
+ * settings are handed to Chrome for the Calil login.
+ */
+
+import { readFileSync } from "node:fs";
+import { rootCertificates } from "node:tls";
+import { logger } from "../logging/logger";
+
+function env(name: string): string | undefined {
+    return process.env[name] || process.env[name.toLowerCase()] || undefined;
+}
+
+/**
+ * Whether NO_PROXY excludes the given URL
+ *
+ * Entries are comma separated host names; "example.com" and ".example.com"
+ * also match subdomains, "host:port" only matches that port, "*" matches all.
+ */
+export function isProxyBypassed(url: URL, noProxy = env("NO_PROXY")): boolean {
+    if (!noProxy) return false;
+
+    const host = url.hostname.toLowerCase();
+    const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+    return noProxy
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .some((rawEntry) => {
+            const entry = rawEntry.toLowerCase();
+            if (entry === "*") return true;
+
+            const [entryHost = "", entryPort] = entry.split(":");
+            if (entryPort && entryPort !== port) return false;
+
+            const domain = entryHost.replace(/^\*?\./, "");
+            return host === domain || host.endsWith(`.${domain}`);
+        });
+}
+
+/**
+ * Proxy URL to use for a request, or undefined for a direct connection
+ */
+export function resolveProxy(target: string | URL): string | undefined {
+    const url = typeof target === "string" ? new URL(target) : target;
+    if (isProxyBypassed(url)) return undefined;
+
+    return url.protocol === "https:"
+        ? env("HTTPS_PROXY") ?? env("HTTP_PROXY")
+        : env("HTTP_PROXY");
+}
+
+let caCache: { path: string; certs: string[] } | null = null;
+
+/**
+ * Trusted CA certificates when UPSTREAM_CA_FILE is set
+ *
+ * @returns The built-in roots plus the extra bundle, or undefined to use
+ *   the runtime defaults
+ */
+export function getTrustedCertificates(): string[] | undefined {
+    const path = env("UPSTREAM_CA_FILE");
+    if (!path) return undefined;
+
+    if (caCache?.path !== path) {
+        const bundle = readFileSync(path, "utf8");
+        caCache = { path, certs: [...rootCertificates, bundle] };
+        logger.info("Loaded extra CA bundle for upstream requests", { path });
+    }
+    return caCache.certs;
+}
+
+/**
+ * Extra fetch() options (Bun) carrying the proxy and CA settings for a URL
+ */
+export function outboundFetchOptions(target: string): {
+    proxy?: string;
+    tls?: { ca: string[] };
+} {
+    const options: { proxy?: string; tls?: { ca: string[] } } = {};
+
+    const proxy = resolveProxy(target);
+    if (proxy) options.proxy = proxy;
+
+    const ca = getTrustedCertificates();
+    if (ca) options.tls = { ca };
+
+    return options;
+}
+
+/**
+ * Chrome command line flags and credentials for the configured proxy
+ *
+ * Chrome can't take credentials in --proxy-server, so they are returned
+ * separately for page.authenticate().
+ */
+export function getBrowserProxySettings(): {
+    args: string[];
+    credentials: { username: string; password: string } | null;
+} {
+    const raw = env("HTTPS_PROXY") ?? env("HTTP_PROXY");
+    if (!raw) return { args: [], credentials: null };
+
+    const proxy = new URL(raw);
+    const credentials = proxy.username
+        ? {
+              username: decodeURIComponent(proxy.username),
+              password: decodeURIComponent(proxy.password),
+          }
+        : null;
+
+    const args = [`--proxy-server=${proxy.protocol}//${proxy.host}`];
+    const noProxy = env("NO_PROXY");
+    if (noProxy) {
+        // NO_PROXY entries also cover subdomains, Chrome's bypass list doesn't
+        const bypass = noProxy
+            .split(/[\s,]+/)
+            .filter(Boolean)
+            .flatMap((entry) => {
+                if (entry === "*") return [entry];
+                const domain = entry.replace(/^\*?\./, "");
+                return [domain, `*.${domain}`];
+            });
+        args.push(`--proxy-bypass-list=${bypass.join(";")}`);
+    }
+
+    return { args, credentials };
+}
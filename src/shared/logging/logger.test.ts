@@ -189,6 +189,23 @@ describe('Logger', () => {
     });
   });
 
+  describe('秘密情報のマスク', () => {
+    test('メッセージとデータの Cookie・トークンを記録前にマスクする', () => {
+      logger.warn('request headers: {"Cookie":"session=abc","accept":"*/*"}', {
+        headers: { Cookie: 'session=abc', 'Calil-Yomitai-Token': 'tok123', accept: '*/*' },
+      });
+      const entry = logger.getLogs()[0]!;
+
+      expect(entry.message).not.toContain('session=abc');
+      expect(entry.data.headers).toEqual({
+        Cookie: '[REDACTED]',
+        'Calil-Yomitai-Token': '[REDACTED]',
+        accept: '*/*',
+      });
+      expect(logger.formatForDisplay()).not.toContain('tok123');
+    });
+  });
+
   describe('タイムスタンプ', () => {
     test('各ログエントリにタイムスタンプが付与される', () => {
       const before = new Date();
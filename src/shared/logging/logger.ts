@@ -4,6 +4,7 @@ import {
     LEVEL_TO_CONSOLE_METHOD,
     type LogLevel,
 } from './common';
+import { createRedactor, getRedactKeys } from './redact';
 
 export type { LogLevel };
 
@@ -17,13 +18,15 @@ export interface LogEntry {
 class Logger {
     private logs: LogEntry[] = [];
     private maxLogs = 500; // Keep last 500 logs
+    // Cookies and tokens must never reach /log or the console
+    private redactor = createRedactor(getRedactKeys());
 
     log(level: LogLevel, message: string, data?: any) {
         const entry: LogEntry = {
             timestamp: new Date(),
             level,
-            message,
-            data,
+            message: this.redactor.redactString(message),
+            data: data === undefined ? undefined : this.redactor.redactData(data),
         };
 
         this.logs.push(entry);
@@ -36,10 +39,10 @@ class Logger {
         // Also output to console using appropriate method
         const method = LEVEL_TO_CONSOLE_METHOD[level];
         const prefix = `[${level.toUpperCase()}]`;
-        if (data !== undefined) {
-            (console[method] as typeof console.log)(prefix, message, data);
+        if (entry.data !== undefined) {
+            (console[method] as typeof console.log)(prefix, entry.message, entry.data);
         } else {
-            (console[method] as typeof console.log)(prefix, message);
+            (console[method] as typeof console.log)(prefix, entry.message);
         }
     }
 